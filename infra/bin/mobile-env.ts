@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+// Copies the stack outputs the mobile app needs from cdk-outputs.json (written by
+// `cdk deploy --outputs-file`) into packages/mobile/.env, where Expo picks them up
+import * as fs from 'fs';
+import * as path from 'path';
+
+const outputsFile = path.join(__dirname, '..', 'cdk-outputs.json');
+const envFile = path.join(__dirname, '..', '..', 'packages', 'mobile', '.env');
+
+const outputs: Record<string, string> = JSON.parse(fs.readFileSync(outputsFile, 'utf8')).ProofedStack;
+
+fs.writeFileSync(
+  envFile,
+  [
+    `EXPO_PUBLIC_API_URL=${outputs.ApiUrl}`,
+    `EXPO_PUBLIC_CHAT_STREAM_URL=${outputs.ChatStreamUrl}`,
+    '',
+  ].join('\n')
+);
+console.log(`Wrote ${path.relative(process.cwd(), envFile)}`);
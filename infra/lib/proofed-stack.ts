@@ -7,8 +7,16 @@ import * as apigatewayAuthorizers from 'aws-cdk-lib/aws-apigatewayv2-authorizers
 import * as cognito from 'aws-cdk-lib/aws-cognito';
 import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as s3deploy from 'aws-cdk-lib/aws-s3-deployment';
+import * as s3n from 'aws-cdk-lib/aws-s3-notifications';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventsTargets from 'aws-cdk-lib/aws-events-targets';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as ssm from 'aws-cdk-lib/aws-ssm';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import * as snsSubscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
 import { Construct } from 'constructs';
 import * as path from 'path';
 
@@ -35,6 +43,16 @@ export class ProofedStack extends cdk.Stack {
       pointInTimeRecovery: true,
     });
 
+    // One row per saved version of a recipe, sorted by `${recipeId}#${revision}`
+    const recipeRevisionsTable = new dynamodb.Table(this, 'RecipeRevisionsTable', {
+      tableName: 'proofed-recipe-revisions',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'revisionId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      pointInTimeRecovery: true,
+    });
+
     const variantsTable = new dynamodb.Table(this, 'VariantsTable', {
       tableName: 'proofed-variants',
       partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
@@ -52,6 +70,12 @@ export class ProofedStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.RETAIN,
       pointInTimeRecovery: true,
     });
+    // The bake log pages through attempts by their planned bake date rather than creation order
+    attemptsTable.addGlobalSecondaryIndex({
+      indexName: 'date-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'date', type: dynamodb.AttributeType.STRING },
+    });
 
     const proofedItemsTable = new dynamodb.Table(this, 'ProofedItemsTable', {
       tableName: 'proofed-proofed-items',
@@ -69,12 +93,70 @@ export class ProofedStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.RETAIN, // Preserve user preferences
     });
 
+    // Public share links, looked up by token from the unauthenticated /shared route
+    const sharesTable = new dynamodb.Table(this, 'SharesTable', {
+      tableName: 'proofed-shares',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'token', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+    sharesTable.addGlobalSecondaryIndex({
+      indexName: 'token-index',
+      partitionKey: { name: 'token', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Per-user AI call counters by day and month; rows expire once their period is over
+    const aiUsageTable = new dynamodb.Table(this, 'AiUsageTable', {
+      tableName: 'proofed-ai-usage',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'period', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // One row per AI model call with its tokens and cost; the day index feeds the admin cost report
+    const aiCallsTable = new dynamodb.Table(this, 'AiCallsTable', {
+      tableName: 'proofed-ai-calls',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'callId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+    aiCallsTable.addGlobalSecondaryIndex({
+      indexName: 'day-index',
+      partitionKey: { name: 'day', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'callId', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Crumb chat threads, one row per attempt and item usage
+    const crumbChatsTable = new dynamodb.Table(this, 'CrumbChatsTable', {
+      tableName: 'proofed-crumb-chats',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'threadId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
     const ingredientSubmissionsTable = new dynamodb.Table(this, 'IngredientSubmissionsTable', {
       tableName: 'proofed-ingredient-submissions',
       partitionKey: { name: 'submissionId', type: dynamodb.AttributeType.STRING },
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       removalPolicy: cdk.RemovalPolicy.RETAIN,
     });
+    // The admin review queue, and each submitter's own suggestions
+    ingredientSubmissionsTable.addGlobalSecondaryIndex({
+      indexName: 'status-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+    });
+    ingredientSubmissionsTable.addGlobalSecondaryIndex({
+      indexName: 'user-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+    });
 
     // Cognito User Pool
     const userPool = new cognito.UserPool(this, 'ProofedUserPool', {
@@ -96,6 +178,13 @@ export class ProofedStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.RETAIN,
     });
 
+    // Members can moderate ingredient submissions; add users to it in the Cognito console
+    new cognito.CfnUserPoolGroup(this, 'AdminGroup', {
+      userPoolId: userPool.userPoolId,
+      groupName: 'admin',
+      description: 'Proofed administrators',
+    });
+
     // Cognito App Client for mobile app
     const userPoolClient = userPool.addClient('ProofedMobileClient', {
       userPoolClientName: 'proofed-mobile',
@@ -132,7 +221,24 @@ export class ProofedStack extends cdk.Stack {
       autoDeleteObjects: true,
       cors: [
         {
-          allowedMethods: [s3.HttpMethods.GET, s3.HttpMethods.PUT],
+          allowedMethods: [s3.HttpMethods.GET, s3.HttpMethods.POST],
+          allowedOrigins: ['*'],
+          allowedHeaders: ['*'],
+          maxAge: 3000,
+        },
+      ],
+    });
+
+    // S3 Bucket for account data exports (archives are only reachable via presigned URLs)
+    const exportsBucket = new s3.Bucket(this, 'ExportsBucket', {
+      bucketName: `proofed-exports-${this.account}-${this.region}`,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      autoDeleteObjects: true,
+      lifecycleRules: [{ expiration: cdk.Duration.days(7) }],
+      // Account imports upload their archive straight here with a presigned POST
+      cors: [
+        {
+          allowedMethods: [s3.HttpMethods.POST],
           allowedOrigins: ['*'],
           allowedHeaders: ['*'],
           maxAge: 3000,
@@ -199,11 +305,12 @@ export class ProofedStack extends cdk.Stack {
       })
     );
 
-    // Deploy ingredients.json to assets bucket
+    // Deploy the hand-curated ingredients.json as the seed list. The API publishes
+    // published/ingredients.json from it plus approved submissions, so deploys don't undo approvals.
     new s3deploy.BucketDeployment(this, 'DeployIngredients', {
       sources: [s3deploy.Source.asset(path.join(__dirname, '../../data'))],
       destinationBucket: assetsBucket,
-      destinationKeyPrefix: 'data',
+      destinationKeyPrefix: 'seed',
     });
 
     // S3 Bucket for Frontend
@@ -245,14 +352,241 @@ export class ProofedStack extends cdk.Stack {
       environment: {
         ITEMS_TABLE: itemsTable.tableName,
         RECIPES_TABLE: recipesTable.tableName,
+        RECIPE_REVISIONS_TABLE: recipeRevisionsTable.tableName,
         VARIANTS_TABLE: variantsTable.tableName,
         ATTEMPTS_TABLE: attemptsTable.tableName,
         PROOFED_ITEMS_TABLE: proofedItemsTable.tableName,
         PREFERENCES_TABLE: preferencesTable.tableName,
         INGREDIENT_SUBMISSIONS_TABLE: ingredientSubmissionsTable.tableName,
+        SHARES_TABLE: sharesTable.tableName,
+        AI_USAGE_TABLE: aiUsageTable.tableName,
+        AI_CALLS_TABLE: aiCallsTable.tableName,
+        CRUMB_CHATS_TABLE: crumbChatsTable.tableName,
+        // Override the default AI quotas with: cdk deploy -c aiQuotas='{"chat":{"daily":100}}'
+        AI_QUOTAS: this.node.tryGetContext('aiQuotas') ?? '',
+        // Pick models per AI feature with: cdk deploy -c aiModels='{"chat":"gpt-4o"}'
+        AI_MODELS: this.node.tryGetContext('aiModels') ?? '',
+        // Price models the backend doesn't know with: cdk deploy -c aiPrices='{"gpt-4o":{"input":2.5,"output":10}}'
+        AI_PRICES: this.node.tryGetContext('aiPrices') ?? '',
+        AI_PROVIDER: 'openai',
         PHOTOS_BUCKET: photosBucket.bucketName,
         ASSETS_BUCKET: assetsBucket.bucketName,
+        EXPORTS_BUCKET: exportsBucket.bucketName,
+        OPENAI_PARAM_NAME: openaiParameter.parameterName,
+      },
+    });
+
+    // Export worker - builds large account exports in the background
+    const exportWorker = new lambda.Function(this, 'ExportWorker', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.exportWorker',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../packages/backend/dist')),
+      timeout: cdk.Duration.minutes(15),
+      memorySize: 2048,
+      environment: {
+        ITEMS_TABLE: itemsTable.tableName,
+        RECIPES_TABLE: recipesTable.tableName,
+        VARIANTS_TABLE: variantsTable.tableName,
+        ATTEMPTS_TABLE: attemptsTable.tableName,
+        PROOFED_ITEMS_TABLE: proofedItemsTable.tableName,
+        PREFERENCES_TABLE: preferencesTable.tableName,
+        PHOTOS_BUCKET: photosBucket.bucketName,
+        EXPORTS_BUCKET: exportsBucket.bucketName,
+      },
+    });
+
+    itemsTable.grantReadData(exportWorker);
+    recipesTable.grantReadData(exportWorker);
+    variantsTable.grantReadData(exportWorker);
+    attemptsTable.grantReadData(exportWorker);
+    proofedItemsTable.grantReadData(exportWorker);
+    preferencesTable.grantReadData(exportWorker);
+    photosBucket.grantRead(exportWorker);
+    exportsBucket.grantReadWrite(exportWorker);
+
+    // The API starts an export by writing {userId}/{exportId}/request.json
+    exportsBucket.addEventNotification(
+      s3.EventType.OBJECT_CREATED,
+      new s3n.LambdaDestination(exportWorker),
+      { suffix: '/request.json' }
+    );
+
+    // Import worker - restores uploaded export archives in the background
+    const importWorker = new lambda.Function(this, 'ImportWorker', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.importWorker',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../packages/backend/dist')),
+      timeout: cdk.Duration.minutes(15),
+      memorySize: 1024,
+      environment: {
+        ITEMS_TABLE: itemsTable.tableName,
+        RECIPES_TABLE: recipesTable.tableName,
+        VARIANTS_TABLE: variantsTable.tableName,
+        ATTEMPTS_TABLE: attemptsTable.tableName,
+        PROOFED_ITEMS_TABLE: proofedItemsTable.tableName,
+        PREFERENCES_TABLE: preferencesTable.tableName,
+        PHOTOS_BUCKET: photosBucket.bucketName,
+        EXPORTS_BUCKET: exportsBucket.bucketName,
+      },
+    });
+
+    itemsTable.grantWriteData(importWorker);
+    recipesTable.grantWriteData(importWorker);
+    variantsTable.grantWriteData(importWorker);
+    attemptsTable.grantWriteData(importWorker);
+    proofedItemsTable.grantWriteData(importWorker);
+    preferencesTable.grantReadWriteData(importWorker);
+    // Read as well as put: each restored photo is copied onto itself to queue its processing
+    photosBucket.grantReadWrite(importWorker);
+    exportsBucket.grantReadWrite(importWorker);
+    exportsBucket.grantDelete(importWorker);
+
+    // Clients upload the archive to imports/{userId}/{importId}/archive.tar
+    exportsBucket.addEventNotification(
+      s3.EventType.OBJECT_CREATED,
+      new s3n.LambdaDestination(importWorker),
+      { prefix: 'imports/', suffix: '/archive.tar' }
+    );
+
+    // Trash purger - permanently removes rows (and bake photos) deleted more than 30 days ago
+    const trashPurger = new lambda.Function(this, 'TrashPurger', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.purgeTrash',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../packages/backend/dist')),
+      timeout: cdk.Duration.minutes(15),
+      memorySize: 512,
+      environment: {
+        ITEMS_TABLE: itemsTable.tableName,
+        RECIPES_TABLE: recipesTable.tableName,
+        RECIPE_REVISIONS_TABLE: recipeRevisionsTable.tableName,
+        VARIANTS_TABLE: variantsTable.tableName,
+        ATTEMPTS_TABLE: attemptsTable.tableName,
+        PHOTOS_BUCKET: photosBucket.bucketName,
+      },
+    });
+
+    itemsTable.grantReadWriteData(trashPurger);
+    recipesTable.grantReadWriteData(trashPurger);
+    recipeRevisionsTable.grantReadWriteData(trashPurger);
+    variantsTable.grantReadWriteData(trashPurger);
+    attemptsTable.grantReadWriteData(trashPurger);
+    photosBucket.grantRead(trashPurger);
+    photosBucket.grantDelete(trashPurger);
+
+    new events.Rule(this, 'TrashPurgeSchedule', {
+      schedule: events.Schedule.cron({ minute: '0', hour: '4' }),
+      targets: [new eventsTargets.LambdaFunction(trashPurger)],
+    });
+
+    // Photo reconciler - deletes stored photos that no attempt refers to
+    const photoReconciler = new lambda.Function(this, 'PhotoReconciler', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.reconcilePhotos',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../packages/backend/dist')),
+      timeout: cdk.Duration.minutes(15),
+      memorySize: 512,
+      environment: {
+        ATTEMPTS_TABLE: attemptsTable.tableName,
+        PHOTOS_BUCKET: photosBucket.bucketName,
+      },
+    });
+
+    attemptsTable.grantReadData(photoReconciler);
+    photosBucket.grantRead(photoReconciler);
+    photosBucket.grantDelete(photoReconciler);
+
+    new events.Rule(this, 'PhotoReconcileSchedule', {
+      schedule: events.Schedule.cron({ minute: '0', hour: '5', weekDay: 'SUN' }),
+      targets: [new eventsTargets.LambdaFunction(photoReconciler)],
+    });
+
+    // sharp ships native binaries, so it is installed for the Lambda platform in a layer
+    const sharpLayer = new lambda.LayerVersion(this, 'SharpLayer', {
+      code: lambda.Code.fromAsset(path.join(__dirname, '../layers/sharp'), {
+        bundling: {
+          image: lambda.Runtime.NODEJS_20_X.bundlingImage,
+          environment: { npm_config_cache: '/tmp/.npm' },
+          command: [
+            'bash',
+            '-c',
+            'mkdir -p /asset-output/nodejs && cp package.json /asset-output/nodejs/ && cd /asset-output/nodejs && npm install --omit=dev --os=linux --cpu=x64',
+          ],
+        },
+      }),
+      compatibleRuntimes: [lambda.Runtime.NODEJS_20_X],
+    });
+
+    // Photo processor - strips metadata from uploads and makes their thumbnail and medium copies
+    const photoProcessor = new lambda.Function(this, 'PhotoProcessor', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.photoProcessor',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../packages/backend/dist')),
+      layers: [sharpLayer],
+      timeout: cdk.Duration.minutes(1),
+      memorySize: 1536,
+      environment: {
+        ATTEMPTS_TABLE: attemptsTable.tableName,
+        PHOTOS_BUCKET: photosBucket.bucketName,
+      },
+      // Uploads that still fail after Lambda's two retries are kept here rather than dropped
+      deadLetterQueue: new sqs.Queue(this, 'PhotoProcessorDeadLetterQueue', {
+        retentionPeriod: cdk.Duration.days(14),
+      }),
+    });
+
+    attemptsTable.grantReadWriteData(photoProcessor);
+    photosBucket.grantReadWrite(photoProcessor);
+
+    // Keys can't tell originals from renditions with a prefix or suffix, so the processor listens
+    // for how objects arrive instead: apps upload with a POST policy, and an account import copies
+    // each photo onto itself once its attempt is written. The renditions and rewritten originals
+    // the processor PUTs never invoke it.
+    photosBucket.addEventNotification(
+      s3.EventType.OBJECT_CREATED_POST,
+      new s3n.LambdaDestination(photoProcessor)
+    );
+    photosBucket.addEventNotification(
+      s3.EventType.OBJECT_CREATED_COPY,
+      new s3n.LambdaDestination(photoProcessor)
+    );
+
+    // Crumb chat streaming - API Gateway buffers responses, so replies stream from a function URL
+    const chatStreamHandler = new lambda.Function(this, 'ChatStreamHandler', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.crumbChatStream',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../../packages/backend/dist')),
+      timeout: cdk.Duration.seconds(60),
+      memorySize: 256,
+      environment: {
+        ATTEMPTS_TABLE: attemptsTable.tableName,
+        CRUMB_CHATS_TABLE: crumbChatsTable.tableName,
+        AI_USAGE_TABLE: aiUsageTable.tableName,
+        AI_CALLS_TABLE: aiCallsTable.tableName,
+        AI_QUOTAS: this.node.tryGetContext('aiQuotas') ?? '',
+        AI_MODELS: this.node.tryGetContext('aiModels') ?? '',
+        AI_PRICES: this.node.tryGetContext('aiPrices') ?? '',
+        AI_PROVIDER: 'openai',
         OPENAI_PARAM_NAME: openaiParameter.parameterName,
+        // The function URL has no authorizer; the handler checks ID tokens against these
+        USER_POOL_ID: userPool.userPoolId,
+        USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+      },
+    });
+
+    attemptsTable.grantReadData(chatStreamHandler);
+    crumbChatsTable.grantReadWriteData(chatStreamHandler);
+    aiUsageTable.grantReadWriteData(chatStreamHandler);
+    aiCallsTable.grantWriteData(chatStreamHandler);
+    openaiParameter.grantRead(chatStreamHandler);
+
+    const chatStreamUrl = chatStreamHandler.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.NONE,
+      invokeMode: lambda.InvokeMode.RESPONSE_STREAM,
+      cors: {
+        allowedOrigins: ['*'],
+        allowedMethods: [lambda.HttpMethod.POST],
+        allowedHeaders: ['Content-Type', 'Authorization'],
+        exposedHeaders: ['Retry-After'],
       },
     });
 
@@ -262,14 +596,20 @@ export class ProofedStack extends cdk.Stack {
     // Grant permissions
     itemsTable.grantReadWriteData(apiHandler);
     recipesTable.grantReadWriteData(apiHandler);
+    recipeRevisionsTable.grantReadWriteData(apiHandler);
     variantsTable.grantReadWriteData(apiHandler);
     attemptsTable.grantReadWriteData(apiHandler);
     proofedItemsTable.grantReadWriteData(apiHandler);
     preferencesTable.grantReadWriteData(apiHandler);
     ingredientSubmissionsTable.grantReadWriteData(apiHandler);
+    sharesTable.grantReadWriteData(apiHandler);
+    aiUsageTable.grantReadWriteData(apiHandler);
+    aiCallsTable.grantReadWriteData(apiHandler);
+    crumbChatsTable.grantReadWriteData(apiHandler);
     photosBucket.grantReadWrite(apiHandler);
     photosBucket.grantPut(apiHandler);
-    assetsBucket.grantRead(apiHandler);
+    assetsBucket.grantReadWrite(apiHandler);
+    exportsBucket.grantReadWrite(apiHandler);
 
     // Allow generating presigned URLs
     apiHandler.addToRolePolicy(
@@ -283,7 +623,7 @@ export class ProofedStack extends cdk.Stack {
     const httpApi = new apigateway.HttpApi(this, 'ProofedApi', {
       apiName: 'proofed-api',
       corsPreflight: {
-        allowHeaders: ['Content-Type', 'Authorization'],
+        allowHeaders: ['Content-Type', 'Authorization', 'If-None-Match'],
         allowMethods: [
           apigateway.CorsHttpMethod.GET,
           apigateway.CorsHttpMethod.POST,
@@ -292,6 +632,8 @@ export class ProofedStack extends cdk.Stack {
           apigateway.CorsHttpMethod.OPTIONS,
         ],
         allowOrigins: ['*'],
+        // The web app reads the file name of downloaded PDFs from this header
+        exposeHeaders: ['Content-Disposition', 'ETag', 'Retry-After'],
         maxAge: cdk.Duration.days(1),
       },
     });
@@ -337,6 +679,44 @@ export class ProofedStack extends cdk.Stack {
       integration,
       authorizer,
     });
+    httpApi.addRoutes({
+      path: '/items/{itemId}/recipes/import',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/items/{itemId}/recipes/{recipeId}/export',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/items/{itemId}/recipes/{recipeId}/pdf',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
+
+    // Recipe revision routes
+    httpApi.addRoutes({
+      path: '/items/{itemId}/recipes/{recipeId}/revisions',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/items/{itemId}/recipes/{recipeId}/revisions/{revision}',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/items/{itemId}/recipes/{recipeId}/revisions/{revision}/restore',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
 
     // Variants routes
     httpApi.addRoutes({
@@ -371,12 +751,37 @@ export class ProofedStack extends cdk.Stack {
       integration,
       authorizer,
     });
+    httpApi.addRoutes({
+      path: '/attempts/{attemptId}/pdf',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
     httpApi.addRoutes({
       path: '/attempts/{attemptId}/ai-advice',
       methods: [apigateway.HttpMethod.POST],
       integration,
       authorizer,
     });
+    httpApi.addRoutes({
+      path: '/attempts/{attemptId}/ai-advice/regenerate',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/attempts/{attemptId}/ai-advice/current',
+      methods: [apigateway.HttpMethod.PUT],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/attempts/{attemptId}/crumb-chat/threads',
+      methods: [apigateway.HttpMethod.GET, apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+    // App builds from before chat threads still post the whole conversation here
     httpApi.addRoutes({
       path: '/attempts/{attemptId}/crumb-chat',
       methods: [apigateway.HttpMethod.POST],
@@ -419,6 +824,18 @@ export class ProofedStack extends cdk.Stack {
       integration,
       authorizer,
     });
+    httpApi.addRoutes({
+      path: '/photos/download-urls',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/photos/{key+}',
+      methods: [apigateway.HttpMethod.DELETE],
+      integration,
+      authorizer,
+    });
 
     // Account routes
     httpApi.addRoutes({
@@ -427,6 +844,82 @@ export class ProofedStack extends cdk.Stack {
       integration,
       authorizer,
     });
+    httpApi.addRoutes({
+      path: '/account/export',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/account/export/{exportId}',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/account/import',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/account/import/archive',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/account/import/archive/{importId}',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
+
+    // Trash routes
+    httpApi.addRoutes({
+      path: '/trash',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/trash/{id}/restore',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+
+    // Share routes
+    httpApi.addRoutes({
+      path: '/recipes/{recipeId}/share',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/proofed-items/{proofedItemId}/share',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/shares',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/shares/{token}',
+      methods: [apigateway.HttpMethod.DELETE],
+      integration,
+      authorizer,
+    });
+    // No authorizer: anyone with the link can read the snapshot
+    httpApi.addRoutes({
+      path: '/shared/{token}',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+    });
 
     // Sources routes
     httpApi.addRoutes({
@@ -457,12 +950,50 @@ export class ProofedStack extends cdk.Stack {
       integration,
       authorizer,
     });
+    httpApi.addRoutes({
+      path: '/ingredients/submissions',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
     httpApi.addRoutes({
       path: '/ingredients/parse',
       methods: [apigateway.HttpMethod.POST],
       integration,
       authorizer,
     });
+    httpApi.addRoutes({
+      path: '/recipes/import-html',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+
+    // Ingredient moderation routes; the Lambda checks the caller is in the admin group
+    httpApi.addRoutes({
+      path: '/admin/ingredient-submissions',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/admin/ingredient-submissions/{submissionId}/approve',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/admin/ingredient-submissions/{submissionId}/reject',
+      methods: [apigateway.HttpMethod.POST],
+      integration,
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: '/admin/ai-costs',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
 
     // Nutrition routes
     httpApi.addRoutes({
@@ -472,6 +1003,13 @@ export class ProofedStack extends cdk.Stack {
       authorizer,
     });
 
+    httpApi.addRoutes({
+      path: '/ai/usage',
+      methods: [apigateway.HttpMethod.GET],
+      integration,
+      authorizer,
+    });
+
     // Product search routes
     httpApi.addRoutes({
       path: '/products/search',
@@ -492,11 +1030,56 @@ export class ProofedStack extends cdk.Stack {
       description: 'API Gateway endpoint URL',
     });
 
+    new cdk.CfnOutput(this, 'ChatStreamUrl', {
+      value: chatStreamUrl.url,
+      description: 'Streaming Crumb chat function URL',
+    });
+
     new cdk.CfnOutput(this, 'FrontendUrl', {
       value: frontendBucket.bucketWebsiteUrl,
       description: 'Frontend S3 website URL',
     });
 
+    // AI spend alarms. The backend logs each call's cost as a metric in the Proofed/AI namespace;
+    // set the thresholds in US dollars with: cdk deploy -c aiDailySpendAlarmUsd=50 -c alarmEmail=you@example.com
+    const alarmTopic = new sns.Topic(this, 'AlarmTopic', { displayName: 'Proofed alarms' });
+    const alarmEmail = this.node.tryGetContext('alarmEmail');
+    if (alarmEmail) {
+      alarmTopic.addSubscription(new snsSubscriptions.EmailSubscription(alarmEmail));
+    }
+
+    const aiSpendAlarms = [
+      {
+        id: 'AiDailySpendAlarm',
+        period: cdk.Duration.days(1),
+        thresholdUsd: Number(this.node.tryGetContext('aiDailySpendAlarmUsd') ?? 20),
+        description: 'AI model spend for the day is over budget',
+      },
+      {
+        // Catches a runaway loop or abuse well before the daily total would
+        id: 'AiHourlySpendAlarm',
+        period: cdk.Duration.hours(1),
+        thresholdUsd: Number(this.node.tryGetContext('aiHourlySpendAlarmUsd') ?? 5),
+        description: 'AI model spend in the last hour is unusually high',
+      },
+    ];
+    for (const { id, period, thresholdUsd, description } of aiSpendAlarms) {
+      const alarm = new cloudwatch.Alarm(this, id, {
+        metric: new cloudwatch.Metric({
+          namespace: 'Proofed/AI',
+          metricName: 'CostUsd',
+          statistic: cloudwatch.Stats.SUM,
+          period,
+        }),
+        threshold: thresholdUsd,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        evaluationPeriods: 1,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        alarmDescription: `${description} (over $${thresholdUsd})`,
+      });
+      alarm.addAlarmAction(new cloudwatchActions.SnsAction(alarmTopic));
+    }
+
     new cdk.CfnOutput(this, 'PhotosBucketName', {
       value: photosBucket.bucketName,
       description: 'Photos S3 bucket name',
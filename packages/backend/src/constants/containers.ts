@@ -0,0 +1,41 @@
+import type { ContainerInfo, ContainerType } from '@proofed/shared';
+
+// Container type display names
+export const CONTAINER_NAMES: Record<ContainerType, string> = {
+  round_cake_tin: 'round cake tin',
+  square_cake_tin: 'square cake tin',
+  loaf_tin: 'loaf tin',
+  bundt_tin: 'bundt tin',
+  sheet_pan: 'sheet pan',
+  muffin_tin: 'muffin tin',
+  other: 'container', // kept for backwards compatibility
+};
+
+// e.g. 2 × 8" round cake tins, or 24 standard cups (2 trays) for muffins
+export function formatContainer(container: ContainerInfo): string {
+  const typeName = CONTAINER_NAMES[container.type];
+  const plural = container.count > 1 ? 's' : '';
+
+  switch (container.type) {
+    case 'round_cake_tin':
+    case 'square_cake_tin':
+      return `${container.count} × ${container.size}" ${typeName}${plural}`;
+
+    case 'loaf_tin':
+    case 'sheet_pan':
+      return `${container.count} × ${container.length}"×${container.width}" ${typeName}${plural}`;
+
+    case 'bundt_tin':
+      return `${container.count} × ${container.capacity}-cup ${typeName}${plural}`;
+
+    case 'muffin_tin':
+      const cupLabel = container.cupSize === 'mini' ? 'mini' : container.cupSize === 'jumbo' ? 'jumbo' : 'standard';
+      const cupsPerTray = container.cupsPerTray || 12;
+      const totalCups = cupsPerTray * container.count;
+      const trayText = container.count > 1 ? `(${container.count} trays)` : '(1 tray)';
+      return `${totalCups} ${cupLabel} cups ${trayText}`;
+
+    default:
+      return `${container.count} × ${typeName}${plural}`;
+  }
+}
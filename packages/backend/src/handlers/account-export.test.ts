@@ -0,0 +1,142 @@
+/**
+ * Tests for account exports: the archive is streamed to S3 and jobs that die are reported as failed
+ *
+ * Run with: npx jest src/handlers/account-export.test.ts
+ */
+
+import { DynamoDBDocumentClient, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { S3Client, GetObjectCommand, ListObjectsV2Command, PutObjectCommand } from '@aws-sdk/client-s3';
+import { mockClient } from 'aws-sdk-client-mock';
+import type { S3Event } from 'aws-lambda';
+import type { AccountExportManifest } from '@proofed/shared';
+import { readTar } from '../lib/tar';
+import { exportWorker, getAccountExport, startAccountExport } from './account-export';
+
+jest.mock('@aws-sdk/s3-request-presigner', () => ({
+  getSignedUrl: jest.fn(async () => 'https://exports.example/proofed-export.tar'),
+}));
+
+// The multipart uploader looks up the region before its first request
+process.env.AWS_REGION = 'eu-west-2';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+const s3Mock = mockClient(S3Client);
+
+const USER_ID = 'user-1';
+const CREATED_AT = '2026-10-01T10:00:00.000Z';
+const PHOTO_KEY = `${USER_ID}/attempts/attempt-1/1759312800000-cake.jpg`;
+const GONE_KEY = `${USER_ID}/attempts/attempt-1/1759312900000-gone.jpg`;
+
+function s3Body(text: string) {
+  return { transformToString: async () => text, transformToByteArray: async () => Buffer.from(text) };
+}
+
+function givenJob(file: string, job: Record<string, unknown>) {
+  s3Mock.on(GetObjectCommand, { Key: `${USER_ID}/export-1/${file}` }).resolves({
+    Body: s3Body(JSON.stringify(job)) as never,
+  });
+}
+
+function written(key: string) {
+  return s3Mock.commandCalls(PutObjectCommand).filter((call) => call.args[0].input.Key === key);
+}
+
+// The files in an archive, by path
+async function untar(body: unknown): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+  for await (const entry of readTar([Buffer.from(body as Uint8Array)])) {
+    files[entry.path] = entry.body.toString();
+  }
+  return files;
+}
+
+function uploadedArchive(): Promise<Record<string, string>> {
+  const [upload] = written(`${USER_ID}/export-1/proofed-export.tar`);
+  return untar(upload.args[0].input.Body);
+}
+
+const pendingJob = {
+  userId: USER_ID,
+  exportId: 'export-1',
+  includePhotos: true,
+  status: 'pending',
+  createdAt: CREATED_AT,
+};
+
+const workerEvent = {
+  Records: [{ s3: { object: { key: `${USER_ID}/export-1/request.json` } } }],
+} as unknown as S3Event;
+
+beforeEach(() => {
+  dynamoMock.reset();
+  s3Mock.reset();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  dynamoMock.on(QueryCommand).resolves({ Items: [] });
+  dynamoMock.on(GetCommand).resolves({});
+  dynamoMock
+    .on(QueryCommand, { ExpressionAttributeValues: { ':userId': USER_ID } })
+    .resolves({ Items: [{ userId: USER_ID, itemId: 'item-1', name: 'Sponge', type: 'batter' }] });
+  s3Mock.on(PutObjectCommand).resolves({});
+});
+
+describe('startAccountExport', () => {
+  it('builds a small export without photos straight away', async () => {
+    const result = await startAccountExport(USER_ID, false);
+
+    expect(result).toMatchObject({ status: 'ready', downloadUrl: 'https://exports.example/proofed-export.tar' });
+    const [upload] = s3Mock
+      .commandCalls(PutObjectCommand)
+      .filter((call) => call.args[0].input.Key!.endsWith('/proofed-export.tar'));
+    const files = await untar(upload.args[0].input.Body);
+    const manifest = JSON.parse(files['manifest.json']) as AccountExportManifest;
+    expect(manifest.items).toHaveLength(1);
+    expect(manifest.photos).toEqual([]);
+  });
+});
+
+describe('exportWorker', () => {
+  it('streams the manifest and then each photo into the archive', async () => {
+    givenJob('request.json', pendingJob);
+    s3Mock.on(ListObjectsV2Command).resolves({ Contents: [{ Key: PHOTO_KEY }, { Key: GONE_KEY }] });
+    s3Mock.on(GetObjectCommand, { Key: PHOTO_KEY }).resolves({ Body: s3Body('jpeg bytes') as never });
+    s3Mock.on(GetObjectCommand, { Key: GONE_KEY }).rejects(Object.assign(new Error('gone'), { name: 'NoSuchKey' }));
+
+    await exportWorker(workerEvent);
+
+    const files = await uploadedArchive();
+    expect(Object.keys(files)).toEqual(['manifest.json', 'photos/attempts/attempt-1/1759312800000-cake.jpg']);
+    expect(files['photos/attempts/attempt-1/1759312800000-cake.jpg']).toBe('jpeg bytes');
+    expect(JSON.parse(files['manifest.json']).photos).toHaveLength(2);
+    const [status] = written(`${USER_ID}/export-1/status.json`);
+    expect(JSON.parse(status.args[0].input.Body as string).status).toBe('ready');
+  });
+
+  it('marks the job failed when the archive cannot be written', async () => {
+    givenJob('request.json', { ...pendingJob, includePhotos: false });
+    s3Mock
+      .on(PutObjectCommand, { Key: `${USER_ID}/export-1/proofed-export.tar` })
+      .rejects(new Error('Access Denied'));
+
+    await exportWorker(workerEvent);
+
+    const [status] = written(`${USER_ID}/export-1/status.json`);
+    expect(JSON.parse(status.args[0].input.Body as string)).toMatchObject({ status: 'failed' });
+  });
+});
+
+describe('getAccountExport', () => {
+  it('reports a job the worker never finished as failed', async () => {
+    givenJob('status.json', pendingJob);
+
+    const result = await getAccountExport(USER_ID, 'export-1');
+
+    expect(result.status).toBe('failed');
+    expect(written(`${USER_ID}/export-1/status.json`)).toHaveLength(1);
+  });
+
+  it('leaves a recent job pending', async () => {
+    givenJob('status.json', { ...pendingJob, createdAt: new Date().toISOString() });
+
+    expect((await getAccountExport(USER_ID, 'export-1')).status).toBe('pending');
+  });
+});
@@ -0,0 +1,276 @@
+import { ulid } from 'ulid';
+import { S3Client, GetObjectCommand, PutObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { S3Event } from 'aws-lambda';
+import { getItem, queryItems } from '../lib/dynamo';
+import { createTar } from '../lib/tar';
+import type { TarEntry } from '../lib/tar';
+import { ACCOUNT_EXPORT_FORMAT_VERSION, NotFoundError } from '@proofed/shared';
+import type {
+  Item,
+  Recipe,
+  Variant,
+  Attempt,
+  ProofedItem,
+  UserPreferences,
+  AccountExportManifest,
+  AccountExportResponse,
+  AccountExportStatus,
+  ExportedPhoto,
+} from '@proofed/shared';
+
+const s3Client = new S3Client({});
+const ITEMS_TABLE = process.env.ITEMS_TABLE!;
+const RECIPES_TABLE = process.env.RECIPES_TABLE!;
+const VARIANTS_TABLE = process.env.VARIANTS_TABLE!;
+const ATTEMPTS_TABLE = process.env.ATTEMPTS_TABLE!;
+const PROOFED_ITEMS_TABLE = process.env.PROOFED_ITEMS_TABLE!;
+const PREFERENCES_TABLE = process.env.PREFERENCES_TABLE!;
+const PHOTOS_BUCKET = process.env.PHOTOS_BUCKET!;
+const EXPORTS_BUCKET = process.env.EXPORTS_BUCKET!;
+
+// Larger accounts, and any export that includes photos, are built by the export worker
+const SYNC_EXPORT_ROW_LIMIT = 500;
+const DOWNLOAD_URL_EXPIRY_SECONDS = 3600;
+
+// Longer than the worker's 15 minute timeout; a job still pending after this never finished
+const STALE_EXPORT_MS = 30 * 60 * 1000;
+
+// Each export lives under {userId}/{exportId}/ in the exports bucket:
+//   request.json - written to start an async export; its upload triggers the worker
+//   status.json  - the ExportJob below, kept up to date as the export runs
+//   proofed-export.tar - manifest.json plus photos/..., once ready
+const REQUEST_FILE = 'request.json';
+const STATUS_FILE = 'status.json';
+const ARCHIVE_FILE = 'proofed-export.tar';
+
+interface ExportJob {
+  userId: string;
+  exportId: string;
+  includePhotos: boolean;
+  status: AccountExportStatus;
+  createdAt: string;
+  error?: string;
+}
+
+type AccountData = Omit<AccountExportManifest, 'formatVersion' | 'exportedAt' | 'userId' | 'photos'>;
+
+function exportKey(job: Pick<ExportJob, 'userId' | 'exportId'>, file: string): string {
+  return `${job.userId}/${job.exportId}/${file}`;
+}
+
+async function loadAccountData(userId: string): Promise<AccountData> {
+  const [items, recipes, variants, attempts, proofedItems, preferences] = await Promise.all([
+    queryItems<Item>(ITEMS_TABLE, userId),
+    queryItems<Recipe>(RECIPES_TABLE, userId),
+    queryItems<Variant>(VARIANTS_TABLE, userId),
+    queryItems<Attempt>(ATTEMPTS_TABLE, userId),
+    queryItems<ProofedItem>(PROOFED_ITEMS_TABLE, userId),
+    getItem<UserPreferences>(PREFERENCES_TABLE, { userId }),
+  ]);
+  return { items, recipes, variants, attempts, proofedItems, preferences };
+}
+
+function rowCount(data: AccountData): number {
+  return (
+    data.items.length +
+    data.recipes.length +
+    data.variants.length +
+    data.attempts.length +
+    data.proofedItems.length
+  );
+}
+
+async function listPhotoKeys(userId: string): Promise<string[]> {
+  const keys: string[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const listResponse = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: PHOTOS_BUCKET,
+        Prefix: `${userId}/`,
+        ContinuationToken: continuationToken,
+      })
+    );
+    keys.push(...(listResponse.Contents || []).map((obj) => obj.Key!));
+    continuationToken = listResponse.NextContinuationToken;
+  } while (continuationToken);
+
+  return keys;
+}
+
+// Drop the userId prefix so the archive doesn't depend on which account it came from
+function photoPath(userId: string, key: string): string {
+  return `photos/${key.slice(userId.length + 1)}`;
+}
+
+// Photos are read one at a time as the archive is written, so memory stays flat however many there are
+async function* photoEntries(photos: ExportedPhoto[]): AsyncGenerator<TarEntry> {
+  for (const { key, path } of photos) {
+    let body: Uint8Array | undefined;
+    try {
+      const object = await s3Client.send(new GetObjectCommand({ Bucket: PHOTOS_BUCKET, Key: key }));
+      body = await object.Body?.transformToByteArray();
+    } catch (error) {
+      // Deleted since it was listed; the importer reports photos missing from the archive
+      if ((error as Error).name !== 'NoSuchKey') throw error;
+    }
+    if (body) {
+      yield { path, body: Buffer.from(body) };
+    }
+  }
+}
+
+async function writeJson(key: string, value: unknown): Promise<void> {
+  await s3Client.send(
+    new PutObjectCommand({
+      Bucket: EXPORTS_BUCKET,
+      Key: key,
+      Body: JSON.stringify(value),
+      ContentType: 'application/json',
+    })
+  );
+}
+
+async function writeArchive(job: ExportJob, data: AccountData): Promise<void> {
+  const photos = job.includePhotos
+    ? (await listPhotoKeys(job.userId)).map((key) => ({ key, path: photoPath(job.userId, key) }))
+    : [];
+
+  const manifest: AccountExportManifest = {
+    formatVersion: ACCOUNT_EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    userId: job.userId,
+    ...data,
+    photos,
+  };
+
+  async function* entries(): AsyncGenerator<TarEntry> {
+    // The manifest goes first so an import can read it before any photos
+    yield { path: 'manifest.json', body: Buffer.from(JSON.stringify(manifest, null, 2)) };
+    yield* photoEntries(photos);
+  }
+
+  // Uploaded in parts as the archive is written, rather than built in memory first
+  await new Upload({
+    client: s3Client,
+    params: {
+      Bucket: EXPORTS_BUCKET,
+      Key: exportKey(job, ARCHIVE_FILE),
+      Body: createTar(entries()),
+      ContentType: 'application/x-tar',
+    },
+  }).done();
+  await writeJson(exportKey(job, STATUS_FILE), { ...job, status: 'ready' });
+}
+
+async function failJob(job: ExportJob): Promise<ExportJob> {
+  const failed: ExportJob = { ...job, status: 'failed', error: 'The export could not be completed' };
+  await writeJson(exportKey(job, STATUS_FILE), failed);
+  return failed;
+}
+
+async function readJob(userId: string, exportId: string, file: string): Promise<ExportJob | null> {
+  try {
+    const object = await s3Client.send(
+      new GetObjectCommand({ Bucket: EXPORTS_BUCKET, Key: exportKey({ userId, exportId }, file) })
+    );
+    const body = await object.Body?.transformToString();
+    return body ? (JSON.parse(body) as ExportJob) : null;
+  } catch (error) {
+    if ((error as Error).name === 'NoSuchKey') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function toResponse(job: ExportJob): Promise<AccountExportResponse> {
+  const result: AccountExportResponse = {
+    exportId: job.exportId,
+    status: job.status,
+    includePhotos: job.includePhotos,
+    createdAt: job.createdAt,
+    error: job.error,
+  };
+
+  if (job.status === 'ready') {
+    const date = job.createdAt.slice(0, 10);
+    result.downloadUrl = await getSignedUrl(
+      s3Client,
+      new GetObjectCommand({
+        Bucket: EXPORTS_BUCKET,
+        Key: exportKey(job, ARCHIVE_FILE),
+        ResponseContentDisposition: `attachment; filename="proofed-export-${date}.tar"`,
+      }),
+      { expiresIn: DOWNLOAD_URL_EXPIRY_SECONDS }
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Start an export of everything the user owns. Small exports without photos are built
+ * inline and come back ready; anything else is handed to the export worker and comes back
+ * pending, to be polled with getAccountExport.
+ */
+export async function startAccountExport(
+  userId: string,
+  includePhotos: boolean
+): Promise<AccountExportResponse> {
+  const job: ExportJob = {
+    userId,
+    exportId: ulid(),
+    includePhotos,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+  };
+
+  if (!includePhotos) {
+    const data = await loadAccountData(userId);
+    if (rowCount(data) <= SYNC_EXPORT_ROW_LIMIT) {
+      await writeArchive(job, data);
+      return toResponse({ ...job, status: 'ready' });
+    }
+  }
+
+  await writeJson(exportKey(job, STATUS_FILE), job);
+  await writeJson(exportKey(job, REQUEST_FILE), job);
+  return toResponse(job);
+}
+
+export async function getAccountExport(userId: string, exportId: string): Promise<AccountExportResponse> {
+  const job = await readJob(userId, exportId, STATUS_FILE);
+  if (!job) {
+    throw new NotFoundError('Export');
+  }
+  // A worker that timed out or ran out of memory never got to record the failure
+  if (job.status === 'pending' && Date.now() - Date.parse(job.createdAt) > STALE_EXPORT_MS) {
+    return toResponse(await failJob(job));
+  }
+  return toResponse(job);
+}
+
+// Entry point for the export worker Lambda, triggered by request.json uploads
+export async function exportWorker(event: S3Event): Promise<void> {
+  for (const record of event.Records) {
+    // Object keys in S3 events are URL-encoded, with spaces as '+'
+    const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, ' '));
+    const [userId, exportId] = key.split('/');
+    const job = await readJob(userId, exportId, REQUEST_FILE);
+    if (!job) {
+      console.error('Export request not found:', key);
+      continue;
+    }
+
+    try {
+      await writeArchive(job, await loadAccountData(job.userId));
+    } catch (error) {
+      console.error('Export failed:', { exportId, error });
+      await failJob(job);
+    }
+  }
+}
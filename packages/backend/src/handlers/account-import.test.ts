@@ -0,0 +1,330 @@
+/**
+ * Tests for restoring an account export under a different user, from a request body or an uploaded archive
+ *
+ * Run with: npx jest src/handlers/account-import.test.ts
+ */
+
+import { DynamoDBDocumentClient, BatchWriteCommand, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  S3Client,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+} from '@aws-sdk/client-s3';
+import { mockClient } from 'aws-sdk-client-mock';
+import type { S3Event } from 'aws-lambda';
+import { decodeTime } from 'ulid';
+import { ACCOUNT_EXPORT_FORMAT_VERSION, accountImportRequestSchema, validate } from '@proofed/shared';
+import type { AccountExportManifest } from '@proofed/shared';
+import { createTar } from '../lib/tar';
+import type { TarEntry } from '../lib/tar';
+import { planAccountImport, importAccount, importWorker } from './account-import';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+const s3Mock = mockClient(S3Client);
+
+const OLD_USER_ID = 'default-user';
+const NEW_USER_ID = 'd6d262f4-c0c1-70cc-40c6-fb2769fcbcd0';
+const CREATED_AT = '2025-03-01T10:00:00.000Z';
+const PHOTO_KEY = `${OLD_USER_ID}/attempts/attempt-1/1740823200000-cake.jpg`;
+const PHOTO_PATH = 'photos/attempts/attempt-1/1740823200000-cake.jpg';
+
+function manifest(): AccountExportManifest {
+  return {
+    formatVersion: ACCOUNT_EXPORT_FORMAT_VERSION,
+    exportedAt: CREATED_AT,
+    userId: OLD_USER_ID,
+    items: [
+      { itemId: 'item-1', userId: OLD_USER_ID, name: 'Sponge', type: 'batter', createdAt: CREATED_AT, updatedAt: CREATED_AT },
+    ],
+    recipes: [
+      {
+        recipeId: 'recipe-1',
+        userId: OLD_USER_ID,
+        itemId: 'item-1',
+        name: 'Victoria sponge',
+        ingredients: [{ name: 'flour', quantity: 200, unit: 'g' }],
+        version: 4,
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+      },
+    ],
+    variants: [
+      {
+        variantId: 'variant-1',
+        userId: OLD_USER_ID,
+        recipeId: 'recipe-1',
+        itemId: 'item-1',
+        name: 'Less sugar',
+        ingredientOverrides: [],
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+      },
+    ],
+    attempts: [
+      {
+        attemptId: 'attempt-1',
+        userId: OLD_USER_ID,
+        name: 'Birthday cake',
+        date: '2025-03-01',
+        itemUsages: [
+          { itemId: 'item-1', recipeId: 'recipe-1', variantId: 'variant-1' },
+          { itemId: 'item-gone', recipeId: 'recipe-gone' },
+        ],
+        photoKeys: [PHOTO_KEY, `${OLD_USER_ID}/attempts/attempt-1/not-exported.jpg`],
+        mainPhotoKey: PHOTO_KEY,
+        createdAt: CREATED_AT,
+      },
+    ],
+    proofedItems: [
+      {
+        proofedItemId: 'proofed-1',
+        userId: OLD_USER_ID,
+        name: 'Best sponge',
+        capturedFromAttemptId: 'attempt-1',
+        itemConfigs: [{ itemId: 'item-1', recipeId: 'recipe-1', variantId: 'variant-1' }],
+        createdAt: CREATED_AT,
+      },
+    ],
+    preferences: { userId: OLD_USER_ID, temperatureUnit: 'C', createdAt: CREATED_AT, updatedAt: CREATED_AT },
+    photos: [{ key: PHOTO_KEY, path: PHOTO_PATH }],
+  };
+}
+
+describe('account import', () => {
+  beforeEach(() => {
+    dynamoMock.reset();
+    s3Mock.reset();
+  });
+
+  describe('planAccountImport', () => {
+    it('mints new ids under the new user and rewrites every reference', () => {
+      const plan = planAccountImport(NEW_USER_ID, manifest(), new Set([PHOTO_PATH]));
+      const [item] = plan.items;
+      const [recipe] = plan.recipes;
+      const [variant] = plan.variants;
+      const [attempt] = plan.attempts;
+      const [proofed] = plan.proofedItems;
+
+      for (const row of [item, recipe, variant, attempt, proofed, plan.preferences]) {
+        expect(row?.userId).toBe(NEW_USER_ID);
+      }
+      expect(item.itemId).not.toBe('item-1');
+      expect(recipe.itemId).toBe(item.itemId);
+      expect(variant.recipeId).toBe(recipe.recipeId);
+      expect(variant.itemId).toBe(item.itemId);
+      expect(attempt.itemUsages[0]).toEqual({
+        itemId: item.itemId,
+        recipeId: recipe.recipeId,
+        variantId: variant.variantId,
+      });
+      expect(proofed.capturedFromAttemptId).toBe(attempt.attemptId);
+      expect(proofed.itemConfigs).toEqual([attempt.itemUsages[0]]);
+    });
+
+    it('leaves references to rows outside the archive untouched', () => {
+      const plan = planAccountImport(NEW_USER_ID, manifest(), new Set());
+
+      expect(plan.attempts[0].itemUsages[1]).toEqual({ itemId: 'item-gone', recipeId: 'recipe-gone' });
+    });
+
+    it('keeps the original creation time in the new ULIDs', () => {
+      const plan = planAccountImport(NEW_USER_ID, manifest(), new Set());
+
+      expect(decodeTime(plan.attempts[0].attemptId)).toBe(Date.parse(CREATED_AT));
+    });
+
+    it('restarts versions at 1', () => {
+      const plan = planAccountImport(NEW_USER_ID, manifest(), new Set());
+
+      expect(plan.recipes[0].version).toBe(1);
+      expect(plan.items[0].version).toBe(1);
+    });
+
+    it('moves sent photos under the new attempt and drops the rest', () => {
+      const plan = planAccountImport(NEW_USER_ID, manifest(), new Set([PHOTO_PATH]));
+      const attempt = plan.attempts[0];
+      const newKey = `${NEW_USER_ID}/attempts/${attempt.attemptId}/1740823200000-cake.jpg`;
+
+      expect(plan.photos).toEqual([{ path: PHOTO_PATH, key: newKey }]);
+      expect(plan.skippedPhotos).toEqual(['photos/attempts/attempt-1/not-exported.jpg']);
+      expect(attempt.photoKeys).toEqual([newKey]);
+      expect(attempt.mainPhotoKey).toBe(newKey);
+    });
+
+    it('clears the main photo when its file was not sent', () => {
+      const plan = planAccountImport(NEW_USER_ID, manifest(), new Set());
+
+      expect(plan.photos).toEqual([]);
+      expect(plan.skippedPhotos).toEqual([PHOTO_PATH, 'photos/attempts/attempt-1/not-exported.jpg']);
+      expect(plan.attempts[0].photoKeys).toEqual([]);
+      expect(plan.attempts[0].mainPhotoKey).toBeUndefined();
+    });
+  });
+
+  describe('importAccount', () => {
+    it('uploads photos and writes every entity', async () => {
+      dynamoMock.on(BatchWriteCommand).resolves({});
+      dynamoMock.on(GetCommand).resolves({});
+      dynamoMock.on(PutCommand).resolves({});
+      s3Mock.on(PutObjectCommand).resolves({});
+      s3Mock.on(CopyObjectCommand).resolves({});
+
+      const result = await importAccount(NEW_USER_ID, {
+        manifest: manifest(),
+        photos: [{ path: PHOTO_PATH, contentType: 'image/jpeg', data: Buffer.from('jpeg').toString('base64') }],
+      });
+
+      expect(result).toEqual({
+        items: 1,
+        recipes: 1,
+        variants: 1,
+        attempts: 1,
+        proofedItems: 1,
+        photos: 1,
+        skippedPhotos: ['photos/attempts/attempt-1/not-exported.jpg'],
+      });
+
+      const upload = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+      expect(upload.Key).toMatch(new RegExp(`^${NEW_USER_ID}/attempts/`));
+      expect(Buffer.from(upload.Body as Buffer).toString()).toBe('jpeg');
+      expect(s3Mock.commandCalls(CopyObjectCommand)[0].args[0].input).toMatchObject({
+        Key: upload.Key,
+        MetadataDirective: 'REPLACE',
+        ContentType: 'image/jpeg',
+      });
+
+      const written = dynamoMock
+        .commandCalls(BatchWriteCommand)
+        .flatMap((call) => Object.values(call.args[0].input.RequestItems!).flat())
+        .map((request) => request.PutRequest!.Item!);
+      expect(written).toHaveLength(5);
+      expect(written.every((row) => row.userId === NEW_USER_ID)).toBe(true);
+      expect(written.some((row) => Object.values(row).includes(undefined))).toBe(false);
+
+      // The caller had no preferences, so the archived ones are restored
+      expect(dynamoMock.commandCalls(PutCommand)[0].args[0].input.Item?.userId).toBe(NEW_USER_ID);
+    });
+
+    it('keeps existing preferences', async () => {
+      dynamoMock.on(BatchWriteCommand).resolves({});
+      dynamoMock.on(GetCommand).resolves({ Item: { userId: NEW_USER_ID, temperatureUnit: 'F' } });
+
+      await importAccount(NEW_USER_ID, { manifest: manifest() });
+
+      expect(dynamoMock.commandCalls(PutCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('importWorker', () => {
+    const ARCHIVE_KEY = `imports/${NEW_USER_ID}/import-1/archive.tar`;
+    const STATUS_KEY = `imports/${NEW_USER_ID}/import-1/status.json`;
+    const uploadEvent = { Records: [{ s3: { object: { key: ARCHIVE_KEY } } }] } as unknown as S3Event;
+
+    function givenArchive(entries: TarEntry[], job: Record<string, unknown> = {}) {
+      const status = { userId: NEW_USER_ID, importId: 'import-1', status: 'pending', createdAt: CREATED_AT, ...job };
+      s3Mock.on(GetObjectCommand, { Key: STATUS_KEY }).resolves({
+        Body: { transformToString: async () => JSON.stringify(status) } as never,
+      });
+      s3Mock.on(GetObjectCommand, { Key: ARCHIVE_KEY }).resolves({ Body: createTar(entries) as never });
+    }
+
+    function finalStatus() {
+      const writes = s3Mock.commandCalls(PutObjectCommand, { Key: STATUS_KEY });
+      return JSON.parse(writes[writes.length - 1].args[0].input.Body as string);
+    }
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      dynamoMock.on(BatchWriteCommand).resolves({});
+      dynamoMock.on(GetCommand).resolves({});
+      dynamoMock.on(PutCommand).resolves({});
+      s3Mock.on(PutObjectCommand).resolves({});
+      s3Mock.on(CopyObjectCommand).resolves({});
+      s3Mock.on(DeleteObjectCommand).resolves({});
+    });
+
+    it('restores an export archive with its photos and reports the ones it lacks', async () => {
+      const archived = manifest();
+      archived.photos.push({ key: `${OLD_USER_ID}/attempts/attempt-1/not-exported.jpg`, path: 'photos/missing.jpg' });
+      givenArchive([
+        { path: 'manifest.json', body: Buffer.from(JSON.stringify(archived)) },
+        { path: PHOTO_PATH, body: Buffer.from('jpeg') },
+      ]);
+
+      await importWorker(uploadEvent);
+
+      const photo = s3Mock
+        .commandCalls(PutObjectCommand)
+        .find((call) => call.args[0].input.Key!.startsWith(`${NEW_USER_ID}/attempts/`))!.args[0].input;
+      expect(photo.ContentType).toBe('image/jpeg');
+      expect(Buffer.from(photo.Body as Buffer).toString()).toBe('jpeg');
+      expect(finalStatus()).toMatchObject({
+        status: 'ready',
+        result: { attempts: 1, photos: 1, skippedPhotos: ['photos/missing.jpg'] },
+      });
+      const attempt = dynamoMock
+        .commandCalls(BatchWriteCommand)
+        .flatMap((call) => Object.values(call.args[0].input.RequestItems!).flat())
+        .map((request) => request.PutRequest!.Item!)
+        .find((row) => row.attemptId)!;
+      expect(attempt.photoKeys).toEqual([photo.Key]);
+      expect(s3Mock.commandCalls(DeleteObjectCommand)[0].args[0].input.Key).toBe(ARCHIVE_KEY);
+    });
+
+    it('queues photos for processing only once their attempts are written', async () => {
+      const order: string[] = [];
+      dynamoMock.on(BatchWriteCommand).callsFake(() => {
+        order.push('rows');
+        return {};
+      });
+      s3Mock.on(CopyObjectCommand).callsFake((input) => {
+        order.push(`copy ${input.Key}`);
+        return {};
+      });
+      givenArchive([
+        { path: 'manifest.json', body: Buffer.from(JSON.stringify(manifest())) },
+        { path: PHOTO_PATH, body: Buffer.from('jpeg') },
+      ]);
+
+      await importWorker(uploadEvent);
+
+      const [copy] = s3Mock.commandCalls(CopyObjectCommand).map((call) => call.args[0].input);
+      expect(copy.CopySource!.endsWith(`/${encodeURIComponent(copy.Key!)}`)).toBe(true);
+      expect(order.indexOf(`copy ${copy.Key}`)).toBe(order.length - 1);
+      expect(order.filter((entry) => entry === 'rows').length).toBeGreaterThan(0);
+    });
+
+    it('fails the import when the archive has no manifest', async () => {
+      givenArchive([{ path: PHOTO_PATH, body: Buffer.from('jpeg') }]);
+
+      await importWorker(uploadEvent);
+
+      expect(finalStatus()).toMatchObject({ status: 'failed', error: 'The archive does not start with manifest.json' });
+      expect(dynamoMock.commandCalls(BatchWriteCommand)).toHaveLength(0);
+    });
+
+    it('ignores a repeated upload event', async () => {
+      givenArchive([], { startedAt: CREATED_AT });
+
+      await importWorker(uploadEvent);
+
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('request validation', () => {
+    it('accepts an exported manifest', () => {
+      expect(validate(accountImportRequestSchema, { manifest: manifest() }).valid).toBe(true);
+    });
+
+    it('rejects archives from a newer format version', () => {
+      const result = validate(accountImportRequestSchema, {
+        manifest: { ...manifest(), formatVersion: ACCOUNT_EXPORT_FORMAT_VERSION + 1 },
+      });
+
+      expect(result.valid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,452 @@
+import { ulid } from 'ulid';
+import {
+  S3Client,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+} from '@aws-sdk/client-s3';
+import { createPresignedPost } from '@aws-sdk/s3-presigned-post';
+import type { S3Event } from 'aws-lambda';
+import type { Readable } from 'stream';
+import { batchPutItems, getItem, putItem } from '../lib/dynamo';
+import { readTar } from '../lib/tar';
+import { NotFoundError, ValidationError, accountExportManifestSchema, validate } from '@proofed/shared';
+import type {
+  Item,
+  Recipe,
+  Variant,
+  Attempt,
+  ProofedItem,
+  ItemUsage,
+  UserPreferences,
+  AccountExportManifest,
+  AccountImportRequest,
+  AccountImportResponse,
+  AccountImportStatus,
+  AccountArchiveImportResponse,
+} from '@proofed/shared';
+
+const s3Client = new S3Client({});
+const ITEMS_TABLE = process.env.ITEMS_TABLE!;
+const RECIPES_TABLE = process.env.RECIPES_TABLE!;
+const VARIANTS_TABLE = process.env.VARIANTS_TABLE!;
+const ATTEMPTS_TABLE = process.env.ATTEMPTS_TABLE!;
+const PROOFED_ITEMS_TABLE = process.env.PROOFED_ITEMS_TABLE!;
+const PREFERENCES_TABLE = process.env.PREFERENCES_TABLE!;
+const PHOTOS_BUCKET = process.env.PHOTOS_BUCKET!;
+const EXPORTS_BUCKET = process.env.EXPORTS_BUCKET!;
+
+// Uploaded archives go in the exports bucket under imports/{userId}/{importId}/:
+//   status.json  - the ImportJob below, kept up to date as the import runs
+//   archive.tar  - the export archive, uploaded by the client; its upload triggers the worker
+const IMPORTS_PREFIX = 'imports';
+const STATUS_FILE = 'status.json';
+const ARCHIVE_FILE = 'archive.tar';
+
+// The most a presigned POST can upload
+const MAX_ARCHIVE_BYTES = 5 * 1024 * 1024 * 1024;
+const UPLOAD_URL_EXPIRY_SECONDS = 3600;
+
+// An hour to upload plus the worker's 15 minute timeout, with room to spare
+const STALE_IMPORT_MS = 2 * 60 * 60 * 1000;
+
+const PHOTO_CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  // No longer accepted for uploads, but older exports can still contain them
+  heic: 'image/heic',
+  webp: 'image/webp',
+};
+
+interface ImportJob {
+  userId: string;
+  importId: string;
+  status: AccountImportStatus;
+  createdAt: string;
+  startedAt?: string;
+  result?: AccountImportResponse;
+  error?: string;
+}
+
+export interface ImportPlan {
+  items: Item[];
+  recipes: Recipe[];
+  variants: Variant[];
+  attempts: Attempt[];
+  proofedItems: ProofedItem[];
+  preferences: UserPreferences | null;
+  photos: Array<{ path: string; key: string }>;  // archive file -> new photos bucket key
+  skippedPhotos: string[];                       // archive paths of bake photos without a file
+}
+
+// Fresh ULIDs keep the original creation time, so bakes still list in the order they were made
+function mintId(createdAt: string): string {
+  const time = Date.parse(createdAt);
+  return Number.isNaN(time) ? ulid() : ulid(time);
+}
+
+/**
+ * Work out everything an import will write, without touching AWS. Every entity gets a new
+ * id under `userId`, and references between them are rewritten to match. References to
+ * rows that aren't in the archive are left as they are, the same as a deleted recipe.
+ * Photos are only kept when their file is in `photoPaths`; the rest are listed as skipped.
+ */
+export function planAccountImport(
+  userId: string,
+  manifest: AccountExportManifest,
+  photoPaths: Set<string>
+): ImportPlan {
+  const ids = new Map<string, string>();
+  const remap = (id: string) => ids.get(id) ?? id;
+
+  for (const item of manifest.items) ids.set(item.itemId, mintId(item.createdAt));
+  for (const recipe of manifest.recipes) ids.set(recipe.recipeId, mintId(recipe.createdAt));
+  for (const variant of manifest.variants) ids.set(variant.variantId, mintId(variant.createdAt));
+  for (const attempt of manifest.attempts) ids.set(attempt.attemptId, mintId(attempt.createdAt));
+  for (const proofed of manifest.proofedItems) {
+    ids.set(proofed.proofedItemId, mintId(proofed.createdAt));
+  }
+
+  // Revision history isn't part of the archive and recipes restart at version 1, so pins are dropped
+  const remapUsage = ({ recipeRevision, ...usage }: ItemUsage): ItemUsage => ({
+    ...usage,
+    itemId: remap(usage.itemId),
+    recipeId: remap(usage.recipeId),
+    ...(usage.variantId ? { variantId: remap(usage.variantId) } : {}),
+  });
+
+  const pathsByKey = new Map(manifest.photos.map((photo) => [photo.key, photo.path]));
+  const photos: ImportPlan['photos'] = [];
+  const skippedPhotos: string[] = [];
+
+  // Imported photos are processed again once their attempts are written, which records their new renditions
+  const attempts = manifest.attempts.map(({ photoRenditions, ...attempt }): Attempt => {
+    const attemptId = remap(attempt.attemptId);
+    const newKeys = new Map<string, string>();
+
+    for (const key of attempt.photoKeys ?? []) {
+      // Exports without photos don't list them, but they'd have had the same path
+      const path = pathsByKey.get(key) ?? `photos/${key.slice(key.indexOf('/') + 1)}`;
+      if (!photoPaths.has(path)) {
+        skippedPhotos.push(path);
+        continue;
+      }
+      const newKey = `${userId}/attempts/${attemptId}/${key.slice(key.lastIndexOf('/') + 1)}`;
+      newKeys.set(key, newKey);
+      photos.push({ path, key: newKey });
+    }
+
+    return {
+      ...attempt,
+      attemptId,
+      userId,
+      itemUsages: attempt.itemUsages.map(remapUsage),
+      photoKeys: attempt.photoKeys && [...newKeys.values()],
+      mainPhotoKey: attempt.mainPhotoKey && newKeys.get(attempt.mainPhotoKey),
+      version: 1,
+    };
+  });
+
+  return {
+    items: manifest.items.map((item) => ({
+      ...item,
+      itemId: remap(item.itemId),
+      userId,
+      version: 1,
+    })),
+    recipes: manifest.recipes.map((recipe) => ({
+      ...recipe,
+      recipeId: remap(recipe.recipeId),
+      userId,
+      itemId: remap(recipe.itemId),
+      version: 1,
+    })),
+    variants: manifest.variants.map((variant) => ({
+      ...variant,
+      variantId: remap(variant.variantId),
+      userId,
+      recipeId: remap(variant.recipeId),
+      itemId: remap(variant.itemId),
+      version: 1,
+    })),
+    attempts,
+    proofedItems: manifest.proofedItems.map((proofed) => ({
+      ...proofed,
+      proofedItemId: remap(proofed.proofedItemId),
+      userId,
+      capturedFromAttemptId: remap(proofed.capturedFromAttemptId),
+      itemConfigs: proofed.itemConfigs.map(remapUsage),
+      version: 1,
+    })),
+    preferences: manifest.preferences && { ...manifest.preferences, userId },
+    photos,
+    skippedPhotos,
+  };
+}
+
+// DynamoDB rejects attributes set to undefined, which the spreads above can leave behind
+function compact<T extends object>(row: T): T {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined)) as T;
+}
+
+// Writes the plan's rows once its photos are in place, so no bake ever points at a missing file
+async function writeImport(userId: string, plan: ImportPlan): Promise<AccountImportResponse> {
+  await batchPutItems(ITEMS_TABLE, plan.items.map(compact));
+  await batchPutItems(RECIPES_TABLE, plan.recipes.map(compact));
+  await batchPutItems(VARIANTS_TABLE, plan.variants.map(compact));
+  await batchPutItems(ATTEMPTS_TABLE, plan.attempts.map(compact));
+  await batchPutItems(PROOFED_ITEMS_TABLE, plan.proofedItems.map(compact));
+
+  if (plan.preferences && !(await getItem<UserPreferences>(PREFERENCES_TABLE, { userId }))) {
+    await putItem(PREFERENCES_TABLE, plan.preferences);
+  }
+
+  return {
+    items: plan.items.length,
+    recipes: plan.recipes.length,
+    variants: plan.variants.length,
+    attempts: plan.attempts.length,
+    proofedItems: plan.proofedItems.length,
+    photos: plan.photos.length,
+    skippedPhotos: plan.skippedPhotos,
+  };
+}
+
+interface ImportedPhoto {
+  key: string;
+  contentType: string;
+}
+
+async function putPhoto({ key, contentType }: ImportedPhoto, body: Buffer): Promise<void> {
+  await s3Client.send(
+    new PutObjectCommand({
+      Bucket: PHOTOS_BUCKET,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    })
+  );
+}
+
+/**
+ * Hand restored photos to the photo processor. It reacts to app uploads and to copies but not
+ * to puts, so photos are put while the import runs and copied onto themselves once their
+ * attempts are written, which the processor needs to record their renditions on.
+ */
+async function queuePhotoProcessing(photos: ImportedPhoto[]): Promise<void> {
+  for (const { key, contentType } of photos) {
+    await s3Client.send(
+      new CopyObjectCommand({
+        Bucket: PHOTOS_BUCKET,
+        Key: key,
+        CopySource: `${PHOTOS_BUCKET}/${encodeURIComponent(key)}`,
+        // S3 only copies an object onto itself when it is told to replace the metadata
+        MetadataDirective: 'REPLACE',
+        ContentType: contentType,
+      })
+    );
+  }
+}
+
+/**
+ * Recreate an exported account under `userId`, alongside anything already there.
+ * Preferences are only restored when the caller hasn't set their own yet.
+ */
+export async function importAccount(
+  userId: string,
+  request: AccountImportRequest
+): Promise<AccountImportResponse> {
+  const files = new Map((request.photos ?? []).map((photo) => [photo.path, photo]));
+  const plan = planAccountImport(userId, request.manifest, new Set(files.keys()));
+
+  const uploaded: ImportedPhoto[] = [];
+  for (const photo of plan.photos) {
+    const file = files.get(photo.path)!;
+    const upload = { key: photo.key, contentType: file.contentType };
+    await putPhoto(upload, Buffer.from(file.data, 'base64'));
+    uploaded.push(upload);
+  }
+
+  const result = await writeImport(userId, plan);
+  await queuePhotoProcessing(uploaded);
+  return result;
+}
+
+function importKey(job: Pick<ImportJob, 'userId' | 'importId'>, file: string): string {
+  return `${IMPORTS_PREFIX}/${job.userId}/${job.importId}/${file}`;
+}
+
+async function writeJob(job: ImportJob): Promise<void> {
+  await s3Client.send(
+    new PutObjectCommand({
+      Bucket: EXPORTS_BUCKET,
+      Key: importKey(job, STATUS_FILE),
+      Body: JSON.stringify(job),
+      ContentType: 'application/json',
+    })
+  );
+}
+
+async function readJob(userId: string, importId: string): Promise<ImportJob | null> {
+  try {
+    const object = await s3Client.send(
+      new GetObjectCommand({ Bucket: EXPORTS_BUCKET, Key: importKey({ userId, importId }, STATUS_FILE) })
+    );
+    const body = await object.Body?.transformToString();
+    return body ? (JSON.parse(body) as ImportJob) : null;
+  } catch (error) {
+    if ((error as Error).name === 'NoSuchKey') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function toResponse(job: ImportJob): AccountArchiveImportResponse {
+  return {
+    importId: job.importId,
+    status: job.status,
+    createdAt: job.createdAt,
+    result: job.result,
+    error: job.error,
+  };
+}
+
+/**
+ * Start restoring an export archive, photos and all. Returns a presigned POST for the
+ * archive; once it's uploaded the import worker restores it, and getArchiveImport reports
+ * how that went.
+ */
+export async function startArchiveImport(userId: string): Promise<AccountArchiveImportResponse> {
+  const job: ImportJob = {
+    userId,
+    importId: ulid(),
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+  };
+  await writeJob(job);
+
+  const { url, fields } = await createPresignedPost(s3Client, {
+    Bucket: EXPORTS_BUCKET,
+    Key: importKey(job, ARCHIVE_FILE),
+    Conditions: [['content-length-range', 1, MAX_ARCHIVE_BYTES]],
+    Expires: UPLOAD_URL_EXPIRY_SECONDS,
+  });
+
+  return { ...toResponse(job), upload: { url, fields } };
+}
+
+export async function getArchiveImport(userId: string, importId: string): Promise<AccountArchiveImportResponse> {
+  const job = await readJob(userId, importId);
+  if (!job) {
+    throw new NotFoundError('Import');
+  }
+  // Never uploaded, or the worker timed out before it could record the failure
+  if (job.status === 'pending' && Date.now() - Date.parse(job.createdAt) > STALE_IMPORT_MS) {
+    const failed: ImportJob = { ...job, status: 'failed', error: 'The import could not be completed' };
+    await writeJob(failed);
+    return toResponse(failed);
+  }
+  return toResponse(job);
+}
+
+function photoContentType(path: string): string {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return PHOTO_CONTENT_TYPES_BY_EXTENSION[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Restore the archive at `key` in the exports bucket. The archive is read as it downloads:
+ * manifest.json comes first, then each photo is uploaded as it's reached, so memory use
+ * doesn't grow with the archive.
+ */
+async function importArchive(userId: string, key: string): Promise<AccountImportResponse> {
+  const object = await s3Client.send(new GetObjectCommand({ Bucket: EXPORTS_BUCKET, Key: key }));
+  const entries = readTar(object.Body as Readable);
+
+  const first = await entries.next();
+  if (first.done || first.value.path !== 'manifest.json') {
+    throw new ValidationError('The archive does not start with manifest.json');
+  }
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(first.value.body.toString('utf8'));
+  } catch {
+    throw new ValidationError('manifest.json is not valid JSON');
+  }
+  const result = validate(accountExportManifestSchema, manifest);
+  if (!result.valid) {
+    throw new ValidationError('manifest.json is not a Proofed export', result.errors);
+  }
+
+  // Planned as if every listed photo is in the archive; the ones that aren't are dropped after
+  const listed = new Set(result.value.photos.map((photo) => photo.path));
+  const plan = planAccountImport(userId, result.value, listed);
+  const keysByPath = new Map(plan.photos.map((photo) => [photo.path, photo.key]));
+
+  const restored = new Set<string>();
+  const uploaded: ImportedPhoto[] = [];
+  for await (const entry of entries) {
+    const photoKey = keysByPath.get(entry.path);
+    if (!photoKey || restored.has(entry.path)) continue;
+    const upload = { key: photoKey, contentType: photoContentType(entry.path) };
+    await putPhoto(upload, entry.body);
+    restored.add(entry.path);
+    uploaded.push(upload);
+  }
+
+  const imported = await writeImport(userId, withoutMissingPhotos(plan, restored));
+  await queuePhotoProcessing(uploaded);
+  return imported;
+}
+
+// Drops the photos that were listed in the manifest but not found in the archive
+function withoutMissingPhotos(plan: ImportPlan, restored: Set<string>): ImportPlan {
+  const missing = plan.photos.filter((photo) => !restored.has(photo.path));
+  if (missing.length === 0) {
+    return plan;
+  }
+  const missingKeys = new Set(missing.map((photo) => photo.key));
+  return {
+    ...plan,
+    attempts: plan.attempts.map((attempt) => ({
+      ...attempt,
+      photoKeys: attempt.photoKeys?.filter((key) => !missingKeys.has(key)),
+      mainPhotoKey: attempt.mainPhotoKey && !missingKeys.has(attempt.mainPhotoKey) ? attempt.mainPhotoKey : undefined,
+    })),
+    photos: plan.photos.filter((photo) => restored.has(photo.path)),
+    skippedPhotos: [...plan.skippedPhotos, ...missing.map((photo) => photo.path)],
+  };
+}
+
+// Entry point for the import worker Lambda, triggered by archive uploads under imports/
+export async function importWorker(event: S3Event): Promise<void> {
+  for (const record of event.Records) {
+    // Object keys in S3 events are URL-encoded, with spaces as '+'
+    const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, ' '));
+    const [, userId, importId] = key.split('/');
+    const job = await readJob(userId, importId);
+    // S3 can deliver an event twice; only the first delivery runs the import
+    if (!job || job.status !== 'pending' || job.startedAt) {
+      console.error('Import not found or already started:', key);
+      continue;
+    }
+    await writeJob({ ...job, startedAt: new Date().toISOString() });
+
+    let finished: ImportJob;
+    try {
+      finished = { ...job, status: 'ready', result: await importArchive(userId, key) };
+    } catch (error) {
+      console.error('Import failed:', { importId, error });
+      finished = {
+        ...job,
+        status: 'failed',
+        error: error instanceof ValidationError ? error.message : 'The import could not be completed',
+      };
+    }
+    await writeJob(finished);
+    await s3Client.send(new DeleteObjectCommand({ Bucket: EXPORTS_BUCKET, Key: key }));
+  }
+}
@@ -1,36 +1,48 @@
 import { S3Client, ListObjectsV2Command, DeleteObjectsCommand } from '@aws-sdk/client-s3';
 import { queryItems, deleteItem } from '../lib/dynamo';
-import type { Item, Recipe, Variant, Attempt, ProofedItem } from '@proofed/shared';
+import { deleteUserShares } from './shares';
+import type { Item, Recipe, RecipeRevision, Variant, Attempt, ProofedItem, AiCallRecord } from '@proofed/shared';
 
 const s3Client = new S3Client({});
 const ITEMS_TABLE = process.env.ITEMS_TABLE!;
 const RECIPES_TABLE = process.env.RECIPES_TABLE!;
+const RECIPE_REVISIONS_TABLE = process.env.RECIPE_REVISIONS_TABLE!;
 const VARIANTS_TABLE = process.env.VARIANTS_TABLE!;
 const ATTEMPTS_TABLE = process.env.ATTEMPTS_TABLE!;
 const PROOFED_ITEMS_TABLE = process.env.PROOFED_ITEMS_TABLE!;
+const CRUMB_CHATS_TABLE = process.env.CRUMB_CHATS_TABLE!;
+const AI_USAGE_TABLE = process.env.AI_USAGE_TABLE!;
+const AI_CALLS_TABLE = process.env.AI_CALLS_TABLE!;
 const PHOTOS_BUCKET = process.env.PHOTOS_BUCKET!;
+const EXPORTS_BUCKET = process.env.EXPORTS_BUCKET!;
 
 export async function deleteAccount(userId: string): Promise<void> {
-  // Delete all items
-  const items = await queryItems<Item>(ITEMS_TABLE, userId);
+  // Delete all items, including anything still in the trash
+  const items = await queryItems<Item>(ITEMS_TABLE, userId, 'include');
   for (const item of items) {
     await deleteItem(ITEMS_TABLE, { userId, itemId: item.itemId });
   }
 
   // Delete all recipes
-  const recipes = await queryItems<Recipe>(RECIPES_TABLE, userId);
+  const recipes = await queryItems<Recipe>(RECIPES_TABLE, userId, 'include');
   for (const recipe of recipes) {
     await deleteItem(RECIPES_TABLE, { userId, recipeId: recipe.recipeId });
   }
 
+  // Delete all recipe revisions
+  const revisions = await queryItems<RecipeRevision>(RECIPE_REVISIONS_TABLE, userId);
+  for (const revision of revisions) {
+    await deleteItem(RECIPE_REVISIONS_TABLE, { userId, revisionId: revision.revisionId });
+  }
+
   // Delete all variants
-  const variants = await queryItems<Variant>(VARIANTS_TABLE, userId);
+  const variants = await queryItems<Variant>(VARIANTS_TABLE, userId, 'include');
   for (const variant of variants) {
     await deleteItem(VARIANTS_TABLE, { userId, variantId: variant.variantId });
   }
 
   // Delete all attempts
-  const attempts = await queryItems<Attempt>(ATTEMPTS_TABLE, userId);
+  const attempts = await queryItems<Attempt>(ATTEMPTS_TABLE, userId, 'include');
   for (const attempt of attempts) {
     await deleteItem(ATTEMPTS_TABLE, { userId, attemptId: attempt.attemptId });
   }
@@ -41,11 +53,31 @@ export async function deleteAccount(userId: string): Promise<void> {
     await deleteItem(PROOFED_ITEMS_TABLE, { userId, proofedItemId: proofedItem.proofedItemId });
   }
 
-  // Delete all photos from S3
-  await deleteUserPhotos(userId);
+  // Delete all Crumb chat threads
+  const threads = await queryItems<{ threadId: string }>(CRUMB_CHATS_TABLE, userId);
+  for (const thread of threads) {
+    await deleteItem(CRUMB_CHATS_TABLE, { userId, threadId: thread.threadId });
+  }
+
+  // Delete the AI quota counters and the record of every AI call
+  const usage = await queryItems<{ period: string }>(AI_USAGE_TABLE, userId);
+  for (const counter of usage) {
+    await deleteItem(AI_USAGE_TABLE, { userId, period: counter.period });
+  }
+  const calls = await queryItems<AiCallRecord>(AI_CALLS_TABLE, userId);
+  for (const call of calls) {
+    await deleteItem(AI_CALLS_TABLE, { userId, callId: call.callId });
+  }
+
+  // Revoke every share link
+  await deleteUserShares(userId);
+
+  // Delete all photos and data exports from S3
+  await deleteUserObjects(PHOTOS_BUCKET, userId);
+  await deleteUserObjects(EXPORTS_BUCKET, userId);
 }
 
-async function deleteUserPhotos(userId: string): Promise<void> {
+async function deleteUserObjects(bucket: string, userId: string): Promise<void> {
   const prefix = `${userId}/`;
 
   let continuationToken: string | undefined;
@@ -53,7 +85,7 @@ async function deleteUserPhotos(userId: string): Promise<void> {
   do {
     const listResponse = await s3Client.send(
       new ListObjectsV2Command({
-        Bucket: PHOTOS_BUCKET,
+        Bucket: bucket,
         Prefix: prefix,
         ContinuationToken: continuationToken,
       })
@@ -64,7 +96,7 @@ async function deleteUserPhotos(userId: string): Promise<void> {
 
       await s3Client.send(
         new DeleteObjectsCommand({
-          Bucket: PHOTOS_BUCKET,
+          Bucket: bucket,
           Delete: { Objects: objectsToDelete },
         })
       );
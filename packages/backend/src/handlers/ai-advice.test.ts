@@ -0,0 +1,150 @@
+/**
+ * Tests for regenerating Crumb's bake advice: versions are kept, nibs are only awarded once, and
+ * any version can be made current
+ *
+ * Run with: npx jest src/handlers/ai-advice.test.ts
+ */
+
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { UpdateCommandInput } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { ConflictError, NotFoundError } from '@proofed/shared';
+import type { AiAdviceRequest, AiAdviceResponse } from '@proofed/shared';
+import { getAiAdvice, regenerateAiAdvice, setCurrentAiAdvice } from './ai-advice';
+
+process.env.AI_PROVIDER = 'stub';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+
+const USER_ID = 'user-1';
+const KEY = { userId: USER_ID, attemptId: 'attempt-1' };
+
+const request: AiAdviceRequest = {
+  outcomeNotes: 'Lovely rise this time, a little dry at the edges.',
+  context: { attemptName: 'Birthday cake', itemUsages: [] },
+};
+
+const firstAdvice: AiAdviceResponse = {
+  overview: 'What a lovely bake! I am awarding you 42 nibs.',
+  nibsAwarded: 42,
+  tips: [],
+  generatedAt: '2026-10-01T10:00:00.000Z',
+};
+
+function givenAttempt(fields: Record<string, unknown>) {
+  dynamoMock.on(GetCommand, { Key: KEY }).resolves({ Item: { ...KEY, name: 'Birthday cake', ...fields } });
+}
+
+function lastUpdate(): UpdateCommandInput {
+  const updates = dynamoMock.commandCalls(UpdateCommand);
+  return updates[updates.length - 1].args[0].input;
+}
+
+function savedValues() {
+  return Object.values(lastUpdate().ExpressionAttributeValues!);
+}
+
+function conditionalCheckFailed() {
+  return Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+}
+
+beforeEach(() => {
+  dynamoMock.reset();
+  dynamoMock.on(GetCommand).resolves({});
+  dynamoMock.on(UpdateCommand).callsFake((input) => ({ Attributes: { ...KEY, ...input.ExpressionAttributeValues } }));
+});
+
+describe('getAiAdvice', () => {
+  it('starts the history with the first advice', async () => {
+    givenAttempt({});
+
+    const advice = await getAiAdvice(USER_ID, 'attempt-1', request);
+
+    expect(advice.adviceId).toEqual(expect.any(String));
+    expect(lastUpdate().ExpressionAttributeValues![':values']).toEqual([advice]);
+    expect(lastUpdate().ConditionExpression).toContain('attribute_not_exists(#list)');
+  });
+
+  it('still refuses a second first request', async () => {
+    givenAttempt({ aiAdvice: firstAdvice });
+
+    await expect(getAiAdvice(USER_ID, 'attempt-1', request)).rejects.toBeInstanceOf(ConflictError);
+  });
+});
+
+describe('regenerateAiAdvice', () => {
+  it('keeps the first nibs award and adds to older advice without an id', async () => {
+    givenAttempt({ aiAdvice: firstAdvice });
+
+    const advice = await regenerateAiAdvice(USER_ID, 'attempt-1', request);
+
+    expect(advice.nibsAwarded).toBe(42);
+    const history = lastUpdate().ExpressionAttributeValues![':values'] as AiAdviceResponse[];
+    expect(history).toHaveLength(2);
+    expect(history[0]).toEqual({ ...firstAdvice, adviceId: 'attempt-1#2026-10-01T10:00:00.000Z' });
+    expect(history[1]).toEqual(advice);
+  });
+
+  it('adds to the history without bumping the version an open edit is based on', async () => {
+    const history = [{ ...firstAdvice, adviceId: 'advice-1' }];
+    givenAttempt({ aiAdvice: history[0], aiAdviceHistory: history, version: 3 });
+
+    const advice = await regenerateAiAdvice(USER_ID, 'attempt-1', request);
+
+    const update = lastUpdate();
+    expect(update.ExpressionAttributeValues).toMatchObject({ ':values': [advice], ':expectedLength': 1 });
+    expect(update.UpdateExpression).not.toContain('version');
+  });
+
+  it('refuses when another look at the bake was saved while Crumb was thinking', async () => {
+    const history = [{ ...firstAdvice, adviceId: 'advice-1' }];
+    givenAttempt({ aiAdvice: history[0], aiAdviceHistory: history });
+    dynamoMock.on(UpdateCommand).rejects(conditionalCheckFailed());
+
+    await expect(regenerateAiAdvice(USER_ID, 'attempt-1', request)).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('stops once Crumb has looked at the bake enough times', async () => {
+    const history = Array.from({ length: 5 }, (_, i) => ({ ...firstAdvice, adviceId: `advice-${i}` }));
+    givenAttempt({ aiAdvice: history[4], aiAdviceHistory: history });
+
+    await expect(regenerateAiAdvice(USER_ID, 'attempt-1', request)).rejects.toBeInstanceOf(ConflictError);
+    expect(dynamoMock.commandCalls(UpdateCommand)).toHaveLength(0);
+  });
+});
+
+describe('setCurrentAiAdvice', () => {
+  const history = [
+    { ...firstAdvice, adviceId: 'advice-1' },
+    { ...firstAdvice, adviceId: 'advice-2', overview: 'A second look.' },
+  ];
+
+  it('makes an earlier version current', async () => {
+    givenAttempt({ aiAdvice: history[1], aiAdviceHistory: history });
+
+    await setCurrentAiAdvice(USER_ID, 'attempt-1', 'advice-1');
+
+    expect(savedValues()).toContainEqual(history[0]);
+  });
+
+  it('can pick older advice without an id by the id it was listed with', async () => {
+    givenAttempt({ aiAdvice: firstAdvice, version: 2 });
+
+    await setCurrentAiAdvice(USER_ID, 'attempt-1', 'attempt-1#2026-10-01T10:00:00.000Z');
+
+    expect(lastUpdate().ExpressionAttributeValues![':expectedVersion']).toBe(2);
+  });
+
+  it('refuses when the attempt changed since it was read', async () => {
+    givenAttempt({ aiAdvice: history[1], aiAdviceHistory: history, version: 2 });
+    dynamoMock.on(UpdateCommand).rejects(conditionalCheckFailed());
+
+    await expect(setCurrentAiAdvice(USER_ID, 'attempt-1', 'advice-1')).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('rejects advice that is not in the history', async () => {
+    givenAttempt({ aiAdvice: history[1], aiAdviceHistory: history });
+
+    await expect(setCurrentAiAdvice(USER_ID, 'attempt-1', 'advice-9')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -1,11 +1,26 @@
-import OpenAI from 'openai';
 import type { AiAdviceRequest, AiAdviceResponse, AiAdviceTip, Ingredient } from '@proofed/shared';
-import { getOpenAIApiKey } from '../lib/secrets';
-import { getItem, updateItem } from '../lib/dynamo';
+import { ulid } from 'ulid';
+import { ConflictError, MAX_AI_ADVICE_VERSIONS, NotFoundError } from '@proofed/shared';
+import { getAiProvider } from '../lib/ai';
+import type { AiJsonSchema, AiMessage } from '../lib/ai';
+import { appendToListAt, getItem, updateVersionedItem } from '../lib/dynamo';
 import type { Attempt } from '@proofed/shared';
 
 const ATTEMPTS_TABLE = process.env.ATTEMPTS_TABLE!;
 
+const ADVICE_SCHEMA: AiJsonSchema = {
+  name: 'bake_advice',
+  schema: {
+    type: 'object',
+    properties: {
+      overview: { type: 'string' },
+      nibsAwarded: { type: 'integer' },
+    },
+    required: ['overview', 'nibsAwarded'],
+    additionalProperties: false,
+  },
+};
+
 /**
  * Validates and filters AI tips to ensure they only reference components that exist in the bake.
  * Also corrects itemUsageIndex if a tip mentions a different component than assigned.
@@ -100,76 +115,55 @@ function validateTips(
     });
 }
 
-export async function getAiAdvice(
+/**
+ * Asks Crumb for a reaction to the bake. Crumb only scores a bake once: when `awardedNibs` is
+ * given, the earlier award is carried over and the prompt asks Crumb not to award more.
+ */
+async function askCrumb(
   userId: string,
-  attemptId: string,
-  request: AiAdviceRequest
+  request: AiAdviceRequest,
+  awardedNibs?: number
 ): Promise<AiAdviceResponse> {
   const { outcomeNotes, photoUrl, context, milestoneContext } = request;
 
   console.log('AI Advice Request:', JSON.stringify(request, null, 2));
   console.log('Photo URL provided:', !!photoUrl);
 
-  // Check if advice has already been requested for this attempt
-  const attempt = await getItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId });
-  if (!attempt) {
-    throw new Error('Attempt not found');
-  }
-  if (attempt.aiAdvice) {
-    const error = new Error('Advice already requested for this bake');
-    (error as any).statusCode = 400;
-    throw error;
-  }
-
-  // Get OpenAI API key from Secrets Manager
-  const apiKey = await getOpenAIApiKey();
-  const openai = new OpenAI({ apiKey });
-
-  try {
-    // Build context string from item usages
-    const itemContexts = context.itemUsages.map((usage) => {
-      const ingredientList = usage.ingredients
-        .map((ing) => `${ing.quantity} ${ing.unit} ${ing.name}`)
-        .join(', ');
-
-      let description = `${usage.itemName} using ${usage.recipeName}`;
-      if (usage.variantName) {
-        description += ` (variant: ${usage.variantName})`;
-      }
-      if (usage.scaleFactor && usage.scaleFactor !== 1) {
-        description += ` scaled to ${usage.scaleFactor}x`;
-      }
-      if (ingredientList) {
-        description += `\n   Ingredients: ${ingredientList}`;
-      }
-      if (usage.bakeTime || usage.bakeTemp) {
-        const bakeInfo = [];
-        if (usage.bakeTime) bakeInfo.push(`${usage.bakeTime} minutes`);
-        if (usage.bakeTemp) bakeInfo.push(`${usage.bakeTemp}°${usage.bakeTempUnit || 'F'}`);
-        description += `\n   Baking: ${bakeInfo.join(' at ')}`;
-      }
-      return description;
-    });
-
-    const photoInstruction = photoUrl
-      ? '\n\nI have also attached a photo of my bake. Check it out!'
-      : '';
-
-    const milestoneInstruction = milestoneContext
-      ? `\n\nMilestone context: The baker currently has ${milestoneContext.currentTotalNibs} nibs and needs ${milestoneContext.nibsToNextLevel} more to reach "${milestoneContext.nextLevelTitle}". If your nib award would push them past this threshold, mention the level up naturally and with excitement (e.g. "and that takes you to ${milestoneContext.nextLevelTitle}!").`
-      : '';
+  // Build context string from item usages
+  const itemContexts = context.itemUsages.map((usage) => {
+    const ingredientList = usage.ingredients
+      .map((ing) => `${ing.quantity} ${ing.unit} ${ing.name}`)
+      .join(', ');
 
-    const prompt = `You are "Crumb", a warm and encouraging baker with the personality of Mary Berry - that lovely, slightly posh British warmth combined with decades of baking wisdom. You're supportive but honest, using phrases like "scrummy," "lovely," "delightful," and "rather good." You have a gentle, grandmotherly charm and genuinely want to help bakers improve.
-
-A baker just completed a baking session called "${context.attemptName}" with the following components:
-${itemContexts.map((ctx, i) => `- ${ctx}`).join('\n')}
+    let description = `${usage.itemName} using ${usage.recipeName}`;
+    if (usage.variantName) {
+      description += ` (variant: ${usage.variantName})`;
+    }
+    if (usage.scaleFactor && usage.scaleFactor !== 1) {
+      description += ` scaled to ${usage.scaleFactor}x`;
+    }
+    if (ingredientList) {
+      description += `\n   Ingredients: ${ingredientList}`;
+    }
+    if (usage.bakeTime || usage.bakeTemp) {
+      const bakeInfo = [];
+      if (usage.bakeTime) bakeInfo.push(`${usage.bakeTime} minutes`);
+      if (usage.bakeTemp) bakeInfo.push(`${usage.bakeTemp}°${usage.bakeTempUnit || 'F'}`);
+      description += `\n   Baking: ${bakeInfo.join(' at ')}`;
+    }
+    return description;
+  });
 
-They noted the following outcome:
-"${outcomeNotes}"${photoInstruction}${milestoneInstruction}
+  const photoInstruction = photoUrl
+    ? '\n\nI have also attached a photo of my bake. Check it out!'
+    : '';
 
-Give a warm, encouraging reaction to their bake in Mary Berry's style (3-4 sentences). Be genuinely supportive but honest - if something needs work, say so kindly.${photoUrl ? ' Comment on the appearance - the colour, the rise, the texture you can see.' : ''} Use British English spellings and Mary Berry's characteristic warmth. If they mention specific issues, offer a gentle suggestion for next time.
+  const milestoneInstruction = milestoneContext && awardedNibs === undefined
+    ? `\n\nMilestone context: The baker currently has ${milestoneContext.currentTotalNibs} nibs and needs ${milestoneContext.nibsToNextLevel} more to reach "${milestoneContext.nextLevelTitle}". If your nib award would push them past this threshold, mention the level up naturally and with excitement (e.g. "and that takes you to ${milestoneContext.nextLevelTitle}!").`
+    : '';
 
-You must also award the baker between 5 and 50 "nibs" based on the quality of their bake. Weave the nib award naturally into your overview (e.g. "I'm awarding you 32 nibs for this lovely bake!"). NEVER state an explicit star rating or score, only nibs.
+  const nibsInstruction = awardedNibs === undefined
+    ? `You must also award the baker between 5 and 50 "nibs" based on the quality of their bake. Weave the nib award naturally into your overview (e.g. "I'm awarding you 32 nibs for this lovely bake!"). NEVER state an explicit star rating or score, only nibs.
 
 Nib awarding rubric:
 - 5 to 15: Needs significant improvement
@@ -184,7 +178,26 @@ Respond with a JSON object in this exact format:
 {
   "overview": "Your warm, Mary Berry-style reaction including the nib award (3-4 sentences)",
   "nibsAwarded": 28
-}
+}`
+    : `You have looked at this bake before and already awarded the baker ${awardedNibs} nibs for it. They have since updated their photo or notes and would like a fresh look. Do NOT award any more nibs or suggest a different number; you may mention the ${awardedNibs} nibs they already earned. NEVER state an explicit star rating or score.
+
+Respond with a JSON object in this exact format:
+{
+  "overview": "Your warm, Mary Berry-style reaction (3-4 sentences)",
+  "nibsAwarded": ${awardedNibs}
+}`;
+
+  const prompt = `You are "Crumb", a warm and encouraging baker with the personality of Mary Berry - that lovely, slightly posh British warmth combined with decades of baking wisdom. You're supportive but honest, using phrases like "scrummy," "lovely," "delightful," and "rather good." You have a gentle, grandmotherly charm and genuinely want to help bakers improve.
+
+A baker just completed a baking session called "${context.attemptName}" with the following components:
+${itemContexts.map((ctx, i) => `- ${ctx}`).join('\n')}
+
+They noted the following outcome:
+"${outcomeNotes}"${photoInstruction}${milestoneInstruction}
+
+Give a warm, encouraging reaction to their bake in Mary Berry's style (3-4 sentences). Be genuinely supportive but honest - if something needs work, say so kindly.${photoUrl ? ' Comment on the appearance - the colour, the rise, the texture you can see.' : ''} Use British English spellings and Mary Berry's characteristic warmth. If they mention specific issues, offer a gentle suggestion for next time.
+
+${nibsInstruction}
 
 Guidelines:
 - Channel Mary Berry's warmth, supportive, encouraging, but honest when needed
@@ -195,70 +208,128 @@ Guidelines:
 - NEVER use dashes or hyphens in your response. Write in natural flowing sentences instead
 - NEVER state an explicit star or score, only award nibs`;
 
-    console.log('Calling OpenAI API...');
+  // The photo goes along with the prompt so Crumb can comment on how the bake looks
+  const userMessage: AiMessage = photoUrl
+    ? { role: 'user', content: prompt, imageUrls: [photoUrl] }
+    : { role: 'user', content: prompt };
+
+  const parsed = await getAiProvider().completeJson<{ overview: string; nibsAwarded?: number }>({
+    userId,
+    feature: 'advice',
+    messages: [
+      { role: 'system', content: 'You are an expert baking advisor. Respond only with valid JSON.' },
+      userMessage,
+    ],
+    schema: ADVICE_SCHEMA,
+    maxTokens: 10000,
+  });
+
+  // Clamp nibsAwarded to [5, 50] for safety
+  const rawNibs = typeof parsed.nibsAwarded === 'number' ? parsed.nibsAwarded : 20;
+  const nibsAwarded = awardedNibs ?? Math.max(5, Math.min(50, Math.round(rawNibs)));
+
+  return {
+    adviceId: ulid(),
+    overview: parsed.overview,
+    nibsAwarded,
+    tips: [],  // Tips feature disabled for now - see docs/crumb-tips-prompt.md to re-enable
+    generatedAt: new Date().toISOString(),
+  };
+}
 
-    // Build message content - include image if photo URL provided
-    const userContent: Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> = [
-      { type: 'text', text: prompt },
-    ];
+async function getAttempt(userId: string, attemptId: string): Promise<Attempt> {
+  const attempt = await getItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId });
+  if (!attempt) {
+    throw new NotFoundError('Attempt');
+  }
+  return attempt;
+}
 
-    if (photoUrl) {
-      userContent.push({
-        type: 'image_url',
-        image_url: { url: photoUrl },
-      });
-    }
+// Attempts advised before regeneration existed only have aiAdvice, without an id; it gets one
+// from the attempt and its timestamp so it stays the same from one read to the next
+function adviceHistory(attempt: Attempt): AiAdviceResponse[] {
+  if (attempt.aiAdviceHistory) {
+    return attempt.aiAdviceHistory;
+  }
+  const { aiAdvice } = attempt;
+  if (!aiAdvice) {
+    return [];
+  }
+  return [{ ...aiAdvice, adviceId: aiAdvice.adviceId ?? `${attempt.attemptId}#${aiAdvice.generatedAt}` }];
+}
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-5-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert baking advisor. Respond only with valid JSON.',
-        },
-        {
-          role: 'user',
-          content: userContent,
-        },
-      ],
-      response_format: { type: 'json_object' },
-      max_completion_tokens: 10000,
-    });
+export async function getAiAdvice(
+  userId: string,
+  attemptId: string,
+  request: AiAdviceRequest
+): Promise<AiAdviceResponse> {
+  const attempt = await getAttempt(userId, attemptId);
+  if (attempt.aiAdvice) {
+    throw new ConflictError('Advice already requested for this bake');
+  }
 
-    console.log('OpenAI response received:', JSON.stringify(completion, null, 2));
+  const advice = await askCrumb(userId, request);
 
-    const responseContent = completion.choices[0]?.message?.content;
-    if (!responseContent) {
-      throw new Error('No response from AI');
-    }
+  // Crumb takes a while, so a second request may have landed in the meantime. The version is
+  // left alone: saving advice shouldn't make an edit the baker has open conflict.
+  await appendToListAt<Attempt>(ATTEMPTS_TABLE, { userId, attemptId }, 'aiAdviceHistory', [advice], 0, {
+    aiAdvice: advice,
+  });
+  console.log('Saved AI advice to attempt record');
 
-    const parsed = JSON.parse(responseContent) as { overview: string; nibsAwarded?: number };
-
-    // Clamp nibsAwarded to [5, 50] for safety
-    const rawNibs = typeof parsed.nibsAwarded === 'number' ? parsed.nibsAwarded : 20;
-    const nibsAwarded = Math.max(5, Math.min(50, Math.round(rawNibs)));
-
-    const adviceResponse: AiAdviceResponse = {
-      overview: parsed.overview,
-      nibsAwarded,
-      tips: [],  // Tips feature disabled for now - see docs/crumb-tips-prompt.md to re-enable
-      generatedAt: new Date().toISOString(),
-    };
-
-    // Save the advice to the attempt record
-    await updateItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId }, { aiAdvice: adviceResponse });
-    console.log('Saved AI advice to attempt record');
-
-    return adviceResponse;
-  } catch (error: any) {
-    console.error('OpenAI API Error:', {
-      message: error.message,
-      status: error.status,
-      code: error.code,
-      type: error.type,
-      error: error.error,
-      stack: error.stack,
-    });
-    throw error;
+  return advice;
+}
+
+/**
+ * Asks Crumb to look at the bake again, e.g. after a new photo or better outcome notes. The new
+ * advice becomes current and keeps the nibs from the first advice.
+ */
+export async function regenerateAiAdvice(
+  userId: string,
+  attemptId: string,
+  request: AiAdviceRequest
+): Promise<AiAdviceResponse> {
+  const attempt = await getAttempt(userId, attemptId);
+  const history = adviceHistory(attempt);
+  if (history.length === 0) {
+    throw new ConflictError('Crumb has not given advice for this bake yet');
+  }
+  if (history.length >= MAX_AI_ADVICE_VERSIONS) {
+    throw new ConflictError(`Crumb has already looked at this bake ${MAX_AI_ADVICE_VERSIONS} times`);
   }
+
+  const advice = await askCrumb(userId, request, history[0].nibsAwarded);
+
+  // Only adds to the history Crumb was shown; older advice without a history gets one now
+  const stored = attempt.aiAdviceHistory?.length ?? 0;
+  await appendToListAt<Attempt>(
+    ATTEMPTS_TABLE,
+    { userId, attemptId },
+    'aiAdviceHistory',
+    [...history.slice(stored), advice],
+    stored,
+    { aiAdvice: advice }
+  );
+  console.log(`Saved AI advice version ${history.length + 1} to attempt record`);
+
+  return advice;
+}
+
+export async function setCurrentAiAdvice(
+  userId: string,
+  attemptId: string,
+  adviceId: string
+): Promise<Attempt | null> {
+  const attempt = await getAttempt(userId, attemptId);
+  const advice = adviceHistory(attempt).find((a) => a.adviceId === adviceId);
+  if (!advice) {
+    throw new NotFoundError('Advice');
+  }
+
+  return updateVersionedItem<Attempt>(
+    ATTEMPTS_TABLE,
+    { userId, attemptId },
+    { aiAdvice: advice },
+    attempt.version ?? 0
+  );
 }
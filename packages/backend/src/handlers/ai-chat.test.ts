@@ -0,0 +1,163 @@
+/**
+ * Tests for Crumb chat threads: history is kept server-side, long chats get summarised, and
+ * replies can be streamed; older app builds can still chat without a thread
+ *
+ * Run with: npx jest src/handlers/ai-chat.test.ts
+ */
+
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { NotFoundError } from '@proofed/shared';
+import type { ChatMessage, CrumbChatRequest } from '@proofed/shared';
+import { getCrumbChat, getLegacyCrumbChat, streamCrumbChat } from './ai-chat';
+
+process.env.AI_PROVIDER = 'stub';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+
+const USER_ID = 'user-1';
+const ITEM_USAGE_KEY = 'item-1:recipe-1:';
+const CREATED_AT = '2026-10-01T10:00:00.000Z';
+
+const request: CrumbChatRequest = {
+  itemUsageKey: ITEM_USAGE_KEY,
+  message: 'Why did my sponge sink?',
+  context: {
+    attemptName: 'Birthday cake',
+    focusedItem: { itemName: 'Sponge', recipeName: 'Victoria sponge', ingredients: [] },
+    otherItems: [],
+  },
+};
+
+function history(length: number): ChatMessage[] {
+  return Array.from({ length }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `message ${i}`,
+  }));
+}
+
+function savedThread() {
+  const puts = dynamoMock.commandCalls(PutCommand);
+  return puts[puts.length - 1].args[0].input.Item!;
+}
+
+beforeEach(() => {
+  dynamoMock.reset();
+  dynamoMock.on(GetCommand).resolves({});
+  dynamoMock.on(GetCommand, { Key: { userId: USER_ID, attemptId: 'attempt-1' } }).resolves({
+    Item: { userId: USER_ID, attemptId: 'attempt-1', name: 'Birthday cake' },
+  });
+  dynamoMock.on(PutCommand).resolves({});
+});
+
+describe('getCrumbChat', () => {
+  it('starts a thread and saves both sides of the exchange', async () => {
+    const result = await getCrumbChat(USER_ID, 'attempt-1', request);
+
+    expect(result.thread.messages).toEqual([
+      { role: 'user', content: 'Why did my sponge sink?' },
+      { role: 'assistant', content: result.reply },
+    ]);
+    expect(result.thread).not.toHaveProperty('summary');
+    expect(savedThread()).toMatchObject({
+      userId: USER_ID,
+      threadId: `attempt-1#${ITEM_USAGE_KEY}`,
+      itemName: 'Sponge',
+      summarizedCount: 0,
+    });
+  });
+
+  it('summarises older turns once the thread gets long', async () => {
+    dynamoMock.on(GetCommand, { Key: { userId: USER_ID, threadId: `attempt-1#${ITEM_USAGE_KEY}` } }).resolves({
+      Item: {
+        userId: USER_ID,
+        threadId: `attempt-1#${ITEM_USAGE_KEY}`,
+        attemptId: 'attempt-1',
+        itemUsageKey: ITEM_USAGE_KEY,
+        itemName: 'Sponge',
+        messages: history(22),
+        summarizedCount: 0,
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+      },
+    });
+
+    const result = await getCrumbChat(USER_ID, 'attempt-1', request);
+
+    expect(result.thread.messages).toHaveLength(24);
+    expect(savedThread().summary).toEqual(expect.any(String));
+    expect(savedThread().summarizedCount).toBe(12);
+  });
+
+  it('keeps a turn saved from another device while this reply was being written', async () => {
+    const threadKey = { userId: USER_ID, threadId: `attempt-1#${ITEM_USAGE_KEY}` };
+    const otherTurn: ChatMessage[] = [
+      { role: 'user', content: 'Should I use cake flour?' },
+      { role: 'assistant', content: 'It gives a finer crumb.' },
+    ];
+    dynamoMock
+      .on(GetCommand, { Key: threadKey })
+      .resolvesOnce({})
+      .resolves({
+        Item: {
+          ...threadKey,
+          attemptId: 'attempt-1',
+          itemUsageKey: ITEM_USAGE_KEY,
+          itemName: 'Sponge',
+          messages: otherTurn,
+          summarizedCount: 0,
+          createdAt: CREATED_AT,
+          updatedAt: CREATED_AT,
+          version: 1,
+        },
+      });
+    dynamoMock
+      .on(PutCommand)
+      .rejectsOnce(new ConditionalCheckFailedException({ message: 'failed', $metadata: {} }))
+      .resolves({});
+
+    const result = await getCrumbChat(USER_ID, 'attempt-1', request);
+
+    expect(result.thread.messages).toEqual([
+      ...otherTurn,
+      { role: 'user', content: 'Why did my sponge sink?' },
+      { role: 'assistant', content: result.reply },
+    ]);
+    const retry = dynamoMock.commandCalls(PutCommand)[1].args[0].input;
+    expect(retry.ConditionExpression).toBe('#version = :expectedVersion');
+    expect(savedThread().version).toBe(2);
+  });
+
+  it('rejects a chat about an attempt the user does not have', async () => {
+    await expect(getCrumbChat(USER_ID, 'attempt-2', request)).rejects.toBeInstanceOf(NotFoundError);
+    expect(dynamoMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+});
+
+describe('streamCrumbChat', () => {
+  it('hands over the reply piece by piece and saves it once complete', async () => {
+    const pieces: string[] = [];
+
+    const result = await streamCrumbChat(USER_ID, 'attempt-1', request, (text) => pieces.push(text));
+
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(pieces.join('')).toBe(result.reply);
+    expect(savedThread().messages).toEqual([
+      { role: 'user', content: 'Why did my sponge sink?' },
+      { role: 'assistant', content: result.reply },
+    ]);
+  });
+});
+
+describe('getLegacyCrumbChat', () => {
+  it('answers from the history the app sends and saves no thread', async () => {
+    const { itemUsageKey, ...legacy } = request;
+
+    const result = await getLegacyCrumbChat(USER_ID, { ...legacy, chatHistory: history(4) });
+
+    expect(result).toEqual({ reply: expect.any(String) });
+    expect(dynamoMock.commandCalls(GetCommand)).toHaveLength(0);
+    expect(dynamoMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+});
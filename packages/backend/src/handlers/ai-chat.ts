@@ -1,53 +1,135 @@
-import OpenAI from 'openai';
-import type { CrumbChatRequest, CrumbChatResponse } from '@proofed/shared';
-import { getOpenAIApiKey } from '../lib/secrets';
+import { ConflictError, NotFoundError, UpstreamAiFailureError } from '@proofed/shared';
+import type {
+  Attempt,
+  ChatMessage,
+  CrumbChatRequest,
+  CrumbChatResponse,
+  CrumbChatThread,
+  LegacyCrumbChatRequest,
+  LegacyCrumbChatResponse,
+} from '@proofed/shared';
+import { getItem, putVersionedItem, queryItemsByPrefix } from '../lib/dynamo';
+import { getAiProvider } from '../lib/ai';
+import type { AiMessage } from '../lib/ai';
 
-export async function getCrumbChat(
-  userId: string,
-  attemptId: string,
-  request: CrumbChatRequest
-): Promise<CrumbChatResponse> {
-  const { message, chatHistory, context } = request;
+const ATTEMPTS_TABLE = process.env.ATTEMPTS_TABLE!;
+const CRUMB_CHATS_TABLE = process.env.CRUMB_CHATS_TABLE!;
+
+// Only the latest turns go to the model word for word; once more than SUMMARISE_AFTER
+// have built up, the older ones are folded into a running summary so a long chat costs
+// about the same per message as a short one
+const RECENT_MESSAGES = 10;
+const SUMMARISE_AFTER = 20;
+
+// Keeps a thread row well under DynamoDB's item size limit; the oldest turns are dropped
+// from the transcript, but they live on in the summary
+const MAX_STORED_MESSAGES = 200;
+
+// A turn that loses the race to save, e.g. against a second device, is re-added to the newer thread
+const MAX_SAVE_ATTEMPTS = 3;
+
+interface CrumbChatThreadRow extends CrumbChatThread {
+  userId: string;
+  threadId: string;          // "<attemptId>#<itemUsageKey>"
+  summary?: string;          // what was said in messages[0, summarizedCount)
+  summarizedCount: number;
+  version?: number;          // bumped on every save, so overlapping messages don't drop a turn
+}
+
+function threadKey(attemptId: string, itemUsageKey: string): string {
+  return `${attemptId}#${itemUsageKey}`;
+}
+
+function toThread({
+  userId,
+  threadId,
+  summary,
+  summarizedCount,
+  version,
+  ...thread
+}: CrumbChatThreadRow): CrumbChatThread {
+  return thread;
+}
 
-  const apiKey = await getOpenAIApiKey();
-  const openai = new OpenAI({ apiKey });
+export async function listCrumbChatThreads(userId: string, attemptId: string): Promise<CrumbChatThread[]> {
+  const rows = await queryItemsByPrefix<CrumbChatThreadRow>(
+    CRUMB_CHATS_TABLE,
+    userId,
+    'threadId',
+    threadKey(attemptId, '')
+  );
+  return rows.map(toThread).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// Fold everything but the latest turns into the thread's summary
+async function summariseThread(row: CrumbChatThreadRow): Promise<void> {
+  const upTo = row.messages.length - RECENT_MESSAGES;
+  const transcript = row.messages
+    .slice(row.summarizedCount, upTo)
+    .map(({ role, content }) => `${role === 'user' ? 'Baker' : 'Crumb'}: ${content}`)
+    .join('\n');
 
   try {
-    // Build context description for the focused item
-    const { focusedItem, otherItems, attemptName } = context;
+    row.summary = await getAiProvider().complete({
+      userId: row.userId,
+      feature: 'chat',
+      messages: [
+        {
+          role: 'system',
+          content:
+            'Summarise this conversation between a home baker and Crumb, a baking assistant, in at most 120 words. Keep the questions asked, advice given and any facts about the bake; leave out pleasantries.',
+        },
+        {
+          role: 'user',
+          content: `${row.summary ? `Summary so far: ${row.summary}\n\n` : ''}Conversation:\n${transcript}`,
+        },
+      ],
+      maxTokens: 400,
+    });
+  } catch (error) {
+    // Losing the detail of old turns is better than failing the baker's message
+    console.error('Crumb chat summary failed, truncating instead:', error);
+  }
+  row.summarizedCount = upTo;
+}
 
-    const ingredientList = focusedItem.ingredients
-      .map((ing) => `${ing.quantity} ${ing.unit} ${ing.name}`)
-      .join(', ');
+// Crumb's persona plus what the baker is working on, and a summary of older turns if any
+function crumbSystemPrompt(context: CrumbChatRequest['context'], summary?: string): string {
+  // Build context description for the focused item
+  const { focusedItem, otherItems, attemptName } = context;
 
-    let focusedDescription = `${focusedItem.itemName} using ${focusedItem.recipeName}`;
-    if (focusedItem.variantName) {
-      focusedDescription += ` (variant: ${focusedItem.variantName})`;
-    }
-    if (focusedItem.scaleFactor && focusedItem.scaleFactor !== 1) {
-      focusedDescription += ` scaled to ${focusedItem.scaleFactor}x`;
-    }
-    if (ingredientList) {
-      focusedDescription += `\nIngredients: ${ingredientList}`;
-    }
-    if (focusedItem.prepNotes) {
-      focusedDescription += `\nMethod/Instructions: ${focusedItem.prepNotes}`;
-    }
-    if (focusedItem.variantNotes) {
-      focusedDescription += `\nVariant notes: ${focusedItem.variantNotes}`;
-    }
-    if (focusedItem.bakeTime || focusedItem.bakeTemp) {
-      const bakeInfo = [];
-      if (focusedItem.bakeTime) bakeInfo.push(`${focusedItem.bakeTime} minutes`);
-      if (focusedItem.bakeTemp) bakeInfo.push(`${focusedItem.bakeTemp}°${focusedItem.bakeTempUnit || 'F'}`);
-      focusedDescription += `\nBaking: ${bakeInfo.join(' at ')}`;
-    }
+  const ingredientList = focusedItem.ingredients
+    .map((ing) => `${ing.quantity} ${ing.unit} ${ing.name}`)
+    .join(', ');
 
-    const otherItemsDescription = otherItems.length > 0
-      ? `\nOther items in this bake: ${otherItems.join(', ')}`
-      : '';
+  let focusedDescription = `${focusedItem.itemName} using ${focusedItem.recipeName}`;
+  if (focusedItem.variantName) {
+    focusedDescription += ` (variant: ${focusedItem.variantName})`;
+  }
+  if (focusedItem.scaleFactor && focusedItem.scaleFactor !== 1) {
+    focusedDescription += ` scaled to ${focusedItem.scaleFactor}x`;
+  }
+  if (ingredientList) {
+    focusedDescription += `\nIngredients: ${ingredientList}`;
+  }
+  if (focusedItem.prepNotes) {
+    focusedDescription += `\nMethod/Instructions: ${focusedItem.prepNotes}`;
+  }
+  if (focusedItem.variantNotes) {
+    focusedDescription += `\nVariant notes: ${focusedItem.variantNotes}`;
+  }
+  if (focusedItem.bakeTime || focusedItem.bakeTemp) {
+    const bakeInfo = [];
+    if (focusedItem.bakeTime) bakeInfo.push(`${focusedItem.bakeTime} minutes`);
+    if (focusedItem.bakeTemp) bakeInfo.push(`${focusedItem.bakeTemp}°${focusedItem.bakeTempUnit || 'F'}`);
+    focusedDescription += `\nBaking: ${bakeInfo.join(' at ')}`;
+  }
+
+  const otherItemsDescription = otherItems.length > 0
+    ? `\nOther items in this bake: ${otherItems.join(', ')}`
+    : '';
 
-    const systemPrompt = `You are "Crumb", a baking assistant with Mary Berry's warm British style. Be genuinely helpful but BRIEF.
+  return `You are "Crumb", a baking assistant with Mary Berry's warm British style. Be genuinely helpful but BRIEF.
 
 CRITICAL: Keep responses to 2-3 sentences maximum. Be direct and practical.
 
@@ -60,48 +142,158 @@ Style notes:
 - Natural phrases like "scrummy," "lovely," "rather good"
 - Honest feedback, even if critical
 - No dashes or hyphens
-- Chat like equals over tea, never condescending`;
-
-    // Build messages array with chat history
-    const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-      { role: 'system', content: systemPrompt },
-    ];
-
-    // Add chat history
-    for (const historyMessage of chatHistory) {
-      messages.push({
-        role: historyMessage.role,
-        content: historyMessage.content,
-      });
-    }
+- Chat like equals over tea, never condescending${summary ? `
 
-    // Add current message
-    messages.push({ role: 'user', content: message });
+Earlier in this conversation: ${summary}` : ''}`;
+}
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-5-mini',
-      messages,
-      max_completion_tokens: 5000,
-    });
+interface PreparedChat {
+  row: CrumbChatThreadRow;
+  messages: AiMessage[];   // what to send the model for this turn
+}
 
-    const responseContent = completion.choices[0]?.message?.content;
-    if (!responseContent) {
-      console.error('Empty response content. Choices:', JSON.stringify(completion.choices, null, 2));
-      throw new Error('No response from AI');
-    }
+// Load (or start) the thread and build the prompt for the baker's new message
+async function prepareCrumbChat(
+  userId: string,
+  attemptId: string,
+  request: CrumbChatRequest
+): Promise<PreparedChat> {
+  const { itemUsageKey, message, context } = request;
+
+  const attempt = await getItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId });
+  if (!attempt) {
+    throw new NotFoundError('Attempt');
+  }
+
+  const key = { userId, threadId: threadKey(attemptId, itemUsageKey) };
+  const now = new Date().toISOString();
+  const row = (await getItem<CrumbChatThreadRow>(CRUMB_CHATS_TABLE, key)) ?? {
+    ...key,
+    attemptId,
+    itemUsageKey,
+    itemName: context.focusedItem.itemName,
+    messages: [],
+    summarizedCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (row.messages.length - row.summarizedCount > SUMMARISE_AFTER) {
+    await summariseThread(row);
+  }
+
+  // Build messages array with the recent chat history
+  const messages: AiMessage[] = [
+    { role: 'system', content: crumbSystemPrompt(context, row.summary) },
+    ...row.messages.slice(row.summarizedCount).map(({ role, content }) => ({ role, content })),
+    { role: 'user', content: message },
+  ];
+
+  return { row, messages };
+}
 
-    return {
-      reply: responseContent,
+function withTurn(
+  row: CrumbChatThreadRow,
+  { message, context }: CrumbChatRequest,
+  reply: string
+): CrumbChatThreadRow {
+  const turn: ChatMessage[] = [
+    { role: 'user', content: message },
+    { role: 'assistant', content: reply },
+  ];
+  let messages = [...row.messages, ...turn];
+  let { summarizedCount } = row;
+  const dropped = Math.max(0, messages.length - MAX_STORED_MESSAGES);
+  if (dropped > 0) {
+    messages = messages.slice(dropped);
+    summarizedCount = Math.max(0, summarizedCount - dropped);
+  }
+  return {
+    ...row,
+    messages,
+    summarizedCount,
+    itemName: context.focusedItem.itemName,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+async function saveCrumbChatTurn(
+  row: CrumbChatThreadRow,
+  request: CrumbChatRequest,
+  reply: string
+): Promise<CrumbChatResponse> {
+  let base = row;
+  for (let attempt = 1; ; attempt++) {
+    const saved = await putVersionedItem(CRUMB_CHATS_TABLE, withTurn(base, request, reply), base.version);
+    if (saved) {
+      return {
+        reply,
+        thread: toThread(saved),
+      };
+    }
+    if (attempt >= MAX_SAVE_ATTEMPTS) {
+      throw new ConflictError('This chat is busy, try again in a moment');
+    }
+    // Another message was saved to the thread first; add this turn after it
+    base = (await getItem<CrumbChatThreadRow>(CRUMB_CHATS_TABLE, { userId: row.userId, threadId: row.threadId })) ?? {
+      ...row,
+      version: undefined,
     };
-  } catch (error: any) {
-    console.error('OpenAI API Error:', {
-      message: error.message,
-      status: error.status,
-      code: error.code,
-      type: error.type,
-      error: error.error,
-      stack: error.stack,
-    });
-    throw error;
   }
 }
+
+export async function getCrumbChat(
+  userId: string,
+  attemptId: string,
+  request: CrumbChatRequest
+): Promise<CrumbChatResponse> {
+  const { row, messages } = await prepareCrumbChat(userId, attemptId, request);
+  const reply = await getAiProvider().complete({ userId, feature: 'chat', messages, maxTokens: 5000 });
+  return saveCrumbChatTurn(row, request, reply);
+}
+
+/**
+ * Like getCrumbChat, but hands each piece of the reply to `onText` as the model writes it.
+ * The thread is only saved once the reply is complete, so a dropped stream leaves no half
+ * answer behind.
+ */
+export async function streamCrumbChat(
+  userId: string,
+  attemptId: string,
+  request: CrumbChatRequest,
+  onText: (text: string) => void
+): Promise<CrumbChatResponse> {
+  const { row, messages } = await prepareCrumbChat(userId, attemptId, request);
+  let reply = '';
+  for await (const text of getAiProvider().stream({ userId, feature: 'chat', messages, maxTokens: 5000 })) {
+    reply += text;
+    onText(text);
+  }
+  if (!reply) {
+    throw new UpstreamAiFailureError('No response from AI');
+  }
+  return saveCrumbChatTurn(row, request, reply);
+}
+
+/**
+ * The chat from before threads were kept: the app sends the conversation so far with each
+ * message and nothing is saved. App builds released before threads still call this.
+ */
+export async function getLegacyCrumbChat(
+  userId: string,
+  request: LegacyCrumbChatRequest
+): Promise<LegacyCrumbChatResponse> {
+  const { message, chatHistory, context } = request;
+
+  const messages: AiMessage[] = [
+    { role: 'system', content: crumbSystemPrompt(context) },
+    ...chatHistory.map(({ role, content }) => ({ role, content })),
+    { role: 'user', content: message },
+  ];
+
+  const reply = await getAiProvider().complete({ userId, feature: 'chat', messages, maxTokens: 5000 });
+
+  return {
+    reply,
+  };
+}
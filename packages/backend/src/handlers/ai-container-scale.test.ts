@@ -0,0 +1,66 @@
+/**
+ * Tests for container scaling: the numbers come from the shared engine, tips from the AI
+ *
+ * Run with: npx jest src/handlers/ai-container-scale.test.ts
+ */
+
+import type { AiContainerScaleRequest, ContainerInfo } from '@proofed/shared';
+import { getAiContainerScale } from './ai-container-scale';
+
+process.env.AI_PROVIDER = 'stub';
+
+const USER_ID = 'user-1';
+const eightInchRound: ContainerInfo = { type: 'round_cake_tin', count: 1, size: 8 };
+
+function scaleRequest(targetContainer: ContainerInfo, bakeTime?: number): AiContainerScaleRequest {
+  return {
+    sourceContainer: eightInchRound,
+    targetContainer,
+    context: {
+      itemName: 'Victoria sponge',
+      itemType: 'batter',
+      recipeName: 'Classic sponge',
+      ingredients: [{ name: 'self-raising flour', quantity: 225, unit: 'g' }],
+      bakeTime,
+    },
+  };
+}
+
+describe('getAiContainerScale', () => {
+  it('doubles the recipe for two of the same tin without changing the bake time', async () => {
+    const result = await getAiContainerScale(USER_ID, scaleRequest({ ...eightInchRound, count: 2 }, 30));
+
+    expect(result.scaleFactor).toBe(2);
+    expect(result.scaleFactorDisplay).toBe('2× (2×)');
+    expect(result.adjustedBakeTime).toBeUndefined();
+  });
+
+  it('scales between shapes by area', async () => {
+    const result = await getAiContainerScale(USER_ID, scaleRequest({ type: 'square_cake_tin', count: 1, size: 8 }));
+
+    expect(result.scaleFactor).toBe(1.27);
+  });
+
+  it('shortens the bake for shallower muffin cups and keeps the AI tips', async () => {
+    const result = await getAiContainerScale(
+      USER_ID,
+      scaleRequest({ type: 'muffin_tin', count: 1, cupSize: 'standard', cupsPerTray: 12 }, 30)
+    );
+
+    expect(result.scaleFactor).toBe(0.86);
+    expect(result.adjustedBakeTime).toBe(19);
+    expect(result.tips).toEqual([
+      { title: 'Check early', suggestion: 'Start checking five minutes before the usual time.' },
+    ]);
+  });
+
+  it('lengthens the bake for a deeper loaf tin', async () => {
+    const result = await getAiContainerScale(
+      USER_ID,
+      scaleRequest({ type: 'loaf_tin', count: 1, length: 9, width: 5 }, 30)
+    );
+
+    expect(result.scaleFactor).toBe(1.34);
+    expect(result.adjustedBakeTime).toBe(55);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for the admin AI cost report: calls are summed per day and feature across users
+ *
+ * Run with: npx jest src/handlers/ai-costs.test.ts
+ */
+
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { ValidationError } from '@proofed/shared';
+import type { AiCallRecord } from '@proofed/shared';
+import { getAiCostReport } from './ai-costs';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+
+function call(day: string, fields: Partial<AiCallRecord>): AiCallRecord {
+  return {
+    userId: 'user-1',
+    callId: `${day}T12:00:00.000Z#01J`,
+    day,
+    feature: 'chat',
+    provider: 'openai',
+    model: 'gpt-5-mini',
+    promptTokens: 1000,
+    completionTokens: 500,
+    latencyMs: 1200,
+    outcome: 'ok',
+    costUsd: 0.00125,
+    expiresAt: 0,
+    ...fields,
+  };
+}
+
+function givenCalls(day: string, calls: AiCallRecord[]) {
+  dynamoMock.on(QueryCommand, { ExpressionAttributeValues: { ':value': day } }).resolves({ Items: calls });
+}
+
+beforeEach(() => {
+  dynamoMock.reset();
+  dynamoMock.on(QueryCommand).resolves({ Items: [] });
+});
+
+describe('getAiCostReport', () => {
+  it('sums calls from every user per day and feature', async () => {
+    givenCalls('2026-10-18', [
+      call('2026-10-18', {}),
+      call('2026-10-18', { userId: 'user-2', outcome: 'error', promptTokens: 200, completionTokens: 0, costUsd: 0.00005 }),
+      call('2026-10-18', { feature: 'advice', costUsd: 0.01 }),
+    ]);
+    givenCalls('2026-10-19', [call('2026-10-19', {})]);
+
+    const report = await getAiCostReport('2026-10-18', '2026-10-19');
+
+    expect(report.rows).toEqual([
+      {
+        day: '2026-10-18',
+        feature: 'advice',
+        calls: 1,
+        errors: 0,
+        promptTokens: 1000,
+        completionTokens: 500,
+        costUsd: 0.01,
+      },
+      {
+        day: '2026-10-18',
+        feature: 'chat',
+        calls: 2,
+        errors: 1,
+        promptTokens: 1200,
+        completionTokens: 500,
+        costUsd: 0.0013,
+      },
+      {
+        day: '2026-10-19',
+        feature: 'chat',
+        calls: 1,
+        errors: 0,
+        promptTokens: 1000,
+        completionTokens: 500,
+        costUsd: 0.0013,
+      },
+    ]);
+    expect(report.totalCostUsd).toBe(0.0126);
+  });
+
+  it('follows the index past its first page', async () => {
+    dynamoMock
+      .on(QueryCommand, { ExpressionAttributeValues: { ':value': '2026-10-19' } })
+      .resolvesOnce({ Items: [call('2026-10-19', {})], LastEvaluatedKey: { day: '2026-10-19', callId: 'a' } })
+      .resolvesOnce({ Items: [call('2026-10-19', {})] });
+
+    const report = await getAiCostReport('2026-10-19', '2026-10-19');
+
+    expect(report.rows[0].calls).toBe(2);
+  });
+
+  it('refuses ranges that are backwards or longer than a month', async () => {
+    await expect(getAiCostReport('2026-10-19', '2026-10-01')).rejects.toBeInstanceOf(ValidationError);
+    await expect(getAiCostReport('2026-08-01', '2026-10-19')).rejects.toBeInstanceOf(ValidationError);
+    await expect(getAiCostReport('19/10/2026')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('refuses days that do not exist rather than rolling them over', async () => {
+    await expect(getAiCostReport('2026-02-30', '2026-03-02')).rejects.toBeInstanceOf(ValidationError);
+    await expect(getAiCostReport(undefined, '2026-09-31')).rejects.toBeInstanceOf(ValidationError);
+  });
+});
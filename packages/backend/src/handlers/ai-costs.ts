@@ -0,0 +1,91 @@
+import { AI_FEATURES, ValidationError } from '@proofed/shared';
+import type { AiCallRecord, AiCostReportResponse, AiCostReportRow } from '@proofed/shared';
+import { queryIndexPage } from '../lib/dynamo';
+
+const AI_CALLS_TABLE = process.env.AI_CALLS_TABLE!;
+
+// Each day is a separate query, so the range is kept to about a month
+const MAX_REPORT_DAYS = 31;
+const DEFAULT_REPORT_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates like 2026-02-30 parse as a later day, so the date must read back the same
+function parseDay(value: string, name: string): Date {
+  const date = new Date(`${value}T00:00:00.000Z`);
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    Number.isNaN(date.getTime()) ||
+    date.toISOString().slice(0, 10) !== value
+  ) {
+    throw new ValidationError(`${name} must be a date like 2026-10-19`);
+  }
+  return date;
+}
+
+/**
+ * The UTC days from `from` to `to`, inclusive. `to` defaults to today and `from` to the week
+ * leading up to it.
+ */
+function reportDays(from?: string, to?: string): string[] {
+  const end = parseDay(to ?? new Date().toISOString().slice(0, 10), 'to');
+  const start = from ? parseDay(from, 'from') : new Date(end.getTime() - (DEFAULT_REPORT_DAYS - 1) * DAY_MS);
+  const count = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+  if (count < 1) {
+    throw new ValidationError('from must not be after to');
+  }
+  if (count > MAX_REPORT_DAYS) {
+    throw new ValidationError(`The report covers at most ${MAX_REPORT_DAYS} days`);
+  }
+  return Array.from({ length: count }, (_, i) => new Date(start.getTime() + i * DAY_MS).toISOString().slice(0, 10));
+}
+
+async function callsOn(day: string): Promise<AiCallRecord[]> {
+  const calls: AiCallRecord[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await queryIndexPage<AiCallRecord>(AI_CALLS_TABLE, 'day-index', 'day', day, { cursor });
+    calls.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return calls;
+}
+
+/**
+ * What AI calls cost across all users, summed per day and feature. Costs are only rounded
+ * once summed, so thousands of tiny calls still add up to the right total.
+ */
+export async function getAiCostReport(from?: string, to?: string): Promise<AiCostReportResponse> {
+  const days = reportDays(from, to);
+  const rows: AiCostReportRow[] = [];
+
+  for (const day of days) {
+    const calls = await callsOn(day);
+    for (const feature of AI_FEATURES) {
+      const featureCalls = calls.filter((call) => call.feature === feature);
+      if (featureCalls.length === 0) continue;
+      rows.push({
+        day,
+        feature,
+        calls: featureCalls.length,
+        errors: featureCalls.filter((call) => call.outcome === 'error').length,
+        promptTokens: featureCalls.reduce((sum, call) => sum + call.promptTokens, 0),
+        completionTokens: featureCalls.reduce((sum, call) => sum + call.completionTokens, 0),
+        costUsd: featureCalls.reduce((sum, call) => sum + call.costUsd, 0),
+      });
+    }
+  }
+
+  const totalCostUsd = rows.reduce((sum, row) => sum + row.costUsd, 0);
+  return {
+    from: days[0],
+    to: days[days.length - 1],
+    rows: rows.map((row) => ({ ...row, costUsd: roundCost(row.costUsd) })),
+    totalCostUsd: roundCost(totalCostUsd),
+  };
+}
+
+// Hundredths of a cent
+function roundCost(usd: number): number {
+  return Math.round(usd * 10_000) / 10_000;
+}
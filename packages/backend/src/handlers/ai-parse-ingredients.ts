@@ -1,11 +1,39 @@
-import OpenAI from 'openai';
 import type {
   AiParseIngredientsRequest,
   AiParseIngredientsResponse,
   ParsedIngredientResult,
   MeasurementSystem,
 } from '@proofed/shared';
-import { getOpenAIApiKey } from '../lib/secrets';
+import { getAiProvider } from '../lib/ai';
+import type { AiJsonSchema } from '../lib/ai';
+
+const PARSED_INGREDIENTS_SCHEMA: AiJsonSchema = {
+  name: 'parsed_ingredients',
+  schema: {
+    type: 'object',
+    properties: {
+      ingredients: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            quantity: { type: 'number' },
+            unit: { type: 'string' },
+            originalLine: { type: 'string' },
+            confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+            wasConverted: { type: 'boolean' },
+          },
+          required: ['name', 'quantity', 'unit', 'originalLine', 'confidence', 'wasConverted'],
+          additionalProperties: false,
+        },
+      },
+      warnings: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['ingredients', 'warnings'],
+    additionalProperties: false,
+  },
+};
 
 function buildSystemPrompt(measurementSystem: MeasurementSystem): string {
   const conversionInstructions =
@@ -80,6 +108,7 @@ IMPORTANT:
 }
 
 export async function parseIngredients(
+  userId: string,
   request: AiParseIngredientsRequest
 ): Promise<AiParseIngredientsResponse> {
   const { rawText, measurementSystem } = request;
@@ -93,66 +122,37 @@ export async function parseIngredients(
     return { ingredients: [], warnings: ['No text provided'] };
   }
 
-  // Get OpenAI API key from Secrets Manager
-  const apiKey = await getOpenAIApiKey();
-  const openai = new OpenAI({ apiKey });
-
-  try {
-    const systemPrompt = buildSystemPrompt(measurementSystem);
-
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt,
-        },
-        {
-          role: 'user',
-          content: `Parse these ingredients:\n\n${rawText}`,
-        },
-      ],
-      response_format: { type: 'json_object' },
-      max_completion_tokens: 4000,
-    });
-
-    console.log('OpenAI response received');
-
-    const responseContent = completion.choices[0]?.message?.content;
-    if (!responseContent) {
-      throw new Error('No response from AI');
-    }
-
-    const parsed = JSON.parse(responseContent) as {
-      ingredients: ParsedIngredientResult[];
-      warnings?: string[];
-    };
-
-    // Validate and sanitize the response
-    const validatedIngredients: ParsedIngredientResult[] = (parsed.ingredients || [])
-      .filter((ing) => ing.name && typeof ing.quantity === 'number')
-      .map((ing) => ({
-        name: String(ing.name).trim(),
-        quantity: Number(ing.quantity) || 0,
-        unit: String(ing.unit || '').trim(),
-        originalLine: String(ing.originalLine || '').trim(),
-        confidence: (['high', 'medium', 'low'].includes(ing.confidence) ? ing.confidence : 'medium') as
-          | 'high'
-          | 'medium'
-          | 'low',
-        wasConverted: Boolean(ing.wasConverted),
-      }));
+  const parsed = await getAiProvider().completeJson<{
+    ingredients: ParsedIngredientResult[];
+    warnings?: string[];
+  }>({
+    userId,
+    feature: 'parse-ingredients',
+    messages: [
+      { role: 'system', content: buildSystemPrompt(measurementSystem) },
+      { role: 'user', content: `Parse these ingredients:\n\n${rawText}` },
+    ],
+    schema: PARSED_INGREDIENTS_SCHEMA,
+    maxTokens: 4000,
+  });
 
-    return {
-      ingredients: validatedIngredients,
-      warnings: parsed.warnings,
-    };
-  } catch (error: any) {
-    console.error('AI Parse Ingredients Error:', {
-      message: error.message,
-      status: error.status,
-      code: error.code,
-    });
-    throw error;
-  }
+  // Validate and sanitize the response
+  const validatedIngredients: ParsedIngredientResult[] = (parsed.ingredients || [])
+    .filter((ing) => ing.name && typeof ing.quantity === 'number')
+    .map((ing) => ({
+      name: String(ing.name).trim(),
+      quantity: Number(ing.quantity) || 0,
+      unit: String(ing.unit || '').trim(),
+      originalLine: String(ing.originalLine || '').trim(),
+      confidence: (['high', 'medium', 'low'].includes(ing.confidence) ? ing.confidence : 'medium') as
+        | 'high'
+        | 'medium'
+        | 'low',
+      wasConverted: Boolean(ing.wasConverted),
+    }));
+
+  return {
+    ingredients: validatedIngredients,
+    warnings: parsed.warnings?.length ? parsed.warnings : undefined,
+  };
 }
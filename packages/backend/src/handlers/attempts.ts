@@ -1,18 +1,47 @@
 import { ulid } from 'ulid';
-import { putItem, getItem, queryItems, deleteItem, updateItem } from '../lib/dynamo';
+import { putItem, getItem, queryItems, queryPage, updateVersionedItem } from '../lib/dynamo';
+import type { PageOptions } from '../lib/dynamo';
+import { moveToTrash } from './trash';
+import { NotFoundError } from '@proofed/shared';
 import type {
   Attempt,
+  PagedResponse,
   ProofedItem,
   CreateAttemptRequest,
   UpdateAttemptRequest,
   CaptureAttemptRequest,
+  DeletedReferences,
+  ItemUsage,
+  Recipe,
 } from '@proofed/shared';
 
 const ATTEMPTS_TABLE = process.env.ATTEMPTS_TABLE!;
 const PROOFED_ITEMS_TABLE = process.env.PROOFED_ITEMS_TABLE!;
+const RECIPES_TABLE = process.env.RECIPES_TABLE!;
 
-export async function listAttempts(userId: string): Promise<Attempt[]> {
-  return queryItems<Attempt>(ATTEMPTS_TABLE, userId);
+/**
+ * Pin usages that aren't pinned yet to their recipe's current version, so the bake keeps
+ * showing the recipe it was made with after later edits. Usages whose recipe has since
+ * been deleted are left as they are.
+ */
+async function pinRecipeRevisions(userId: string, usages: ItemUsage[]): Promise<ItemUsage[]> {
+  const versions = new Map<string, number | undefined>();
+  for (const usage of usages) {
+    if (usage.recipeRevision === undefined && !versions.has(usage.recipeId)) {
+      const recipe = await getItem<Recipe>(RECIPES_TABLE, { userId, recipeId: usage.recipeId });
+      versions.set(usage.recipeId, recipe ? (recipe.version ?? 0) : undefined);
+    }
+  }
+
+  return usages.map((usage) => {
+    const recipeRevision = usage.recipeRevision ?? versions.get(usage.recipeId);
+    return recipeRevision === undefined ? usage : { ...usage, recipeRevision };
+  });
+}
+
+// Ordered by bake date, latest first, so upcoming bakes lead and past ones follow in the order they happened
+export async function listAttempts(userId: string, page: PageOptions): Promise<PagedResponse<Attempt>> {
+  return queryPage<Attempt>(ATTEMPTS_TABLE, userId, { ...page, indexName: 'date-index', newestFirst: true });
 }
 
 export async function getAttemptById(userId: string, attemptId: string): Promise<Attempt | null> {
@@ -21,6 +50,7 @@ export async function getAttemptById(userId: string, attemptId: string): Promise
 
 export async function createAttempt(userId: string, request: CreateAttemptRequest): Promise<Attempt> {
   const now = new Date().toISOString();
+  const status = request.status || 'planning';
   const attempt: Attempt = {
     attemptId: ulid(),
     userId,
@@ -29,10 +59,15 @@ export async function createAttempt(userId: string, request: CreateAttemptReques
     ovenTemp: request.ovenTemp,
     ovenTempUnit: request.ovenTempUnit,
     bakeTime: request.bakeTime,
-    itemUsages: request.itemUsages,
+    // Past bakes are created already done, so they're pinned straight away
+    itemUsages:
+      status === 'planning'
+        ? request.itemUsages
+        : await pinRecipeRevisions(userId, request.itemUsages),
     notes: request.notes,
-    status: request.status || 'planning',
+    status,
     flowType: request.flowType,
+    version: 1,
     createdAt: now,
   };
   return putItem(ATTEMPTS_TABLE, attempt);
@@ -43,11 +78,52 @@ export async function updateAttemptById(
   attemptId: string,
   request: UpdateAttemptRequest
 ): Promise<Attempt | null> {
-  return updateItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId }, request);
+  const { version, ...changes } = request;
+
+  // While planning, usages follow the latest recipe; from then on they're pinned
+  if (changes.status || changes.itemUsages) {
+    const stored = changes.status && changes.itemUsages ? null : await getAttemptById(userId, attemptId);
+    const status = changes.status ?? stored?.status ?? 'planning';
+    const usages = changes.itemUsages ?? stored?.itemUsages ?? [];
+    if (status !== 'planning' && usages.some((usage) => usage.recipeRevision === undefined)) {
+      changes.itemUsages = await pinRecipeRevisions(userId, usages);
+    }
+  }
+
+  return updateVersionedItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId }, changes, version);
 }
 
-export async function deleteAttemptById(userId: string, attemptId: string): Promise<void> {
-  return deleteItem(ATTEMPTS_TABLE, { userId, attemptId });
+// Photos stay in the bucket until the trash is purged; returns false if there was nothing to delete
+export async function deleteAttemptById(userId: string, attemptId: string): Promise<boolean> {
+  const attempt = await getAttemptById(userId, attemptId);
+  if (!attempt) {
+    return false;
+  }
+  await moveToTrash(ATTEMPTS_TABLE, [{ userId, attemptId }], new Date().toISOString());
+  return true;
+}
+
+/**
+ * Find attempts and proofed items with an item usage matching the predicate,
+ * used to report bakes left pointing at deleted pantry data.
+ */
+export async function findUsageReferences(
+  userId: string,
+  matches: (usage: ItemUsage) => boolean
+): Promise<DeletedReferences> {
+  const [attempts, proofedItems] = await Promise.all([
+    queryItems<Attempt>(ATTEMPTS_TABLE, userId),
+    queryItems<ProofedItem>(PROOFED_ITEMS_TABLE, userId),
+  ]);
+
+  return {
+    attemptIds: attempts
+      .filter((attempt) => (attempt.itemUsages || []).some(matches))
+      .map((attempt) => attempt.attemptId),
+    proofedItemIds: proofedItems
+      .filter((proofedItem) => (proofedItem.itemConfigs || []).some(matches))
+      .map((proofedItem) => proofedItem.proofedItemId),
+  };
 }
 
 export async function captureAttempt(
@@ -57,7 +133,7 @@ export async function captureAttempt(
 ): Promise<ProofedItem> {
   const attempt = await getAttemptById(userId, attemptId);
   if (!attempt) {
-    throw new Error('Attempt not found');
+    throw new NotFoundError('Attempt');
   }
 
   const now = new Date().toISOString();
@@ -66,8 +142,9 @@ export async function captureAttempt(
     userId,
     name: request.name,
     capturedFromAttemptId: attemptId,
-    itemConfigs: attempt.itemUsages,
+    itemConfigs: await pinRecipeRevisions(userId, attempt.itemUsages),
     notes: request.notes,
+    version: 1,
     createdAt: now,
   };
 
@@ -0,0 +1,242 @@
+/**
+ * Tests for the ingredient list: apps catch up with just what changed, approving and rejecting
+ * publish a new version, and reviews that land together never share a version
+ *
+ * Run with: npx jest src/handlers/ingredients.test.ts
+ */
+
+import { DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { S3Client, DeleteObjectCommand, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { mockClient } from 'aws-sdk-client-mock';
+import type { IngredientsData, IngredientSubmission } from '@proofed/shared';
+import { approveSubmission, getIngredientsDelta, rejectSubmission } from './ingredients';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+const s3Mock = mockClient(S3Client);
+
+const SEED_KEY = 'seed/ingredients.json';
+const PUBLISHED_KEY = 'published/ingredients.json';
+
+const seed: IngredientsData = {
+  version: 1,
+  ingredients: [{ name: 'Plain Flour', category: 'flour' }],
+};
+
+const pending: IngredientSubmission = {
+  submissionId: 'submission-1',
+  name: 'Tahini',
+  userId: 'user-1',
+  status: 'pending',
+  createdAt: '2026-10-01T10:00:00.000Z',
+};
+
+const approved: IngredientSubmission = {
+  submissionId: 'submission-2',
+  name: 'Rye Flour',
+  userId: 'user-2',
+  status: 'approved',
+  category: 'flour',
+  publishedVersion: 2,
+  createdAt: '2026-09-01T10:00:00.000Z',
+};
+
+function s3Body(data: IngredientsData) {
+  return { transformToString: async () => JSON.stringify(data) } as never;
+}
+
+function givenFile(key: string, data: IngredientsData, etag: string) {
+  s3Mock.on(GetObjectCommand, { Key: key }).resolves({ Body: s3Body(data), ETag: etag });
+}
+
+function givenSubmission(submission: IngredientSubmission) {
+  dynamoMock.on(GetCommand, { Key: { submissionId: submission.submissionId } }).resolves({ Item: submission });
+}
+
+function missing() {
+  return Object.assign(new Error('The specified key does not exist.'), { name: 'NoSuchKey' });
+}
+
+function conflict() {
+  return Object.assign(new Error('At least one of the pre-conditions you specified did not hold'), {
+    name: 'PreconditionFailed',
+  });
+}
+
+function puts() {
+  return s3Mock.commandCalls(PutObjectCommand).map((call) => call.args[0].input);
+}
+
+function published(key: string): IngredientsData {
+  const put = puts().filter((input) => input.Key === key).pop()!;
+  return JSON.parse(put.Body as string);
+}
+
+beforeEach(() => {
+  dynamoMock.reset();
+  s3Mock.reset();
+  dynamoMock.on(GetCommand).resolves({});
+  dynamoMock.on(QueryCommand).resolves({ Items: [approved] });
+  dynamoMock.on(PutCommand).resolves({});
+  s3Mock.on(GetObjectCommand).rejects(missing());
+  s3Mock.on(PutObjectCommand).resolves({});
+  s3Mock.on(DeleteObjectCommand).resolves({});
+  givenFile(SEED_KEY, seed, '"seed"');
+  givenFile(
+    PUBLISHED_KEY,
+    { version: 2, ingredients: [...seed.ingredients, { name: 'Rye Flour', category: 'flour' }] },
+    '"v2"'
+  );
+});
+
+describe('getIngredientsDelta', () => {
+  it('sends only what was added, recategorised or removed since the caller\'s version', async () => {
+    givenFile(
+      PUBLISHED_KEY,
+      {
+        version: 4,
+        ingredients: [
+          { name: 'Plain Flour', category: 'flour' },
+          { name: 'Tahini', category: 'other' },
+          { name: 'Rye Flour', category: 'flour' },
+        ],
+      },
+      '"v4"'
+    );
+    givenFile(
+      'published/ingredients/versions/2.json',
+      {
+        version: 2,
+        ingredients: [
+          { name: 'Plain Flour', category: 'flour' },
+          { name: 'Rye Flour', category: 'other' },
+          { name: 'Spelt', category: 'flour' },
+        ],
+      },
+      '"v2"'
+    );
+
+    expect(await getIngredientsDelta(2)).toEqual({
+      version: 4,
+      sinceVersion: 2,
+      full: false,
+      ingredients: [
+        { name: 'Tahini', category: 'other' },
+        { name: 'Rye Flour', category: 'flour' },
+      ],
+      removed: ['Spelt'],
+    });
+  });
+
+  it('sends nothing to a caller that is up to date', async () => {
+    expect(await getIngredientsDelta(2)).toEqual({
+      version: 2,
+      sinceVersion: 2,
+      full: false,
+      ingredients: [],
+      removed: [],
+    });
+  });
+
+  it('sends the whole list for a version it has no snapshot of', async () => {
+    s3Mock.on(GetObjectCommand, { Key: PUBLISHED_KEY }).rejects(missing());
+
+    expect(await getIngredientsDelta(0)).toEqual({
+      version: 1,
+      sinceVersion: 0,
+      full: true,
+      ingredients: seed.ingredients,
+      removed: [],
+    });
+    expect(await getIngredientsDelta(7)).toMatchObject({ version: 1, full: true });
+  });
+});
+
+describe('approveSubmission', () => {
+  it('publishes the seed and every approved name under the next version', async () => {
+    givenSubmission(pending);
+
+    const saved = await approveSubmission('submission-1', { category: 'other', name: ' Tahini Paste ' });
+
+    expect(published(PUBLISHED_KEY)).toEqual({
+      version: 3,
+      ingredients: [
+        { name: 'Plain Flour', category: 'flour' },
+        { name: 'Rye Flour', category: 'flour' },
+        { name: 'Tahini Paste', category: 'other' },
+      ],
+    });
+    // The snapshot claims the version before the list points at it
+    expect(puts().map((input) => [input.Key, input.IfNoneMatch, input.IfMatch])).toEqual([
+      ['published/ingredients/versions/3.json', '*', undefined],
+      [PUBLISHED_KEY, undefined, '"v2"'],
+    ]);
+    expect(saved).toMatchObject({ name: 'Tahini Paste', status: 'approved', category: 'other', publishedVersion: 3 });
+  });
+
+  it('keeps the seed version and drops the old deploy copy on the first publish', async () => {
+    givenSubmission(pending);
+    dynamoMock.on(QueryCommand).resolves({ Items: [] });
+    s3Mock.on(GetObjectCommand, { Key: PUBLISHED_KEY }).rejects(missing());
+
+    await approveSubmission('submission-1', { category: 'other' });
+
+    expect(published('published/ingredients/versions/1.json')).toEqual(seed);
+    expect(s3Mock.commandCalls(DeleteObjectCommand)[0].args[0].input.Key).toBe('data/ingredients.json');
+    expect(puts().find((input) => input.Key === PUBLISHED_KEY)!.IfNoneMatch).toBe('*');
+    expect(published(PUBLISHED_KEY).version).toBe(2);
+  });
+
+  it('moves past a version another publish has taken', async () => {
+    givenSubmission(pending);
+    s3Mock.on(PutObjectCommand, { Key: 'published/ingredients/versions/3.json' }).rejects(conflict());
+
+    const saved = await approveSubmission('submission-1', { category: 'other' });
+
+    expect(saved!.publishedVersion).toBe(4);
+    expect(published(PUBLISHED_KEY).version).toBe(4);
+  });
+
+  it('rebuilds from the newer list when another publish replaced it first', async () => {
+    givenSubmission(pending);
+    s3Mock
+      .on(GetObjectCommand, { Key: PUBLISHED_KEY })
+      .resolvesOnce({ Body: s3Body({ version: 2, ingredients: seed.ingredients }), ETag: '"v2"' })
+      .resolves({ Body: s3Body({ version: 3, ingredients: seed.ingredients }), ETag: '"v3"' });
+    s3Mock.on(PutObjectCommand, { Key: PUBLISHED_KEY, IfMatch: '"v2"' }).rejects(conflict());
+
+    const saved = await approveSubmission('submission-1', { category: 'other' });
+
+    expect(saved!.publishedVersion).toBe(4);
+    expect(puts().map((input) => input.Key)).toEqual([
+      'published/ingredients/versions/3.json',
+      PUBLISHED_KEY,
+      'published/ingredients/versions/4.json',
+      PUBLISHED_KEY,
+    ]);
+  });
+
+  it('answers null for a submission that does not exist', async () => {
+    expect(await approveSubmission('submission-9', { category: 'other' })).toBeNull();
+    expect(puts()).toHaveLength(0);
+  });
+});
+
+describe('rejectSubmission', () => {
+  it('publishes a version without a name that was approved', async () => {
+    givenSubmission(approved);
+
+    const saved = await rejectSubmission('submission-2', { reason: 'Duplicate of Rye' });
+
+    expect(published(PUBLISHED_KEY)).toEqual({ version: 3, ingredients: seed.ingredients });
+    expect(saved).toMatchObject({ status: 'rejected', rejectionReason: 'Duplicate of Rye' });
+  });
+
+  it('publishes nothing for a submission that was never listed', async () => {
+    givenSubmission(pending);
+
+    const saved = await rejectSubmission('submission-1', {});
+
+    expect(puts()).toHaveLength(0);
+    expect(saved).not.toHaveProperty('rejectionReason');
+  });
+});
@@ -1,31 +1,118 @@
 import { ulid } from 'ulid';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
-import { putItem } from '../lib/dynamo';
+import { S3Client, DeleteObjectCommand, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { putItem, getItem, queryIndexPage } from '../lib/dynamo';
+import type { PageOptions } from '../lib/dynamo';
+import { ConflictError } from '@proofed/shared';
 import type {
   IngredientsData,
+  IngredientsDelta,
+  IngredientSuggestion,
   IngredientSubmission,
+  IngredientSubmissionStatus,
   SubmitIngredientRequest,
+  ApproveIngredientSubmissionRequest,
+  RejectIngredientSubmissionRequest,
+  PagedResponse,
 } from '@proofed/shared';
 
 const TABLE_NAME = process.env.INGREDIENT_SUBMISSIONS_TABLE!;
 const ASSETS_BUCKET = process.env.ASSETS_BUCKET!;
 
+const STATUS_INDEX = 'status-index';
+const USER_INDEX = 'user-index';
+
+// The list the apps read, rewritten whenever a submission is approved
+const PUBLISHED_KEY = 'published/ingredients.json';
+// The hand-curated list in the repo's data/ folder, put here by every deploy
+const SEED_KEY = 'seed/ingredients.json';
+// Every published version is kept so apps can ask for just what changed since theirs
+const VERSIONS_PREFIX = 'published/ingredients/versions/';
+// Where deploys used to put the hand-curated list; removed by the first publish
+const LEGACY_KEY = 'data/ingredients.json';
+
+// Reviews that land together publish one after the other; each retry rebuilds the list
+const MAX_PUBLISH_ATTEMPTS = 5;
+
 const s3Client = new S3Client({});
 
-export async function getIngredients(): Promise<IngredientsData> {
-  const command = new GetObjectCommand({
-    Bucket: ASSETS_BUCKET,
-    Key: 'data/ingredients.json',
-  });
+interface StoredIngredients {
+  data: IngredientsData;
+  etag?: string;
+}
 
-  const response = await s3Client.send(command);
-  const bodyString = await response.Body?.transformToString();
+async function readStoredIngredients(key: string): Promise<StoredIngredients | null> {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({ Bucket: ASSETS_BUCKET, Key: key }));
+    const bodyString = await response.Body?.transformToString();
+    if (!bodyString) {
+      throw new Error('Failed to read ingredients data');
+    }
+    return { data: JSON.parse(bodyString) as IngredientsData, etag: response.ETag };
+  } catch (error) {
+    if ((error as Error).name === 'NoSuchKey') {
+      return null;
+    }
+    throw error;
+  }
+}
 
-  if (!bodyString) {
+async function readIngredientsFile(key: string): Promise<IngredientsData | null> {
+  return (await readStoredIngredients(key))?.data ?? null;
+}
+
+// S3 answers a failed If-Match or If-None-Match with 412, or 409 while another such write is in flight
+function isWriteConflict(error: unknown): boolean {
+  const name = (error as Error).name;
+  return name === 'PreconditionFailed' || name === 'ConditionalRequestConflict';
+}
+
+// Until the first approval there is no published list, only the seed
+export async function getIngredients(): Promise<IngredientsData> {
+  const data = (await readIngredientsFile(PUBLISHED_KEY)) ?? (await readIngredientsFile(SEED_KEY));
+  if (!data) {
     throw new Error('Failed to read ingredients data');
   }
+  return data;
+}
 
-  return JSON.parse(bodyString) as IngredientsData;
+function versionKey(version: number): string {
+  return `${VERSIONS_PREFIX}${version}.json`;
+}
+
+// Names are compared exactly, so a change of spelling or capitals counts as a rename
+function diffIngredients(
+  previous: IngredientSuggestion[],
+  current: IngredientSuggestion[]
+): Pick<IngredientsDelta, 'ingredients' | 'removed'> {
+  const before = new Map(previous.map((ingredient) => [ingredient.name, ingredient.category]));
+  const names = new Set(current.map((ingredient) => ingredient.name));
+  return {
+    ingredients: current.filter((ingredient) => before.get(ingredient.name) !== ingredient.category),
+    removed: previous.filter((ingredient) => !names.has(ingredient.name)).map((ingredient) => ingredient.name),
+  };
+}
+
+/**
+ * The changes an app holding `sinceVersion` needs to catch up. Falls back to the whole list
+ * when that version was never published from here (the seed list, or a version from the
+ * future after a bucket was reset).
+ */
+export async function getIngredientsDelta(sinceVersion: number): Promise<IngredientsDelta> {
+  const current = await getIngredients();
+  if (sinceVersion === current.version) {
+    return { version: current.version, sinceVersion, full: false, ingredients: [], removed: [] };
+  }
+
+  const previous = sinceVersion < current.version ? await readIngredientsFile(versionKey(sinceVersion)) : null;
+  if (!previous) {
+    return { version: current.version, sinceVersion, full: true, ingredients: current.ingredients, removed: [] };
+  }
+  return {
+    version: current.version,
+    sinceVersion,
+    full: false,
+    ...diffIngredients(previous.ingredients, current.ingredients),
+  };
 }
 
 export async function submitIngredient(
@@ -44,3 +131,186 @@ export async function submitIngredient(
   await putItem(TABLE_NAME, submission);
   return submission;
 }
+
+// The caller's own suggestions, newest first, so the app can show which were approved
+export async function listMySubmissions(
+  userId: string,
+  page: PageOptions
+): Promise<PagedResponse<IngredientSubmission>> {
+  return queryIndexPage<IngredientSubmission>(TABLE_NAME, USER_INDEX, 'userId', userId, {
+    ...page,
+    newestFirst: true,
+  });
+}
+
+// Admin: the review queue, oldest first so nothing waits forever
+export async function listSubmissions(
+  status: IngredientSubmissionStatus,
+  page: PageOptions
+): Promise<PagedResponse<IngredientSubmission>> {
+  return queryIndexPage<IngredientSubmission>(TABLE_NAME, STATUS_INDEX, 'status', status, {
+    limit: page.limit,
+    cursor: page.cursor,
+  });
+}
+
+async function listApproved(): Promise<IngredientSubmission[]> {
+  const approved: IngredientSubmission[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await listSubmissions('approved', { cursor });
+    approved.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return approved;
+}
+
+// Writes the list under the first version after `after` that no other publish has claimed
+async function writeSnapshot(after: number, ingredients: IngredientSuggestion[]): Promise<IngredientsData> {
+  for (let version = after + 1; ; version++) {
+    const data: IngredientsData = { version, ingredients };
+    try {
+      await s3Client.send(
+        new PutObjectCommand({
+          Bucket: ASSETS_BUCKET,
+          Key: versionKey(version),
+          Body: JSON.stringify(data, null, 2),
+          ContentType: 'application/json',
+          // Snapshots are never overwritten, so no two publishes share a version
+          IfNoneMatch: '*',
+        })
+      );
+      return data;
+    } catch (error) {
+      // A publish that stopped before updating the list leaves its version taken; skip past it
+      if (!isWriteConflict(error) || version - after >= MAX_PUBLISH_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Rebuild the published list from the seed plus every approved submission and write it
+ * under the next version number. Built from scratch each time, so a rejected submission
+ * drops out and edits to the seed reach the apps on the next publish. `changed` is the
+ * submission just reviewed, which the status index may not show yet. Returns null when
+ * another publish replaced the list first.
+ */
+async function tryPublishIngredients(changed: IngredientSubmission): Promise<number | null> {
+  const [seed, published, approved] = await Promise.all([
+    readIngredientsFile(SEED_KEY),
+    readStoredIngredients(PUBLISHED_KEY),
+    listApproved(),
+  ]);
+  const submissions = [
+    ...approved.filter((submission) => submission.submissionId !== changed.submissionId),
+    ...(changed.status === 'approved' ? [changed] : []),
+  ];
+
+  const ingredients: IngredientSuggestion[] = [...(seed?.ingredients ?? [])];
+  const names = new Set(ingredients.map((ingredient) => ingredient.name.toLowerCase()));
+  for (const submission of submissions) {
+    if (!names.has(submission.name.toLowerCase())) {
+      names.add(submission.name.toLowerCase());
+      ingredients.push({ name: submission.name, category: submission.category ?? 'other' });
+    }
+  }
+
+  // Apps installed before the first approval hold the seed's version
+  if (!published && seed) {
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: ASSETS_BUCKET,
+        Key: versionKey(seed.version),
+        Body: JSON.stringify(seed, null, 2),
+        ContentType: 'application/json',
+      })
+    );
+    await s3Client.send(new DeleteObjectCommand({ Bucket: ASSETS_BUCKET, Key: LEGACY_KEY }));
+  }
+  // The snapshot goes first, so a delta is never asked for a version that can't be diffed against
+  const data = await writeSnapshot(Math.max(published?.data.version ?? 0, seed?.version ?? 0), ingredients);
+  try {
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: ASSETS_BUCKET,
+        Key: PUBLISHED_KEY,
+        Body: JSON.stringify(data, null, 2),
+        ContentType: 'application/json',
+        // Only over the list this was built from, so a later version is never replaced by an earlier one
+        ...(published?.etag ? { IfMatch: published.etag } : { IfNoneMatch: '*' }),
+      })
+    );
+  } catch (error) {
+    if (isWriteConflict(error)) {
+      return null;
+    }
+    throw error;
+  }
+  return data.version;
+}
+
+async function publishIngredients(changed: IngredientSubmission): Promise<number> {
+  for (let attempt = 1; ; attempt++) {
+    const version = await tryPublishIngredients(changed);
+    if (version !== null) {
+      return version;
+    }
+    if (attempt >= MAX_PUBLISH_ATTEMPTS) {
+      throw new ConflictError('Other reviews are being published, try again');
+    }
+  }
+}
+
+/**
+ * Admin: accept a submission into the ingredient list and publish a new version of it.
+ * Returns null when the submission doesn't exist.
+ */
+export async function approveSubmission(
+  submissionId: string,
+  request: ApproveIngredientSubmissionRequest
+): Promise<IngredientSubmission | null> {
+  const submission = await getItem<IngredientSubmission>(TABLE_NAME, { submissionId });
+  if (!submission) {
+    return null;
+  }
+
+  const { rejectionReason: _rejected, ...rest } = submission;
+  const reviewed: IngredientSubmission = {
+    ...rest,
+    name: request.name?.trim() || submission.name,
+    status: 'approved',
+    category: request.category,
+    reviewedAt: new Date().toISOString(),
+  };
+  const version = await publishIngredients(reviewed);
+
+  return putItem(TABLE_NAME, { ...reviewed, publishedVersion: submission.publishedVersion ?? version });
+}
+
+/**
+ * Admin: turn a submission down. Rejecting one that was already approved publishes a
+ * version without it. Returns null when the submission doesn't exist.
+ */
+export async function rejectSubmission(
+  submissionId: string,
+  request: RejectIngredientSubmissionRequest
+): Promise<IngredientSubmission | null> {
+  const submission = await getItem<IngredientSubmission>(TABLE_NAME, { submissionId });
+  if (!submission) {
+    return null;
+  }
+
+  const { rejectionReason: _previous, ...rest } = submission;
+  const reviewed: IngredientSubmission = {
+    ...rest,
+    status: 'rejected',
+    reviewedAt: new Date().toISOString(),
+    ...(request.reason ? { rejectionReason: request.reason } : {}),
+  };
+  if (submission.status === 'approved') {
+    await publishIngredients(reviewed);
+  }
+  return putItem(TABLE_NAME, reviewed);
+}
@@ -1,11 +1,30 @@
 import { ulid } from 'ulid';
-import { putItem, getItem, queryItems, deleteItem, updateItem } from '../lib/dynamo';
-import type { Item, CreateItemRequest, UpdateItemRequest } from '@proofed/shared';
+import {
+  putItem,
+  getItem,
+  queryPage,
+  queryItemsWithFilter,
+  updateVersionedItem,
+} from '../lib/dynamo';
+import type { PageOptions } from '../lib/dynamo';
+import { findUsageReferences } from './attempts';
+import { moveToTrash } from './trash';
+import type {
+  Item,
+  Recipe,
+  Variant,
+  CreateItemRequest,
+  UpdateItemRequest,
+  PagedResponse,
+  DeleteResponse,
+} from '@proofed/shared';
 
 const TABLE_NAME = process.env.ITEMS_TABLE!;
+const RECIPES_TABLE = process.env.RECIPES_TABLE!;
+const VARIANTS_TABLE = process.env.VARIANTS_TABLE!;
 
-export async function listItems(userId: string): Promise<Item[]> {
-  return queryItems<Item>(TABLE_NAME, userId);
+export async function listItems(userId: string, page: PageOptions): Promise<PagedResponse<Item>> {
+  return queryPage<Item>(TABLE_NAME, userId, page);
 }
 
 export async function getItemById(userId: string, itemId: string): Promise<Item | null> {
@@ -23,6 +42,7 @@ export async function createItem(userId: string, request: CreateItemRequest): Pr
     bakeTime: request.bakeTime,
     bakeTemp: request.bakeTemp,
     bakeTempUnit: request.bakeTempUnit,
+    version: 1,
     createdAt: now,
     updatedAt: now,
   };
@@ -34,13 +54,43 @@ export async function updateItemById(
   itemId: string,
   request: UpdateItemRequest
 ): Promise<Item | null> {
+  const { version, ...changes } = request;
   const updates: Partial<Item> = {
-    ...request,
+    ...changes,
     updatedAt: new Date().toISOString(),
   };
-  return updateItem<Item>(TABLE_NAME, { userId, itemId }, updates);
+  return updateVersionedItem<Item>(TABLE_NAME, { userId, itemId }, updates, version);
 }
 
-export async function deleteItemById(userId: string, itemId: string): Promise<void> {
-  return deleteItem(TABLE_NAME, { userId, itemId });
+export async function deleteItemById(userId: string, itemId: string): Promise<DeleteResponse | null> {
+  const item = await getItemById(userId, itemId);
+  if (!item) {
+    return null;
+  }
+  const [recipes, variants] = await Promise.all([
+    queryItemsWithFilter<Recipe>(RECIPES_TABLE, userId, 'itemId = :itemId', { ':itemId': itemId }),
+    queryItemsWithFilter<Variant>(VARIANTS_TABLE, userId, 'itemId = :itemId', { ':itemId': itemId }),
+  ]);
+
+  // Children first, so a failure part-way never leaves variants without their recipe
+  const deletedAt = new Date().toISOString();
+  await moveToTrash(
+    VARIANTS_TABLE,
+    variants.map(({ variantId }) => ({ userId, variantId })),
+    deletedAt,
+    itemId
+  );
+  await moveToTrash(
+    RECIPES_TABLE,
+    recipes.map(({ recipeId }) => ({ userId, recipeId })),
+    deletedAt,
+    itemId
+  );
+  await moveToTrash(TABLE_NAME, [{ userId, itemId }], deletedAt);
+
+  return {
+    deletedRecipeIds: recipes.map((recipe) => recipe.recipeId),
+    deletedVariantIds: variants.map((variant) => variant.variantId),
+    references: await findUsageReferences(userId, (usage) => usage.itemId === itemId),
+  };
 }
@@ -1,14 +1,26 @@
-import OpenAI from 'openai';
 import type { CalorieEstimateRequest, CalorieEstimateResponse } from '@proofed/shared';
-import { getOpenAIApiKey } from '../lib/secrets';
+import { getAiProvider } from '../lib/ai';
+import type { AiJsonSchema } from '../lib/ai';
+
+const CALORIE_SCHEMA: AiJsonSchema = {
+  name: 'calorie_estimate',
+  schema: {
+    type: 'object',
+    properties: { totalCalories: { type: 'integer' } },
+    required: ['totalCalories'],
+    additionalProperties: false,
+  },
+};
 
 /**
  * Estimate total calories for a list of ingredients using AI
  *
+ * @param userId - The baker asking, whose AI usage the call counts towards
  * @param request - The calorie estimate request with scaled ingredients
  * @returns The estimated total calories
  */
 export async function estimateCalories(
+  userId: string,
   request: CalorieEstimateRequest
 ): Promise<CalorieEstimateResponse> {
   const { ingredients } = request;
@@ -29,12 +41,7 @@ export async function estimateCalories(
     return { totalCalories: 0 };
   }
 
-  // Get OpenAI API key from Secrets Manager
-  const apiKey = await getOpenAIApiKey();
-  const openai = new OpenAI({ apiKey });
-
-  try {
-    const prompt = `Estimate the total calories for these baking ingredients combined:
+  const prompt = `Estimate the total calories for these baking ingredients combined:
 
 ${ingredientList}
 
@@ -52,48 +59,23 @@ Calculate the total calories for all these ingredients combined. Consider standa
 Return ONLY a JSON object with the total calories (rounded to nearest 10):
 { "totalCalories": 2450 }`;
 
-    console.log('Calling OpenAI API for calorie estimation...');
-
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-5-mini',
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are a nutrition calculator. Estimate total calories accurately based on ingredient quantities. Respond only with valid JSON containing totalCalories as an integer.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      response_format: { type: 'json_object' },
-      max_completion_tokens: 5000,
-    });
-
-    console.log('OpenAI response received:', JSON.stringify(completion, null, 2));
-
-    const responseContent = completion.choices[0]?.message?.content;
-    if (!responseContent) {
-      console.error('Empty response content. Choices:', JSON.stringify(completion.choices, null, 2));
-      throw new Error('No response from AI');
-    }
-
-    const parsed = JSON.parse(responseContent) as { totalCalories: number };
-
-    // Ensure we return a valid number
-    const totalCalories = Math.round(parsed.totalCalories || 0);
-
-    return { totalCalories };
-  } catch (error: any) {
-    console.error('OpenAI API Error:', {
-      message: error.message,
-      status: error.status,
-      code: error.code,
-      type: error.type,
-      error: error.error,
-      stack: error.stack,
-    });
-    throw error;
-  }
+  const parsed = await getAiProvider().completeJson<{ totalCalories: number }>({
+    userId,
+    feature: 'calorie-estimate',
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You are a nutrition calculator. Estimate total calories accurately based on ingredient quantities. Respond only with valid JSON containing totalCalories as an integer.',
+      },
+      { role: 'user', content: prompt },
+    ],
+    schema: CALORIE_SCHEMA,
+    maxTokens: 5000,
+  });
+
+  // Ensure we return a valid number
+  const totalCalories = Math.round(parsed.totalCalories || 0);
+
+  return { totalCalories };
 }
@@ -0,0 +1,93 @@
+/**
+ * Tests for the photo processor: new uploads get their renditions, everything else is left alone
+ *
+ * Run with: npx jest src/handlers/photo-processing.test.ts
+ */
+
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { S3Client, GetObjectCommand, HeadObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { mockClient } from 'aws-sdk-client-mock';
+import sharp from 'sharp';
+import type { S3Event } from 'aws-lambda';
+import { photoProcessor, processPhoto } from './photo-processing';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+const s3Mock = mockClient(S3Client);
+
+const KEY = 'user-1/attempts/attempt-1/1759312800000-cake.jpg';
+const ATTEMPT_KEY = { userId: 'user-1', attemptId: 'attempt-1' };
+
+let photo: Buffer;
+
+beforeAll(async () => {
+  photo = await sharp({ create: { width: 1600, height: 1200, channels: 3, background: '#f4c2c2' } })
+    .jpeg()
+    .toBuffer();
+});
+
+function eventFor(...keys: string[]): S3Event {
+  return { Records: keys.map((key) => ({ s3: { object: { key } } })) } as S3Event;
+}
+
+beforeEach(() => {
+  dynamoMock.reset();
+  s3Mock.reset();
+  dynamoMock.on(GetCommand).resolves({ Item: ATTEMPT_KEY });
+  dynamoMock.on(UpdateCommand).callsFake((input) => ({ Attributes: { ...input.Key } }));
+  s3Mock.on(HeadObjectCommand).resolves({ Metadata: {} });
+  s3Mock.on(GetObjectCommand).resolves({ Body: { transformToByteArray: async () => photo } as never });
+  s3Mock.on(PutObjectCommand).resolves({});
+});
+
+describe('processPhoto', () => {
+  it('writes the renditions, then the stripped original, and records them on the attempt', async () => {
+    const renditions = await processPhoto(KEY);
+
+    expect(renditions).toEqual({
+      key: KEY,
+      thumbnail: 'user-1/attempts/attempt-1/renditions/thumbnail/1759312800000-cake.jpg.jpg',
+      medium: 'user-1/attempts/attempt-1/renditions/medium/1759312800000-cake.jpg.jpg',
+      full: KEY,
+    });
+    const puts = s3Mock.commandCalls(PutObjectCommand).map((call) => call.args[0].input);
+    expect(puts.map((put) => put.Key)).toEqual([renditions!.thumbnail, renditions!.medium, KEY]);
+    expect(puts[2].Metadata).toEqual({ 'proofed-processed': 'true' });
+
+    const thumbnail = await sharp(puts[0].Body as Buffer).metadata();
+    expect([thumbnail.width, thumbnail.height]).toEqual([320, 240]);
+
+    const update = dynamoMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(update.Key).toEqual(ATTEMPT_KEY);
+    expect(update.ExpressionAttributeValues![':values']).toEqual([renditions]);
+  });
+
+  it('ignores renditions and originals it has already rewritten', async () => {
+    expect(await processPhoto('user-1/attempts/attempt-1/renditions/thumbnail/cake.jpg.jpg')).toBeNull();
+    expect(s3Mock.commandCalls(HeadObjectCommand)).toHaveLength(0);
+
+    s3Mock.on(HeadObjectCommand).resolves({ Metadata: { 'proofed-processed': 'true' } });
+    expect(await processPhoto(KEY)).toBeNull();
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+  });
+
+  it('skips a photo whose attempt was deleted before it was reached', async () => {
+    dynamoMock.on(GetCommand).resolves({});
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await processPhoto(KEY)).toBeNull();
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+  });
+});
+
+describe('photoProcessor', () => {
+  it('decodes event keys and fails the event once every photo has been tried', async () => {
+    const otherKey = 'user-1/attempts/attempt-2/1759312900000-second loaf.jpg';
+    s3Mock.on(GetObjectCommand, { Key: otherKey }).rejects(new Error('Service unavailable'));
+
+    await expect(photoProcessor(eventFor('user-1/attempts/attempt-2/1759312900000-second+loaf.jpg', KEY)))
+      .rejects.toThrow('1 of 2 photos could not be processed');
+
+    expect(s3Mock.commandCalls(HeadObjectCommand).map((call) => call.args[0].input.Key)).toEqual([otherKey, KEY]);
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,131 @@
+import type { S3Event } from 'aws-lambda';
+import { S3Client, GetObjectCommand, HeadObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { appendToList, getItem } from '../lib/dynamo';
+import type { Attempt, PhotoRenditions, PhotoSize } from '@proofed/shared';
+
+const s3Client = new S3Client({});
+const PHOTOS_BUCKET = process.env.PHOTOS_BUCKET!;
+const ATTEMPTS_TABLE = process.env.ATTEMPTS_TABLE!;
+
+const RENDITIONS: Record<PhotoSize, { maxDimension: number; quality: number }> = {
+  thumbnail: { maxDimension: 320, quality: 70 },
+  medium: { maxDimension: 1080, quality: 75 },
+  full: { maxDimension: 2560, quality: 82 },
+};
+
+// Set on the rewritten original, so a repeated delivery of its upload event skips it
+const PROCESSED_METADATA = 'proofed-processed';
+
+interface UploadedPhoto {
+  userId: string;
+  attemptId: string;
+  fileName: string;
+}
+
+// Only originals are processed: {userId}/attempts/{attemptId}/{file}. Renditions sit one
+// level deeper and never match.
+function parseUploadKey(key: string): UploadedPhoto | null {
+  const parts = key.split('/');
+  if (parts.length !== 4 || parts[1] !== 'attempts') {
+    return null;
+  }
+  const [userId, , attemptId, fileName] = parts;
+  return { userId, attemptId, fileName };
+}
+
+function renditionKey(photo: UploadedPhoto, size: Exclude<PhotoSize, 'full'>): string {
+  return `${photo.userId}/attempts/${photo.attemptId}/renditions/${size}/${photo.fileName}.jpg`;
+}
+
+async function render(original: Buffer, size: PhotoSize): Promise<Buffer> {
+  // Loaded lazily: sharp is a native module that only this Lambda ships with
+  const { default: sharp } = await import('sharp');
+  const { maxDimension, quality } = RENDITIONS[size];
+
+  // rotate() applies the EXIF orientation first; sharp then drops all metadata on output
+  return sharp(original)
+    .rotate()
+    .resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality, mozjpeg: true })
+    .toBuffer();
+}
+
+async function putJpeg(key: string, body: Buffer, metadata?: Record<string, string>): Promise<void> {
+  await s3Client.send(
+    new PutObjectCommand({
+      Bucket: PHOTOS_BUCKET,
+      Key: key,
+      Body: body,
+      ContentType: 'image/jpeg',
+      Metadata: metadata,
+    })
+  );
+}
+
+/**
+ * Make the thumbnail and medium copies of a freshly uploaded photo, rewrite the original
+ * without its EXIF data, and record the copies on the attempt. Returns null for keys that
+ * aren't new uploads, or whose attempt is gone.
+ */
+export async function processPhoto(key: string): Promise<PhotoRenditions | null> {
+  const photo = parseUploadKey(key);
+  if (!photo) {
+    return null;
+  }
+
+  const head = await s3Client.send(new HeadObjectCommand({ Bucket: PHOTOS_BUCKET, Key: key }));
+  if (head.Metadata?.[PROCESSED_METADATA]) {
+    return null;
+  }
+
+  const attemptKey = { userId: photo.userId, attemptId: photo.attemptId };
+  // Uploads and imports only reach here once the attempt is written, so it was deleted since
+  if (!(await getItem<Attempt>(ATTEMPTS_TABLE, attemptKey, 'include'))) {
+    console.error('Attempt was deleted before its photo was processed:', key);
+    return null;
+  }
+
+  const object = await s3Client.send(new GetObjectCommand({ Bucket: PHOTOS_BUCKET, Key: key }));
+  const original = Buffer.from(await object.Body!.transformToByteArray());
+
+  const renditions: PhotoRenditions = {
+    key,
+    thumbnail: renditionKey(photo, 'thumbnail'),
+    medium: renditionKey(photo, 'medium'),
+    full: key,
+  };
+  await putJpeg(renditions.thumbnail, await render(original, 'thumbnail'));
+  await putJpeg(renditions.medium, await render(original, 'medium'));
+  // The original goes last: once it's rewritten, a retry would skip the photo
+  await putJpeg(key, await render(original, 'full'), { [PROCESSED_METADATA]: 'true' });
+
+  // Appended without a version check: the write can't clobber anything the user edits, and
+  // bumping the version would make an edit they have open conflict with a photo upload
+  if (!(await appendToList(ATTEMPTS_TABLE, attemptKey, 'photoRenditions', [renditions]))) {
+    console.error('Attempt was deleted while its photo was processed:', key);
+  }
+  return renditions;
+}
+
+// Entry point for the photo processor Lambda, triggered by app uploads and account imports
+export async function photoProcessor(event: S3Event): Promise<void> {
+  let failed = 0;
+
+  for (const record of event.Records) {
+    // Object keys in S3 events are URL-encoded, with spaces as '+'
+    const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, ' '));
+    try {
+      await processPhoto(key);
+    } catch (error) {
+      // Unprocessed photos still work; sized downloads fall back to the original
+      console.error('Photo processing failed:', { key, error });
+      failed++;
+    }
+  }
+
+  // Lambda retries a failed event twice, then sends it to the dead-letter queue; photos that
+  // were finished are skipped on retry
+  if (failed > 0) {
+    throw new Error(`${failed} of ${event.Records.length} photos could not be processed`);
+  }
+}
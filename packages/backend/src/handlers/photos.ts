@@ -1,36 +1,249 @@
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import {
+  S3Client,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectsCommand,
+} from '@aws-sdk/client-s3';
+import { createPresignedPost } from '@aws-sdk/s3-presigned-post';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import type { PhotoUploadRequest, PhotoUploadResponse, PhotoDownloadRequest, PhotoDownloadResponse } from '@proofed/shared';
+import { getItem, queryItems, updateVersionedItem } from '../lib/dynamo';
+import { MAX_PHOTO_BYTES, NotFoundError } from '@proofed/shared';
+import type {
+  Attempt,
+  PhotoUploadRequest,
+  PhotoUploadResponse,
+  PhotoDownloadRequest,
+  PhotoDownloadResponse,
+  PhotoDownloadUrlsRequest,
+  PhotoDownloadUrlsResponse,
+  PhotoSize,
+} from '@proofed/shared';
 
 const s3Client = new S3Client({});
 const PHOTOS_BUCKET = process.env.PHOTOS_BUCKET!;
+const ATTEMPTS_TABLE = process.env.ATTEMPTS_TABLE!;
+
+// Uploads are saved to the attempt only once they finish, so recent objects are never orphans
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Every photo lives under the owner's prefix, so the key alone says whose it is
+function isOwnPhoto(userId: string, key: string): boolean {
+  return key.startsWith(`${userId}/`);
+}
+
+// Keys look like {userId}/attempts/{attemptId}/{file}
+function attemptIdOf(key: string): string | null {
+  const [, folder, attemptId] = key.split('/');
+  return folder === 'attempts' && attemptId ? attemptId : null;
+}
+
+// The stored copy to serve for a size; the original until the processor has run
+function sizedKey(attempt: Attempt | null, key: string, size: PhotoSize = 'full'): string {
+  const renditions = attempt?.photoRenditions?.find((entry) => entry.key === key);
+  return renditions?.[size] ?? key;
+}
+
+function signDownload(key: string): Promise<string> {
+  const command = new GetObjectCommand({
+    Bucket: PHOTOS_BUCKET,
+    Key: key,
+  });
+  return getSignedUrl(s3Client, command, { expiresIn: 3600 });
+}
 
 export async function getUploadUrl(userId: string, request: PhotoUploadRequest): Promise<PhotoUploadResponse> {
+  if (!(await getItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId: request.attemptId }))) {
+    throw new NotFoundError('Attempt');
+  }
+
   const key = `${userId}/attempts/${request.attemptId}/${Date.now()}-${request.fileName}`;
 
-  const command = new PutObjectCommand({
+  // A POST policy, unlike a presigned PUT, lets S3 enforce the size and type itself
+  const { url, fields } = await createPresignedPost(s3Client, {
     Bucket: PHOTOS_BUCKET,
     Key: key,
-    ContentType: request.contentType,
+    Fields: { 'Content-Type': request.contentType },
+    Conditions: [
+      ['content-length-range', 1, MAX_PHOTO_BYTES],
+      ['eq', '$Content-Type', request.contentType],
+    ],
+    Expires: 300,
   });
 
-  const uploadUrl = await getSignedUrl(s3Client, command, { expiresIn: 300 });
-
   return {
-    uploadUrl,
+    uploadUrl: url,
+    fields,
     key,
   };
 }
 
-export async function getDownloadUrl(request: PhotoDownloadRequest): Promise<PhotoDownloadResponse> {
-  const command = new GetObjectCommand({
-    Bucket: PHOTOS_BUCKET,
-    Key: request.key,
-  });
+export async function getDownloadUrl(userId: string, request: PhotoDownloadRequest): Promise<PhotoDownloadResponse> {
+  // Someone else's photo gets the same answer as a missing one
+  if (!isOwnPhoto(userId, request.key)) {
+    throw new NotFoundError('Photo');
+  }
 
-  const downloadUrl = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
+  const attemptId = request.size && request.size !== 'full' ? attemptIdOf(request.key) : null;
+  const attempt = attemptId ? await getItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId }) : null;
 
   return {
-    downloadUrl,
+    downloadUrl: await signDownload(sizedKey(attempt, request.key, request.size)),
   };
 }
+
+export async function getAttemptDownloadUrls(
+  userId: string,
+  request: PhotoDownloadUrlsRequest
+): Promise<PhotoDownloadUrlsResponse> {
+  const attempt = await getItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId: request.attemptId });
+  if (!attempt) {
+    throw new NotFoundError('Attempt');
+  }
+
+  // photoKeys is client-supplied, so it gets the same ownership check as a single key
+  const keys = (attempt.photoKeys ?? []).filter((key) => isOwnPhoto(userId, key));
+  const photos = await Promise.all(
+    keys.map(async (key) => ({
+      key,
+      downloadUrl: await signDownload(sizedKey(attempt, key, request.size)),
+    }))
+  );
+
+  return { photos };
+}
+
+// For views that don't run as the owner, such as a shared link: the main photo comes first
+export async function signAttemptPhotos(attempt: Attempt, size: PhotoSize): Promise<string[]> {
+  const keys = (attempt.photoKeys ?? []).filter((key) => isOwnPhoto(attempt.userId, key));
+  const ordered = attempt.mainPhotoKey && keys.includes(attempt.mainPhotoKey)
+    ? [attempt.mainPhotoKey, ...keys.filter((key) => key !== attempt.mainPhotoKey)]
+    : keys;
+  return Promise.all(ordered.map((key) => signDownload(sizedKey(attempt, key, size))));
+}
+
+interface StoredPhoto {
+  key: string;
+  lastModified?: Date;
+}
+
+async function listPhotos(prefix: string, delimiter?: string): Promise<{ photos: StoredPhoto[]; prefixes: string[] }> {
+  const photos: StoredPhoto[] = [];
+  const prefixes: string[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const listResponse = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: PHOTOS_BUCKET,
+        Prefix: prefix,
+        Delimiter: delimiter,
+        ContinuationToken: continuationToken,
+      })
+    );
+    for (const obj of listResponse.Contents || []) {
+      photos.push({ key: obj.Key!, lastModified: obj.LastModified });
+    }
+    prefixes.push(...(listResponse.CommonPrefixes || []).map((common) => common.Prefix!));
+    continuationToken = listResponse.NextContinuationToken;
+  } while (continuationToken);
+
+  return { photos, prefixes };
+}
+
+async function deletePhotoObjects(keys: string[]): Promise<void> {
+  // DeleteObjects accepts at most 1000 keys per call
+  for (let i = 0; i < keys.length; i += 1000) {
+    await s3Client.send(
+      new DeleteObjectsCommand({
+        Bucket: PHOTOS_BUCKET,
+        Delete: { Objects: keys.slice(i, i + 1000).map((key) => ({ Key: key })) },
+      })
+    );
+  }
+}
+
+/**
+ * Delete one photo and take it off the attempt it belongs to. If it was the main photo,
+ * the next one takes its place.
+ */
+export async function deletePhoto(userId: string, key: string): Promise<void> {
+  if (!isOwnPhoto(userId, key)) {
+    throw new NotFoundError('Photo');
+  }
+
+  const attemptId = attemptIdOf(key);
+  const attempt = attemptId ? await getItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId }) : null;
+  const renditions = attempt?.photoRenditions?.find((entry) => entry.key === key);
+
+  if (attempt && (attempt.photoKeys?.includes(key) || renditions)) {
+    const photoKeys = (attempt.photoKeys ?? []).filter((photoKey) => photoKey !== key);
+    const updates: Record<string, unknown> = { photoKeys };
+    if (attempt.mainPhotoKey === key) {
+      // null removes the attribute
+      updates.mainPhotoKey = photoKeys[0] ?? null;
+    }
+    if (renditions) {
+      updates.photoRenditions = attempt.photoRenditions!.filter((entry) => entry !== renditions);
+    }
+    await updateVersionedItem<Attempt>(
+      ATTEMPTS_TABLE,
+      { userId, attemptId: attemptId! },
+      updates as Partial<Attempt>,
+      attempt.version ?? 0
+    );
+  }
+
+  await deletePhotoObjects(renditions ? [key, renditions.thumbnail, renditions.medium] : [key]);
+}
+
+// Everything stored for the attempt, including uploads that never made it onto photoKeys
+export async function deleteAttemptPhotos(attempt: Attempt): Promise<void> {
+  const { photos } = await listPhotos(`${attempt.userId}/attempts/${attempt.attemptId}/`);
+  const keys = new Set([...(attempt.photoKeys ?? []), ...photos.map((photo) => photo.key)]);
+  await deletePhotoObjects([...keys]);
+}
+
+/**
+ * Delete the user's stored photos that no attempt refers to, such as uploads whose attempt
+ * update never landed or photos dropped from photoKeys by an older client. Attempts in the
+ * trash still count, so restoring one brings its photos back too.
+ */
+export async function reconcileUserPhotos(userId: string): Promise<string[]> {
+  const [{ photos }, attempts] = await Promise.all([
+    listPhotos(`${userId}/attempts/`),
+    queryItems<Attempt>(ATTEMPTS_TABLE, userId, 'include'),
+  ]);
+
+  // A photo's renditions are only kept while the photo itself is
+  const referenced = new Set(
+    attempts.flatMap((attempt) => {
+      const photoKeys = attempt.photoKeys ?? [];
+      const renditions = (attempt.photoRenditions ?? []).filter((entry) => photoKeys.includes(entry.key));
+      return [...photoKeys, ...renditions.flatMap((entry) => [entry.thumbnail, entry.medium])];
+    })
+  );
+  const cutoff = Date.now() - ORPHAN_GRACE_MS;
+  const orphans = photos
+    .filter((photo) => !referenced.has(photo.key))
+    .filter((photo) => !photo.lastModified || photo.lastModified.getTime() < cutoff)
+    .map((photo) => photo.key);
+
+  await deletePhotoObjects(orphans);
+  return orphans;
+}
+
+// Scheduled job: reconcile every user with anything in the photos bucket
+export async function reconcilePhotos(): Promise<void> {
+  const { prefixes } = await listPhotos('', '/');
+  let deleted = 0;
+
+  for (const prefix of prefixes) {
+    const orphans = await reconcileUserPhotos(prefix.slice(0, -1));
+    if (orphans.length > 0) {
+      console.log(`Deleted ${orphans.length} orphaned photos under ${prefix}`);
+    }
+    deleted += orphans.length;
+  }
+
+  console.log(`Photo reconciliation checked ${prefixes.length} users, deleted ${deleted} photos`);
+}
@@ -0,0 +1,130 @@
+/**
+ * Tests for printing: recipe cards for a variant at a scale, and bake sheets built from the
+ * recipes as the bake pinned them
+ *
+ * Run with: npx jest src/handlers/print.test.ts
+ */
+
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import { NotFoundError } from '@proofed/shared';
+import { getBakeSheetPdf, getRecipeCardPdf } from './print';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+const drawText = jest.spyOn(PDFPage.prototype, 'drawText');
+
+const USER_ID = 'user-1';
+
+const recipe = {
+  itemId: 'item-1',
+  name: 'Victoria sponge',
+  ingredients: [
+    { name: 'Flour', quantity: 225, unit: 'g' },
+    { name: 'Sugar', quantity: 225, unit: 'g' },
+  ],
+  prepNotes: 'Cream the butter and sugar.',
+  bakeTime: 25,
+  bakeTemp: 180,
+  bakeTempUnit: 'C',
+  container: { type: 'round_cake_tin', count: 2, size: 8 },
+};
+
+function givenRow(key: Record<string, string>, item: object) {
+  dynamoMock.on(GetCommand, { Key: key }).resolves({ Item: { ...key, ...item } });
+}
+
+function drawn(): string[] {
+  return drawText.mock.calls.map(([text]) => text);
+}
+
+beforeEach(() => {
+  dynamoMock.reset();
+  drawText.mockClear();
+  dynamoMock.on(GetCommand).resolves({});
+  givenRow({ userId: USER_ID, recipeId: 'recipe-1' }, recipe);
+  givenRow({ userId: USER_ID, itemId: 'item-1' }, { name: 'Birthday cake' });
+  givenRow(
+    { userId: USER_ID, variantId: 'variant-1' },
+    {
+      recipeId: 'recipe-1',
+      name: 'Lemon',
+      ingredientOverrides: [{ name: 'Lemon zest', quantity: 2, unit: 'tsp' }],
+      bakeTime: 30,
+      notes: 'Drizzle while warm.',
+    }
+  );
+});
+
+describe('getRecipeCardPdf', () => {
+  it('prints the variant with its overrides, scaled', async () => {
+    const card = await getRecipeCardPdf(USER_ID, 'recipe-1', { scaleFactor: 0.5, variantId: 'variant-1' });
+
+    expect(card!.fileName).toBe('victoria-sponge-lemon.pdf');
+    expect((await PDFDocument.load(card!.content)).getTitle()).toBe('Victoria sponge (Lemon)');
+    expect(drawn()).toEqual(
+      expect.arrayContaining([
+        'Victoria sponge (Lemon)',
+        'Birthday cake',
+        '÷2',
+        '30 min at 180°C',
+        '1 × 8" round cake tin',
+        '112.5 g',
+        'Flour',
+        '1 tsp',
+        'Lemon zest',
+        'Lemon notes',
+        'Drizzle while warm.',
+      ])
+    );
+  });
+
+  it('refuses a variant of another recipe and answers null for a missing recipe', async () => {
+    givenRow({ userId: USER_ID, variantId: 'variant-2' }, { recipeId: 'recipe-2', name: 'Chocolate' });
+
+    await expect(getRecipeCardPdf(USER_ID, 'recipe-1', { variantId: 'variant-2' })).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+    expect(await getRecipeCardPdf(USER_ID, 'recipe-9', {})).toBeNull();
+  });
+});
+
+describe('getBakeSheetPdf', () => {
+  it('uses the pinned revision and marks recipes that are gone', async () => {
+    givenRow(
+      { userId: USER_ID, attemptId: 'attempt-1' },
+      {
+        name: 'Saturday bake',
+        date: '2026-10-17',
+        itemUsages: [
+          { itemId: 'item-1', recipeId: 'recipe-1', recipeRevision: 3, scaleFactor: 2 },
+          { itemId: 'item-2', recipeId: 'recipe-2' },
+        ],
+      }
+    );
+    givenRow(
+      { userId: USER_ID, revisionId: 'recipe-1#000003' },
+      { revision: 3, recipe: { ...recipe, name: 'Victoria sponge, as baked', ingredients: [recipe.ingredients[0]] } }
+    );
+
+    const sheet = await getBakeSheetPdf(USER_ID, 'attempt-1');
+
+    expect(sheet!.fileName).toBe('saturday-bake-bake-sheet.pdf');
+    const text = drawn();
+    expect(text).toEqual(
+      expect.arrayContaining([
+        'Victoria sponge, as baked',
+        '×2',
+        '4 × 8" round cake tins',
+        '450 g',
+        'Deleted item',
+        'This recipe has been deleted.',
+      ])
+    );
+    expect(text).not.toContain('Sugar');
+  });
+
+  it('answers null for a missing attempt', async () => {
+    expect(await getBakeSheetPdf(USER_ID, 'attempt-9')).toBeNull();
+  });
+});
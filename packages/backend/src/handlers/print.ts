@@ -0,0 +1,182 @@
+import { getItem } from '../lib/dynamo';
+import { PdfWriter } from '../lib/pdf';
+import type { PdfColumn, PdfFile } from '../lib/pdf';
+import { mergeIngredients, scaleIngredients, formatScaleFactor } from '../lib/recipe-scaling';
+import { formatBakeSettings, slugify } from '../lib/recipe-text';
+import { formatContainer } from '../constants/containers';
+import { getRecipeRevision } from './recipe-revisions';
+import { NotFoundError } from '@proofed/shared';
+import type { Attempt, ContainerInfo, Ingredient, Item, ItemUsage, Recipe, RecipeContent, Variant } from '@proofed/shared';
+
+const ITEMS_TABLE = process.env.ITEMS_TABLE!;
+const RECIPES_TABLE = process.env.RECIPES_TABLE!;
+const VARIANTS_TABLE = process.env.VARIANTS_TABLE!;
+const ATTEMPTS_TABLE = process.env.ATTEMPTS_TABLE!;
+
+export interface RecipeCardOptions {
+  scaleFactor?: number;
+  variantId?: string;
+}
+
+function amount({ quantity, unit }: Ingredient): string {
+  return [quantity > 0 ? String(quantity) : '', unit].filter(Boolean).join(' ');
+}
+
+// The apps scale the number of tins along with the ingredients
+function scaledContainer(container: ContainerInfo | undefined, scaleFactor: number): string | null {
+  return container ? formatContainer({ ...container, count: Math.round(container.count * scaleFactor * 10) / 10 }) : null;
+}
+
+function bakeSettings(recipe: RecipeContent, variant: Variant | null): string {
+  return formatBakeSettings({
+    bakeTime: variant?.bakeTime ?? recipe.bakeTime,
+    bakeTemp: variant?.bakeTemp ?? recipe.bakeTemp,
+    bakeTempUnit: variant?.bakeTempUnit ?? recipe.bakeTempUnit,
+  });
+}
+
+function source(recipe: RecipeContent): string | null {
+  return recipe.customSourceName || recipe.customSourceUrl || null;
+}
+
+const CARD_COLUMNS: PdfColumn[] = [{ header: 'Amount', width: 110, align: 'right' }, { header: 'Ingredient' }];
+
+/**
+ * A recipe card for printing, optionally for one of the recipe's variants and scaled the way
+ * the apps scale it. Returns null when the recipe doesn't exist.
+ */
+export async function getRecipeCardPdf(
+  userId: string,
+  recipeId: string,
+  { scaleFactor = 1, variantId }: RecipeCardOptions
+): Promise<PdfFile | null> {
+  const recipe = await getItem<Recipe>(RECIPES_TABLE, { userId, recipeId });
+  if (!recipe) {
+    return null;
+  }
+
+  const [item, variant] = await Promise.all([
+    getItem<Item>(ITEMS_TABLE, { userId, itemId: recipe.itemId }),
+    variantId ? getItem<Variant>(VARIANTS_TABLE, { userId, variantId }) : null,
+  ]);
+  if (variantId && (!variant || variant.recipeId !== recipeId)) {
+    throw new NotFoundError('Variant');
+  }
+
+  const title = variant ? `${recipe.name} (${variant.name})` : recipe.name;
+  const pdf = await PdfWriter.create(title);
+  pdf.title(title);
+  if (item) pdf.paragraph(item.name, { muted: true });
+  pdf.fields([
+    ['Scale', scaleFactor !== 1 ? formatScaleFactor(scaleFactor) : null],
+    ['Bake', bakeSettings(recipe, variant)],
+    ['Container', scaledContainer(recipe.container, scaleFactor)],
+    ['Source', source(recipe)],
+  ]);
+
+  const ingredients = scaleIngredients(mergeIngredients(recipe.ingredients, variant), scaleFactor);
+  if (ingredients.length > 0) {
+    pdf.heading('Ingredients');
+    pdf.table(CARD_COLUMNS, ingredients.map((ingredient) => [amount(ingredient), ingredient.name]));
+  }
+  if (recipe.prepNotes) {
+    pdf.heading('Method');
+    pdf.paragraph(recipe.prepNotes);
+  }
+  if (variant?.notes) {
+    pdf.heading(`${variant.name} notes`);
+    pdf.paragraph(variant.notes);
+  }
+
+  const suffix = variant ? `-${slugify(variant.name)}` : '';
+  return { fileName: `${slugify(recipe.name) || 'recipe'}${suffix}.pdf`, content: await pdf.save() };
+}
+
+interface UsageRecipe {
+  item: Item | null;
+  recipe: RecipeContent | null;
+  variant: Variant | null;
+}
+
+// The recipe as the bake uses it: the pinned revision once baking has started
+async function loadUsage(userId: string, usage: ItemUsage): Promise<UsageRecipe> {
+  const [item, recipe, revision, variant] = await Promise.all([
+    getItem<Item>(ITEMS_TABLE, { userId, itemId: usage.itemId }),
+    getItem<Recipe>(RECIPES_TABLE, { userId, recipeId: usage.recipeId }),
+    usage.recipeRevision !== undefined ? getRecipeRevision(userId, usage.recipeId, usage.recipeRevision) : null,
+    usage.variantId ? getItem<Variant>(VARIANTS_TABLE, { userId, variantId: usage.variantId }) : null,
+  ]);
+  return { item, recipe: revision?.recipe ?? recipe, variant };
+}
+
+const SHEET_COLUMNS: PdfColumn[] = [
+  { header: 'Done', width: 40, checkbox: true },
+  { header: 'Amount', width: 110, align: 'right' },
+  { header: 'Ingredient' },
+];
+
+function storeBoughtRow(recipe: RecipeContent, usage: ItemUsage): string[] {
+  const product = [recipe.brand, recipe.productName].filter(Boolean).join(' ') || recipe.name;
+  const unit = usage.usageUnit ?? recipe.purchaseUnit ?? '';
+  return ['', usage.usageQuantity ? amount({ name: product, quantity: usage.usageQuantity, unit }) : '', product];
+}
+
+/**
+ * The whole plan for a bake on paper: every item with its scaled ingredients, container, bake
+ * settings and method, and a box per ingredient to tick off. Returns null when the attempt
+ * doesn't exist.
+ */
+export async function getBakeSheetPdf(userId: string, attemptId: string): Promise<PdfFile | null> {
+  const attempt = await getItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId });
+  if (!attempt) {
+    return null;
+  }
+
+  const usages = await Promise.all(attempt.itemUsages.map((usage) => loadUsage(userId, usage)));
+
+  const pdf = await PdfWriter.create(attempt.name);
+  pdf.title(attempt.name);
+  pdf.paragraph(attempt.date, { muted: true });
+  if (attempt.notes) pdf.paragraph(attempt.notes);
+
+  attempt.itemUsages.forEach((usage, index) => {
+    const { item, recipe, variant } = usages[index];
+    const scaleFactor = usage.scaleFactor ?? 1;
+    pdf.heading(item?.name ?? 'Deleted item');
+    if (!recipe) {
+      pdf.paragraph('This recipe has been deleted.', { muted: true });
+      return;
+    }
+
+    pdf.subheading(variant ? `${recipe.name} (${variant.name})` : recipe.name);
+    pdf.fields([
+      ['Scale', scaleFactor !== 1 ? formatScaleFactor(scaleFactor) : null],
+      ['Bake', bakeSettings(recipe, variant)],
+      ['Container', scaledContainer(recipe.container, scaleFactor)],
+    ]);
+
+    const rows = recipe.isStoreBought
+      ? [storeBoughtRow(recipe, usage)]
+      : scaleIngredients(mergeIngredients(recipe.ingredients, variant), scaleFactor).map((ingredient) => [
+          '',
+          amount(ingredient),
+          ingredient.name,
+        ]);
+    if (rows.length > 0) pdf.table(SHEET_COLUMNS, rows);
+
+    if (recipe.prepNotes && !recipe.isStoreBought) {
+      pdf.subheading('Method');
+      pdf.paragraph(recipe.prepNotes);
+    }
+    if (variant?.notes) {
+      pdf.subheading(`${variant.name} notes`);
+      pdf.paragraph(variant.notes);
+    }
+    if (usage.notes) {
+      pdf.subheading('Notes');
+      pdf.paragraph(usage.notes);
+    }
+  });
+
+  return { fileName: `${slugify(attempt.name) || 'bake'}-bake-sheet.pdf`, content: await pdf.save() };
+}
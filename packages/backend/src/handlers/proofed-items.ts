@@ -1,10 +1,11 @@
-import { getItem, queryItems, deleteItem, updateItem } from '../lib/dynamo';
-import type { ProofedItem, UpdateProofedItemRequest } from '@proofed/shared';
+import { getItem, queryPage, deleteItem, updateVersionedItem } from '../lib/dynamo';
+import type { PageOptions } from '../lib/dynamo';
+import type { ProofedItem, UpdateProofedItemRequest, PagedResponse } from '@proofed/shared';
 
 const TABLE_NAME = process.env.PROOFED_ITEMS_TABLE!;
 
-export async function listProofedItems(userId: string): Promise<ProofedItem[]> {
-  return queryItems<ProofedItem>(TABLE_NAME, userId);
+export async function listProofedItems(userId: string, page: PageOptions): Promise<PagedResponse<ProofedItem>> {
+  return queryPage<ProofedItem>(TABLE_NAME, userId, page);
 }
 
 export async function getProofedItemById(userId: string, proofedItemId: string): Promise<ProofedItem | null> {
@@ -16,7 +17,8 @@ export async function updateProofedItemById(
   proofedItemId: string,
   request: UpdateProofedItemRequest
 ): Promise<ProofedItem | null> {
-  return updateItem<ProofedItem>(TABLE_NAME, { userId, proofedItemId }, request);
+  const { version, ...changes } = request;
+  return updateVersionedItem<ProofedItem>(TABLE_NAME, { userId, proofedItemId }, changes, version);
 }
 
 export async function deleteProofedItemById(userId: string, proofedItemId: string): Promise<void> {
@@ -0,0 +1,220 @@
+/**
+ * Tests for importing recipes from saved recipe pages
+ *
+ * Run with: npx jest src/handlers/recipe-import.test.ts
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { RateLimitedError, ValidationError, createRecipeRequestSchema, validate } from '@proofed/shared';
+import { withAiQuota } from '../lib/ai-quota';
+import { parseIngredients } from './ai-parse-ingredients';
+import { parseDurationMinutes } from '../lib/schema-org';
+import { findOvenTemperature } from '../lib/recipe-text';
+import { scrapeRecipe, toCreateRecipeRequest, importRecipeFromHtml } from './recipe-import';
+
+jest.mock('./ai-parse-ingredients', () => ({ parseIngredients: jest.fn() }));
+jest.mock('../lib/ai-quota', () => ({ withAiQuota: jest.fn((_userId, _feature, call) => call()) }));
+
+const mockParseIngredients = parseIngredients as jest.MockedFunction<typeof parseIngredients>;
+const mockWithAiQuota = withAiQuota as jest.MockedFunction<typeof withAiQuota>;
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, '__fixtures__', 'recipes', name), 'utf8');
+}
+
+describe('parseDurationMinutes', () => {
+  it('reads hours, minutes and days', () => {
+    expect(parseDurationMinutes('PT45M')).toBe(45);
+    expect(parseDurationMinutes('PT1H15M')).toBe(75);
+    expect(parseDurationMinutes('P0DT2H')).toBe(120);
+    expect(parseDurationMinutes('PT90S')).toBe(2);
+  });
+
+  it('ignores values that are not durations', () => {
+    expect(parseDurationMinutes('45 minutes')).toBeUndefined();
+    expect(parseDurationMinutes('PT0M')).toBeUndefined();
+  });
+});
+
+describe('findOvenTemperature', () => {
+  it('takes the first temperature written in the steps', () => {
+    expect(findOvenTemperature(['Grease the tin.', 'Heat the oven to 190C (170C fan).'])).toEqual({
+      bakeTemp: 190,
+      bakeTempUnit: 'C',
+    });
+    expect(findOvenTemperature(['Preheat to 350 degrees Fahrenheit.'])).toEqual({ bakeTemp: 350, bakeTempUnit: 'F' });
+  });
+
+  it('does not read small quantities as temperatures', () => {
+    expect(findOvenTemperature(['Add 2 c flour and 1 F-shaped cutter.'])).toBeUndefined();
+  });
+});
+
+describe('scrapeRecipe', () => {
+  it('reads a JSON-LD recipe from a @graph, skipping broken blocks', () => {
+    const scraped = scrapeRecipe(fixture('json-ld-graph.html'));
+
+    expect(scraped).toEqual({
+      name: 'Lemon Drizzle Cake',
+      ingredientLines: [
+        '225g unsalted butter, softened',
+        '225g caster sugar',
+        '4 large eggs',
+        '225g self-raising flour',
+        'Zest of 1 lemon',
+        '1½ lemons, juiced',
+        '85g caster sugar',
+      ],
+      steps: [
+        'For the cake:',
+        'Heat oven to 180°C (160°C fan). Line a 2lb loaf tin.',
+        'Beat together the butter and sugar until pale and creamy.',
+        'Add the eggs one at a time, then fold in the flour and zest.',
+        'Bake for 45 mins until a skewer comes out clean.',
+        'For the drizzle:',
+        'Mix the lemon juice and sugar, then pour over the warm cake.',
+      ],
+      bakeTime: 45,
+      bakeTemp: 180,
+      bakeTempUnit: 'C',
+      sourceUrl: 'https://www.crumbsandco.example/recipes/lemon-drizzle-cake',
+      sourceDomain: 'crumbsandco.example',
+    });
+  });
+
+  it('reads a microdata recipe and keeps the paragraphs of the method apart', () => {
+    const scraped = scrapeRecipe(fixture('microdata.html'), 'https://www.cookies.example/brown-butter');
+
+    expect(scraped).toMatchObject({
+      name: 'Brown Butter Chocolate Chip Cookies',
+      ingredientLines: [
+        '170g unsalted butter',
+        '200g light brown sugar',
+        '1 egg plus 1 yolk',
+        '280g plain flour',
+        '200g dark chocolate, chopped',
+      ],
+      steps: [
+        'Brown the butter in a pan and leave to cool.',
+        'Preheat the oven to 350 degrees F.',
+        'Mix everything together, scoop and bake for 12 minutes.',
+      ],
+      bakeTime: 12,
+      bakeTemp: 350,
+      bakeTempUnit: 'F',
+      sourceUrl: 'https://www.cookies.example/brown-butter',
+      sourceDomain: 'cookies.example',
+    });
+  });
+
+  it('returns null for a page without a recipe', () => {
+    expect(scrapeRecipe(fixture('no-recipe.html'))).toBeNull();
+  });
+});
+
+describe('toCreateRecipeRequest', () => {
+  it('builds a request that passes validation', () => {
+    const scraped = scrapeRecipe(fixture('json-ld-graph.html'))!;
+    const request = toCreateRecipeRequest(scraped, [{ name: 'unsalted butter', quantity: 225, unit: 'g' }]);
+
+    expect(validate(createRecipeRequestSchema, request).valid).toBe(true);
+    expect(request.prepNotes).toBe(
+      [
+        'For the cake:',
+        '1. Heat oven to 180°C (160°C fan). Line a 2lb loaf tin.',
+        '2. Beat together the butter and sugar until pale and creamy.',
+        '3. Add the eggs one at a time, then fold in the flour and zest.',
+        '4. Bake for 45 mins until a skewer comes out clean.',
+        'For the drizzle:',
+        '5. Mix the lemon juice and sugar, then pour over the warm cake.',
+      ].join('\n')
+    );
+    expect(request).toMatchObject({
+      bakeTime: 45,
+      bakeTemp: 180,
+      bakeTempUnit: 'C',
+      customSourceName: 'crumbsandco.example',
+      customSourceUrl: 'https://www.crumbsandco.example/recipes/lemon-drizzle-cake',
+    });
+  });
+
+  it('truncates text longer than the recipe limits', () => {
+    const request = toCreateRecipeRequest(
+      { name: 'x'.repeat(300), ingredientLines: [], steps: ['y'.repeat(30000)] },
+      [{ name: 'z'.repeat(300), quantity: 1, unit: 'g' }]
+    );
+
+    expect(validate(createRecipeRequestSchema, request).valid).toBe(true);
+  });
+});
+
+describe('importRecipeFromHtml', () => {
+  const USER_ID = 'user-1';
+
+  it('parses the ingredient lines from the page', async () => {
+    mockParseIngredients.mockResolvedValue({
+      ingredients: [
+        {
+          name: 'unsalted butter',
+          quantity: 170,
+          unit: 'g',
+          originalLine: '170g unsalted butter',
+          confidence: 'high',
+          wasConverted: false,
+        },
+      ],
+      warnings: ['Could not read "1 egg plus 1 yolk"'],
+    });
+
+    const result = await importRecipeFromHtml(USER_ID, {
+      html: fixture('microdata.html'),
+      measurementSystem: 'metric',
+    });
+
+    expect(mockParseIngredients).toHaveBeenCalledWith(USER_ID, {
+      rawText: expect.stringContaining('170g unsalted butter\n200g light brown sugar'),
+      measurementSystem: 'metric',
+    });
+    expect(result.recipe.ingredients).toEqual([{ name: 'unsalted butter', quantity: 170, unit: 'g' }]);
+    expect(result.warnings).toEqual(['Could not read "1 egg plus 1 yolk"']);
+  });
+
+  it('keeps each line as an ingredient when parsing fails', async () => {
+    mockParseIngredients.mockRejectedValue(new Error('Upstream unavailable'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await importRecipeFromHtml(USER_ID, {
+      html: fixture('json-ld-graph.html'),
+      measurementSystem: 'metric',
+    });
+
+    expect(result.recipe.ingredients[0]).toEqual({ name: '225g unsalted butter, softened', quantity: 0, unit: '' });
+    expect(result.recipe.ingredients).toHaveLength(7);
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('keeps each line without calling the parser once the quota is used up', async () => {
+    mockWithAiQuota.mockRejectedValueOnce(
+      new RateLimitedError("You've used all 30 ingredient list parses for today", 3600)
+    );
+
+    const result = await importRecipeFromHtml(USER_ID, {
+      html: fixture('json-ld-graph.html'),
+      measurementSystem: 'metric',
+    });
+
+    expect(mockWithAiQuota).toHaveBeenCalledWith(USER_ID, 'parse-ingredients', expect.any(Function));
+    expect(result.recipe.ingredients).toHaveLength(7);
+    expect(result.warnings).toEqual([
+      "You've used all 30 ingredient list parses for today, so ingredient amounts were not read; " +
+        'check each ingredient before saving',
+    ]);
+  });
+
+  it('rejects a page without a recipe', async () => {
+    await expect(
+      importRecipeFromHtml(USER_ID, { html: fixture('no-recipe.html'), measurementSystem: 'imperial' })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
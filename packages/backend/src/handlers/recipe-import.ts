@@ -0,0 +1,189 @@
+import { findSchemaNode, findTagAttribute, htmlToText, parseDurationMinutes } from '../lib/schema-org';
+import type { SchemaNode, SchemaValue } from '../lib/schema-org';
+import { findOvenTemperature } from '../lib/recipe-text';
+import { withAiQuota } from '../lib/ai-quota';
+import { parseIngredients } from './ai-parse-ingredients';
+import { RateLimitedError, ValidationError } from '@proofed/shared';
+import type {
+  CreateRecipeRequest,
+  Ingredient,
+  RecipeHtmlImportRequest,
+  RecipeHtmlImportResponse,
+} from '@proofed/shared';
+
+// Mirrors the request limits, so an imported recipe always passes createRecipeRequestSchema
+const MAX_NAME_LENGTH = 200;
+const MAX_PREP_NOTES_LENGTH = 20000;
+// A cut-off link is no use, so longer page URLs are left out instead
+const MAX_SOURCE_URL_LENGTH = 2000;
+const MAX_BAKE_TIME = 24 * 60;
+
+/** What the page says about the recipe, before the ingredient lines are parsed. */
+export interface ScrapedRecipe {
+  name: string;
+  ingredientLines: string[];
+  steps: string[];
+  bakeTime?: number;
+  bakeTemp?: number;
+  bakeTempUnit?: 'F' | 'C';
+  sourceUrl?: string;
+  sourceDomain?: string;
+}
+
+function asList(value: SchemaValue | undefined): SchemaValue[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Text of a property that should be a plain string; nodes are read through their name or text
+function textOf(value: SchemaValue | undefined): string {
+  const [first] = asList(value);
+  if (first === undefined) return '';
+  if (typeof first === 'string') return htmlToText(first);
+  if (Array.isArray(first)) return textOf(first);
+  return textOf(first.text ?? first.name);
+}
+
+/**
+ * Steps in order. recipeInstructions can be one block of text, a list of strings, HowToStep
+ * nodes, or HowToSection nodes holding steps; sections become a heading line.
+ */
+function stepsOf(value: SchemaValue | undefined): string[] {
+  return asList(value).flatMap((entry): string[] => {
+    if (typeof entry === 'string') {
+      // A single block is often separated by line breaks or paragraphs
+      return entry
+        .split(/<\/p>|<br\s*\/?>|\n/i)
+        .map(htmlToText)
+        .filter(Boolean);
+    }
+    if (Array.isArray(entry)) {
+      return stepsOf(entry);
+    }
+    const section = entry.itemListElement;
+    if (section !== undefined) {
+      const heading = textOf(entry.name);
+      return [...(heading ? [`${heading}:`] : []), ...stepsOf(section)];
+    }
+    const text = textOf(entry.text ?? entry.name);
+    return text ? [text] : [];
+  });
+}
+
+// Only absolute web addresses are kept; anything else on the page can't be linked to
+function webUrlOf(url: string | undefined): URL | undefined {
+  if (!url) return undefined;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the schema.org Recipe on a page. `pageUrl` is where the client got the HTML; without
+ * it the page's canonical link or the recipe's own url stands in. Returns null when the
+ * page has no recipe markup.
+ */
+export function scrapeRecipe(html: string, pageUrl?: string): ScrapedRecipe | null {
+  const recipe: SchemaNode | null = findSchemaNode(html, 'Recipe');
+  if (!recipe) {
+    return null;
+  }
+
+  // recipeIngredient replaced the older ingredients property, which some sites still use
+  const ingredientLines = asList(recipe.recipeIngredient ?? recipe.ingredients)
+    .map((line) => textOf(line))
+    .filter(Boolean);
+  const steps = stepsOf(recipe.recipeInstructions);
+
+  const cookTime = textOf(recipe.cookTime);
+  const bakeTime = cookTime ? parseDurationMinutes(cookTime) : undefined;
+
+  const sourceUrl = webUrlOf(
+    pageUrl || findTagAttribute(html, 'link', 'rel', 'canonical', 'href') || textOf(recipe.url)
+  );
+
+  return {
+    name: textOf(recipe.name) || htmlToText(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? '') || 'Imported recipe',
+    ingredientLines,
+    steps,
+    ...(bakeTime && bakeTime <= MAX_BAKE_TIME ? { bakeTime } : {}),
+    ...findOvenTemperature(steps),
+    ...(sourceUrl ? { sourceUrl: sourceUrl.href, sourceDomain: sourceUrl.hostname.replace(/^www\./, '') } : {}),
+  };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+// Steps numbered as they'd be written by hand; section headings aren't counted
+export function formatSteps(steps: string[]): string {
+  let number = 0;
+  return steps.map((step) => (step.endsWith(':') ? step : `${++number}. ${step}`)).join('\n');
+}
+
+export function toCreateRecipeRequest(scraped: ScrapedRecipe, ingredients: Ingredient[]): CreateRecipeRequest {
+  const prepNotes = formatSteps(scraped.steps);
+  return {
+    name: truncate(scraped.name, MAX_NAME_LENGTH),
+    ingredients: ingredients.map((ingredient) => ({ ...ingredient, name: truncate(ingredient.name, MAX_NAME_LENGTH) })),
+    ...(prepNotes ? { prepNotes: truncate(prepNotes, MAX_PREP_NOTES_LENGTH) } : {}),
+    ...(scraped.bakeTime ? { bakeTime: scraped.bakeTime } : {}),
+    ...(scraped.bakeTemp ? { bakeTemp: scraped.bakeTemp, bakeTempUnit: scraped.bakeTempUnit } : {}),
+    ...(scraped.sourceDomain ? { customSourceName: scraped.sourceDomain } : {}),
+    ...(scraped.sourceUrl && scraped.sourceUrl.length <= MAX_SOURCE_URL_LENGTH
+      ? { customSourceUrl: scraped.sourceUrl }
+      : {}),
+  };
+}
+
+/**
+ * Turn a recipe page into a recipe the client can review and save. Ingredient lines go
+ * through the same parser as pasted ingredients, counted against the same AI quota; if it
+ * fails or the quota is used up, each line is kept whole as an ingredient name so nothing
+ * from the page is lost.
+ */
+export async function importRecipeFromHtml(
+  userId: string,
+  request: RecipeHtmlImportRequest
+): Promise<RecipeHtmlImportResponse> {
+  const scraped = scrapeRecipe(request.html, request.url);
+  if (!scraped) {
+    throw new ValidationError('No recipe found on this page');
+  }
+
+  const warnings: string[] = [];
+  let ingredients: Ingredient[] = [];
+
+  if (scraped.ingredientLines.length > 0) {
+    try {
+      const parsed = await withAiQuota(userId, 'parse-ingredients', () =>
+        parseIngredients(userId, {
+          rawText: scraped.ingredientLines.join('\n'),
+          measurementSystem: request.measurementSystem,
+        })
+      );
+      ingredients = parsed.ingredients.map(({ name, quantity, unit }) => ({ name, quantity, unit }));
+      warnings.push(...(parsed.warnings ?? []));
+    } catch (error) {
+      ingredients = scraped.ingredientLines.map((line) => ({ name: line, quantity: 0, unit: '' }));
+      // Over quota the page still imports, just without the amounts read
+      if (error instanceof RateLimitedError) {
+        warnings.push(`${error.message}, so ingredient amounts were not read; check each ingredient before saving`);
+      } else {
+        console.error('Ingredient parsing failed during import:', error);
+        warnings.push('Ingredient amounts could not be read; check each ingredient before saving');
+      }
+    }
+  } else {
+    warnings.push('No ingredients found on this page');
+  }
+
+  return {
+    recipe: toCreateRecipeRequest(scraped, ingredients),
+    ...(warnings.length > 0 ? { warnings } : {}),
+  };
+}
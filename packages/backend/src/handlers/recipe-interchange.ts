@@ -0,0 +1,122 @@
+import { queryItemsWithFilter } from '../lib/dynamo';
+import { serializeRecipe, parseRecipes, recipeContentType, recipeFileName } from '../lib/recipe-formats';
+import { getItemById } from './items';
+import { getRecipeById, createRecipe } from './recipes';
+import { createVariant } from './variants';
+import {
+  NotFoundError,
+  ValidationError,
+  createRecipeRequestSchema,
+  createVariantRequestSchema,
+  validate,
+} from '@proofed/shared';
+import type {
+  Recipe,
+  Variant,
+  FieldError,
+  PortableRecipe,
+  RecipeFormat,
+  RecipeExportResponse,
+  RecipeImportRequest,
+  RecipeImportResponse,
+} from '@proofed/shared';
+
+const VARIANTS_TABLE = process.env.VARIANTS_TABLE!;
+
+// Only what another app can use; ids, versions and the supplier key stay behind
+export function toPortableRecipe(recipe: Recipe, variants: Variant[]): PortableRecipe {
+  return {
+    recipe: {
+      name: recipe.name,
+      ingredients: recipe.ingredients,
+      prepNotes: recipe.prepNotes,
+      bakeTime: recipe.bakeTime,
+      bakeTemp: recipe.bakeTemp,
+      bakeTempUnit: recipe.bakeTempUnit,
+      customScales: recipe.customScales,
+      container: recipe.container,
+      customSourceName: recipe.customSourceName,
+      customSourceUrl: recipe.customSourceUrl,
+    },
+    variants: variants.map((variant) => ({
+      name: variant.name,
+      ingredientOverrides: variant.ingredientOverrides,
+      bakeTime: variant.bakeTime,
+      bakeTemp: variant.bakeTemp,
+      bakeTempUnit: variant.bakeTempUnit,
+      notes: variant.notes,
+    })),
+  };
+}
+
+export async function exportRecipe(
+  userId: string,
+  recipeId: string,
+  format: RecipeFormat
+): Promise<RecipeExportResponse | null> {
+  const recipe = await getRecipeById(userId, recipeId);
+  if (!recipe) {
+    return null;
+  }
+
+  const variants = await queryItemsWithFilter<Variant>(VARIANTS_TABLE, userId, 'recipeId = :recipeId', {
+    ':recipeId': recipeId,
+  });
+  return {
+    format,
+    fileName: recipeFileName(format, recipe.name),
+    contentType: recipeContentType(format),
+    content: serializeRecipe(format, toPortableRecipe(recipe, variants)),
+  };
+}
+
+// Field paths point into the parsed recipes, e.g. "recipes[1].variants[0].name"
+function checkRecipes(recipes: PortableRecipe[]): FieldError[] {
+  const prefixed = (prefix: string, errors: FieldError[]) =>
+    errors.map((error) => ({ ...error, field: `${prefix}${error.field ? `.${error.field}` : ''}` }));
+
+  return recipes.flatMap(({ recipe, variants }, index) => {
+    const result = validate(createRecipeRequestSchema, recipe);
+    return [
+      ...(result.valid ? [] : prefixed(`recipes[${index}]`, result.errors)),
+      ...variants.flatMap((variant, variantIndex) => {
+        const variantResult = validate(createVariantRequestSchema, variant);
+        return variantResult.valid ? [] : prefixed(`recipes[${index}].variants[${variantIndex}]`, variantResult.errors);
+      }),
+    ];
+  });
+}
+
+/**
+ * Create every recipe in the files under the item, which must be one of the caller's. All of
+ * them are checked before any is written, so a file with one bad recipe imports nothing.
+ */
+export async function importRecipes(
+  userId: string,
+  itemId: string,
+  request: RecipeImportRequest
+): Promise<RecipeImportResponse> {
+  if (!(await getItemById(userId, itemId))) {
+    throw new NotFoundError('Item');
+  }
+
+  const parsed = request.files.flatMap((file) => parseRecipes(request.format, file));
+  if (parsed.length === 0) {
+    throw new ValidationError('No recipes found in the files');
+  }
+
+  const errors = checkRecipes(parsed);
+  if (errors.length > 0) {
+    throw new ValidationError('Some recipes could not be imported', errors);
+  }
+
+  const result: RecipeImportResponse = { recipes: [], variants: [] };
+  for (const { recipe, variants } of parsed) {
+    const created = await createRecipe(userId, itemId, recipe);
+    result.recipes.push(created);
+    for (const variant of variants) {
+      result.variants.push(await createVariant(userId, itemId, created.recipeId, variant));
+    }
+  }
+  return result;
+}
@@ -0,0 +1,97 @@
+/**
+ * Tests for recipe revisions: snapshots are keyed so a recipe's history sorts by revision
+ *
+ * Run with: npx jest src/handlers/recipe-revisions.test.ts
+ */
+
+import { DynamoDBDocumentClient, BatchWriteCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import type { Recipe } from '@proofed/shared';
+import { deleteRecipeRevisions, listRecipeRevisions, recipeContent, saveRecipeRevision } from './recipe-revisions';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+
+const USER_ID = 'user-1';
+
+const recipe: Recipe = {
+  recipeId: 'recipe-1',
+  userId: USER_ID,
+  itemId: 'item-1',
+  name: 'Victoria sponge',
+  ingredients: [{ name: 'flour', quantity: 200, unit: 'g' }],
+  bakeTime: 25,
+  version: 12,
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt: '2026-10-02T10:00:00.000Z',
+};
+
+beforeEach(() => {
+  dynamoMock.reset();
+  dynamoMock.on(PutCommand).resolves({});
+  dynamoMock.on(BatchWriteCommand).resolves({});
+});
+
+describe('recipeContent', () => {
+  it('keeps what the baker wrote and drops the bookkeeping', () => {
+    expect(recipeContent({ ...recipe, deletedAt: '2026-10-03T10:00:00.000Z' })).toEqual({
+      name: 'Victoria sponge',
+      ingredients: [{ name: 'flour', quantity: 200, unit: 'g' }],
+      bakeTime: 25,
+    });
+  });
+});
+
+describe('saveRecipeRevision', () => {
+  it('stores a snapshot under the recipe version, padded to sort numerically', async () => {
+    const revision = await saveRecipeRevision(recipe);
+
+    expect(revision).toEqual({
+      userId: USER_ID,
+      revisionId: 'recipe-1#000012',
+      recipeId: 'recipe-1',
+      itemId: 'item-1',
+      revision: 12,
+      recipe: recipeContent(recipe),
+      createdAt: recipe.updatedAt,
+    });
+    expect(dynamoMock.commandCalls(PutCommand)[0].args[0].input.Item).toEqual(revision);
+  });
+
+  it('records recipes from before versioning as revision 0', async () => {
+    const { version, ...unversioned } = recipe;
+
+    expect((await saveRecipeRevision(unversioned)).revisionId).toBe('recipe-1#000000');
+  });
+});
+
+describe('listRecipeRevisions', () => {
+  it('reads only this recipe, newest first', async () => {
+    dynamoMock.on(QueryCommand).resolves({ Items: [] });
+
+    await listRecipeRevisions(USER_ID, 'recipe-1');
+
+    const input = dynamoMock.commandCalls(QueryCommand)[0].args[0].input;
+    // The '#' stops recipe-1 also matching recipe-10
+    expect(input.ExpressionAttributeValues).toEqual({ ':userId': USER_ID, ':prefix': 'recipe-1#' });
+    expect(input.ScanIndexForward).toBe(false);
+  });
+});
+
+describe('deleteRecipeRevisions', () => {
+  it('deletes every revision of each recipe', async () => {
+    dynamoMock.on(QueryCommand).resolves({
+      Items: [
+        { userId: USER_ID, revisionId: 'recipe-1#000002' },
+        { userId: USER_ID, revisionId: 'recipe-1#000001' },
+      ],
+    });
+
+    await deleteRecipeRevisions(USER_ID, ['recipe-1']);
+
+    const requests = Object.values(dynamoMock.commandCalls(BatchWriteCommand)[0].args[0].input.RequestItems!).flat();
+    expect(requests.map((request) => request.DeleteRequest!.Key)).toEqual([
+      { userId: USER_ID, revisionId: 'recipe-1#000002' },
+      { userId: USER_ID, revisionId: 'recipe-1#000001' },
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { putItem, getItem, queryItemsByPrefix, batchDeleteItems } from '../lib/dynamo';
+import type { Recipe, RecipeContent, RecipeRevision } from '@proofed/shared';
+
+const TABLE_NAME = process.env.RECIPE_REVISIONS_TABLE!;
+
+// Padded so the sort key orders revisions numerically: a#000002 before a#000010
+function revisionId(recipeId: string, revision: number): string {
+  return `${recipeId}#${String(revision).padStart(6, '0')}`;
+}
+
+export function recipeContent(recipe: Recipe): RecipeContent {
+  const { recipeId, userId, itemId, version, deletedAt, deletedWith, createdAt, updatedAt, ...content } = recipe;
+  return content;
+}
+
+/**
+ * Record the recipe as it stands. Rows saved before revisions were kept have no
+ * `version` and are recorded as revision 0.
+ */
+export async function saveRecipeRevision(recipe: Recipe): Promise<RecipeRevision> {
+  const revision = recipe.version ?? 0;
+  return putItem<RecipeRevision>(TABLE_NAME, {
+    userId: recipe.userId,
+    revisionId: revisionId(recipe.recipeId, revision),
+    recipeId: recipe.recipeId,
+    itemId: recipe.itemId,
+    revision,
+    recipe: recipeContent(recipe),
+    createdAt: recipe.updatedAt,
+  });
+}
+
+export async function getRecipeRevision(
+  userId: string,
+  recipeId: string,
+  revision: number
+): Promise<RecipeRevision | null> {
+  return getItem<RecipeRevision>(TABLE_NAME, { userId, revisionId: revisionId(recipeId, revision) });
+}
+
+export async function listRecipeRevisions(userId: string, recipeId: string): Promise<RecipeRevision[]> {
+  return queryItemsByPrefix<RecipeRevision>(TABLE_NAME, userId, 'revisionId', `${recipeId}#`, {
+    newestFirst: true,
+  });
+}
+
+export async function deleteRecipeRevisions(userId: string, recipeIds: string[]): Promise<void> {
+  for (const recipeId of recipeIds) {
+    const revisions = await listRecipeRevisions(userId, recipeId);
+    await batchDeleteItems(
+      TABLE_NAME,
+      revisions.map((revision) => ({ userId, revisionId: revision.revisionId }))
+    );
+  }
+}
@@ -1,16 +1,40 @@
 import { ulid } from 'ulid';
-import { putItem, getItem, queryItems, queryItemsWithFilter, deleteItem, updateItem } from '../lib/dynamo';
-import type { Recipe, CreateRecipeRequest, UpdateRecipeRequest } from '@proofed/shared';
+import {
+  putItem,
+  getItem,
+  queryItems,
+  queryPage,
+  queryItemsWithFilter,
+  updateVersionedItem,
+} from '../lib/dynamo';
+import type { PageOptions } from '../lib/dynamo';
+import { findUsageReferences } from './attempts';
+import { saveRecipeRevision, getRecipeRevision, recipeContent } from './recipe-revisions';
+import { moveToTrash } from './trash';
+import { NotFoundError } from '@proofed/shared';
+import type {
+  Recipe,
+  RecipeContent,
+  Variant,
+  CreateRecipeRequest,
+  UpdateRecipeRequest,
+  RestoreRecipeRevisionRequest,
+  PagedResponse,
+  DeleteResponse,
+} from '@proofed/shared';
 
 const TABLE_NAME = process.env.RECIPES_TABLE!;
+const VARIANTS_TABLE = process.env.VARIANTS_TABLE!;
 
-export async function listRecipes(userId: string, itemId: string): Promise<Recipe[]> {
-  return queryItemsWithFilter<Recipe>(
-    TABLE_NAME,
-    userId,
-    'itemId = :itemId',
-    { ':itemId': itemId }
-  );
+export async function listRecipes(
+  userId: string,
+  itemId: string,
+  page: PageOptions
+): Promise<PagedResponse<Recipe>> {
+  return queryPage<Recipe>(TABLE_NAME, userId, page, {
+    filterExpression: 'itemId = :itemId',
+    expressionAttributeValues: { ':itemId': itemId },
+  });
 }
 
 export async function getRecipeById(userId: string, recipeId: string): Promise<Recipe | null> {
@@ -46,10 +70,42 @@ export async function createRecipe(
     purchaseUnit: request.purchaseUnit,
     energyKcal100g: request.energyKcal100g,
     sugars100g: request.sugars100g,
+    version: 1,
     createdAt: now,
     updatedAt: now,
   };
-  return putItem(TABLE_NAME, recipe);
+  await putItem(TABLE_NAME, recipe);
+  await saveRecipeRevision(recipe);
+  return recipe;
+}
+
+// Every recipe write goes through here so each version has a matching revision
+async function writeRecipe(
+  userId: string,
+  recipeId: string,
+  updates: Partial<Recipe>,
+  expectedVersion?: number
+): Promise<Recipe | null> {
+  const current = await getRecipeById(userId, recipeId);
+  if (!current) {
+    return null;
+  }
+
+  // Recipes saved before revisions were kept have nothing for their bakes to point at yet
+  if (!(await getRecipeRevision(userId, recipeId, current.version ?? 0))) {
+    await saveRecipeRevision(current);
+  }
+
+  const recipe = await updateVersionedItem<Recipe>(
+    TABLE_NAME,
+    { userId, recipeId },
+    { ...updates, updatedAt: new Date().toISOString() },
+    expectedVersion
+  );
+  if (recipe) {
+    await saveRecipeRevision(recipe);
+  }
+  return recipe;
 }
 
 export async function updateRecipeById(
@@ -57,15 +113,68 @@ export async function updateRecipeById(
   recipeId: string,
   request: UpdateRecipeRequest
 ): Promise<Recipe | null> {
-  const updates: Partial<Recipe> = {
-    ...request,
-    updatedAt: new Date().toISOString(),
-  };
-  return updateItem<Recipe>(TABLE_NAME, { userId, recipeId }, updates);
+  const { version, ...changes } = request;
+  return writeRecipe(userId, recipeId, changes as Partial<Recipe>, version);
 }
 
-export async function deleteRecipeById(userId: string, recipeId: string): Promise<void> {
-  return deleteItem(TABLE_NAME, { userId, recipeId });
+/**
+ * Put a recipe back the way it was at `revision`. Fields the revision didn't have are
+ * cleared, and the result is saved as a new revision on top of the history.
+ */
+export async function restoreRecipeRevision(
+  userId: string,
+  recipeId: string,
+  revision: number,
+  request: RestoreRecipeRevisionRequest
+): Promise<Recipe | null> {
+  const [current, restored] = await Promise.all([
+    getRecipeById(userId, recipeId),
+    getRecipeRevision(userId, recipeId, revision),
+  ]);
+  if (!current) {
+    return null;
+  }
+  if (!restored) {
+    throw new NotFoundError('Revision');
+  }
+
+  // null tells the update to remove the attribute
+  const updates: Record<string, unknown> = {};
+  for (const field of Object.keys(recipeContent(current)) as Array<keyof RecipeContent>) {
+    updates[field] = null;
+  }
+  Object.assign(updates, restored.recipe);
+
+  return writeRecipe(userId, recipeId, updates as Partial<Recipe>, request.version);
+}
+
+export async function deleteRecipeById(userId: string, recipeId: string): Promise<DeleteResponse | null> {
+  const recipe = await getRecipeById(userId, recipeId);
+  if (!recipe) {
+    return null;
+  }
+  const variants = await queryItemsWithFilter<Variant>(
+    VARIANTS_TABLE,
+    userId,
+    'recipeId = :recipeId',
+    { ':recipeId': recipeId }
+  );
+
+  // Revisions stay until the trash is purged, so a restored recipe keeps its history
+  const deletedAt = new Date().toISOString();
+  await moveToTrash(
+    VARIANTS_TABLE,
+    variants.map(({ variantId }) => ({ userId, variantId })),
+    deletedAt,
+    recipeId
+  );
+  await moveToTrash(TABLE_NAME, [{ userId, recipeId }], deletedAt);
+
+  return {
+    deletedRecipeIds: [recipeId],
+    deletedVariantIds: variants.map((variant) => variant.variantId),
+    references: await findUsageReferences(userId, (usage) => usage.recipeId === recipeId),
+  };
 }
 
 export async function listCustomSources(userId: string): Promise<{ name: string; url?: string }[]> {
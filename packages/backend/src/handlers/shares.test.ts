@@ -0,0 +1,124 @@
+/**
+ * Tests for share links: the public token lookup, reusing a link, and revoking one
+ *
+ * Run with: npx jest src/handlers/shares.test.ts
+ */
+
+import { DynamoDBDocumentClient, DeleteCommand, GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import type { Share } from '@proofed/shared';
+import { getSharedSnapshot, revokeShare, shareRecipe } from './shares';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+
+const USER_ID = 'user-1';
+
+const share: Share = {
+  userId: USER_ID,
+  token: 'token-1',
+  type: 'recipe',
+  targetId: 'recipe-1',
+  itemId: 'item-1',
+  name: 'Vanilla sponge',
+  createdAt: '2026-10-01T10:00:00.000Z',
+};
+
+const recipe = {
+  userId: USER_ID,
+  recipeId: 'recipe-1',
+  itemId: 'item-1',
+  name: 'Vanilla sponge',
+  ingredients: [{ name: 'Flour', quantity: 200, unit: 'g' }],
+  prepNotes: 'Cream the butter first.',
+  bakeTime: 25,
+  bakeTemp: 180,
+  bakeTempUnit: 'C',
+};
+
+function givenRow(key: Record<string, string>, item: object) {
+  dynamoMock.on(GetCommand, { Key: key }).resolves({ Item: { ...key, ...item } });
+}
+
+beforeEach(() => {
+  dynamoMock.reset();
+  dynamoMock.on(GetCommand).resolves({});
+  dynamoMock.on(QueryCommand).resolves({ Items: [] });
+  dynamoMock.on(PutCommand).resolves({});
+  dynamoMock.on(DeleteCommand).resolves({});
+});
+
+describe('getSharedSnapshot', () => {
+  it('finds the share by its token and builds the recipe from current data', async () => {
+    dynamoMock.on(QueryCommand, { IndexName: 'token-index' }).resolves({ Items: [share] });
+    givenRow({ userId: USER_ID, recipeId: 'recipe-1' }, recipe);
+    givenRow({ userId: USER_ID, itemId: 'item-1' }, { name: 'Birthday cake' });
+    const variant = {
+      userId: USER_ID,
+      variantId: 'variant-1',
+      recipeId: 'recipe-1',
+      name: 'Lemon',
+      ingredientOverrides: [],
+      bakeTime: 30,
+    };
+    dynamoMock.on(QueryCommand, { ExpressionAttributeValues: { ':recipeId': 'recipe-1' } }).resolves({ Items: [variant] });
+
+    const snapshot = await getSharedSnapshot('token-1');
+
+    const lookup = dynamoMock.commandCalls(QueryCommand, { IndexName: 'token-index' })[0].args[0].input;
+    expect(lookup.ExpressionAttributeValues).toEqual({ ':value': 'token-1' });
+    expect(snapshot).toMatchObject({
+      type: 'recipe',
+      name: 'Vanilla sponge',
+      photoUrls: [],
+      sharedAt: share.createdAt,
+    });
+    expect(snapshot!.recipes.map((shared) => [shared.itemName, shared.variantName, shared.bakeTime])).toEqual([
+      ['Birthday cake', undefined, 25],
+      ['Birthday cake', 'Lemon', 30],
+    ]);
+    // Nothing that identifies the owner
+    expect(JSON.stringify(snapshot)).not.toContain(USER_ID);
+  });
+
+  it('stops working for an unknown token or a deleted recipe', async () => {
+    expect(await getSharedSnapshot('token-9')).toBeNull();
+
+    dynamoMock.on(QueryCommand, { IndexName: 'token-index' }).resolves({ Items: [share] });
+    givenRow({ userId: USER_ID, recipeId: 'recipe-1' }, { ...recipe, deletedAt: '2026-10-02T10:00:00.000Z' });
+
+    expect(await getSharedSnapshot('token-1')).toBeNull();
+  });
+});
+
+describe('shareRecipe', () => {
+  it('hands back the link that already exists', async () => {
+    givenRow({ userId: USER_ID, recipeId: 'recipe-1' }, recipe);
+    dynamoMock.on(QueryCommand, { ExpressionAttributeValues: { ':targetId': 'recipe-1' } }).resolves({ Items: [share] });
+
+    expect(await shareRecipe(USER_ID, 'recipe-1')).toEqual(share);
+    expect(dynamoMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+
+  it('mints a new token otherwise', async () => {
+    givenRow({ userId: USER_ID, recipeId: 'recipe-1' }, recipe);
+
+    const created = await shareRecipe(USER_ID, 'recipe-1');
+
+    expect(created).toMatchObject({ userId: USER_ID, type: 'recipe', targetId: 'recipe-1', itemId: 'item-1' });
+    expect(created!.token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+  });
+});
+
+describe('revokeShare', () => {
+  it('deletes the caller\'s own share', async () => {
+    givenRow({ userId: USER_ID, token: 'token-1' }, share);
+
+    expect(await revokeShare(USER_ID, 'token-1')).toBe(true);
+    expect(dynamoMock.commandCalls(DeleteCommand)[0].args[0].input.Key).toEqual({ userId: USER_ID, token: 'token-1' });
+  });
+
+  it('leaves a token the caller does not own alone', async () => {
+    expect(await revokeShare('user-2', 'token-1')).toBe(false);
+    expect(dynamoMock.commandCalls(DeleteCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,201 @@
+import { randomBytes } from 'crypto';
+import {
+  putItem,
+  getItem,
+  getItemByIndex,
+  queryItems,
+  queryItemsWithFilter,
+  deleteItem,
+} from '../lib/dynamo';
+import { mergeIngredients } from '../lib/recipe-scaling';
+import { getRecipeRevision } from './recipe-revisions';
+import { signAttemptPhotos } from './photos';
+import type {
+  Item,
+  Recipe,
+  RecipeContent,
+  Variant,
+  Attempt,
+  ProofedItem,
+  ItemUsage,
+  Share,
+  ShareType,
+  SharedRecipe,
+  SharedSnapshot,
+} from '@proofed/shared';
+
+const TABLE_NAME = process.env.SHARES_TABLE!;
+const ITEMS_TABLE = process.env.ITEMS_TABLE!;
+const RECIPES_TABLE = process.env.RECIPES_TABLE!;
+const VARIANTS_TABLE = process.env.VARIANTS_TABLE!;
+const ATTEMPTS_TABLE = process.env.ATTEMPTS_TABLE!;
+const PROOFED_ITEMS_TABLE = process.env.PROOFED_ITEMS_TABLE!;
+
+// Partitioned by owner like every other table; the public route finds a token through this index
+const TOKEN_INDEX = 'token-index';
+
+// 192 random bits, URL-safe
+function mintToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+// Sharing the same thing twice hands back the link that already exists
+async function findOrCreateShare(
+  userId: string,
+  type: ShareType,
+  targetId: string,
+  name: string,
+  itemId?: string
+): Promise<Share> {
+  const [existing] = await queryItemsWithFilter<Share>(
+    TABLE_NAME,
+    userId,
+    '#type = :type AND targetId = :targetId',
+    { ':type': type, ':targetId': targetId },
+    { '#type': 'type' }
+  );
+  if (existing) {
+    return existing;
+  }
+
+  return putItem<Share>(TABLE_NAME, {
+    userId,
+    token: mintToken(),
+    type,
+    targetId,
+    ...(itemId ? { itemId } : {}),
+    name,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export async function shareRecipe(userId: string, recipeId: string): Promise<Share | null> {
+  const recipe = await getItem<Recipe>(RECIPES_TABLE, { userId, recipeId });
+  if (!recipe) {
+    return null;
+  }
+  return findOrCreateShare(userId, 'recipe', recipeId, recipe.name, recipe.itemId);
+}
+
+export async function shareProofedItem(userId: string, proofedItemId: string): Promise<Share | null> {
+  const proofedItem = await getItem<ProofedItem>(PROOFED_ITEMS_TABLE, { userId, proofedItemId });
+  if (!proofedItem) {
+    return null;
+  }
+  return findOrCreateShare(userId, 'proofedItem', proofedItemId, proofedItem.name);
+}
+
+export async function listShares(userId: string): Promise<Share[]> {
+  return queryItems<Share>(TABLE_NAME, userId);
+}
+
+// Returns false when the caller has no share with this token
+export async function revokeShare(userId: string, token: string): Promise<boolean> {
+  if (!(await getItem<Share>(TABLE_NAME, { userId, token }))) {
+    return false;
+  }
+  await deleteItem(TABLE_NAME, { userId, token });
+  return true;
+}
+
+export async function deleteUserShares(userId: string): Promise<void> {
+  const shares = await listShares(userId);
+  for (const share of shares) {
+    await deleteItem(TABLE_NAME, { userId, token: share.token });
+  }
+}
+
+function toSharedRecipe(itemName: string, recipe: RecipeContent, variant: Variant | null): SharedRecipe {
+  return {
+    itemName,
+    recipeName: recipe.name,
+    ...(variant ? { variantName: variant.name } : {}),
+    ingredients: mergeIngredients(recipe.ingredients, variant),
+    prepNotes: recipe.prepNotes,
+    bakeTime: variant?.bakeTime ?? recipe.bakeTime,
+    bakeTemp: variant?.bakeTemp ?? recipe.bakeTemp,
+    bakeTempUnit: variant?.bakeTempUnit ?? recipe.bakeTempUnit,
+    container: recipe.container,
+  };
+}
+
+async function recipeSnapshot(share: Share): Promise<SharedSnapshot | null> {
+  const { userId, targetId: recipeId } = share;
+  const recipe = await getItem<Recipe>(RECIPES_TABLE, { userId, recipeId });
+  if (!recipe) {
+    return null;
+  }
+
+  const [item, variants] = await Promise.all([
+    getItem<Item>(ITEMS_TABLE, { userId, itemId: recipe.itemId }),
+    queryItemsWithFilter<Variant>(VARIANTS_TABLE, userId, 'recipeId = :recipeId', { ':recipeId': recipeId }),
+  ]);
+  const itemName = item?.name ?? '';
+
+  return {
+    type: 'recipe',
+    name: recipe.name,
+    recipes: [
+      toSharedRecipe(itemName, recipe, null),
+      ...variants.map((variant) => toSharedRecipe(itemName, recipe, variant)),
+    ],
+    photoUrls: [],
+    sharedAt: share.createdAt,
+  };
+}
+
+// The recipe as the bake made it: the pinned revision when there is one
+async function usageRecipe(userId: string, usage: ItemUsage): Promise<SharedRecipe | null> {
+  const [item, recipe, revision, variant] = await Promise.all([
+    getItem<Item>(ITEMS_TABLE, { userId, itemId: usage.itemId }),
+    getItem<Recipe>(RECIPES_TABLE, { userId, recipeId: usage.recipeId }),
+    usage.recipeRevision !== undefined
+      ? getRecipeRevision(userId, usage.recipeId, usage.recipeRevision)
+      : null,
+    usage.variantId ? getItem<Variant>(VARIANTS_TABLE, { userId, variantId: usage.variantId }) : null,
+  ]);
+
+  const content = revision?.recipe ?? recipe;
+  if (!content) {
+    return null;
+  }
+  return {
+    ...toSharedRecipe(item?.name ?? '', content, variant),
+    ...(usage.scaleFactor !== undefined ? { scaleFactor: usage.scaleFactor } : {}),
+  };
+}
+
+async function proofedItemSnapshot(share: Share): Promise<SharedSnapshot | null> {
+  const { userId, targetId: proofedItemId } = share;
+  const proofedItem = await getItem<ProofedItem>(PROOFED_ITEMS_TABLE, { userId, proofedItemId });
+  if (!proofedItem) {
+    return null;
+  }
+
+  const [recipes, attempt] = await Promise.all([
+    Promise.all(proofedItem.itemConfigs.map((usage) => usageRecipe(userId, usage))),
+    getItem<Attempt>(ATTEMPTS_TABLE, { userId, attemptId: proofedItem.capturedFromAttemptId }),
+  ]);
+
+  return {
+    type: 'proofedItem',
+    name: proofedItem.name,
+    notes: proofedItem.notes,
+    recipes: recipes.filter((recipe): recipe is SharedRecipe => recipe !== null),
+    photoUrls: attempt ? await signAttemptPhotos(attempt, 'medium') : [],
+    sharedAt: share.createdAt,
+  };
+}
+
+/**
+ * Public view of a share. Built from the current data on every request, so edits show up
+ * and a deleted recipe or proofed item makes the link stop working. Nothing that identifies
+ * the owner is included.
+ */
+export async function getSharedSnapshot(token: string): Promise<SharedSnapshot | null> {
+  const share = await getItemByIndex<Share>(TABLE_NAME, TOKEN_INDEX, 'token', token);
+  if (!share) {
+    return null;
+  }
+  return share.type === 'recipe' ? recipeSnapshot(share) : proofedItemSnapshot(share);
+}
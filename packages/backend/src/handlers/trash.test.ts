@@ -0,0 +1,149 @@
+/**
+ * Tests for the trash: deleting only marks rows, restoring brings back what went with them,
+ * and the daily purge removes what has expired
+ *
+ * Run with: npx jest src/handlers/trash.test.ts
+ */
+
+import {
+  DynamoDBDocumentClient,
+  BatchWriteCommand,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { S3Client, DeleteObjectsCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { mockClient } from 'aws-sdk-client-mock';
+import { ConflictError, NotFoundError } from '@proofed/shared';
+import { moveToTrash, purgeTrash, restoreFromTrash } from './trash';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+const s3Mock = mockClient(S3Client);
+
+const USER_ID = 'user-1';
+const DELETED_AT = '2026-10-01T10:00:00.000Z';
+
+const trashedItem = { userId: USER_ID, itemId: 'item-1', name: 'Sponge', type: 'batter', deletedAt: DELETED_AT };
+const trashedRecipe = {
+  userId: USER_ID,
+  recipeId: 'recipe-1',
+  itemId: 'item-1',
+  name: 'Victoria sponge',
+  deletedAt: DELETED_AT,
+};
+
+type Row = Record<string, unknown>;
+
+// listTrash reads the items, recipes and attempts tables, in that order
+function givenTrash(items: Row[], recipes: Row[] = [], attempts: Row[] = []) {
+  return dynamoMock
+    .on(QueryCommand)
+    .resolvesOnce({ Items: items })
+    .resolvesOnce({ Items: recipes })
+    .resolvesOnce({ Items: attempts });
+}
+
+function updatedKeys(): Record<string, unknown>[] {
+  return dynamoMock.commandCalls(UpdateCommand).map((call) => call.args[0].input.Key!);
+}
+
+beforeEach(() => {
+  dynamoMock.reset();
+  s3Mock.reset();
+  dynamoMock.on(UpdateCommand).resolves({});
+  dynamoMock.on(GetCommand).resolves({});
+  dynamoMock.on(BatchWriteCommand).resolves({});
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe('moveToTrash', () => {
+  it('only sets the markers, and only on rows that are not in the trash yet', async () => {
+    await moveToTrash('proofed-variants', [{ userId: USER_ID, variantId: 'variant-1' }], DELETED_AT, 'item-1');
+
+    const input = dynamoMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(input.Key).toEqual({ userId: USER_ID, variantId: 'variant-1' });
+    expect(input.UpdateExpression).toBe('SET #deletedAt = :deletedAt, #deletedWith = :deletedWith');
+    expect(input.ConditionExpression).toBe('attribute_exists(#pk) AND attribute_not_exists(#deletedAt)');
+    expect(input.ExpressionAttributeValues).toEqual({ ':deletedAt': DELETED_AT, ':deletedWith': 'item-1' });
+  });
+
+  it('skips rows that were already deleted', async () => {
+    dynamoMock.on(UpdateCommand).rejects(new ConditionalCheckFailedException({ message: 'failed', $metadata: {} }));
+
+    await expect(moveToTrash('proofed-items', [{ userId: USER_ID, itemId: 'item-1' }], DELETED_AT)).resolves.toBe(
+      undefined
+    );
+  });
+});
+
+describe('restoreFromTrash', () => {
+  it('brings an item back after the recipes and variants deleted with it', async () => {
+    const recipe = { ...trashedRecipe, deletedWith: 'item-1' };
+    const variant = { userId: USER_ID, variantId: 'variant-1', deletedAt: DELETED_AT, deletedWith: 'item-1' };
+    // Then the recipes and variants deleted with the item
+    givenTrash([trashedItem], [recipe])
+      .resolvesOnce({ Items: [recipe] })
+      .resolvesOnce({ Items: [variant] });
+
+    const entry = await restoreFromTrash(USER_ID, 'item-1');
+
+    expect(entry).toMatchObject({ id: 'item-1', type: 'item' });
+    expect(updatedKeys()).toEqual([
+      { userId: USER_ID, variantId: 'variant-1' },
+      { userId: USER_ID, recipeId: 'recipe-1' },
+      { userId: USER_ID, itemId: 'item-1' },
+    ]);
+    const input = dynamoMock.commandCalls(UpdateCommand)[2].args[0].input;
+    expect(input.UpdateExpression).toBe('REMOVE #deletedAt, #deletedWith');
+    expect(input.ConditionExpression).toBe('attribute_exists(#deletedAt)');
+  });
+
+  it('keeps a recipe in the trash while its item is', async () => {
+    givenTrash([], [trashedRecipe]);
+
+    await expect(restoreFromTrash(USER_ID, 'recipe-1')).rejects.toBeInstanceOf(ConflictError);
+    expect(dynamoMock.commandCalls(UpdateCommand)).toHaveLength(0);
+  });
+
+  it('does not know entries that are not in the trash', async () => {
+    givenTrash([]);
+
+    await expect(restoreFromTrash(USER_ID, 'item-9')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+describe('purgeTrash', () => {
+  it('deletes expired rows with the photos and history that belong to them', async () => {
+    const attempt = { userId: USER_ID, attemptId: 'attempt-1', photoKeys: [`${USER_ID}/attempts/attempt-1/cake.jpg`] };
+    // Attempts, variants, recipes and then items are scanned, in that order
+    dynamoMock
+      .on(ScanCommand)
+      .resolvesOnce({ Items: [attempt] })
+      .resolvesOnce({ Items: [] })
+      .resolvesOnce({ Items: [trashedRecipe] })
+      .resolvesOnce({ Items: [trashedItem] });
+    dynamoMock.on(QueryCommand).resolves({ Items: [{ userId: USER_ID, revisionId: 'recipe-1#000001' }] });
+    s3Mock.on(ListObjectsV2Command).resolves({ Contents: [] });
+    s3Mock.on(DeleteObjectsCommand).resolves({});
+
+    await purgeTrash();
+
+    const cutoff = dynamoMock.commandCalls(ScanCommand)[0].args[0].input.ExpressionAttributeValues![':cutoff'];
+    expect(Date.now() - Date.parse(cutoff as string)).toBeGreaterThanOrEqual(30 * 24 * 60 * 60 * 1000 - 1000);
+    expect(s3Mock.commandCalls(DeleteObjectsCommand)[0].args[0].input.Delete!.Objects).toEqual([
+      { Key: attempt.photoKeys[0] },
+    ]);
+    const deleted = dynamoMock
+      .commandCalls(BatchWriteCommand)
+      .flatMap((call) => Object.values(call.args[0].input.RequestItems!).flat())
+      .map((request) => request.DeleteRequest!.Key);
+    expect(deleted).toEqual([
+      { userId: USER_ID, attemptId: 'attempt-1' },
+      { userId: USER_ID, recipeId: 'recipe-1' },
+      { userId: USER_ID, revisionId: 'recipe-1#000001' },
+      { userId: USER_ID, itemId: 'item-1' },
+    ]);
+  });
+});
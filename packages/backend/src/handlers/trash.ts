@@ -0,0 +1,175 @@
+import {
+  getItem,
+  queryItems,
+  queryItemsWithFilter,
+  scanItems,
+  batchDeleteItems,
+  markDeleted,
+  clearDeleted,
+} from '../lib/dynamo';
+import { deleteRecipeRevisions } from './recipe-revisions';
+import { deleteAttemptPhotos } from './photos';
+import { ConflictError, NotFoundError, TRASH_RETENTION_DAYS } from '@proofed/shared';
+import type { Item, Recipe, Variant, Attempt, TrashEntry, TrashEntryType } from '@proofed/shared';
+
+const ITEMS_TABLE = process.env.ITEMS_TABLE!;
+const RECIPES_TABLE = process.env.RECIPES_TABLE!;
+const VARIANTS_TABLE = process.env.VARIANTS_TABLE!;
+const ATTEMPTS_TABLE = process.env.ATTEMPTS_TABLE!;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rows are trashed and restored a batch at a time, in parallel within each batch
+const TRASH_BATCH_SIZE = 25;
+
+async function inBatches(
+  keys: Record<string, string>[],
+  write: (key: Record<string, string>) => Promise<unknown>
+): Promise<void> {
+  for (let i = 0; i < keys.length; i += TRASH_BATCH_SIZE) {
+    await Promise.all(keys.slice(i, i + TRASH_BATCH_SIZE).map(write));
+  }
+}
+
+/**
+ * Mark rows as deleted. `deletedWith` is set on rows that go along with the one the user
+ * deleted, so restoring that row brings them back too. Only the markers are written, so an
+ * edit saved at the same moment isn't undone, and rows already in the trash keep their
+ * original deletion.
+ */
+export async function moveToTrash(
+  tableName: string,
+  keys: Record<string, string>[],
+  deletedAt: string,
+  deletedWith?: string
+): Promise<void> {
+  await inBatches(keys, (key) => markDeleted(tableName, key, deletedAt, deletedWith));
+}
+
+function toEntry(id: string, type: TrashEntryType, name: string, deletedAt: string): TrashEntry {
+  return {
+    id,
+    type,
+    name,
+    deletedAt,
+    purgeAt: new Date(Date.parse(deletedAt) + TRASH_RETENTION_DAYS * DAY_MS).toISOString(),
+  };
+}
+
+export async function listTrash(userId: string): Promise<TrashEntry[]> {
+  const [items, recipes, attempts] = await Promise.all([
+    queryItems<Item>(ITEMS_TABLE, userId, 'only'),
+    queryItems<Recipe>(RECIPES_TABLE, userId, 'only'),
+    queryItems<Attempt>(ATTEMPTS_TABLE, userId, 'only'),
+  ]);
+
+  const entries = [
+    ...items.map((item) => toEntry(item.itemId, 'item', item.name, item.deletedAt!)),
+    ...recipes
+      .filter((recipe) => !recipe.deletedWith)
+      .map((recipe) => ({
+        ...toEntry(recipe.recipeId, 'recipe', recipe.name, recipe.deletedAt!),
+        itemId: recipe.itemId,
+      })),
+    ...attempts.map((attempt) => toEntry(attempt.attemptId, 'attempt', attempt.name, attempt.deletedAt!)),
+  ];
+
+  return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+// Take the markers off, which leaves the rows as they were before they went to the trash
+function restoreRows(tableName: string, keys: Record<string, string>[]): Promise<void> {
+  return inBatches(keys, (key) => clearDeleted(tableName, key));
+}
+
+function trashedWith<T>(tableName: string, userId: string, id: string): Promise<T[]> {
+  return queryItemsWithFilter<T>(
+    tableName,
+    userId,
+    'deletedWith = :id',
+    { ':id': id },
+    undefined,
+    'only'
+  );
+}
+
+/**
+ * Bring a trash entry back, along with anything that was deleted with it. A recipe can
+ * only come back once the item it belongs to is out of the trash.
+ */
+export async function restoreFromTrash(userId: string, id: string): Promise<TrashEntry> {
+  const entries = await listTrash(userId);
+  const entry = entries.find((candidate) => candidate.id === id);
+  if (!entry) {
+    throw new NotFoundError('Trash entry');
+  }
+
+  if (entry.type === 'item') {
+    const [recipes, variants] = await Promise.all([
+      trashedWith<Recipe>(RECIPES_TABLE, userId, id),
+      trashedWith<Variant>(VARIANTS_TABLE, userId, id),
+    ]);
+    // Parents last, so a failure part-way never shows an item missing its recipes
+    await restoreRows(VARIANTS_TABLE, variants.map(({ variantId }) => ({ userId, variantId })));
+    await restoreRows(RECIPES_TABLE, recipes.map(({ recipeId }) => ({ userId, recipeId })));
+    await restoreRows(ITEMS_TABLE, [{ userId, itemId: id }]);
+  } else if (entry.type === 'recipe') {
+    if (!(await getItem<Item>(ITEMS_TABLE, { userId, itemId: entry.itemId! }))) {
+      throw new ConflictError('Restore the item this recipe belongs to first', entry);
+    }
+    const variants = await trashedWith<Variant>(VARIANTS_TABLE, userId, id);
+    await restoreRows(VARIANTS_TABLE, variants.map(({ variantId }) => ({ userId, variantId })));
+    await restoreRows(RECIPES_TABLE, [{ userId, recipeId: id }]);
+  } else {
+    await restoreRows(ATTEMPTS_TABLE, [{ userId, attemptId: id }]);
+  }
+
+  return entry;
+}
+
+/**
+ * Scheduled job: permanently remove everything that has been in the trash for longer than
+ * TRASH_RETENTION_DAYS, with the photos of purged bakes and the history of purged recipes.
+ */
+export async function purgeTrash(): Promise<void> {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+  const expired = {
+    filterExpression: 'deletedAt < :cutoff',
+    expressionAttributeValues: { ':cutoff': cutoff },
+  };
+
+  const attempts = await scanItems<Attempt>(ATTEMPTS_TABLE, expired);
+  for (const attempt of attempts) {
+    await deleteAttemptPhotos(attempt);
+  }
+  await batchDeleteItems(
+    ATTEMPTS_TABLE,
+    attempts.map(({ userId, attemptId }) => ({ userId, attemptId }))
+  );
+
+  // Children first, the same order as a hard delete
+  const variants = await scanItems<Variant>(VARIANTS_TABLE, expired);
+  await batchDeleteItems(
+    VARIANTS_TABLE,
+    variants.map(({ userId, variantId }) => ({ userId, variantId }))
+  );
+
+  const recipes = await scanItems<Recipe>(RECIPES_TABLE, expired);
+  await batchDeleteItems(
+    RECIPES_TABLE,
+    recipes.map(({ userId, recipeId }) => ({ userId, recipeId }))
+  );
+  for (const recipe of recipes) {
+    await deleteRecipeRevisions(recipe.userId, [recipe.recipeId]);
+  }
+
+  const items = await scanItems<Item>(ITEMS_TABLE, expired);
+  await batchDeleteItems(
+    ITEMS_TABLE,
+    items.map(({ userId, itemId }) => ({ userId, itemId }))
+  );
+
+  console.log(
+    `Purged ${items.length} items, ${recipes.length} recipes, ${variants.length} variants, ${attempts.length} attempts`
+  );
+}
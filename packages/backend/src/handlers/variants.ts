@@ -1,16 +1,26 @@
 import { ulid } from 'ulid';
-import { putItem, getItem, queryItemsWithFilter, deleteItem, updateItem } from '../lib/dynamo';
-import type { Variant, CreateVariantRequest, UpdateVariantRequest } from '@proofed/shared';
+import { putItem, getItem, queryPage, deleteItem, updateVersionedItem } from '../lib/dynamo';
+import type { PageOptions } from '../lib/dynamo';
+import { findUsageReferences } from './attempts';
+import type {
+  Variant,
+  CreateVariantRequest,
+  UpdateVariantRequest,
+  PagedResponse,
+  DeleteResponse,
+} from '@proofed/shared';
 
 const TABLE_NAME = process.env.VARIANTS_TABLE!;
 
-export async function listVariants(userId: string, recipeId: string): Promise<Variant[]> {
-  return queryItemsWithFilter<Variant>(
-    TABLE_NAME,
-    userId,
-    'recipeId = :recipeId',
-    { ':recipeId': recipeId }
-  );
+export async function listVariants(
+  userId: string,
+  recipeId: string,
+  page: PageOptions
+): Promise<PagedResponse<Variant>> {
+  return queryPage<Variant>(TABLE_NAME, userId, page, {
+    filterExpression: 'recipeId = :recipeId',
+    expressionAttributeValues: { ':recipeId': recipeId },
+  });
 }
 
 export async function getVariantById(userId: string, variantId: string): Promise<Variant | null> {
@@ -31,7 +41,11 @@ export async function createVariant(
     itemId,
     name: request.name,
     ingredientOverrides: request.ingredientOverrides,
+    bakeTime: request.bakeTime,
+    bakeTemp: request.bakeTemp,
+    bakeTempUnit: request.bakeTempUnit,
     notes: request.notes,
+    version: 1,
     createdAt: now,
     updatedAt: now,
   };
@@ -43,13 +57,20 @@ export async function updateVariantById(
   variantId: string,
   request: UpdateVariantRequest
 ): Promise<Variant | null> {
+  const { version, ...changes } = request;
   const updates: Partial<Variant> = {
-    ...request,
+    ...changes,
     updatedAt: new Date().toISOString(),
   };
-  return updateItem<Variant>(TABLE_NAME, { userId, variantId }, updates);
+  return updateVersionedItem<Variant>(TABLE_NAME, { userId, variantId }, updates, version);
 }
 
-export async function deleteVariantById(userId: string, variantId: string): Promise<void> {
-  return deleteItem(TABLE_NAME, { userId, variantId });
+export async function deleteVariantById(userId: string, variantId: string): Promise<DeleteResponse> {
+  await deleteItem(TABLE_NAME, { userId, variantId });
+
+  return {
+    deletedRecipeIds: [],
+    deletedVariantIds: [variantId],
+    references: await findUsageReferences(userId, (usage) => usage.variantId === variantId),
+  };
 }
@@ -1,4 +1,10 @@
-import type { APIGatewayProxyEventV2WithJWTAuthorizer, APIGatewayProxyResultV2 } from 'aws-lambda';
+import type { Writable } from 'stream';
+import type {
+  APIGatewayProxyEventV2WithJWTAuthorizer,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyStructuredResultV2,
+  LambdaFunctionURLEvent,
+} from 'aws-lambda';
 import {
   listItems,
   getItemById,
@@ -12,8 +18,10 @@ import {
   createRecipe,
   updateRecipeById,
   deleteRecipeById,
+  restoreRecipeRevision,
   listCustomSources,
 } from './handlers/recipes';
+import { listRecipeRevisions, getRecipeRevision } from './handlers/recipe-revisions';
 import {
   listVariants,
   getVariantById,
@@ -35,33 +43,216 @@ import {
   updateProofedItemById,
   deleteProofedItemById,
 } from './handlers/proofed-items';
-import { getUploadUrl, getDownloadUrl } from './handlers/photos';
-import { getAiAdvice } from './handlers/ai-advice';
-import { getCrumbChat } from './handlers/ai-chat';
+import { getUploadUrl, getDownloadUrl, getAttemptDownloadUrls, deletePhoto } from './handlers/photos';
+import { getAiAdvice, regenerateAiAdvice, setCurrentAiAdvice } from './handlers/ai-advice';
+import { getAiCostReport } from './handlers/ai-costs';
+import { getCrumbChat, getLegacyCrumbChat, listCrumbChatThreads, streamCrumbChat } from './handlers/ai-chat';
 import { getAiContainerScale } from './handlers/ai-container-scale';
 import { deleteAccount } from './handlers/account';
+import { startAccountExport, getAccountExport } from './handlers/account-export';
+import { importAccount, startArchiveImport, getArchiveImport } from './handlers/account-import';
+import { listTrash, restoreFromTrash } from './handlers/trash';
+import { shareRecipe, shareProofedItem, listShares, revokeShare, getSharedSnapshot } from './handlers/shares';
 import { getPreferences, updatePreferences } from './handlers/preferences';
-import { getIngredients, submitIngredient } from './handlers/ingredients';
+import {
+  getIngredients,
+  getIngredientsDelta,
+  submitIngredient,
+  listMySubmissions,
+  listSubmissions,
+  approveSubmission,
+  rejectSubmission,
+} from './handlers/ingredients';
 import { parseIngredients } from './handlers/ai-parse-ingredients';
+import { importRecipeFromHtml } from './handlers/recipe-import';
+import { exportRecipe, importRecipes } from './handlers/recipe-interchange';
+import { getRecipeCardPdf, getBakeSheetPdf } from './handlers/print';
 import { searchProducts, getProductByBarcode } from './handlers/product-search';
 import { estimateCalories } from './handlers/nutrition';
-import { getUserId } from './lib/auth';
-
-function response(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+import { getUserId, requireAdmin, verifyIdToken } from './lib/auth';
+import { withAiQuota, getAiUsage } from './lib/ai-quota';
+import { matchesEtag } from './lib/etag';
+import type { PageOptions } from './lib/dynamo';
+import type { PdfFile } from './lib/pdf';
+import {
+  updatePreferencesRequestSchema,
+  submitIngredientRequestSchema,
+  approveIngredientSubmissionRequestSchema,
+  rejectIngredientSubmissionRequestSchema,
+  aiParseIngredientsRequestSchema,
+  recipeHtmlImportRequestSchema,
+  recipeImportRequestSchema,
+  createItemRequestSchema,
+  updateItemRequestSchema,
+  createRecipeRequestSchema,
+  updateRecipeRequestSchema,
+  restoreRecipeRevisionRequestSchema,
+  createVariantRequestSchema,
+  updateVariantRequestSchema,
+  createAttemptRequestSchema,
+  updateAttemptRequestSchema,
+  captureAttemptRequestSchema,
+  aiAdviceRequestSchema,
+  setCurrentAiAdviceRequestSchema,
+  crumbChatRequestSchema,
+  legacyCrumbChatRequestSchema,
+  aiContainerScaleRequestSchema,
+  updateProofedItemRequestSchema,
+  photoUploadRequestSchema,
+  photoDownloadRequestSchema,
+  photoDownloadUrlsRequestSchema,
+  calorieEstimateRequestSchema,
+  accountImportRequestSchema,
+  validate,
+  ProofedError,
+  NotFoundError,
+  RateLimitedError,
+  ValidationError,
+  RECIPE_FORMATS,
+  INGREDIENT_SUBMISSION_STATUSES,
+} from '@proofed/shared';
+import type { ErrorResponse, IngredientSubmissionStatus, RecipeFormat, Schema } from '@proofed/shared';
+
+// The export worker Lambda shares this bundle and is deployed with handler index.exportWorker
+export { exportWorker } from './handlers/account-export';
+// Restores uploaded export archives, deployed as index.importWorker
+export { importWorker } from './handlers/account-import';
+// Run daily by an EventBridge rule as index.purgeTrash
+export { purgeTrash } from './handlers/trash';
+// Run weekly as index.reconcilePhotos
+export { reconcilePhotos } from './handlers/photos';
+// Run for every object created in the photos bucket as index.photoProcessor
+export { photoProcessor } from './handlers/photo-processing';
+
+const MAX_PAGE_SIZE = 100;
+
+function response(
+  statusCode: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): APIGatewayProxyStructuredResultV2 {
   return {
     statusCode,
     headers: {
       'Content-Type': 'application/json',
+      ...headers,
     },
     body: JSON.stringify(body),
   };
 }
 
-function parseBody<T>(event: APIGatewayProxyEventV2WithJWTAuthorizer): T {
+// Answers a conditional GET with 304 when the caller already holds this ETag
+function conditionalResponse(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer,
+  etag: string,
+  body: unknown
+): APIGatewayProxyResultV2 {
+  const headers = { ETag: etag, 'Cache-Control': 'no-cache' };
+  if (matchesEtag(event.headers?.['if-none-match'], etag)) {
+    return { statusCode: 304, headers };
+  }
+  return response(200, body, headers);
+}
+
+// Binary bodies go back base64-encoded and API Gateway decodes them
+function pdfResponse(file: PdfFile): APIGatewayProxyResultV2 {
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${file.fileName}"`,
+    },
+    body: Buffer.from(file.content).toString('base64'),
+    isBase64Encoded: true,
+  };
+}
+
+function errorResponse(error: unknown): APIGatewayProxyStructuredResultV2 {
+  if (error instanceof ProofedError) {
+    if (error.statusCode >= 500) console.error('Error:', error);
+    const headers: Record<string, string> =
+      error instanceof RateLimitedError && error.retryAfterSeconds !== undefined
+        ? { 'Retry-After': String(error.retryAfterSeconds) }
+        : {};
+    return response(error.statusCode, error.toResponse(), headers);
+  }
+  // Anything else is a bug or an infrastructure failure; don't leak its message
+  console.error('Error:', error);
+  const body: ErrorResponse = { error: 'Internal server error', code: 'INTERNAL_ERROR' };
+  return response(500, body);
+}
+
+function parseBody<T>(event: { body?: string; isBase64Encoded?: boolean }, schema: Schema<T>): T {
   if (!event.body) {
-    throw new Error('Request body is required');
+    throw new ValidationError('Request body is required');
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body);
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
   }
-  return JSON.parse(event.body) as T;
+
+  // Returns only the fields the schema knows about, so unknown keys never reach DynamoDB
+  const result = validate(schema, body);
+  if (!result.valid) {
+    throw new ValidationError('Invalid request body', result.errors);
+  }
+  return result.value;
+}
+
+function parsePageOptions(event: APIGatewayProxyEventV2WithJWTAuthorizer): PageOptions {
+  const { limit, cursor } = event.queryStringParameters || {};
+  const page: PageOptions = { cursor: cursor || undefined };
+  if (limit !== undefined) {
+    const parsed = parseInt(limit, 10);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new ValidationError('limit must be a positive integer');
+    }
+    page.limit = Math.min(parsed, MAX_PAGE_SIZE);
+  }
+  return page;
+}
+
+function parseRecipeFormat(event: APIGatewayProxyEventV2WithJWTAuthorizer): RecipeFormat {
+  const format = event.queryStringParameters?.format || 'json-ld';
+  if (!(RECIPE_FORMATS as readonly string[]).includes(format)) {
+    throw new ValidationError(`format must be one of ${RECIPE_FORMATS.join(', ')}`);
+  }
+  return format as RecipeFormat;
+}
+
+function parseSubmissionStatus(event: APIGatewayProxyEventV2WithJWTAuthorizer): IngredientSubmissionStatus {
+  const status = event.queryStringParameters?.status || 'pending';
+  if (!(INGREDIENT_SUBMISSION_STATUSES as readonly string[]).includes(status)) {
+    throw new ValidationError(`status must be one of ${INGREDIENT_SUBMISSION_STATUSES.join(', ')}`);
+  }
+  return status as IngredientSubmissionStatus;
+}
+
+function parseSinceVersion(event: APIGatewayProxyEventV2WithJWTAuthorizer): number | undefined {
+  const { sinceVersion } = event.queryStringParameters || {};
+  if (sinceVersion === undefined) {
+    return undefined;
+  }
+  const parsed = Number(sinceVersion);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new ValidationError('sinceVersion must be a whole number');
+  }
+  return parsed;
+}
+
+function parseScaleFactor(event: APIGatewayProxyEventV2WithJWTAuthorizer): number | undefined {
+  const { scaleFactor } = event.queryStringParameters || {};
+  if (scaleFactor === undefined) {
+    return undefined;
+  }
+  const parsed = Number(scaleFactor);
+  if (!Number.isFinite(parsed) || parsed <= 0 || parsed > 100) {
+    throw new ValidationError('scaleFactor must be a number greater than 0 and at most 100');
+  }
+  return parsed;
 }
 
 export async function handler(event: APIGatewayProxyEventV2WithJWTAuthorizer): Promise<APIGatewayProxyResultV2> {
@@ -81,10 +272,18 @@ export async function handler(event: APIGatewayProxyEventV2WithJWTAuthorizer): P
     if (path.match(/^\/products\/barcode\/[^/]+$/) && method === 'GET') {
       const barcode = path.split('/').pop()!;
       const product = await getProductByBarcode(barcode);
-      if (!product) return response(404, { error: 'Product not found' });
+      if (!product) throw new NotFoundError('Product');
       return response(200, product);
     }
 
+    // Shared links (no auth - the token is the credential)
+    if (path.match(/^\/shared\/[^/]+$/) && method === 'GET') {
+      const token = path.split('/').pop()!;
+      const snapshot = await getSharedSnapshot(token);
+      if (!snapshot) throw new NotFoundError('Shared link');
+      return response(200, snapshot);
+    }
+
     // All routes below require authentication
     const userId = getUserId(event);
 
@@ -94,6 +293,46 @@ export async function handler(event: APIGatewayProxyEventV2WithJWTAuthorizer): P
       return response(200, { message: 'Account deleted' });
     }
 
+    if (path === '/account/export' && method === 'GET') {
+      const includePhotos = event.queryStringParameters?.photos === 'true';
+      const result = await startAccountExport(userId, includePhotos);
+      return response(result.status === 'ready' ? 200 : 202, result);
+    }
+
+    if (path.match(/^\/account\/export\/[^/]+$/) && method === 'GET') {
+      const exportId = pathParameters?.exportId!;
+      const result = await getAccountExport(userId, exportId);
+      return response(200, result);
+    }
+
+    if (path === '/account/import' && method === 'POST') {
+      const result = await importAccount(userId, parseBody(event, accountImportRequestSchema));
+      return response(201, result);
+    }
+
+    if (path === '/account/import/archive' && method === 'POST') {
+      const result = await startArchiveImport(userId);
+      return response(202, result);
+    }
+
+    if (path.match(/^\/account\/import\/archive\/[^/]+$/) && method === 'GET') {
+      const importId = pathParameters?.importId!;
+      const result = await getArchiveImport(userId, importId);
+      return response(200, result);
+    }
+
+    // Trash routes
+    if (path === '/trash' && method === 'GET') {
+      const entries = await listTrash(userId);
+      return response(200, { items: entries });
+    }
+
+    if (path.match(/^\/trash\/[^/]+\/restore$/) && method === 'POST') {
+      const id = pathParameters?.id!;
+      const entry = await restoreFromTrash(userId, id);
+      return response(200, entry);
+    }
+
     // Preferences routes
     if (path === '/preferences' && method === 'GET') {
       const preferences = await getPreferences(userId);
@@ -101,23 +340,69 @@ export async function handler(event: APIGatewayProxyEventV2WithJWTAuthorizer): P
     }
 
     if (path === '/preferences' && (method === 'PUT' || method === 'PATCH')) {
-      const preferences = await updatePreferences(userId, parseBody(event));
+      const preferences = await updatePreferences(userId, parseBody(event, updatePreferencesRequestSchema));
       return response(200, preferences);
     }
 
     // Ingredients routes
     if (path === '/ingredients' && method === 'GET') {
-      const ingredients = await getIngredients();
-      return response(200, ingredients);
+      const sinceVersion = parseSinceVersion(event);
+      const ingredients =
+        sinceVersion === undefined ? await getIngredients() : await getIngredientsDelta(sinceVersion);
+      return conditionalResponse(event, `"${ingredients.version}"`, ingredients);
     }
 
     if (path === '/ingredients/submit' && method === 'POST') {
-      const submission = await submitIngredient(userId, parseBody(event));
+      const submission = await submitIngredient(userId, parseBody(event, submitIngredientRequestSchema));
       return response(201, submission);
     }
 
+    if (path === '/ingredients/submissions' && method === 'GET') {
+      const page = await listMySubmissions(userId, parsePageOptions(event));
+      return response(200, page);
+    }
+
     if (path === '/ingredients/parse' && method === 'POST') {
-      const result = await parseIngredients(parseBody(event));
+      const request = parseBody(event, aiParseIngredientsRequestSchema);
+      const result = await withAiQuota(userId, 'parse-ingredients', () => parseIngredients(userId, request));
+      return response(200, result);
+    }
+
+    // Ingredient moderation routes (admin group only)
+    if (path === '/admin/ingredient-submissions' && method === 'GET') {
+      requireAdmin(event);
+      const page = await listSubmissions(parseSubmissionStatus(event), parsePageOptions(event));
+      return response(200, page);
+    }
+
+    if (path.match(/^\/admin\/ingredient-submissions\/[^/]+\/approve$/) && method === 'POST') {
+      requireAdmin(event);
+      const submissionId = pathParameters?.submissionId!;
+      const submission = await approveSubmission(
+        submissionId,
+        parseBody(event, approveIngredientSubmissionRequestSchema)
+      );
+      if (!submission) throw new NotFoundError('Submission');
+      return response(200, submission);
+    }
+
+    if (path.match(/^\/admin\/ingredient-submissions\/[^/]+\/reject$/) && method === 'POST') {
+      requireAdmin(event);
+      const submissionId = pathParameters?.submissionId!;
+      const submission = await rejectSubmission(submissionId, parseBody(event, rejectIngredientSubmissionRequestSchema));
+      if (!submission) throw new NotFoundError('Submission');
+      return response(200, submission);
+    }
+
+    if (path === '/admin/ai-costs' && method === 'GET') {
+      requireAdmin(event);
+      const { from, to } = event.queryStringParameters || {};
+      const report = await getAiCostReport(from || undefined, to || undefined);
+      return response(200, report);
+    }
+
+    if (path === '/recipes/import-html' && method === 'POST') {
+      const result = await importRecipeFromHtml(userId, parseBody(event, recipeHtmlImportRequestSchema));
       return response(200, result);
     }
 
@@ -129,181 +414,290 @@ export async function handler(event: APIGatewayProxyEventV2WithJWTAuthorizer): P
 
     // Items routes
     if (path === '/items' && method === 'GET') {
-      const items = await listItems(userId);
-      return response(200, { items });
+      const page = await listItems(userId, parsePageOptions(event));
+      return response(200, page);
     }
 
     if (path === '/items' && method === 'POST') {
-      const item = await createItem(userId, parseBody(event));
+      const item = await createItem(userId, parseBody(event, createItemRequestSchema));
       return response(201, item);
     }
 
     if (path.match(/^\/items\/[^/]+$/) && method === 'GET') {
       const itemId = pathParameters?.itemId!;
       const item = await getItemById(userId, itemId);
-      if (!item) return response(404, { error: 'Item not found' });
+      if (!item) throw new NotFoundError('Item');
       return response(200, item);
     }
 
     if (path.match(/^\/items\/[^/]+$/) && method === 'PUT') {
       const itemId = pathParameters?.itemId!;
-      const item = await updateItemById(userId, itemId, parseBody(event));
-      if (!item) return response(404, { error: 'Item not found' });
+      const item = await updateItemById(userId, itemId, parseBody(event, updateItemRequestSchema));
+      if (!item) throw new NotFoundError('Item');
       return response(200, item);
     }
 
     if (path.match(/^\/items\/[^/]+$/) && method === 'DELETE') {
       const itemId = pathParameters?.itemId!;
-      await deleteItemById(userId, itemId);
-      return response(204, null);
+      const result = await deleteItemById(userId, itemId);
+      if (!result) throw new NotFoundError('Item');
+      return response(200, result);
     }
 
     // Recipes routes
     if (path.match(/^\/items\/[^/]+\/recipes$/) && method === 'GET') {
       const itemId = pathParameters?.itemId!;
-      const recipes = await listRecipes(userId, itemId);
-      return response(200, { items: recipes });
+      const page = await listRecipes(userId, itemId, parsePageOptions(event));
+      return response(200, page);
     }
 
     if (path.match(/^\/items\/[^/]+\/recipes$/) && method === 'POST') {
       const itemId = pathParameters?.itemId!;
-      const recipe = await createRecipe(userId, itemId, parseBody(event));
+      const recipe = await createRecipe(userId, itemId, parseBody(event, createRecipeRequestSchema));
       return response(201, recipe);
     }
 
+    if (path.match(/^\/items\/[^/]+\/recipes\/import$/) && method === 'POST') {
+      const itemId = pathParameters?.itemId!;
+      const result = await importRecipes(userId, itemId, parseBody(event, recipeImportRequestSchema));
+      return response(201, result);
+    }
+
     if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+$/) && method === 'GET') {
       const recipeId = pathParameters?.recipeId!;
       const recipe = await getRecipeById(userId, recipeId);
-      if (!recipe) return response(404, { error: 'Recipe not found' });
+      if (!recipe) throw new NotFoundError('Recipe');
       return response(200, recipe);
     }
 
     if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+$/) && method === 'PUT') {
       const recipeId = pathParameters?.recipeId!;
-      const recipe = await updateRecipeById(userId, recipeId, parseBody(event));
-      if (!recipe) return response(404, { error: 'Recipe not found' });
+      const recipe = await updateRecipeById(userId, recipeId, parseBody(event, updateRecipeRequestSchema));
+      if (!recipe) throw new NotFoundError('Recipe');
       return response(200, recipe);
     }
 
     if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+$/) && method === 'DELETE') {
       const recipeId = pathParameters?.recipeId!;
-      await deleteRecipeById(userId, recipeId);
-      return response(204, null);
+      const result = await deleteRecipeById(userId, recipeId);
+      if (!result) throw new NotFoundError('Recipe');
+      return response(200, result);
+    }
+
+    if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+\/export$/) && method === 'GET') {
+      const recipeId = pathParameters?.recipeId!;
+      const result = await exportRecipe(userId, recipeId, parseRecipeFormat(event));
+      if (!result) throw new NotFoundError('Recipe');
+      return response(200, result);
+    }
+
+    if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+\/pdf$/) && method === 'GET') {
+      const recipeId = pathParameters?.recipeId!;
+      const file = await getRecipeCardPdf(userId, recipeId, {
+        scaleFactor: parseScaleFactor(event),
+        variantId: event.queryStringParameters?.variantId || undefined,
+      });
+      if (!file) throw new NotFoundError('Recipe');
+      return pdfResponse(file);
+    }
+
+    // Recipe revision routes
+    if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+\/revisions$/) && method === 'GET') {
+      const recipeId = pathParameters?.recipeId!;
+      const revisions = await listRecipeRevisions(userId, recipeId);
+      return response(200, { items: revisions });
+    }
+
+    if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+\/revisions\/\d+$/) && method === 'GET') {
+      const recipeId = pathParameters?.recipeId!;
+      const revision = await getRecipeRevision(userId, recipeId, Number(pathParameters?.revision));
+      if (!revision) throw new NotFoundError('Revision');
+      return response(200, revision);
+    }
+
+    if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+\/revisions\/\d+\/restore$/) && method === 'POST') {
+      const recipeId = pathParameters?.recipeId!;
+      const recipe = await restoreRecipeRevision(
+        userId,
+        recipeId,
+        Number(pathParameters?.revision),
+        parseBody(event, restoreRecipeRevisionRequestSchema)
+      );
+      if (!recipe) throw new NotFoundError('Recipe');
+      return response(200, recipe);
     }
 
     // Variants routes
     if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+\/variants$/) && method === 'GET') {
       const recipeId = pathParameters?.recipeId!;
-      const variants = await listVariants(userId, recipeId);
-      return response(200, { items: variants });
+      const page = await listVariants(userId, recipeId, parsePageOptions(event));
+      return response(200, page);
     }
 
     if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+\/variants$/) && method === 'POST') {
       const itemId = pathParameters?.itemId!;
       const recipeId = pathParameters?.recipeId!;
-      const variant = await createVariant(userId, itemId, recipeId, parseBody(event));
+      const variant = await createVariant(userId, itemId, recipeId, parseBody(event, createVariantRequestSchema));
       return response(201, variant);
     }
 
     if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+\/variants\/[^/]+$/) && method === 'GET') {
       const variantId = pathParameters?.variantId!;
       const variant = await getVariantById(userId, variantId);
-      if (!variant) return response(404, { error: 'Variant not found' });
+      if (!variant) throw new NotFoundError('Variant');
       return response(200, variant);
     }
 
     if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+\/variants\/[^/]+$/) && method === 'PUT') {
       const variantId = pathParameters?.variantId!;
-      const variant = await updateVariantById(userId, variantId, parseBody(event));
-      if (!variant) return response(404, { error: 'Variant not found' });
+      const variant = await updateVariantById(userId, variantId, parseBody(event, updateVariantRequestSchema));
+      if (!variant) throw new NotFoundError('Variant');
       return response(200, variant);
     }
 
     if (path.match(/^\/items\/[^/]+\/recipes\/[^/]+\/variants\/[^/]+$/) && method === 'DELETE') {
       const variantId = pathParameters?.variantId!;
-      await deleteVariantById(userId, variantId);
-      return response(204, null);
+      const result = await deleteVariantById(userId, variantId);
+      return response(200, result);
     }
 
     // Attempts routes
     if (path === '/attempts' && method === 'GET') {
-      const attempts = await listAttempts(userId);
-      return response(200, { items: attempts });
+      const page = await listAttempts(userId, parsePageOptions(event));
+      return response(200, page);
     }
 
     if (path === '/attempts' && method === 'POST') {
-      const attempt = await createAttempt(userId, parseBody(event));
+      const attempt = await createAttempt(userId, parseBody(event, createAttemptRequestSchema));
       return response(201, attempt);
     }
 
     if (path.match(/^\/attempts\/[^/]+$/) && method === 'GET') {
       const attemptId = pathParameters?.attemptId!;
       const attempt = await getAttemptById(userId, attemptId);
-      if (!attempt) return response(404, { error: 'Attempt not found' });
+      if (!attempt) throw new NotFoundError('Attempt');
       return response(200, attempt);
     }
 
     if (path.match(/^\/attempts\/[^/]+$/) && method === 'PUT') {
       const attemptId = pathParameters?.attemptId!;
-      const attempt = await updateAttemptById(userId, attemptId, parseBody(event));
-      if (!attempt) return response(404, { error: 'Attempt not found' });
+      const attempt = await updateAttemptById(userId, attemptId, parseBody(event, updateAttemptRequestSchema));
+      if (!attempt) throw new NotFoundError('Attempt');
       return response(200, attempt);
     }
 
     if (path.match(/^\/attempts\/[^/]+$/) && method === 'DELETE') {
       const attemptId = pathParameters?.attemptId!;
-      await deleteAttemptById(userId, attemptId);
+      if (!(await deleteAttemptById(userId, attemptId))) throw new NotFoundError('Attempt');
       return response(204, null);
     }
 
     if (path.match(/^\/attempts\/[^/]+\/capture$/) && method === 'POST') {
       const attemptId = pathParameters?.attemptId!;
-      const proofedItem = await captureAttempt(userId, attemptId, parseBody(event));
+      const proofedItem = await captureAttempt(userId, attemptId, parseBody(event, captureAttemptRequestSchema));
       return response(201, proofedItem);
     }
 
+    if (path.match(/^\/attempts\/[^/]+\/pdf$/) && method === 'GET') {
+      const attemptId = pathParameters?.attemptId!;
+      const file = await getBakeSheetPdf(userId, attemptId);
+      if (!file) throw new NotFoundError('Attempt');
+      return pdfResponse(file);
+    }
+
     if (path.match(/^\/attempts\/[^/]+\/ai-advice$/) && method === 'POST') {
       const attemptId = pathParameters?.attemptId!;
-      try {
-        const advice = await getAiAdvice(userId, attemptId, parseBody(event));
-        return response(200, advice);
-      } catch (error: any) {
-        if (error.statusCode === 400) {
-          return response(400, { error: error.message });
-        }
-        throw error;
-      }
+      const request = parseBody(event, aiAdviceRequestSchema);
+      const advice = await withAiQuota(userId, 'advice', () => getAiAdvice(userId, attemptId, request));
+      return response(200, advice);
     }
 
-    if (path.match(/^\/attempts\/[^/]+\/crumb-chat$/) && method === 'POST') {
+    if (path.match(/^\/attempts\/[^/]+\/ai-advice\/regenerate$/) && method === 'POST') {
       const attemptId = pathParameters?.attemptId!;
-      const chatResponse = await getCrumbChat(userId, attemptId, parseBody(event));
+      const request = parseBody(event, aiAdviceRequestSchema);
+      const advice = await withAiQuota(userId, 'advice', () => regenerateAiAdvice(userId, attemptId, request));
+      return response(200, advice);
+    }
+
+    if (path.match(/^\/attempts\/[^/]+\/ai-advice\/current$/) && method === 'PUT') {
+      const attemptId = pathParameters?.attemptId!;
+      const { adviceId } = parseBody(event, setCurrentAiAdviceRequestSchema);
+      const attempt = await setCurrentAiAdvice(userId, attemptId, adviceId);
+      if (!attempt) throw new NotFoundError('Attempt');
+      return response(200, attempt);
+    }
+
+    if (path.match(/^\/attempts\/[^/]+\/crumb-chat\/threads$/) && method === 'GET') {
+      const attemptId = pathParameters?.attemptId!;
+      if (!(await getAttemptById(userId, attemptId))) throw new NotFoundError('Attempt');
+      const threads = await listCrumbChatThreads(userId, attemptId);
+      return response(200, { items: threads });
+    }
+
+    if (path.match(/^\/attempts\/[^/]+\/crumb-chat\/threads$/) && method === 'POST') {
+      const attemptId = pathParameters?.attemptId!;
+      const request = parseBody(event, crumbChatRequestSchema);
+      const chatResponse = await withAiQuota(userId, 'chat', () => getCrumbChat(userId, attemptId, request));
       return response(200, chatResponse);
     }
 
+    // Older app builds send the whole conversation and keep no thread
+    if (path.match(/^\/attempts\/[^/]+\/crumb-chat$/) && method === 'POST') {
+      const request = parseBody(event, legacyCrumbChatRequestSchema);
+      const chatResponse = await withAiQuota(userId, 'chat', () => getLegacyCrumbChat(userId, request));
+      return response(200, chatResponse);
+    }
+
+    // Share routes
+    if (path.match(/^\/recipes\/[^/]+\/share$/) && method === 'POST') {
+      const recipeId = pathParameters?.recipeId!;
+      const share = await shareRecipe(userId, recipeId);
+      if (!share) throw new NotFoundError('Recipe');
+      return response(201, share);
+    }
+
+    if (path.match(/^\/proofed-items\/[^/]+\/share$/) && method === 'POST') {
+      const proofedItemId = pathParameters?.proofedItemId!;
+      const share = await shareProofedItem(userId, proofedItemId);
+      if (!share) throw new NotFoundError('Proofed item');
+      return response(201, share);
+    }
+
+    if (path === '/shares' && method === 'GET') {
+      const shares = await listShares(userId);
+      return response(200, { items: shares });
+    }
+
+    if (path.match(/^\/shares\/[^/]+$/) && method === 'DELETE') {
+      const token = pathParameters?.token!;
+      if (!(await revokeShare(userId, token))) throw new NotFoundError('Share');
+      return response(204, null);
+    }
+
     // AI Container Scale route
     if (path.match(/^\/recipes\/[^/]+\/ai-container-scale$/) && method === 'POST') {
-      const result = await getAiContainerScale(parseBody(event));
+      const request = parseBody(event, aiContainerScaleRequestSchema);
+      const result = await withAiQuota(userId, 'container-scale', () => getAiContainerScale(userId, request));
       return response(200, result);
     }
 
     // Proofed Items routes
     if (path === '/proofed-items' && method === 'GET') {
-      const proofedItems = await listProofedItems(userId);
-      return response(200, { items: proofedItems });
+      const page = await listProofedItems(userId, parsePageOptions(event));
+      return response(200, page);
     }
 
     if (path.match(/^\/proofed-items\/[^/]+$/) && method === 'GET') {
       const proofedItemId = pathParameters?.proofedItemId!;
       const proofedItem = await getProofedItemById(userId, proofedItemId);
-      if (!proofedItem) return response(404, { error: 'Proofed item not found' });
+      if (!proofedItem) throw new NotFoundError('Proofed item');
       return response(200, proofedItem);
     }
 
     if (path.match(/^\/proofed-items\/[^/]+$/) && method === 'PUT') {
       const proofedItemId = pathParameters?.proofedItemId!;
-      const proofedItem = await updateProofedItemById(userId, proofedItemId, parseBody(event));
-      if (!proofedItem) return response(404, { error: 'Proofed item not found' });
+      const proofedItem = await updateProofedItemById(userId, proofedItemId, parseBody(event, updateProofedItemRequestSchema));
+      if (!proofedItem) throw new NotFoundError('Proofed item');
       return response(200, proofedItem);
     }
 
@@ -315,25 +709,103 @@ export async function handler(event: APIGatewayProxyEventV2WithJWTAuthorizer): P
 
     // Photos routes
     if (path === '/photos/upload-url' && method === 'POST') {
-      const result = await getUploadUrl(userId, parseBody(event));
+      const result = await getUploadUrl(userId, parseBody(event, photoUploadRequestSchema));
       return response(200, result);
     }
 
     if (path === '/photos/download-url' && method === 'POST') {
-      const result = await getDownloadUrl(parseBody(event));
+      const result = await getDownloadUrl(userId, parseBody(event, photoDownloadRequestSchema));
       return response(200, result);
     }
 
+    if (path === '/photos/download-urls' && method === 'POST') {
+      const result = await getAttemptDownloadUrls(userId, parseBody(event, photoDownloadUrlsRequestSchema));
+      return response(200, result);
+    }
+
+    // The key is the rest of the path, slashes included, with each segment URL-encoded
+    if (path.match(/^\/photos\/.+$/) && method === 'DELETE') {
+      const key = path.slice('/photos/'.length).split('/').map(decodeURIComponent).join('/');
+      await deletePhoto(userId, key);
+      return response(204, null);
+    }
+
     // Nutrition routes
     if (path === '/nutrition/estimate-calories' && method === 'POST') {
-      const result = await estimateCalories(parseBody(event));
+      const request = parseBody(event, calorieEstimateRequestSchema);
+      const result = await withAiQuota(userId, 'calorie-estimate', () => estimateCalories(userId, request));
       return response(200, result);
     }
 
-    return response(404, { error: 'Not found' });
+    if (path === '/ai/usage' && method === 'GET') {
+      const usage = await getAiUsage(userId);
+      return response(200, usage);
+    }
+
+    throw new NotFoundError('Route');
   } catch (error) {
-    console.error('Error:', error);
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    return response(500, { error: message });
+    return errorResponse(error);
   }
 }
+
+// Lambda's Node.js runtime provides this global to functions deployed with response streaming
+declare const awslambda: {
+  streamifyResponse(handler: StreamingHandler): StreamingHandler;
+  HttpResponseStream: {
+    from(stream: Writable, metadata: { statusCode: number; headers?: Record<string, string> }): Writable;
+  };
+};
+
+type StreamingHandler = (event: LambdaFunctionURLEvent, responseStream: Writable) => Promise<void>;
+
+/**
+ * Crumb chat as server-sent events: a `delta` event for each piece of the reply as the model
+ * writes it, then `done` with the same body as POST /attempts/{attemptId}/crumb-chat/threads,
+ * or `error` with an ErrorResponse if the reply fails part way. Failures before the reply
+ * starts get a plain JSON error response instead.
+ *
+ * API Gateway buffers whole responses, so this is served from a Lambda function URL with
+ * response streaming, deployed as index.crumbChatStream, and checks the Cognito token itself.
+ */
+async function streamChat(event: LambdaFunctionURLEvent, responseStream: Writable): Promise<void> {
+  // Opened with a 200 by the first event; assigned inside send(), hence the cast
+  let events = null as Writable | null;
+  const send = (name: string, data: unknown) => {
+    events ??= awslambda.HttpResponseStream.from(responseStream, {
+      statusCode: 200,
+      headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+    });
+    events.write(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const match = event.rawPath.match(/^\/attempts\/([^/]+)\/crumb-chat\/threads$/);
+    if (!match || event.requestContext.http.method !== 'POST') {
+      throw new NotFoundError('Route');
+    }
+    const userId = await verifyIdToken((event.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+    const attemptId = decodeURIComponent(match[1]);
+    const request = parseBody(event, crumbChatRequestSchema);
+
+    const chatResponse = await withAiQuota(userId, 'chat', () =>
+      streamCrumbChat(userId, attemptId, request, (text) => send('delta', { text }))
+    );
+    send('done', chatResponse);
+  } catch (error) {
+    const { statusCode, headers, body } = errorResponse(error);
+    if (events) {
+      send('error', JSON.parse(body!));
+    } else {
+      events = awslambda.HttpResponseStream.from(responseStream, {
+        statusCode: statusCode!,
+        headers: headers as Record<string, string>,
+      });
+      events.write(body);
+    }
+  }
+  (events ?? responseStream).end();
+}
+
+// Outside Lambda (tests, local scripts) there's no awslambda global to wrap it with
+export const crumbChatStream: StreamingHandler =
+  typeof awslambda === 'undefined' ? streamChat : awslambda.streamifyResponse(streamChat);
@@ -0,0 +1,126 @@
+import { ulid } from 'ulid';
+import { putItem } from './dynamo';
+import type { AiCallOutcome, AiCallRecord, AiFeature } from '@proofed/shared';
+
+// Records what every model call cost: one row per call in the AI calls table, and the same
+// numbers as CloudWatch metrics, which the stack's spend alarms watch.
+
+const TABLE_NAME = process.env.AI_CALLS_TABLE!;
+
+// Call rows are kept long enough to compare a month with the one before
+const RETENTION_DAYS = 90;
+
+// Must match the namespace the alarms in the CDK stack read from
+export const AI_METRICS_NAMESPACE = 'Proofed/AI';
+
+export interface AiCallMetrics {
+  userId: string;
+  feature: AiFeature;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  outcome: AiCallOutcome;
+}
+
+export type AiCallRecorder = (call: AiCallMetrics) => Promise<void>;
+
+// US dollars per million tokens
+interface AiPrice {
+  input: number;
+  output: number;
+}
+
+const DEFAULT_PRICES: Record<string, AiPrice> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+};
+
+let prices: Record<string, AiPrice> | null = null;
+
+/**
+ * The list price of a model: the defaults above unless AI_PRICES overrides them, e.g.
+ * {"gpt-4o": {"input": 2.5, "output": 10}}. Unknown models are priced at nothing, with a
+ * warning so the gap shows up in the logs.
+ */
+export function getAiPrice(model: string): AiPrice {
+  if (!prices) {
+    let overrides: Record<string, AiPrice> = {};
+    try {
+      overrides = JSON.parse(process.env.AI_PRICES || '{}');
+    } catch (error) {
+      console.error('Ignoring invalid AI_PRICES:', error);
+    }
+    prices = { ...DEFAULT_PRICES, ...overrides };
+  }
+  const price = prices[model];
+  if (!price) {
+    console.warn(`No price for AI model "${model}", counting its calls as free`);
+    return { input: 0, output: 0 };
+  }
+  return price;
+}
+
+export function aiCallCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = getAiPrice(model);
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+// Embedded metric format: Lambda turns this log line into metrics without any API calls
+function logMetrics(record: AiCallRecord, now: Date): void {
+  const line = {
+    _aws: {
+      Timestamp: now.getTime(),
+      CloudWatchMetrics: [
+        {
+          Namespace: AI_METRICS_NAMESPACE,
+          Dimensions: [['Feature'], []],
+          Metrics: [
+            { Name: 'CostUsd', Unit: 'None' },
+            { Name: 'PromptTokens', Unit: 'Count' },
+            { Name: 'CompletionTokens', Unit: 'Count' },
+            { Name: 'Latency', Unit: 'Milliseconds' },
+            { Name: 'Errors', Unit: 'Count' },
+          ],
+        },
+      ],
+    },
+    Feature: record.feature,
+    Model: record.model,
+    CostUsd: record.costUsd,
+    PromptTokens: record.promptTokens,
+    CompletionTokens: record.completionTokens,
+    Latency: record.latencyMs,
+    Errors: record.outcome === 'error' ? 1 : 0,
+  };
+  // Written straight to stdout, since console.log's prefix would stop CloudWatch parsing it
+  process.stdout.write(`${JSON.stringify(line)}\n`);
+}
+
+/**
+ * Saves a call's usage and cost. Accounting never fails the call it describes, so errors
+ * are logged and swallowed.
+ */
+export async function recordAiCall(call: AiCallMetrics): Promise<void> {
+  const now = new Date();
+  const timestamp = now.toISOString();
+  const record: AiCallRecord = {
+    ...call,
+    callId: `${timestamp}#${ulid()}`,
+    day: timestamp.slice(0, 10),
+    costUsd: aiCallCost(call.model, call.promptTokens, call.completionTokens),
+    expiresAt: Math.floor(now.getTime() / 1000) + RETENTION_DAYS * 24 * 60 * 60,
+  };
+
+  logMetrics(record, now);
+  try {
+    await putItem(TABLE_NAME, record);
+  } catch (error) {
+    console.error('Failed to record AI call:', error);
+  }
+}
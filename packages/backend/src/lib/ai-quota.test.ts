@@ -0,0 +1,106 @@
+/**
+ * Tests for AI quotas: calls over the limit are refused until the period resets, failed calls
+ * are refunded, and colliding requests are retried
+ *
+ * Run with: npx jest src/lib/ai-quota.test.ts
+ */
+
+import { DynamoDBDocumentClient, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { RateLimitedError } from '@proofed/shared';
+import { withAiQuota } from './ai-quota';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+
+const USER_ID = 'user-1';
+
+function cancelled(...codes: string[]) {
+  return Object.assign(new Error('Transaction cancelled'), {
+    name: 'TransactionCanceledException',
+    CancellationReasons: codes.map((Code) => ({ Code })),
+  });
+}
+
+async function refusal(promise: Promise<unknown>): Promise<RateLimitedError> {
+  const error = await promise.catch((caught) => caught);
+  expect(error).toBeInstanceOf(RateLimitedError);
+  return error as RateLimitedError;
+}
+
+function transactions() {
+  return dynamoMock.commandCalls(TransactWriteCommand).map((call) => call.args[0].input.TransactItems!);
+}
+
+beforeEach(() => {
+  dynamoMock.reset();
+  dynamoMock.on(TransactWriteCommand).resolves({});
+  // Backoff between retries still runs on real timers
+  jest.useFakeTimers({ now: new Date('2026-10-19T18:00:00.000Z'), doNotFake: ['setTimeout'] });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('withAiQuota', () => {
+  it('counts the call against the day and the month', async () => {
+    expect(await withAiQuota(USER_ID, 'chat', async () => 'reply')).toBe('reply');
+
+    const [updates] = transactions();
+    expect(updates.map(({ Update }) => [Update!.Key, Update!.ExpressionAttributeValues])).toEqual([
+      [{ userId: USER_ID, period: 'day#2026-10-19#chat' }, { ':amount': 1, ':max': 49, ':set0': 1792540800 }],
+      [{ userId: USER_ID, period: 'month#2026-10#chat' }, { ':amount': 1, ':max': 499, ':set0': 1793577600 }],
+    ]);
+  });
+
+  it('refuses the call until the day resets once the daily quota is used up', async () => {
+    dynamoMock.on(TransactWriteCommand).rejects(cancelled('ConditionalCheckFailed', 'None'));
+    const call = jest.fn();
+
+    const error = await refusal(withAiQuota(USER_ID, 'chat', call));
+
+    expect(error.message).toBe("You've used all 50 Crumb chat messages for today");
+    expect(error.retryAfterSeconds).toBe(6 * 60 * 60);
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('names the month when that is the limit reached', async () => {
+    dynamoMock.on(TransactWriteCommand).rejects(cancelled('None', 'ConditionalCheckFailed'));
+
+    const error = await refusal(withAiQuota(USER_ID, 'advice', jest.fn()));
+
+    expect(error.message).toBe("You've used all 100 bake advice requests for this month");
+    expect(error.retryAfterSeconds).toBe(12 * 24 * 60 * 60 + 6 * 60 * 60);
+  });
+
+  it('refunds a call that fails', async () => {
+    await expect(
+      withAiQuota(USER_ID, 'chat', async () => {
+        throw new Error('Upstream unavailable');
+      })
+    ).rejects.toThrow('Upstream unavailable');
+
+    const [, refund] = transactions();
+    expect(refund.map(({ Update }) => Update!.ExpressionAttributeValues![':amount'])).toEqual([-1, -1]);
+    expect(refund.every(({ Update }) => Update!.ConditionExpression === undefined)).toBe(true);
+  });
+
+  it('retries when another request was counting at the same time', async () => {
+    dynamoMock
+      .on(TransactWriteCommand)
+      .rejectsOnce(cancelled('TransactionConflict', 'None'))
+      .resolves({});
+
+    expect(await withAiQuota(USER_ID, 'chat', async () => 'reply')).toBe('reply');
+    expect(transactions()).toHaveLength(2);
+  });
+
+  it('asks the caller to retry shortly when the counters stay contended', async () => {
+    dynamoMock.on(TransactWriteCommand).rejects(cancelled('TransactionConflict', 'None'));
+
+    const error = await refusal(withAiQuota(USER_ID, 'chat', jest.fn()));
+
+    expect(error.retryAfterSeconds).toBe(1);
+    expect(transactions()).toHaveLength(4);
+  });
+});
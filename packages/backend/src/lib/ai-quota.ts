@@ -0,0 +1,148 @@
+import { incrementCounters, isTransactionConflict, queryItemsByPrefix } from './dynamo';
+import { AI_FEATURES, RateLimitedError } from '@proofed/shared';
+import type { AiFeature, AiUsageResponse } from '@proofed/shared';
+
+// A ledger of AI calls per user: one counter row per feature per UTC day, and one per
+// calendar month. Rows expire through the table's TTL a day after their period ends.
+
+const TABLE_NAME = process.env.AI_USAGE_TABLE!;
+
+interface Quota {
+  daily: number;
+  monthly: number;
+}
+
+const DEFAULT_QUOTAS: Record<AiFeature, Quota> = {
+  advice: { daily: 10, monthly: 100 },
+  chat: { daily: 50, monthly: 500 },
+  'container-scale': { daily: 20, monthly: 200 },
+  'parse-ingredients': { daily: 30, monthly: 300 },
+  'calorie-estimate': { daily: 30, monthly: 300 },
+};
+
+const FEATURE_LABELS: Record<AiFeature, string> = {
+  advice: 'bake advice requests',
+  chat: 'Crumb chat messages',
+  'container-scale': 'container scaling tips',
+  'parse-ingredients': 'ingredient list parses',
+  'calorie-estimate': 'calorie estimates',
+};
+
+interface UsageRow {
+  userId: string;
+  period: string;  // "day#2026-10-19#chat" or "month#2026-10#chat"
+  count: number;
+  expiresAt: number;
+}
+
+let quotas: Record<AiFeature, Quota> | null = null;
+
+/**
+ * The defaults above, with any overrides from the AI_QUOTAS environment variable, e.g.
+ * {"chat": {"daily": 100}}. A malformed value is logged and ignored rather than
+ * taking every AI endpoint down.
+ */
+export function getAiQuotas(): Record<AiFeature, Quota> {
+  if (quotas) {
+    return quotas;
+  }
+  let overrides: Partial<Record<AiFeature, Partial<Quota>>> = {};
+  try {
+    overrides = JSON.parse(process.env.AI_QUOTAS || '{}');
+  } catch (error) {
+    console.error('Ignoring invalid AI_QUOTAS:', error);
+  }
+  quotas = Object.fromEntries(
+    AI_FEATURES.map((feature) => [feature, { ...DEFAULT_QUOTAS[feature], ...overrides[feature] }])
+  ) as Record<AiFeature, Quota>;
+  return quotas;
+}
+
+interface Period {
+  prefix: string;
+  resetsAt: Date;
+}
+
+function currentPeriods(now = new Date()): { day: Period; month: Period } {
+  const date = now.toISOString().slice(0, 10);
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  return {
+    day: { prefix: `day#${date}#`, resetsAt: new Date(Date.UTC(year, month, now.getUTCDate() + 1)) },
+    month: { prefix: `month#${date.slice(0, 7)}#`, resetsAt: new Date(Date.UTC(year, month + 1, 1)) },
+  };
+}
+
+function counter(userId: string, feature: AiFeature, period: Period, amount: number, limit?: number) {
+  return {
+    key: { userId, period: `${period.prefix}${feature}` },
+    attribute: 'count',
+    amount,
+    limit,
+    set: { expiresAt: Math.floor(period.resetsAt.getTime() / 1000) + 24 * 60 * 60 },
+  };
+}
+
+// Left over when the counters stay contended after incrementCounters' retries
+const CONFLICT_RETRY_AFTER_SECONDS = 1;
+
+/**
+ * Count one call against the user's daily and monthly quota for `feature`, then make it.
+ * Throws a RateLimitedError, with the seconds until the quota resets, once either is used
+ * up, or with a short wait when too many of the user's calls land at once. A call that
+ * fails isn't counted.
+ */
+export async function withAiQuota<T>(userId: string, feature: AiFeature, call: () => Promise<T>): Promise<T> {
+  const quota = getAiQuotas()[feature];
+  const { day, month } = currentPeriods();
+
+  let exceeded: number | null;
+  try {
+    exceeded = await incrementCounters(TABLE_NAME, [
+      counter(userId, feature, day, 1, quota.daily),
+      counter(userId, feature, month, 1, quota.monthly),
+    ]);
+  } catch (error) {
+    if (isTransactionConflict(error)) {
+      throw new RateLimitedError('Too many requests at once, try again in a moment', CONFLICT_RETRY_AFTER_SECONDS);
+    }
+    throw error;
+  }
+  if (exceeded !== null) {
+    const [period, limit, when] = exceeded === 0 ? [day, quota.daily, 'today'] : [month, quota.monthly, 'this month'];
+    const retryAfterSeconds = Math.ceil((period.resetsAt.getTime() - Date.now()) / 1000);
+    throw new RateLimitedError(`You've used all ${limit} ${FEATURE_LABELS[feature]} for ${when}`, retryAfterSeconds);
+  }
+
+  try {
+    return await call();
+  } catch (error) {
+    await incrementCounters(TABLE_NAME, [counter(userId, feature, day, -1), counter(userId, feature, month, -1)]).catch(
+      (refundError) => console.error('Failed to refund AI quota:', refundError)
+    );
+    throw error;
+  }
+}
+
+export async function getAiUsage(userId: string): Promise<AiUsageResponse> {
+  const { day, month } = currentPeriods();
+  const [dayRows, monthRows] = await Promise.all([
+    queryItemsByPrefix<UsageRow>(TABLE_NAME, userId, 'period', day.prefix),
+    queryItemsByPrefix<UsageRow>(TABLE_NAME, userId, 'period', month.prefix),
+  ]);
+  const used = (rows: UsageRow[], period: Period, feature: AiFeature) =>
+    rows.find((row) => row.period === `${period.prefix}${feature}`)?.count ?? 0;
+
+  const limits = getAiQuotas();
+  return {
+    features: AI_FEATURES.map((feature) => ({
+      feature,
+      daily: { used: used(dayRows, day, feature), limit: limits[feature].daily, resetsAt: day.resetsAt.toISOString() },
+      monthly: {
+        used: used(monthRows, month, feature),
+        limit: limits[feature].monthly,
+        resetsAt: month.resetsAt.toISOString(),
+      },
+    })),
+  };
+}
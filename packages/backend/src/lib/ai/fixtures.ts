@@ -0,0 +1,57 @@
+import type { AiFixtures } from './stub';
+
+// What the stub provider says when nothing more specific matches: one plausible answer per
+// feature, in the shape each handler's schema asks for.
+export const DEFAULT_FIXTURES: AiFixtures = {
+  advice: [
+    {
+      response: {
+        overview:
+          "Oh, what a lovely bake! The colour looks rather good and it sounds like you took real care over it. I'm awarding you 25 nibs, and next time do keep an eye on the oven in those last few minutes.",
+        nibsAwarded: 25,
+      },
+    },
+  ],
+  chat: [
+    {
+      response:
+        "That sounds rather lovely. Give it a few more minutes and check it with a skewer; if it comes out clean, you're done.",
+    },
+  ],
+  'container-scale': [
+    {
+      response: {
+        explanation:
+          'The batter will sit at a different depth in the new tin, so keep an eye on the middle as it bakes.',
+        tips: [{ title: 'Check early', suggestion: 'Start checking five minutes before the usual time.' }],
+        warning: null,
+      },
+    },
+  ],
+  'parse-ingredients': [
+    {
+      response: {
+        ingredients: [
+          {
+            name: 'plain flour',
+            quantity: 200,
+            unit: 'g',
+            originalLine: '200g plain flour',
+            confidence: 'high',
+            wasConverted: false,
+          },
+          {
+            name: 'caster sugar',
+            quantity: 100,
+            unit: 'g',
+            originalLine: '100g caster sugar',
+            confidence: 'high',
+            wasConverted: false,
+          },
+        ],
+        warnings: [],
+      },
+    },
+  ],
+  'calorie-estimate': [{ response: { totalCalories: 2450 } }],
+};
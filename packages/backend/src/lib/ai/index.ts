@@ -0,0 +1,99 @@
+import { OpenAiProvider } from './openai';
+import { StubAiProvider, loadFixtures } from './stub';
+import { recordAiCall } from '../ai-metering';
+import type { AiFeature } from '@proofed/shared';
+
+// The one place handlers reach an AI model. Which provider answers is chosen by AI_PROVIDER:
+// "openai" (the default) or "stub", which replays canned fixtures so the app can be run and
+// tested without a key or a network connection.
+
+export interface AiTextMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// A user message with photos attached, for models that can see them
+export interface AiImageMessage {
+  role: 'user';
+  content: string;
+  imageUrls: string[];
+}
+
+export type AiMessage = AiTextMessage | AiImageMessage;
+
+export interface AiRequest {
+  userId: string;           // whose call this is, for cost accounting
+  feature: AiFeature;       // picks the model, see getAiModel
+  messages: AiMessage[];
+  maxTokens?: number;
+  temperature?: number;     // leave unset for reasoning models, which only allow the default
+}
+
+/**
+ * A JSON Schema the response must match. Providers that support strict structured output
+ * enforce it, so every property has to be listed in `required` (use a null type for
+ * optional ones) and objects can't allow additional properties.
+ */
+export interface AiJsonSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface AiJsonRequest extends AiRequest {
+  schema: AiJsonSchema;
+}
+
+/**
+ * Implementations throw UpstreamAiFailureError when the model can't be reached or gives back
+ * nothing usable, so handlers don't need their own error handling around a call. Providers
+ * that cost money record each call's token usage, see recordAiCall.
+ */
+export interface AiProvider {
+  readonly name: string;
+  complete(request: AiRequest): Promise<string>;
+  completeJson<T>(request: AiJsonRequest): Promise<T>;
+  stream(request: AiRequest): AsyncIterable<string>;   // the reply a piece at a time, as it's written
+}
+
+const DEFAULT_MODELS: Record<AiFeature, string> = {
+  advice: 'gpt-5-mini',
+  chat: 'gpt-5-mini',
+  'container-scale': 'gpt-4o-mini',
+  'parse-ingredients': 'gpt-4o-mini',
+  'calorie-estimate': 'gpt-5-mini',
+};
+
+let models: Record<AiFeature, string> | null = null;
+
+/**
+ * The model for a feature: the default above unless AI_MODELS overrides it, e.g.
+ * {"chat": "gpt-4o"}.
+ */
+export function getAiModel(feature: AiFeature): string {
+  if (!models) {
+    let overrides: Partial<Record<AiFeature, string>> = {};
+    try {
+      overrides = JSON.parse(process.env.AI_MODELS || '{}');
+    } catch (error) {
+      console.error('Ignoring invalid AI_MODELS:', error);
+    }
+    models = { ...DEFAULT_MODELS, ...overrides };
+  }
+  return models[feature];
+}
+
+let provider: AiProvider | null = null;
+
+export function getAiProvider(): AiProvider {
+  if (!provider) {
+    const name = process.env.AI_PROVIDER || 'openai';
+    if (name === 'stub') {
+      provider = new StubAiProvider(loadFixtures(process.env.AI_FIXTURES));
+    } else if (name === 'openai') {
+      provider = new OpenAiProvider(getAiModel, recordAiCall);
+    } else {
+      throw new Error(`Unknown AI_PROVIDER "${name}"`);
+    }
+  }
+  return provider;
+}
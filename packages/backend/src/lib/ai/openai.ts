@@ -0,0 +1,145 @@
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { UpstreamAiFailureError } from '@proofed/shared';
+import type { AiCallOutcome, AiFeature } from '@proofed/shared';
+import { getOpenAIApiKey } from '../secrets';
+import type { AiCallRecorder } from '../ai-metering';
+import type { AiJsonRequest, AiMessage, AiProvider, AiRequest } from '.';
+
+function toOpenAiMessage(message: AiMessage): ChatCompletionMessageParam {
+  if ('imageUrls' in message) {
+    return {
+      role: 'user',
+      content: [
+        { type: 'text', text: message.content },
+        ...message.imageUrls.map((url) => ({ type: 'image_url' as const, image_url: { url } })),
+      ],
+    };
+  }
+  return message;
+}
+
+export class OpenAiProvider implements AiProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly modelFor: (feature: AiFeature) => string,
+    private readonly recordCall: AiCallRecorder
+  ) {}
+
+  complete(request: AiRequest): Promise<string> {
+    return this.send(request);
+  }
+
+  async completeJson<T>(request: AiJsonRequest): Promise<T> {
+    const content = await this.send(request, {
+      type: 'json_schema',
+      json_schema: { name: request.schema.name, schema: request.schema.schema, strict: true },
+    });
+    try {
+      return JSON.parse(content) as T;
+    } catch (error) {
+      throw new UpstreamAiFailureError('The AI service returned invalid JSON', { cause: error });
+    }
+  }
+
+  async *stream(request: AiRequest): AsyncIterable<string> {
+    const openai = new OpenAI({ apiKey: await getOpenAIApiKey() });
+    const model = this.modelFor(request.feature);
+    const startedAt = Date.now();
+    let usage: OpenAI.CompletionUsage | undefined;
+    let outcome: AiCallOutcome = 'error';
+
+    try {
+      const chunks = await openai.chat.completions.create({
+        ...this.params(request, model),
+        stream: true,
+        // The usage arrives in one last chunk with no choices
+        stream_options: { include_usage: true },
+      });
+      for await (const chunk of chunks) {
+        usage = chunk.usage ?? usage;
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+      }
+      outcome = 'ok';
+    } catch (error: any) {
+      this.logFailure(request, model, error);
+      throw new UpstreamAiFailureError(undefined, { cause: error });
+    } finally {
+      await this.record(request, model, startedAt, outcome, usage);
+    }
+  }
+
+  private params(request: AiRequest, model: string) {
+    return {
+      model,
+      messages: request.messages.map(toOpenAiMessage),
+      ...(request.maxTokens !== undefined && { max_completion_tokens: request.maxTokens }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+    };
+  }
+
+  private record(
+    request: AiRequest,
+    model: string,
+    startedAt: number,
+    outcome: AiCallOutcome,
+    usage?: OpenAI.CompletionUsage | null
+  ): Promise<void> {
+    return this.recordCall({
+      userId: request.userId,
+      feature: request.feature,
+      provider: this.name,
+      model,
+      promptTokens: usage?.prompt_tokens ?? 0,
+      completionTokens: usage?.completion_tokens ?? 0,
+      latencyMs: Date.now() - startedAt,
+      outcome,
+    });
+  }
+
+  private logFailure(request: AiRequest, model: string, error: any): void {
+    console.error('OpenAI API Error:', {
+      feature: request.feature,
+      model,
+      message: error.message,
+      status: error.status,
+      code: error.code,
+      type: error.type,
+    });
+  }
+
+  private async send(
+    request: AiRequest,
+    responseFormat?: OpenAI.ResponseFormatJSONSchema
+  ): Promise<string> {
+    // The key is fetched per call so a rotated key is picked up once the cache expires
+    const openai = new OpenAI({ apiKey: await getOpenAIApiKey() });
+    const model = this.modelFor(request.feature);
+    const startedAt = Date.now();
+
+    try {
+      const completion = await openai.chat.completions.create({
+        ...this.params(request, model),
+        ...(responseFormat && { response_format: responseFormat }),
+      });
+
+      const content = completion.choices[0]?.message?.content;
+      // An empty answer still used tokens, so it's recorded as a failed call
+      await this.record(request, model, startedAt, content ? 'ok' : 'error', completion.usage);
+      if (!content) {
+        console.error('Empty response content. Choices:', JSON.stringify(completion.choices, null, 2));
+        throw new UpstreamAiFailureError('No response from AI');
+      }
+      return content;
+    } catch (error: any) {
+      if (error instanceof UpstreamAiFailureError) throw error;
+      this.logFailure(request, model, error);
+      await this.record(request, model, startedAt, 'error');
+      throw new UpstreamAiFailureError(undefined, { cause: error });
+    }
+  }
+}
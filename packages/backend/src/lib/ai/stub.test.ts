@@ -0,0 +1,80 @@
+/**
+ * Tests for the fixture-replay AI provider
+ *
+ * Run with: npx jest src/lib/ai/stub.test.ts
+ */
+
+import { UpstreamAiFailureError } from '@proofed/shared';
+import { StubAiProvider } from './stub';
+import { estimateCalories } from '../../handlers/nutrition';
+import { parseIngredients } from '../../handlers/ai-parse-ingredients';
+
+process.env.AI_PROVIDER = 'stub';
+
+const USER_ID = 'user-1';
+
+const provider = new StubAiProvider({
+  chat: [
+    { match: 'soggy bottom', response: 'Blind bake the case first.' },
+    { response: 'How lovely.' },
+  ],
+  'calorie-estimate': [{ response: '{"totalCalories": 1200}' }],
+});
+
+describe('StubAiProvider', () => {
+  it('replays the first fixture matching the last user message', async () => {
+    const reply = await provider.complete({
+      userId: USER_ID,
+      feature: 'chat',
+      messages: [
+        { role: 'user', content: 'My pie had a soggy bottom' },
+        { role: 'assistant', content: 'Oh dear.' },
+        { role: 'user', content: 'Again: a soggy bottom!' },
+      ],
+    });
+
+    expect(reply).toBe('Blind bake the case first.');
+  });
+
+  it('falls back to a fixture without a match', async () => {
+    const reply = await provider.complete({
+      userId: USER_ID,
+      feature: 'chat',
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+
+    expect(reply).toBe('How lovely.');
+  });
+
+  it('parses JSON fixtures stored as text', async () => {
+    const result = await provider.completeJson({
+      userId: USER_ID,
+      feature: 'calorie-estimate',
+      messages: [{ role: 'user', content: '100g butter' }],
+      schema: { name: 'calories', schema: {} },
+    });
+
+    expect(result).toEqual({ totalCalories: 1200 });
+  });
+
+  it('fails like an upstream error when a feature has no fixtures', async () => {
+    await expect(
+      provider.complete({ userId: USER_ID, feature: 'advice', messages: [{ role: 'user', content: 'Well?' }] })
+    ).rejects.toBeInstanceOf(UpstreamAiFailureError);
+  });
+});
+
+describe('handlers with AI_PROVIDER=stub', () => {
+  it('estimates calories from the built-in fixture', async () => {
+    const result = await estimateCalories(USER_ID, { ingredients: [{ name: 'butter', quantity: 100, unit: 'g' }] });
+
+    expect(result).toEqual({ totalCalories: 2450 });
+  });
+
+  it('parses ingredients from the built-in fixture', async () => {
+    const result = await parseIngredients(USER_ID, { rawText: '200g plain flour', measurementSystem: 'metric' });
+
+    expect(result.ingredients.map(({ name }) => name)).toEqual(['plain flour', 'caster sugar']);
+    expect(result.warnings).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { readFileSync } from 'fs';
+import { UpstreamAiFailureError } from '@proofed/shared';
+import type { AiFeature } from '@proofed/shared';
+import { DEFAULT_FIXTURES } from './fixtures';
+import type { AiJsonRequest, AiProvider, AiRequest } from '.';
+
+export interface AiFixture {
+  match?: string;              // replayed when the last user message contains this; omit for a catch-all
+  response: string | object;   // text for complete(), a JSON value for completeJson()
+}
+
+export type AiFixtures = Partial<Record<AiFeature, AiFixture[]>>;
+
+/**
+ * The built-in fixtures, with a feature's list replaced by the one in the JSON file at
+ * `path` when it has one. Lets a local setup script its own answers.
+ */
+export function loadFixtures(path?: string): AiFixtures {
+  if (!path) {
+    return DEFAULT_FIXTURES;
+  }
+  return { ...DEFAULT_FIXTURES, ...(JSON.parse(readFileSync(path, 'utf8')) as AiFixtures) };
+}
+
+/**
+ * Answers from fixtures instead of a model. The first fixture for the feature whose `match`
+ * appears in the last user message wins, so the same request always gets the same answer.
+ */
+export class StubAiProvider implements AiProvider {
+  readonly name = 'stub';
+
+  constructor(private readonly fixtures: AiFixtures) {}
+
+  async complete(request: AiRequest): Promise<string> {
+    const { response } = this.replay(request);
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  async completeJson<T>(request: AiJsonRequest): Promise<T> {
+    const { response } = this.replay(request);
+    return JSON.parse(typeof response === 'string' ? response : JSON.stringify(response)) as T;
+  }
+
+  // Word by word, so streaming clients see the reply build up as they would from a model
+  async *stream(request: AiRequest): AsyncIterable<string> {
+    const reply = await this.complete(request);
+    for (const word of reply.match(/\s*\S+/g) ?? []) {
+      yield word;
+    }
+  }
+
+  private replay({ feature, messages }: AiRequest): AiFixture {
+    const lastUserMessage = [...messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+    const fixture = (this.fixtures[feature] ?? []).find(
+      ({ match }) => match === undefined || lastUserMessage.includes(match)
+    );
+    if (!fixture) {
+      throw new UpstreamAiFailureError(`No stub fixture for ${feature}`);
+    }
+    return fixture;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for reading the caller from the authorizer's JWT claims, and for checking ID tokens sent
+ * straight to the streaming chat function
+ *
+ * Run with: npx jest src/lib/auth.test.ts
+ */
+
+import { generateKeyPairSync, sign } from 'crypto';
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { ForbiddenError, UnauthorizedError } from '@proofed/shared';
+import { getUserId, requireAdmin, verifyIdToken } from './auth';
+
+process.env.AWS_REGION = 'eu-west-2';
+process.env.USER_POOL_ID = 'eu-west-2_pool';
+process.env.USER_POOL_CLIENT_ID = 'client-1';
+
+const ISSUER = 'https://cognito-idp.eu-west-2.amazonaws.com/eu-west-2_pool';
+
+const userPoolKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const fetchKeys = jest.spyOn(global, 'fetch');
+
+function segment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function idToken(claims: Record<string, unknown> = {}, { kid = 'key-1', privateKey = userPoolKey.privateKey } = {}) {
+  const signed = `${segment({ alg: 'RS256', kid })}.${segment({
+    sub: 'user-1',
+    iss: ISSUER,
+    aud: 'client-1',
+    token_use: 'id',
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    ...claims,
+  })}`;
+  return `${signed}.${sign('RSA-SHA256', Buffer.from(signed), privateKey).toString('base64url')}`;
+}
+
+function event(claims: Record<string, unknown>): APIGatewayProxyEventV2WithJWTAuthorizer {
+  return {
+    requestContext: { authorizer: { jwt: { claims, scopes: [] } } },
+  } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  fetchKeys.mockReset();
+  fetchKeys.mockResolvedValue({
+    ok: true,
+    json: async () => ({ keys: [{ ...userPoolKey.publicKey.export({ format: 'jwk' }), kid: 'key-1' }] }),
+  } as Response);
+});
+
+describe('getUserId', () => {
+  it('returns the subject claim', () => {
+    expect(getUserId(event({ sub: 'user-1' }))).toBe('user-1');
+  });
+
+  it('answers 401 without one', () => {
+    expect(() => getUserId(event({}))).toThrow(UnauthorizedError);
+  });
+});
+
+describe('requireAdmin', () => {
+  it('accepts the groups claim as the authorizer flattens it', () => {
+    expect(() => requireAdmin(event({ 'cognito:groups': '[bakers admin]' }))).not.toThrow();
+    expect(() => requireAdmin(event({ 'cognito:groups': ['admin'] }))).not.toThrow();
+  });
+
+  it('answers 403 for everyone else', () => {
+    expect(() => requireAdmin(event({ 'cognito:groups': '[bakers administrators]' }))).toThrow(ForbiddenError);
+    expect(() => requireAdmin(event({}))).toThrow(ForbiddenError);
+  });
+});
+
+describe('verifyIdToken', () => {
+  it('returns the subject of a token the user pool signed', async () => {
+    expect(await verifyIdToken(idToken())).toBe('user-1');
+    expect(fetchKeys).toHaveBeenCalledWith(`${ISSUER}/.well-known/jwks.json`);
+  });
+
+  it('answers 401 for a token signed with another key', async () => {
+    await expect(verifyIdToken(idToken({}, { privateKey: otherKey.privateKey }))).rejects.toThrow(UnauthorizedError);
+  });
+
+  it('answers 401 for a token meant for another client or pool', async () => {
+    await expect(verifyIdToken(idToken({ aud: 'client-2' }))).rejects.toThrow(UnauthorizedError);
+    await expect(verifyIdToken(idToken({ iss: `${ISSUER}-other` }))).rejects.toThrow(UnauthorizedError);
+  });
+
+  it('answers 401 for an expired token', async () => {
+    const exp = Math.floor(Date.now() / 1000) - 60;
+
+    await expect(verifyIdToken(idToken({ exp }))).rejects.toThrow(UnauthorizedError);
+  });
+
+  it('answers 401 for an access token', async () => {
+    await expect(verifyIdToken(idToken({ token_use: 'access' }))).rejects.toThrow(UnauthorizedError);
+  });
+
+  it('fetches the keys again for unknown key IDs at most once a minute', async () => {
+    jest.useFakeTimers({ now: Date.now() + 10 * 60 * 1000 });
+
+    await expect(verifyIdToken(idToken({}, { kid: 'key-unknown-1' }))).rejects.toThrow(UnauthorizedError);
+    await expect(verifyIdToken(idToken({}, { kid: 'key-unknown-2' }))).rejects.toThrow(UnauthorizedError);
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(60 * 1000);
+    await expect(verifyIdToken(idToken({}, { kid: 'key-unknown-3' }))).rejects.toThrow(UnauthorizedError);
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+});
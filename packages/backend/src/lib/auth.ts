@@ -1,11 +1,106 @@
+import { createPublicKey, verify } from 'crypto';
+import type { JsonWebKey, KeyObject } from 'crypto';
 import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { ForbiddenError, UnauthorizedError } from '@proofed/shared';
 
 export function getUserId(event: APIGatewayProxyEventV2WithJWTAuthorizer): string {
   const claims = event.requestContext.authorizer?.jwt?.claims;
   console.log('[Auth] JWT claims:', JSON.stringify(claims));
   if (!claims?.sub) {
-    throw new Error('Unauthorized: No user ID in token');
+    throw new UnauthorizedError('Unauthorized: No user ID in token');
   }
   console.log('[Auth] Extracted userId:', claims.sub);
   return claims.sub as string;
 }
+
+const ADMIN_GROUP = 'admin';
+
+/**
+ * Throws unless the caller is in the Cognito admin group. The ID token lists groups in
+ * `cognito:groups`, which the HTTP API authorizer hands over as a string like "[admin bakers]".
+ */
+export function requireAdmin(event: APIGatewayProxyEventV2WithJWTAuthorizer): void {
+  const claim = event.requestContext.authorizer?.jwt?.claims?.['cognito:groups'];
+  const groups = Array.isArray(claim)
+    ? claim
+    : String(claim ?? '')
+        .replace(/^\[|\]$/g, '')
+        .split(/[\s,]+/);
+  if (!groups.includes(ADMIN_GROUP)) {
+    throw new ForbiddenError('Only admins can do this');
+  }
+}
+
+interface IdTokenClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string;
+  token_use?: string;
+  exp?: number;
+}
+
+let signingKeys: Record<string, KeyObject> = {};
+let signingKeysFetchedAt = 0;
+
+// The streaming chat function URL is open to anyone, so tokens naming made-up key IDs could
+// otherwise make every request fetch the keys again
+const MIN_KEY_REFETCH_MS = 60 * 1000;
+
+function userPoolIssuer(): string {
+  return `https://cognito-idp.${process.env.AWS_REGION}.amazonaws.com/${process.env.USER_POOL_ID}`;
+}
+
+// The user pool's public keys by key ID, fetched again (at most once a minute) when a token
+// names one we haven't seen
+async function getSigningKey(kid: string): Promise<KeyObject | undefined> {
+  if (!signingKeys[kid] && Date.now() - signingKeysFetchedAt >= MIN_KEY_REFETCH_MS) {
+    const res = await fetch(`${userPoolIssuer()}/.well-known/jwks.json`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch user pool keys: ${res.status}`);
+    }
+    const { keys } = (await res.json()) as { keys: Array<JsonWebKey & { kid: string }> };
+    signingKeys = Object.fromEntries(keys.map((key) => [key.kid, createPublicKey({ key, format: 'jwk' })]));
+    signingKeysFetchedAt = Date.now();
+  }
+  return signingKeys[kid];
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+}
+
+/**
+ * The user ID from a Cognito ID token, checked as the HTTP API authorizer checks it. For
+ * routes served outside API Gateway, like the streaming chat function URL.
+ */
+export async function verifyIdToken(token: string): Promise<string> {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    throw new UnauthorizedError('Unauthorized: Malformed token');
+  }
+
+  let claims: IdTokenClaims;
+  let keyHeader: { alg?: string; kid?: string };
+  try {
+    keyHeader = decodeSegment(header);
+    claims = decodeSegment(payload);
+  } catch {
+    throw new UnauthorizedError('Unauthorized: Malformed token');
+  }
+
+  const key = keyHeader.alg === 'RS256' && keyHeader.kid ? await getSigningKey(keyHeader.kid) : undefined;
+
+  const signed = !!key && verify('RSA-SHA256', Buffer.from(`${header}.${payload}`), key, Buffer.from(signature, 'base64url'));
+  if (
+    !signed ||
+    claims.iss !== userPoolIssuer() ||
+    claims.aud !== process.env.USER_POOL_CLIENT_ID ||
+    claims.token_use !== 'id' ||
+    !claims.exp ||
+    claims.exp * 1000 <= Date.now() ||
+    !claims.sub
+  ) {
+    throw new UnauthorizedError('Unauthorized: Invalid token');
+  }
+  return claims.sub;
+}
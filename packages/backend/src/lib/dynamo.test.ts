@@ -0,0 +1,144 @@
+/**
+ * Tests for the DynamoDB helpers: paging cursors and versioned updates
+ *
+ * Run with: npx jest src/lib/dynamo.test.ts
+ */
+
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { ConflictError, ValidationError } from '@proofed/shared';
+import { queryPage, updateVersionedItem } from './dynamo';
+
+const dynamoMock = mockClient(DynamoDBDocumentClient);
+
+const TABLE = 'proofed-items';
+const KEY = { userId: 'user-1', itemId: 'item-1' };
+
+interface Row {
+  userId: string;
+  itemId: string;
+  name?: string;
+  notes?: string | null;
+  version?: number;
+}
+
+function cursorFor(key: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+beforeEach(() => {
+  dynamoMock.reset();
+  dynamoMock.on(QueryCommand).resolves({ Items: [] });
+});
+
+describe('queryPage', () => {
+  it('hands back the last key as an opaque cursor and resumes from it', async () => {
+    const lastKey = { userId: 'user-1', itemId: 'item-2' };
+    dynamoMock
+      .on(QueryCommand)
+      .resolvesOnce({ Items: [{ itemId: 'item-1' }], LastEvaluatedKey: lastKey })
+      .resolves({ Items: [{ itemId: 'item-2' }] });
+
+    const page = await queryPage(TABLE, 'user-1', { limit: 1 });
+    await queryPage(TABLE, 'user-1', { limit: 1, cursor: page.nextCursor });
+
+    expect(dynamoMock.commandCalls(QueryCommand)[1].args[0].input.ExclusiveStartKey).toEqual(lastKey);
+  });
+
+  it('keeps reading until a filtered page is full', async () => {
+    dynamoMock
+      .on(QueryCommand)
+      .resolvesOnce({ Items: [], LastEvaluatedKey: { userId: 'user-1', itemId: 'item-3' } })
+      .resolvesOnce({ Items: [{ itemId: 'item-4' }], LastEvaluatedKey: { userId: 'user-1', itemId: 'item-4' } })
+      .resolvesOnce({ Items: [{ itemId: 'item-5' }], LastEvaluatedKey: { userId: 'user-1', itemId: 'item-5' } });
+
+    const page = await queryPage(TABLE, 'user-1', { limit: 2 });
+
+    expect(page.items).toEqual([{ itemId: 'item-4' }, { itemId: 'item-5' }]);
+    expect(page.nextCursor).toBe(cursorFor({ userId: 'user-1', itemId: 'item-5' }));
+    // Each read only asks for what the page still needs
+    expect(dynamoMock.commandCalls(QueryCommand).map((call) => call.args[0].input.Limit)).toEqual([2, 2, 1]);
+  });
+
+  it('ends without a cursor when the partition runs out', async () => {
+    dynamoMock
+      .on(QueryCommand)
+      .resolvesOnce({ Items: [], LastEvaluatedKey: { userId: 'user-1', itemId: 'item-3' } })
+      .resolvesOnce({ Items: [{ itemId: 'item-4' }] });
+
+    const page = await queryPage(TABLE, 'user-1', { limit: 2 });
+
+    expect(page).toEqual({ items: [{ itemId: 'item-4' }], nextCursor: undefined });
+  });
+
+  it('rejects a cursor that is garbled or points into another user', async () => {
+    await expect(queryPage(TABLE, 'user-1', { cursor: 'not-a-cursor' })).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      queryPage(TABLE, 'user-1', { cursor: cursorFor({ userId: 'user-2', itemId: 'item-1' }) })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(dynamoMock.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+});
+
+describe('updateVersionedItem', () => {
+  function conditionFailed() {
+    dynamoMock.on(UpdateCommand).rejects(new ConditionalCheckFailedException({ message: 'failed', $metadata: {} }));
+  }
+
+  it('bumps the version and only writes over the version the client saw', async () => {
+    dynamoMock.on(UpdateCommand).resolves({ Attributes: { ...KEY, name: 'Sponge', version: 4 } });
+
+    const row = await updateVersionedItem<Row>(TABLE, KEY, { name: 'Sponge', notes: null, version: 99 }, 3);
+
+    expect(row?.version).toBe(4);
+    const input = dynamoMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(input.UpdateExpression).toBe('SET #field0 = :value0 REMOVE #field1 ADD #version :versionIncrement');
+    expect(input.ConditionExpression).toBe(
+      'attribute_exists(#pk) AND attribute_not_exists(#deletedAt) AND #version = :expectedVersion'
+    );
+    expect(input.ExpressionAttributeValues).toEqual({
+      ':value0': 'Sponge',
+      ':versionIncrement': 1,
+      ':expectedVersion': 3,
+    });
+  });
+
+  it('treats rows saved before versioning as version 0', async () => {
+    dynamoMock.on(UpdateCommand).resolves({ Attributes: { ...KEY, version: 1 } });
+
+    await updateVersionedItem<Row>(TABLE, KEY, { name: 'Sponge' }, 0);
+
+    expect(dynamoMock.commandCalls(UpdateCommand)[0].args[0].input.ConditionExpression).toContain(
+      '(attribute_not_exists(#version) OR #version = :expectedVersion)'
+    );
+  });
+
+  it('writes whatever the version is when the caller does not say', async () => {
+    dynamoMock.on(UpdateCommand).resolves({ Attributes: { ...KEY, version: 8 } });
+
+    await updateVersionedItem<Row>(TABLE, KEY, { name: 'Sponge' });
+
+    const input = dynamoMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(input.ConditionExpression).not.toContain(':expectedVersion');
+  });
+
+  it('throws a conflict carrying the stored row when the version has moved on', async () => {
+    conditionFailed();
+    const stored = { ...KEY, name: 'Victoria sponge', version: 5 };
+    dynamoMock.on(GetCommand).resolves({ Item: stored });
+
+    const update = updateVersionedItem<Row>(TABLE, KEY, { name: 'Sponge' }, 3);
+
+    await expect(update).rejects.toBeInstanceOf(ConflictError);
+    await expect(update).rejects.toMatchObject({ current: stored });
+  });
+
+  it('returns null for a row that is gone or in the trash', async () => {
+    conditionFailed();
+    dynamoMock.on(GetCommand).resolvesOnce({}).resolves({ Item: { ...KEY, deletedAt: '2026-10-01T10:00:00.000Z' } });
+
+    expect(await updateVersionedItem<Row>(TABLE, KEY, { name: 'Sponge' }, 3)).toBeNull();
+    expect(await updateVersionedItem<Row>(TABLE, KEY, { name: 'Sponge' }, 3)).toBeNull();
+  });
+});
@@ -4,9 +4,15 @@ import {
   PutCommand,
   GetCommand,
   QueryCommand,
+  ScanCommand,
   DeleteCommand,
   UpdateCommand,
+  BatchWriteCommand,
+  TransactWriteCommand,
 } from '@aws-sdk/lib-dynamodb';
+import type { BatchWriteCommandInput } from '@aws-sdk/lib-dynamodb';
+import { ConflictError, ValidationError } from '@proofed/shared';
+import type { PagedResponse } from '@proofed/shared';
 
 const client = new DynamoDBClient({});
 const docClient = DynamoDBDocumentClient.from(client);
@@ -24,9 +30,56 @@ export async function putItem<T>(
   return item;
 }
 
+/**
+ * Put a whole row with its `version` bumped, but only if the stored row is still at
+ * `expectedVersion`; undefined means there is no row yet, or one saved before versioning.
+ * For rows the server rewrites wholesale after a slow step. Returns the row as written, or
+ * null if another write got there first.
+ */
+export async function putVersionedItem<T extends { version?: number }>(
+  tableName: string,
+  item: T,
+  expectedVersion?: number
+): Promise<T | null> {
+  const next = { ...item, version: (expectedVersion ?? 0) + 1 };
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: tableName,
+        Item: next as Record<string, unknown>,
+        ConditionExpression:
+          expectedVersion === undefined ? 'attribute_not_exists(#version)' : '#version = :expectedVersion',
+        ExpressionAttributeNames: { '#version': 'version' },
+        ...(expectedVersion !== undefined && {
+          ExpressionAttributeValues: { ':expectedVersion': expectedVersion },
+        }),
+      })
+    );
+    return next;
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Soft-deleted rows carry a `deletedAt` marker and are hidden from reads unless the
+ * caller asks for them: 'include' returns everything, 'only' just the trash.
+ */
+export type TrashFilter = 'exclude' | 'include' | 'only';
+
+const TRASH_CONDITIONS: Record<TrashFilter, string | null> = {
+  exclude: 'attribute_not_exists(deletedAt)',
+  include: null,
+  only: 'attribute_exists(deletedAt)',
+};
+
 export async function getItem<T>(
   tableName: string,
-  key: Record<string, string>
+  key: Record<string, string>,
+  trashed: Exclude<TrashFilter, 'only'> = 'exclude'
 ): Promise<T | null> {
   const result = await docClient.send(
     new GetCommand({
@@ -34,23 +87,121 @@ export async function getItem<T>(
       Key: key,
     })
   );
-  return (result.Item as T) || null;
+  if (!result.Item || (trashed === 'exclude' && result.Item.deletedAt)) {
+    return null;
+  }
+  return result.Item as T;
+}
+
+export interface PageOptions {
+  limit?: number;
+  cursor?: string;
+  newestFirst?: boolean;  // sort keys are ULIDs, so descending order is newest first
+  indexName?: string;     // read a secondary index partitioned by userId, in its sort key's order
+  trashed?: TrashFilter;  // defaults to 'exclude'
+}
+
+export interface QueryFilter {
+  filterExpression: string;
+  expressionAttributeValues: Record<string, unknown>;
+  expressionAttributeNames?: Record<string, string>;
+}
+
+// Cursors are the DynamoDB LastEvaluatedKey, base64url-encoded so clients treat them as opaque
+function encodeCursor(key: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, partition: Record<string, string>): Record<string, unknown> {
+  let key: unknown;
+  try {
+    key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    key = null;
+  }
+  // Reject anything that isn't a start key inside the partition being read
+  const inPartition =
+    !!key &&
+    typeof key === 'object' &&
+    Object.entries(partition).every(([name, value]) => (key as Record<string, unknown>)[name] === value);
+  if (!inPartition) {
+    throw new ValidationError('Invalid cursor');
+  }
+  return key as Record<string, unknown>;
+}
+
+/**
+ * Fetch a single page of a user's rows. DynamoDB applies Limit before the filter, so with
+ * a filter the query is repeated until the page has `limit` rows or the partition runs
+ * out; a page is only short when there's nothing after it.
+ */
+export async function queryPage<T>(
+  tableName: string,
+  userId: string,
+  options: PageOptions = {},
+  filter?: QueryFilter
+): Promise<PagedResponse<T>> {
+  const conditions = [TRASH_CONDITIONS[options.trashed ?? 'exclude'], filter && `(${filter.filterExpression})`]
+    .filter(Boolean);
+
+  const items: T[] = [];
+  let startKey = options.cursor ? decodeCursor(options.cursor, { userId }) : undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: tableName,
+        IndexName: options.indexName,
+        KeyConditionExpression: 'userId = :userId',
+        ExpressionAttributeValues: {
+          ':userId': userId,
+          ...filter?.expressionAttributeValues,
+        },
+        ...(conditions.length > 0 && {
+          FilterExpression: conditions.join(' AND '),
+          ExpressionAttributeNames: filter?.expressionAttributeNames,
+        }),
+        // Only ask for what's left, so the page never overshoots and the cursor stays exact
+        Limit: options.limit && options.limit - items.length,
+        ScanIndexForward: !options.newestFirst,
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((result.Items as T[]) || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey && options.limit && items.length < options.limit);
+
+  return {
+    items,
+    nextCursor: startKey ? encodeCursor(startKey) : undefined,
+  };
+}
+
+// Follow LastEvaluatedKey until the whole partition has been read
+async function queryAllPages<T>(
+  tableName: string,
+  userId: string,
+  filter?: QueryFilter,
+  trashed?: TrashFilter
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await queryPage<T>(tableName, userId, { cursor, trashed }, filter);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return items;
 }
 
 export async function queryItems<T>(
   tableName: string,
-  userId: string
+  userId: string,
+  trashed?: TrashFilter
 ): Promise<T[]> {
-  const result = await docClient.send(
-    new QueryCommand({
-      TableName: tableName,
-      KeyConditionExpression: 'userId = :userId',
-      ExpressionAttributeValues: {
-        ':userId': userId,
-      },
-    })
-  );
-  return (result.Items as T[]) || [];
+  return queryAllPages<T>(tableName, userId, undefined, trashed);
 }
 
 export async function queryItemsWithFilter<T>(
@@ -58,21 +209,125 @@ export async function queryItemsWithFilter<T>(
   userId: string,
   filterExpression: string,
   expressionAttributeValues: Record<string, unknown>,
-  expressionAttributeNames?: Record<string, string>
+  expressionAttributeNames?: Record<string, string>,
+  trashed?: TrashFilter
+): Promise<T[]> {
+  return queryAllPages<T>(
+    tableName,
+    userId,
+    { filterExpression, expressionAttributeValues, expressionAttributeNames },
+    trashed
+  );
+}
+
+/**
+ * Every matching row in the table across all users. Only for scheduled jobs; request
+ * handlers stay inside the caller's partition.
+ */
+export async function scanItems<T>(tableName: string, filter: QueryFilter): Promise<T[]> {
+  const items: T[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: tableName,
+        FilterExpression: filter.filterExpression,
+        ExpressionAttributeValues: filter.expressionAttributeValues,
+        ExpressionAttributeNames: filter.expressionAttributeNames,
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((result.Items as T[]) || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items;
+}
+
+/**
+ * Every row in the user's partition whose sort key starts with `prefix`, for tables
+ * that group related rows under a composite sort key.
+ */
+export async function queryItemsByPrefix<T>(
+  tableName: string,
+  userId: string,
+  sortKeyName: string,
+  prefix: string,
+  options: Pick<PageOptions, 'newestFirst'> = {}
 ): Promise<T[]> {
+  const items: T[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: tableName,
+        KeyConditionExpression: 'userId = :userId AND begins_with(#sortKey, :prefix)',
+        ExpressionAttributeNames: { '#sortKey': sortKeyName },
+        ExpressionAttributeValues: { ':userId': userId, ':prefix': prefix },
+        ScanIndexForward: !options.newestFirst,
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((result.Items as T[]) || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items;
+}
+
+/**
+ * The row whose `keyName` attribute is `value`, found through a global secondary index
+ * with that attribute as its partition key. Index reads are eventually consistent.
+ */
+export async function getItemByIndex<T>(
+  tableName: string,
+  indexName: string,
+  keyName: string,
+  value: string
+): Promise<T | null> {
   const result = await docClient.send(
     new QueryCommand({
       TableName: tableName,
-      KeyConditionExpression: 'userId = :userId',
-      FilterExpression: filterExpression,
-      ExpressionAttributeValues: {
-        ':userId': userId,
-        ...expressionAttributeValues,
-      },
-      ExpressionAttributeNames: expressionAttributeNames,
+      IndexName: indexName,
+      KeyConditionExpression: '#key = :value',
+      ExpressionAttributeNames: { '#key': keyName },
+      ExpressionAttributeValues: { ':value': value },
+      Limit: 1,
     })
   );
-  return (result.Items as T[]) || [];
+  return (result.Items?.[0] as T) ?? null;
+}
+
+/**
+ * One page of the rows whose `keyName` attribute is `value`, through a global secondary
+ * index with that attribute as its partition key, for tables not partitioned by user.
+ */
+export async function queryIndexPage<T>(
+  tableName: string,
+  indexName: string,
+  keyName: string,
+  value: string,
+  options: Pick<PageOptions, 'limit' | 'cursor' | 'newestFirst'> = {}
+): Promise<PagedResponse<T>> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: tableName,
+      IndexName: indexName,
+      KeyConditionExpression: '#key = :value',
+      ExpressionAttributeNames: { '#key': keyName },
+      ExpressionAttributeValues: { ':value': value },
+      Limit: options.limit,
+      ScanIndexForward: !options.newestFirst,
+      ExclusiveStartKey: options.cursor ? decodeCursor(options.cursor, { [keyName]: value }) : undefined,
+    })
+  );
+
+  return {
+    items: (result.Items as T[]) || [],
+    nextCursor: result.LastEvaluatedKey ? encodeCursor(result.LastEvaluatedKey) : undefined,
+  };
 }
 
 export async function deleteItem(
@@ -87,15 +342,59 @@ export async function deleteItem(
   );
 }
 
-export async function updateItem<T>(
+// BatchWriteItem accepts at most 25 requests per call
+const BATCH_WRITE_LIMIT = 25;
+const MAX_BATCH_RETRIES = 5;
+
+type WriteRequests = NonNullable<BatchWriteCommandInput['RequestItems']>[string];
+
+async function batchWrite(tableName: string, allRequests: WriteRequests, action: string): Promise<void> {
+  for (let i = 0; i < allRequests.length; i += BATCH_WRITE_LIMIT) {
+    let requests = allRequests.slice(i, i + BATCH_WRITE_LIMIT);
+
+    // Retry throttled writes that DynamoDB hands back as UnprocessedItems
+    for (let attempt = 0; requests.length > 0; attempt++) {
+      if (attempt > MAX_BATCH_RETRIES) {
+        throw new Error(`Failed to ${action} ${requests.length} rows in ${tableName}`);
+      }
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+      }
+      const result = await docClient.send(
+        new BatchWriteCommand({
+          RequestItems: { [tableName]: requests },
+        })
+      );
+      requests = result.UnprocessedItems?.[tableName] ?? [];
+    }
+  }
+}
+
+export async function batchDeleteItems(
   tableName: string,
-  key: Record<string, string>,
-  updates: Partial<T>
-): Promise<T | null> {
-  const setExpressionParts: string[] = [];
-  const removeExpressionParts: string[] = [];
-  const expressionAttributeNames: Record<string, string> = {};
-  const expressionAttributeValues: Record<string, unknown> = {};
+  keys: Record<string, string>[]
+): Promise<void> {
+  await batchWrite(tableName, keys.map((key) => ({ DeleteRequest: { Key: key } })), 'delete');
+}
+
+export async function batchPutItems<T>(tableName: string, items: T[]): Promise<void> {
+  await batchWrite(
+    tableName,
+    items.map((item) => ({ PutRequest: { Item: item as Record<string, unknown> } })),
+    'write'
+  );
+}
+
+interface UpdateParts {
+  setParts: string[];
+  removeParts: string[];
+  names: Record<string, string>;
+  values: Record<string, unknown>;
+}
+
+// Turn a partial record into SET/REMOVE clauses: undefined is skipped, null removes
+function buildUpdateParts(updates: Record<string, unknown>): UpdateParts {
+  const parts: UpdateParts = { setParts: [], removeParts: [], names: {}, values: {} };
 
   Object.entries(updates).forEach(([field, value], index) => {
     if (value === undefined) {
@@ -104,40 +403,52 @@ export async function updateItem<T>(
     }
 
     const attrName = `#field${index}`;
-    expressionAttributeNames[attrName] = field;
+    parts.names[attrName] = field;
 
     if (value === null) {
       // null means remove the attribute
-      removeExpressionParts.push(attrName);
+      parts.removeParts.push(attrName);
     } else {
       // Non-null value means set the attribute
       const attrValue = `:value${index}`;
-      setExpressionParts.push(`${attrName} = ${attrValue}`);
-      expressionAttributeValues[attrValue] = value;
+      parts.setParts.push(`${attrName} = ${attrValue}`);
+      parts.values[attrValue] = value;
     }
   });
 
-  if (setExpressionParts.length === 0 && removeExpressionParts.length === 0) {
-    return getItem<T>(tableName, key);
-  }
+  return parts;
+}
 
-  // Build update expression with SET and/or REMOVE clauses
+function joinUpdateExpression(parts: UpdateParts, extraClauses: string[] = []): string {
   const expressionParts: string[] = [];
-  if (setExpressionParts.length > 0) {
-    expressionParts.push(`SET ${setExpressionParts.join(', ')}`);
+  if (parts.setParts.length > 0) {
+    expressionParts.push(`SET ${parts.setParts.join(', ')}`);
+  }
+  if (parts.removeParts.length > 0) {
+    expressionParts.push(`REMOVE ${parts.removeParts.join(', ')}`);
   }
-  if (removeExpressionParts.length > 0) {
-    expressionParts.push(`REMOVE ${removeExpressionParts.join(', ')}`);
+  return [...expressionParts, ...extraClauses].join(' ');
+}
+
+export async function updateItem<T>(
+  tableName: string,
+  key: Record<string, string>,
+  updates: Partial<T>
+): Promise<T | null> {
+  const parts = buildUpdateParts(updates as Record<string, unknown>);
+
+  if (parts.setParts.length === 0 && parts.removeParts.length === 0) {
+    return getItem<T>(tableName, key);
   }
 
   const result = await docClient.send(
     new UpdateCommand({
       TableName: tableName,
       Key: key,
-      UpdateExpression: expressionParts.join(' '),
-      ExpressionAttributeNames: expressionAttributeNames,
-      ...(Object.keys(expressionAttributeValues).length > 0 && {
-        ExpressionAttributeValues: expressionAttributeValues,
+      UpdateExpression: joinUpdateExpression(parts),
+      ExpressionAttributeNames: parts.names,
+      ...(Object.keys(parts.values).length > 0 && {
+        ExpressionAttributeValues: parts.values,
       }),
       ReturnValues: 'ALL_NEW',
     })
@@ -145,3 +456,291 @@ export async function updateItem<T>(
 
   return (result.Attributes as T) || null;
 }
+
+/**
+ * Append to a list attribute in a single write, creating the list if needed. Leaves
+ * `version` alone, so server-side bookkeeping never makes a client's pending edit conflict.
+ * Returns null if the row doesn't exist.
+ */
+export async function appendToList<T>(
+  tableName: string,
+  key: Record<string, string>,
+  attribute: string,
+  values: unknown[]
+): Promise<T | null> {
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: tableName,
+        Key: key,
+        UpdateExpression: 'SET #list = list_append(if_not_exists(#list, :empty), :values)',
+        ConditionExpression: 'attribute_exists(#pk)',
+        ExpressionAttributeNames: { '#list': attribute, '#pk': 'userId' },
+        ExpressionAttributeValues: { ':empty': [], ':values': values },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return (result.Attributes as T) || null;
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Like appendToList, but only while the list still has `expectedLength` entries (0 meaning it
+ * doesn't exist yet), and setting `fields` in the same write. For server-side writes that
+ * build on a list they read earlier, again without touching `version`. Returns null if the row
+ * doesn't exist or is in the trash, and throws a ConflictError carrying the stored row if the
+ * list has changed.
+ */
+export async function appendToListAt<T>(
+  tableName: string,
+  key: Record<string, string>,
+  attribute: string,
+  values: unknown[],
+  expectedLength: number,
+  fields: Partial<T> = {}
+): Promise<T | null> {
+  const parts = buildUpdateParts(fields as Record<string, unknown>);
+  parts.setParts.push('#list = list_append(if_not_exists(#list, :empty), :values)');
+  parts.names['#list'] = attribute;
+  parts.names['#pk'] = 'userId';
+  parts.names['#deletedAt'] = 'deletedAt';
+  parts.values[':empty'] = [];
+  parts.values[':values'] = values;
+
+  const conditions = ['attribute_exists(#pk)', 'attribute_not_exists(#deletedAt)'];
+  if (expectedLength === 0) {
+    conditions.push('attribute_not_exists(#list)');
+  } else {
+    parts.values[':expectedLength'] = expectedLength;
+    conditions.push('size(#list) = :expectedLength');
+  }
+
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: tableName,
+        Key: key,
+        UpdateExpression: joinUpdateExpression(parts),
+        ConditionExpression: conditions.join(' AND '),
+        ExpressionAttributeNames: parts.names,
+        ExpressionAttributeValues: parts.values,
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return (result.Attributes as T) || null;
+  } catch (error) {
+    if ((error as Error).name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+    const current = await getItem<T>(tableName, key);
+    if (!current) {
+      return null;
+    }
+    throw new ConflictError('This was changed somewhere else since you loaded it', current);
+  }
+}
+
+/**
+ * Like updateItem, but bumps the row's `version` and, when `expectedVersion` is given,
+ * only writes if the stored row is still at that version. Rows saved before versioning
+ * have no `version` attribute and count as version 0. Returns null if the row doesn't
+ * exist or is in the trash, and throws a ConflictError carrying the stored row if the version has moved on.
+ */
+export async function updateVersionedItem<T extends { version?: number }>(
+  tableName: string,
+  key: Record<string, string>,
+  updates: Partial<T>,
+  expectedVersion?: number
+): Promise<T | null> {
+  const { version: _ignored, ...fields } = updates;
+  const parts = buildUpdateParts(fields);
+  parts.names['#version'] = 'version';
+  parts.names['#pk'] = 'userId';
+  parts.names['#deletedAt'] = 'deletedAt';
+  parts.values[':versionIncrement'] = 1;
+
+  // Without the existence check an update would quietly create the row; trashed rows are read-only
+  const conditions = ['attribute_exists(#pk)', 'attribute_not_exists(#deletedAt)'];
+  if (expectedVersion !== undefined) {
+    parts.values[':expectedVersion'] = expectedVersion;
+    conditions.push(
+      expectedVersion === 0
+        ? '(attribute_not_exists(#version) OR #version = :expectedVersion)'
+        : '#version = :expectedVersion'
+    );
+  }
+
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: tableName,
+        Key: key,
+        UpdateExpression: joinUpdateExpression(parts, ['ADD #version :versionIncrement']),
+        ConditionExpression: conditions.join(' AND '),
+        ExpressionAttributeNames: parts.names,
+        ExpressionAttributeValues: parts.values,
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return (result.Attributes as T) || null;
+  } catch (error) {
+    if ((error as Error).name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+    const current = await getItem<T>(tableName, key);
+    if (!current) {
+      return null;
+    }
+    throw new ConflictError('This was changed somewhere else since you loaded it', current);
+  }
+}
+
+/**
+ * Soft-delete a row by setting `deletedAt`, and `deletedWith` when given, leaving the rest of
+ * it as it is. Returns false if the row doesn't exist or is already in the trash.
+ */
+export async function markDeleted(
+  tableName: string,
+  key: Record<string, string>,
+  deletedAt: string,
+  deletedWith?: string
+): Promise<boolean> {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: tableName,
+        Key: key,
+        UpdateExpression: deletedWith
+          ? 'SET #deletedAt = :deletedAt, #deletedWith = :deletedWith'
+          : 'SET #deletedAt = :deletedAt',
+        ConditionExpression: 'attribute_exists(#pk) AND attribute_not_exists(#deletedAt)',
+        ExpressionAttributeNames: {
+          '#pk': 'userId',
+          '#deletedAt': 'deletedAt',
+          ...(deletedWith && { '#deletedWith': 'deletedWith' }),
+        },
+        ExpressionAttributeValues: {
+          ':deletedAt': deletedAt,
+          ...(deletedWith && { ':deletedWith': deletedWith }),
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Take a row back out of the trash. Returns false if it isn't in the trash.
+export async function clearDeleted(tableName: string, key: Record<string, string>): Promise<boolean> {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: tableName,
+        Key: key,
+        UpdateExpression: 'REMOVE #deletedAt, #deletedWith',
+        ConditionExpression: 'attribute_exists(#deletedAt)',
+        ExpressionAttributeNames: { '#deletedAt': 'deletedAt', '#deletedWith': 'deletedWith' },
+      })
+    );
+    return true;
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export interface CounterIncrement {
+  key: Record<string, string>;
+  attribute: string;
+  amount: number;
+  limit?: number;                   // the counter may not go above this
+  set?: Record<string, unknown>;    // other attributes to write alongside, e.g. a TTL
+}
+
+// Concurrent requests from one user collide on the same counter rows
+const MAX_TRANSACTION_RETRIES = 3;
+
+function cancellationReasons(error: unknown): string[] {
+  if ((error as Error).name !== 'TransactionCanceledException') {
+    return [];
+  }
+  return ((error as { CancellationReasons?: { Code?: string }[] }).CancellationReasons ?? []).map(
+    (reason) => reason.Code ?? 'None'
+  );
+}
+
+// A transaction cancelled because another one was writing the same rows; trying again can work
+export function isTransactionConflict(error: unknown): boolean {
+  return cancellationReasons(error).includes('TransactionConflict');
+}
+
+/**
+ * Add to numeric counters on several rows in one transaction, creating the rows as needed.
+ * If any counter would go over its limit nothing is written, and the position of the first
+ * one that would is returned; otherwise returns null. Transactions that collide with another
+ * are retried a few times before the conflict is thrown.
+ */
+export async function incrementCounters(tableName: string, counters: CounterIncrement[]): Promise<number | null> {
+  for (let attempt = 0; ; attempt++) {
+    if (attempt > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+    }
+    try {
+      await writeCounters(tableName, counters);
+      return null;
+    } catch (error) {
+      const index = cancellationReasons(error).indexOf('ConditionalCheckFailed');
+      if (index !== -1) {
+        return index;
+      }
+      if (!isTransactionConflict(error) || attempt >= MAX_TRANSACTION_RETRIES) {
+        throw error;
+      }
+    }
+  }
+}
+
+async function writeCounters(tableName: string, counters: CounterIncrement[]): Promise<void> {
+  await docClient.send(
+    new TransactWriteCommand({
+      TransactItems: counters.map(({ key, attribute, amount, limit, set = {} }) => {
+        const setNames = Object.keys(set);
+        return {
+          Update: {
+            TableName: tableName,
+            Key: key,
+            UpdateExpression: [
+              'ADD #counter :amount',
+              setNames.length > 0 && `SET ${setNames.map((_, i) => `#set${i} = :set${i}`).join(', ')}`,
+            ]
+              .filter(Boolean)
+              .join(' '),
+            ...(limit !== undefined && {
+              ConditionExpression: 'attribute_not_exists(#counter) OR #counter <= :max',
+            }),
+            ExpressionAttributeNames: {
+              '#counter': attribute,
+              ...Object.fromEntries(setNames.map((name, i) => [`#set${i}`, name])),
+            },
+            ExpressionAttributeValues: {
+              ':amount': amount,
+              ...(limit !== undefined && { ':max': limit - amount }),
+              ...Object.fromEntries(setNames.map((name, i) => [`:set${i}`, set[name]])),
+            },
+          },
+        };
+      }),
+    })
+  );
+}
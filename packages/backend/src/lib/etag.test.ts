@@ -0,0 +1,24 @@
+/**
+ * Tests for conditional GETs: which If-None-Match headers let the API answer 304
+ *
+ * Run with: npx jest src/lib/etag.test.ts
+ */
+
+import { matchesEtag } from './etag';
+
+describe('matchesEtag', () => {
+  it('matches the tag the caller already holds', () => {
+    expect(matchesEtag('"3"', '"3"')).toBe(true);
+    expect(matchesEtag('"2"', '"3"')).toBe(false);
+  });
+
+  it('matches a weak tag, one tag in a list, or any tag', () => {
+    expect(matchesEtag('W/"3"', '"3"')).toBe(true);
+    expect(matchesEtag('"1", "3"', '"3"')).toBe(true);
+    expect(matchesEtag('*', '"3"')).toBe(true);
+  });
+
+  it('never matches without the header', () => {
+    expect(matchesEtag(undefined, '"3"')).toBe(false);
+  });
+});
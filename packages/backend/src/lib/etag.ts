@@ -0,0 +1,8 @@
+/**
+ * Whether an If-None-Match header already names this ETag. The header can list several tags
+ * or be `*`; weak tags (W/"3") match their strong form, since the bodies are JSON we build.
+ */
+export function matchesEtag(ifNoneMatch: string | undefined, etag: string): boolean {
+  const known = (ifNoneMatch || '').split(',').map((tag) => tag.trim().replace(/^W\//, ''));
+  return known.includes('*') || known.includes(etag);
+}
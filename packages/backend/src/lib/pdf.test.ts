@@ -0,0 +1,59 @@
+/**
+ * Tests for the PDF writer: text outside the standard fonts and content that runs onto more pages
+ *
+ * Run with: npx jest src/lib/pdf.test.ts
+ */
+
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import { PdfWriter } from './pdf';
+
+const drawText = jest.spyOn(PDFPage.prototype, 'drawText');
+
+function drawn(): string[] {
+  return drawText.mock.calls.map(([text]) => text);
+}
+
+beforeEach(() => {
+  drawText.mockClear();
+});
+
+describe('PdfWriter', () => {
+  it('decomposes or replaces characters the standard fonts lack', async () => {
+    const pdf = await PdfWriter.create('Gőzölt kalács');
+    pdf.paragraph('⅓ cup crème fraîche');
+    pdf.paragraph('🍰\tCake');
+    pdf.paragraph('抹茶');
+
+    await pdf.save();
+
+    expect(drawn()).toEqual(
+      expect.arrayContaining(['1/3 cup crème fraîche', '? Cake', '??', 'Gozölt kalács'])
+    );
+  });
+
+  it('keeps the document title and numbers every page', async () => {
+    const pdf = await PdfWriter.create('Lemon drizzle');
+    pdf.title('Lemon drizzle');
+    pdf.table(
+      [{ header: 'Amount', width: 110, align: 'right' }, { header: 'Ingredient' }],
+      Array.from({ length: 60 }, (_, i) => [`${i + 1} g`, `Ingredient ${i + 1}`])
+    );
+
+    const document = await PDFDocument.load(await pdf.save());
+
+    expect(document.getTitle()).toBe('Lemon drizzle');
+    expect(document.getPageCount()).toBe(2);
+    expect(drawn()).toEqual(expect.arrayContaining(['Page 1 of 2', 'Page 2 of 2']));
+  });
+
+  it('breaks a word wider than the page', async () => {
+    const pdf = await PdfWriter.create('Notes');
+    pdf.paragraph('x'.repeat(400));
+
+    await pdf.save();
+
+    const lines = drawn().filter((text) => text.startsWith('x'));
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join('')).toBe('x'.repeat(400));
+  });
+});
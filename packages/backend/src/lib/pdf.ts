@@ -0,0 +1,264 @@
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFPage } from 'pdf-lib';
+
+// Printable pages built from a few blocks (titles, paragraphs, label/value fields and tables)
+// that flow down the page and onto new pages. Uses the standard PDF fonts, so nothing is
+// embedded and the files stay small.
+
+export interface PdfFile {
+  fileName: string;
+  content: Uint8Array;
+}
+
+export interface PdfColumn {
+  header: string;
+  width?: number;        // points; columns without one share what's left
+  align?: 'left' | 'right';
+  checkbox?: boolean;    // an empty box to tick on paper instead of text
+}
+
+const PAGE_WIDTH = 595.28;  // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SIZE = 8;
+const BODY_SIZE = 10.5;
+const LINE_GAP = 1.35;
+const CELL_PADDING = 4;
+
+const INK = rgb(0.09, 0.07, 0.07);
+const MUTED = rgb(0.45, 0.38, 0.4);
+const RULE = rgb(0.82, 0.8, 0.8);
+
+/**
+ * The standard fonts only cover Windows-1252, so anything else is decomposed ("⅓" to "1/3",
+ * "ő" to "o") or dropped to "?" rather than failing the whole document.
+ */
+function printable(text: string, characters: Set<number>): string {
+  return Array.from(text.replace(/\t/g, '  '))
+    .map((char) => {
+      if (characters.has(char.codePointAt(0)!)) return char;
+      const decomposed = Array.from(char.normalize('NFKD').replace(/⁄/g, '/'))
+        .filter((part) => characters.has(part.codePointAt(0)!))
+        .join('');
+      return decomposed || '?';
+    })
+    .join('');
+}
+
+export class PdfWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  private constructor(
+    private readonly document: PDFDocument,
+    private readonly regular: PDFFont,
+    private readonly bold: PDFFont,
+    private readonly characters: Set<number>,
+    private readonly footer: string
+  ) {
+    this.addPage();
+  }
+
+  static async create(title: string): Promise<PdfWriter> {
+    const document = await PDFDocument.create();
+    const [regular, bold] = await Promise.all([
+      document.embedFont(StandardFonts.Helvetica),
+      document.embedFont(StandardFonts.HelveticaBold),
+    ]);
+    const characters = new Set(regular.getCharacterSet());
+    const footer = printable(title, characters);
+    document.setTitle(footer);
+    document.setCreator('Proofed');
+    return new PdfWriter(document, regular, bold, characters, footer);
+  }
+
+  title(text: string): void {
+    this.lines(text, { font: this.bold, size: 20 });
+    this.y -= 4;
+  }
+
+  heading(text: string): void {
+    // Keep a heading with at least a couple of lines of what follows it
+    this.ensureSpace(14 * LINE_GAP + BODY_SIZE * LINE_GAP * 3);
+    this.y -= 10;
+    this.lines(text, { font: this.bold, size: 14 });
+    this.y -= 2;
+  }
+
+  subheading(text: string): void {
+    this.ensureSpace(BODY_SIZE * LINE_GAP * 4);
+    this.y -= 4;
+    this.lines(text, { font: this.bold, size: BODY_SIZE + 1 });
+  }
+
+  paragraph(text: string, options: { muted?: boolean } = {}): void {
+    for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+      if (line.trim()) {
+        this.lines(line, { muted: options.muted });
+      } else {
+        this.y -= BODY_SIZE * 0.6;
+      }
+    }
+    this.y -= 4;
+  }
+
+  // "Bake: 25 min at 180°C" with the label in bold; empty values are skipped
+  fields(entries: [string, string | null | undefined][]): void {
+    const labelWidth = Math.max(
+      0,
+      ...entries.filter(([, value]) => value).map(([label]) => this.bold.widthOfTextAtSize(`${label}:`, BODY_SIZE))
+    );
+    for (const [label, value] of entries) {
+      if (!value) continue;
+      const lines = this.wrap(value, this.regular, BODY_SIZE, CONTENT_WIDTH - labelWidth - 8);
+      this.ensureSpace(BODY_SIZE * LINE_GAP);
+      this.draw(`${label}:`, MARGIN, { font: this.bold });
+      lines.forEach((line, index) => {
+        if (index > 0) this.ensureSpace(BODY_SIZE * LINE_GAP);
+        this.draw(line, MARGIN + labelWidth + 8);
+        this.y -= BODY_SIZE * LINE_GAP;
+      });
+    }
+    this.y -= 4;
+  }
+
+  table(columns: PdfColumn[], rows: string[][]): void {
+    const fixed = columns.reduce((total, column) => total + (column.width ?? 0), 0);
+    const flexible = columns.filter((column) => column.width === undefined).length;
+    const widths = columns.map((column) => column.width ?? (CONTENT_WIDTH - fixed) / Math.max(flexible, 1));
+    const lineHeight = BODY_SIZE * LINE_GAP;
+
+    const drawRow = (cells: string[], font: PDFFont, header: boolean) => {
+      const wrapped = cells.map((cell, index) =>
+        columns[index].checkbox && !header ? [''] : this.wrap(cell, font, BODY_SIZE, widths[index] - CELL_PADDING * 2)
+      );
+      const height = Math.max(...wrapped.map((lines) => lines.length)) * lineHeight + CELL_PADDING * 2;
+      this.ensureSpace(height + (header ? lineHeight * 2 : 0));
+
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        if (column.checkbox && !header) {
+          const box = BODY_SIZE;
+          this.page.drawRectangle({
+            x: x + (widths[index] - box) / 2,
+            y: this.y - CELL_PADDING - box - 1,
+            width: box,
+            height: box,
+            borderColor: INK,
+            borderWidth: 0.8,
+          });
+        } else {
+          wrapped[index].forEach((line, lineIndex) => {
+            const textWidth = font.widthOfTextAtSize(line, BODY_SIZE);
+            const left =
+              column.align === 'right' ? x + widths[index] - CELL_PADDING - textWidth : x + CELL_PADDING;
+            this.page.drawText(line, {
+              x: left,
+              y: this.y - CELL_PADDING - BODY_SIZE - lineIndex * lineHeight,
+              size: BODY_SIZE,
+              font,
+              color: header ? MUTED : INK,
+            });
+          });
+        }
+        x += widths[index];
+      });
+
+      this.y -= height;
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y },
+        end: { x: MARGIN + CONTENT_WIDTH, y: this.y },
+        thickness: header ? 0.8 : 0.4,
+        color: header ? INK : RULE,
+      });
+    };
+
+    drawRow(columns.map((column) => column.header), this.bold, true);
+    rows.forEach((row) => drawRow(row, this.regular, false));
+    this.y -= 8;
+  }
+
+  // Page numbers go on last, once the number of pages is known
+  async save(): Promise<Uint8Array> {
+    const pages = this.document.getPages();
+    pages.forEach((page, index) => {
+      const number = `Page ${index + 1} of ${pages.length}`;
+      const footer = this.fit(this.footer, this.regular, FOOTER_SIZE, CONTENT_WIDTH * 0.7);
+      page.drawText(footer, { x: MARGIN, y: MARGIN / 2, size: FOOTER_SIZE, font: this.regular, color: MUTED });
+      page.drawText(number, {
+        x: PAGE_WIDTH - MARGIN - this.regular.widthOfTextAtSize(number, FOOTER_SIZE),
+        y: MARGIN / 2,
+        size: FOOTER_SIZE,
+        font: this.regular,
+        color: MUTED,
+      });
+    });
+    return this.document.save();
+  }
+
+  private addPage(): void {
+    this.page = this.document.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private lines(text: string, options: { font?: PDFFont; size?: number; muted?: boolean }): void {
+    const font = options.font ?? this.regular;
+    const size = options.size ?? BODY_SIZE;
+    for (const line of this.wrap(text, font, size, CONTENT_WIDTH)) {
+      this.ensureSpace(size * LINE_GAP);
+      this.draw(line, MARGIN, { font, size, muted: options.muted });
+      this.y -= size * LINE_GAP;
+    }
+  }
+
+  // Draws one line with its top at the cursor
+  private draw(text: string, x: number, options: { font?: PDFFont; size?: number; muted?: boolean } = {}): void {
+    const size = options.size ?? BODY_SIZE;
+    this.page.drawText(text, {
+      x,
+      y: this.y - size,
+      size,
+      font: options.font ?? this.regular,
+      color: options.muted ? MUTED : INK,
+    });
+  }
+
+  // Breaks at spaces where it can, and inside a word that is wider than the line on its own
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of printable(text, this.characters).split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      for (const char of word) {
+        if (line && font.widthOfTextAtSize(line + char, size) > width) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+    return lines;
+  }
+
+  private fit(text: string, font: PDFFont, size: number, width: number): string {
+    let fitted = text;
+    while (fitted && font.widthOfTextAtSize(fitted, size) > width) {
+      fitted = fitted.slice(0, -2) + '…';
+    }
+    return fitted;
+  }
+}
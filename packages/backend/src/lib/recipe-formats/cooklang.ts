@@ -0,0 +1,259 @@
+import { formatBakeSettings, parseBakeSettings } from '../recipe-text';
+import type { BakeSettings } from '../recipe-text';
+import type { CreateVariantRequest, Ingredient, PortableRecipe } from '@proofed/shared';
+
+// Cooklang (cooklang.org): ">> key: value" metadata, then the method as paragraphs with
+// ingredients marked inline as @name{quantity%unit}. Proofed keeps ingredients apart from the
+// method, so they are written as a step of their own, and each variant as a
+// "== Variant: name ==" section holding its ingredient changes, bake settings and notes.
+
+const VARIANT_SECTION = /^variant:\s*(.+)$/i;
+const BAKE_STEP = /^bake:\s*(.*)$/i;
+
+// Method text is written as-is apart from a backslash before anything Cooklang would read as markup
+function escapeText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) =>
+      line.replace(/[\\@#~{}]|-(?=-)|\[(?=-)/g, '\\$&').replace(/^(\s*)(>>|=|bake:)/i, '$1\\$2')
+    )
+    .join('\n');
+}
+
+function ingredientToken({ name, quantity, unit }: Ingredient): string {
+  const amount = quantity > 0 || unit ? `${quantity}${unit ? `%${unit}` : ''}` : '';
+  return `@${name.replace(/[{}]/g, '')}{${amount}}`;
+}
+
+function metadata(key: string, value: string | null | undefined): string[] {
+  return value ? [`>> ${key}: ${value.replace(/\n/g, ' ')}`] : [];
+}
+
+export function serializeCooklang({ recipe, variants }: PortableRecipe): string {
+  const lines = [
+    ...metadata('title', recipe.name),
+    ...metadata('source.name', recipe.customSourceName),
+    ...metadata('source.url', recipe.customSourceUrl),
+    ...metadata('cook time', recipe.bakeTime ? formatBakeSettings({ bakeTime: recipe.bakeTime }) : null),
+    ...metadata(
+      'bake temperature',
+      recipe.bakeTemp ? formatBakeSettings({ bakeTemp: recipe.bakeTemp, bakeTempUnit: recipe.bakeTempUnit }) : null
+    ),
+    '',
+  ];
+  const paragraphs = [
+    ...(recipe.ingredients.length > 0 ? [recipe.ingredients.map(ingredientToken).join('\n')] : []),
+    ...(recipe.prepNotes ? [escapeText(recipe.prepNotes)] : []),
+    ...variants.flatMap((variant) => {
+      const bake = formatBakeSettings(variant);
+      return [
+        `== Variant: ${variant.name} ==`,
+        ...(bake ? [`Bake: ${bake}`] : []),
+        ...(variant.ingredientOverrides.length > 0 ? [variant.ingredientOverrides.map(ingredientToken).join('\n')] : []),
+        ...(variant.notes ? [escapeText(variant.notes)] : []),
+      ];
+    }),
+  ];
+  return `${[...lines, paragraphs.join('\n\n')].join('\n').trim()}\n`;
+}
+
+// Reading
+
+interface Step {
+  text: string;
+  ingredients: Ingredient[];
+  onlyIngredients: boolean;  // nothing but ingredients, like the list Proofed writes
+}
+
+interface Token {
+  name: string;
+  amount?: string;
+  end: number;
+}
+
+// The name and {amount} after an @, # or ~; a name without braces is a single word
+function readToken(source: string, start: number): Token | null {
+  const brace = source.indexOf('{', start);
+  const candidate = brace === -1 ? '' : source.slice(start, brace);
+  const close = brace === -1 ? -1 : source.indexOf('}', brace);
+  if (close !== -1 && !/[\n@#~{}]/.test(candidate)) {
+    return { name: candidate.trim(), amount: source.slice(brace + 1, close).trim(), end: close + 1 };
+  }
+
+  const word = source.slice(start).match(/^[^\s.,;:!?()[\]{}@#~"]+/u);
+  return word ? { name: word[0], end: start + word[0].length } : null;
+}
+
+function toIngredient({ name, amount = '' }: Token): Ingredient {
+  const [quantityText, ...unit] = amount.split('%');
+  const quantity = quantityText.replace(/\*$/, '').trim().match(/^(\d+(?:\.\d+)?)(?:\s*\/\s*(\d+))?$/);
+  if (!quantity) {
+    // "@salt{a pinch}": the amount is kept as written
+    return { name, quantity: 0, unit: [quantityText, ...unit].join(' ').trim() };
+  }
+  const value = quantity[2] ? Number(quantity[1]) / Number(quantity[2]) : Number(quantity[1]);
+  return { name, quantity: Math.round(value * 1000) / 1000, unit: unit.join('%').trim() };
+}
+
+function readStep(source: string): Step {
+  let text = '';
+  let rest = '';
+  const ingredients: Ingredient[] = [];
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\' && i + 1 < source.length) {
+      text += source[i + 1];
+      rest += source[i + 1];
+      i++;
+      continue;
+    }
+
+    const token = '@#~'.includes(char) ? readToken(source, i + 1) : null;
+    if (!token) {
+      text += char;
+      rest += char;
+      continue;
+    }
+
+    if (char === '@') {
+      ingredients.push(toIngredient(token));
+      text += token.name;
+    } else {
+      // Timers read as their duration, cookware as its name
+      const words = char === '~' && token.amount ? token.amount.replace('%', ' ') : token.name;
+      text += words;
+      rest += words;
+    }
+    i = token.end - 1;
+  }
+
+  return {
+    text: text.trim(),
+    ingredients,
+    onlyIngredients: ingredients.length > 0 && !/[^\s,.;&]/.test(rest.replace(/\band\b/gi, '')),
+  };
+}
+
+// Block comments first, then line comments; escaped dashes are left alone
+function stripComments(source: string, pattern: RegExp): string {
+  return source.replace(pattern, (match) => (match.startsWith('\\') ? match : ''));
+}
+
+// YAML-style front matter, which newer Cooklang files use instead of ">>" lines
+function readFrontMatter(content: string): { metadata: Map<string, string>; body: string } {
+  const metadata = new Map<string, string>();
+  const frontMatter = content.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (!frontMatter) {
+    return { metadata, body: content };
+  }
+  for (const line of frontMatter[1].split('\n')) {
+    const entry = line.match(/^([^:#]+?)\s*:\s*(.*)$/);
+    if (entry) metadata.set(entry[1].toLowerCase(), entry[2].replace(/^(["'])(.*)\1$/, '$2'));
+  }
+  return { metadata, body: content.slice(frontMatter[0].length) };
+}
+
+function bakeFromMetadata(metadata: Map<string, string>): BakeSettings {
+  const time = metadata.get('cook time') ?? metadata.get('bake time') ?? metadata.get('time');
+  const temperature = metadata.get('bake temperature') ?? metadata.get('temperature');
+  const bakeTime = time ? parseBakeSettings(time)?.bakeTime : undefined;
+  const temp = temperature ? parseBakeSettings(temperature) : null;
+  return {
+    ...(bakeTime ? { bakeTime } : {}),
+    ...(temp?.bakeTemp ? { bakeTemp: temp.bakeTemp, bakeTempUnit: temp.bakeTempUnit } : {}),
+  };
+}
+
+function sourceFromMetadata(metadata: Map<string, string>): { customSourceName?: string; customSourceUrl?: string } {
+  const source = metadata.get('source');
+  const name = metadata.get('source.name') ?? (source && !/^https?:\/\//i.test(source) ? source : undefined);
+  const url = metadata.get('source.url') ?? (source && /^https?:\/\//i.test(source) ? source : undefined);
+  return {
+    ...(name || url ? { customSourceName: name ?? url } : {}),
+    ...(url ? { customSourceUrl: url } : {}),
+  };
+}
+
+export function parseCooklang(content: string): PortableRecipe[] {
+  const { metadata, body } = readFrontMatter(content.replace(/\r\n?/g, '\n'));
+  const source = stripComments(body, /\\?\[-[\s\S]*?-\]/g);
+
+  const ingredients: Ingredient[] = [];
+  const notes: string[] = [];
+  const variants: CreateVariantRequest[] = [];
+  const variantNotes = new Map<CreateVariantRequest, string[]>();
+  let variant: CreateVariantRequest | null = null;
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    const raw = paragraph.join('\n').trim();
+    paragraph = [];
+    if (!raw) return;
+
+    const step = readStep(raw);
+    if (!variant) {
+      ingredients.push(...step.ingredients);
+      if (!step.onlyIngredients) notes.push(step.text);
+      return;
+    }
+
+    const bake = raw.match(BAKE_STEP);
+    if (bake && parseBakeSettings(bake[1])) {
+      Object.assign(variant, parseBakeSettings(bake[1]));
+      return;
+    }
+    variant.ingredientOverrides.push(...step.ingredients);
+    if (!step.onlyIngredients) variantNotes.get(variant)!.push(step.text);
+  };
+
+  for (const rawLine of source.split('\n')) {
+    const meta = rawLine.match(/^\s*>>\s*([^:]+?)\s*:\s*(.*?)\s*$/);
+    if (meta) {
+      endParagraph();
+      metadata.set(meta[1].toLowerCase(), meta[2]);
+      continue;
+    }
+
+    const line = stripComments(rawLine, /\\?--.*$/);
+    if (!line.trim()) {
+      // A line that held only a comment doesn't split the step it sits in
+      if (!rawLine.trim()) endParagraph();
+      continue;
+    }
+
+    const section = line.match(/^\s*=+\s*(.*?)\s*=*\s*$/);
+    if (section) {
+      endParagraph();
+      const variantName = section[1].match(VARIANT_SECTION);
+      if (variantName) {
+        variant = { name: variantName[1], ingredientOverrides: [] };
+        variants.push(variant);
+        variantNotes.set(variant, []);
+      } else {
+        variant = null;
+        if (section[1]) notes.push(`${section[1]}:`);
+      }
+      continue;
+    }
+    paragraph.push(line);
+  }
+  endParagraph();
+
+  const prepNotes = notes.join('\n\n');
+  return [
+    {
+      recipe: {
+        name: metadata.get('title') || 'Imported recipe',
+        ingredients,
+        ...(prepNotes ? { prepNotes } : {}),
+        ...bakeFromMetadata(metadata),
+        ...sourceFromMetadata(metadata),
+      },
+      variants: variants.map((entry) => {
+        const text = variantNotes.get(entry)!.join('\n\n');
+        return text ? { ...entry, notes: text } : entry;
+      }),
+    },
+  ];
+}
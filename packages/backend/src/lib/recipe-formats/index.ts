@@ -0,0 +1,51 @@
+import { serializeJsonLd, parseJsonLd } from './json-ld';
+import { serializeCooklang, parseCooklang } from './cooklang';
+import { serializeMarkdown, parseMarkdown } from './markdown';
+import { slugify } from '../recipe-text';
+import type { PortableRecipe, RecipeFormat } from '@proofed/shared';
+
+interface FormatHandler {
+  extension: string;
+  contentType: string;
+  serialize: (recipe: PortableRecipe) => string;
+  parse: (content: string) => PortableRecipe[];
+}
+
+const FORMATS: Record<RecipeFormat, FormatHandler> = {
+  'json-ld': {
+    extension: 'json',
+    contentType: 'application/ld+json',
+    serialize: serializeJsonLd,
+    parse: parseJsonLd,
+  },
+  cooklang: {
+    extension: 'cook',
+    contentType: 'text/plain; charset=utf-8',
+    serialize: serializeCooklang,
+    parse: parseCooklang,
+  },
+  markdown: {
+    extension: 'md',
+    contentType: 'text/markdown; charset=utf-8',
+    serialize: serializeMarkdown,
+    parse: parseMarkdown,
+  },
+};
+
+export function serializeRecipe(format: RecipeFormat, recipe: PortableRecipe): string {
+  return FORMATS[format].serialize(recipe);
+}
+
+// Every recipe in one file; the result still has to pass the create request schemas
+export function parseRecipes(format: RecipeFormat, content: string): PortableRecipe[] {
+  return FORMATS[format].parse(content);
+}
+
+export function recipeContentType(format: RecipeFormat): string {
+  return FORMATS[format].contentType;
+}
+
+// "Victoria sponge" as victoria-sponge.cook
+export function recipeFileName(format: RecipeFormat, name: string): string {
+  return `${slugify(name) || 'recipe'}.${FORMATS[format].extension}`;
+}
@@ -0,0 +1,196 @@
+import { findSchemaNodes, formatDuration, parseDurationMinutes } from '../schema-org';
+import type { SchemaNode, SchemaValue } from '../schema-org';
+import { findOvenTemperature, formatIngredientLine, parseIngredientLine } from '../recipe-text';
+import { ValidationError } from '@proofed/shared';
+import type { ContainerInfo, CreateVariantRequest, Ingredient, PortableRecipe } from '@proofed/shared';
+
+// schema.org has nowhere for exact amounts, the oven temperature or variants, so those are
+// written under this prefix as well. Other apps ignore them and read the standard fields.
+const CONTEXT = ['https://schema.org', { proofed: 'https://proofed.app/schema#' }];
+
+// UN/CEFACT codes, as QuantitativeValue expects
+const TEMP_UNIT_CODES = { C: 'CEL', F: 'FAH' } as const;
+
+interface BakeFields {
+  bakeTime?: number;
+  bakeTemp?: number;
+  bakeTempUnit?: 'F' | 'C';
+}
+
+function bakeProperties({ bakeTime, bakeTemp, bakeTempUnit }: BakeFields): Record<string, unknown> {
+  return {
+    ...(bakeTime ? { cookTime: formatDuration(bakeTime) } : {}),
+    ...(bakeTemp
+      ? {
+          'proofed:bakeTemperature': {
+            '@type': 'QuantitativeValue',
+            value: bakeTemp,
+            unitCode: TEMP_UNIT_CODES[bakeTempUnit ?? 'F'],
+          },
+        }
+      : {}),
+  };
+}
+
+function ingredientProperties(ingredients: Ingredient[]): Record<string, unknown> {
+  return {
+    recipeIngredient: ingredients.map(formatIngredientLine),
+    'proofed:ingredients': ingredients.map(({ name, quantity, unit }) => ({ name, quantity, unit })),
+  };
+}
+
+function variantNode(variant: CreateVariantRequest): Record<string, unknown> {
+  return {
+    '@type': 'proofed:Variant',
+    name: variant.name,
+    ...ingredientProperties(variant.ingredientOverrides),
+    ...bakeProperties(variant),
+    ...(variant.notes ? { description: variant.notes } : {}),
+  };
+}
+
+export function serializeJsonLd({ recipe, variants }: PortableRecipe): string {
+  const sourceUrl = recipe.customSourceUrl ?? undefined;
+  const node = {
+    '@context': CONTEXT,
+    '@type': 'Recipe',
+    name: recipe.name,
+    ...ingredientProperties(recipe.ingredients),
+    ...(recipe.prepNotes ? { recipeInstructions: recipe.prepNotes } : {}),
+    ...bakeProperties(recipe),
+    ...(recipe.customSourceName || sourceUrl
+      ? {
+          isBasedOn: {
+            '@type': 'CreativeWork',
+            ...(recipe.customSourceName ? { name: recipe.customSourceName } : {}),
+            ...(sourceUrl ? { url: sourceUrl } : {}),
+          },
+        }
+      : {}),
+    ...(recipe.container ? { 'proofed:container': recipe.container } : {}),
+    ...(recipe.customScales?.length ? { 'proofed:customScales': recipe.customScales } : {}),
+    ...(variants.length > 0 ? { 'proofed:variants': variants.map(variantNode) } : {}),
+  };
+  return JSON.stringify(node, null, 2);
+}
+
+// Reading
+
+function asList(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function textOf(value: unknown): string {
+  const [first] = asList(value);
+  if (typeof first === 'string') return first.trim();
+  if (typeof first === 'number') return String(first);
+  if (first && typeof first === 'object') {
+    const node = first as SchemaNode;
+    return textOf(node.text ?? node.name);
+  }
+  return '';
+}
+
+// Instructions are one block of text, a list of strings, or HowToStep/HowToSection nodes
+function instructionLines(value: SchemaValue | undefined): string[] {
+  return asList(value).flatMap((entry): string[] => {
+    if (typeof entry === 'string') return [entry.trim()];
+    if (!entry || typeof entry !== 'object') return [];
+    const node = entry as SchemaNode;
+    if (node.itemListElement !== undefined) {
+      const heading = textOf(node.name);
+      return [...(heading ? [`${heading}:`] : []), ...instructionLines(node.itemListElement)];
+    }
+    return [textOf(node.text ?? node.name)];
+  }).filter(Boolean);
+}
+
+// Our own structured amounts when present, otherwise the ingredient lines as written
+function ingredientsOf(node: SchemaNode): Ingredient[] {
+  const structured = asList(node['proofed:ingredients']).filter(
+    (entry): entry is Ingredient =>
+      !!entry &&
+      typeof (entry as Ingredient).name === 'string' &&
+      typeof (entry as Ingredient).quantity === 'number' &&
+      typeof (entry as Ingredient).unit === 'string'
+  );
+  if (structured.length > 0) {
+    return structured.map(({ name, quantity, unit }) => ({ name, quantity, unit }));
+  }
+  return asList(node.recipeIngredient ?? node.ingredients)
+    .map((line) => parseIngredientLine(textOf(line)))
+    .filter((ingredient): ingredient is Ingredient => ingredient !== null);
+}
+
+// Files written by Proofed say when there's no oven temperature; others may only mention it in the method
+function bakeOf(node: SchemaNode, steps: string[]): BakeFields {
+  const cookTime = textOf(node.cookTime);
+  const bakeTime = cookTime ? parseDurationMinutes(cookTime) : undefined;
+
+  const temperature = node['proofed:bakeTemperature'] as unknown as { value?: unknown; unitCode?: unknown } | undefined;
+  const bakeTemp = Number(temperature?.value);
+  const temp =
+    bakeTemp > 0
+      ? { bakeTemp, bakeTempUnit: temperature?.unitCode === TEMP_UNIT_CODES.C ? ('C' as const) : ('F' as const) }
+      : node['proofed:ingredients'] === undefined
+        ? findOvenTemperature(steps)
+        : undefined;
+
+  return { ...(bakeTime ? { bakeTime } : {}), ...temp };
+}
+
+function sourceOf(value: SchemaValue | undefined): { customSourceName?: string; customSourceUrl?: string } {
+  const [source] = asList(value);
+  if (typeof source === 'string') {
+    return { customSourceName: source, customSourceUrl: source };
+  }
+  if (!source || typeof source !== 'object') {
+    return {};
+  }
+  const name = textOf((source as SchemaNode).name);
+  const url = textOf((source as SchemaNode).url);
+  return { ...(name || url ? { customSourceName: name || url } : {}), ...(url ? { customSourceUrl: url } : {}) };
+}
+
+function readVariant(node: SchemaNode): CreateVariantRequest {
+  const notes = textOf(node.description);
+  return {
+    name: textOf(node.name) || 'Variant',
+    ingredientOverrides: ingredientsOf(node),
+    ...bakeOf(node, []),
+    ...(notes ? { notes } : {}),
+  };
+}
+
+function readRecipe(node: SchemaNode): PortableRecipe {
+  const steps = instructionLines(node.recipeInstructions);
+  const container = node['proofed:container'] as unknown as ContainerInfo | undefined;
+  const customScales = asList(node['proofed:customScales']).filter((scale): scale is number => typeof scale === 'number');
+
+  return {
+    recipe: {
+      name: textOf(node.name) || 'Imported recipe',
+      ingredients: ingredientsOf(node),
+      ...(steps.length > 0 ? { prepNotes: steps.join('\n') } : {}),
+      ...bakeOf(node, steps),
+      ...sourceOf(node.isBasedOn),
+      ...(container && typeof container === 'object' ? { container } : {}),
+      ...(customScales.length > 0 ? { customScales } : {}),
+    },
+    variants: asList(node['proofed:variants'])
+      .filter((entry): entry is SchemaNode => !!entry && typeof entry === 'object')
+      .map(readVariant),
+  };
+}
+
+// Accepts a single Recipe, an array of them, or a document with a @graph
+export function parseJsonLd(content: string): PortableRecipe[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch {
+    throw new ValidationError('The file is not valid JSON-LD');
+  }
+  return findSchemaNodes(document, 'Recipe').map(readRecipe);
+}
@@ -0,0 +1,174 @@
+import { formatBakeSettings, parseBakeSettings, parseIngredientLine } from '../recipe-text';
+import type { BakeSettings } from '../recipe-text';
+import type { CreateVariantRequest, Ingredient, PortableRecipe } from '@proofed/shared';
+
+// A recipe card: the name as the title, then Ingredients, Method and one section per variant.
+// Amounts are bold so they read back exactly, e.g. "- **1.5 tsp** vanilla extract".
+
+const VARIANT_HEADING = /^variant:\s*(.+)$/i;
+const METHOD_HEADINGS = /^(method|instructions|directions|steps|preparation)$/i;
+
+// Free text is written as-is, except lines that would read back as a heading, list item or field
+function escapeText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (/^\s*[#\-*+\\]/.test(line) ? line.replace(/^(\s*)/, '$1\\') : line))
+    .join('\n');
+}
+
+function unescapeText(lines: string[]): string {
+  return lines
+    .map((line) => line.replace(/^(\s*)\\(?=[#\-*+\\])/, '$1'))
+    .join('\n')
+    .trim();
+}
+
+function ingredientItem({ name, quantity, unit }: Ingredient): string {
+  const amount = [quantity > 0 ? String(quantity) : '', unit].filter(Boolean).join(' ');
+  return amount ? `- **${amount}** ${name}` : `- ${name}`;
+}
+
+function bakeLine(bake: BakeSettings): string[] {
+  const text = formatBakeSettings(bake);
+  return text ? [`**Bake:** ${text}`] : [];
+}
+
+function variantSection(variant: CreateVariantRequest): string[] {
+  return [
+    `## Variant: ${variant.name}`,
+    '',
+    ...bakeLine(variant).flatMap((line) => [line, '']),
+    ...variant.ingredientOverrides.map(ingredientItem),
+    ...(variant.notes ? ['', escapeText(variant.notes)] : []),
+    '',
+  ];
+}
+
+export function serializeMarkdown({ recipe, variants }: PortableRecipe): string {
+  const source = recipe.customSourceUrl
+    ? `**Source:** [${recipe.customSourceName || recipe.customSourceUrl}](${recipe.customSourceUrl})`
+    : recipe.customSourceName
+      ? `**Source:** ${recipe.customSourceName}`
+      : null;
+  const fields = [...(source ? [source] : []), ...bakeLine(recipe)];
+
+  const lines = [
+    `# ${recipe.name}`,
+    '',
+    ...(fields.length > 0 ? [fields.join('  \n'), ''] : []),
+    '## Ingredients',
+    '',
+    ...recipe.ingredients.map(ingredientItem),
+    '',
+    ...(recipe.prepNotes ? ['## Method', '', escapeText(recipe.prepNotes), ''] : []),
+    ...variants.flatMap(variantSection),
+  ];
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+// Reading
+
+function readIngredient(item: string): Ingredient | null {
+  const bold = item.match(/^\*\*(.+?)\*\*\s*(.*)$/);
+  if (!bold) {
+    return parseIngredientLine(item);
+  }
+
+  const [, amount, name] = bold;
+  if (!name.trim()) return null;
+  const quantity = amount.match(/^(\d+(?:\.\d+)?)(?:\s+(.*))?$/);
+  if (quantity) {
+    return { name: name.trim(), quantity: Number(quantity[1]), unit: quantity[2]?.trim() ?? '' };
+  }
+  // Other apps' cards may bold a written amount such as "1 1/2 cups"
+  return /^[\d½⅓⅔¼¾⅛⅜⅝⅞]/.test(amount)
+    ? parseIngredientLine(`${amount} ${name}`)
+    : { name: name.trim(), quantity: 0, unit: amount.trim() };
+}
+
+const LIST_ITEM = /^\s*[-*+]\s+(.*)$/;
+const FIELD = /^\*\*(source|bake):\*\*\s*(.*?)\s*$/i;
+
+function readFields(lines: string[]): { bake: BakeSettings; source: { name?: string; url?: string } } {
+  let bake: BakeSettings = {};
+  let source: { name?: string; url?: string } = {};
+  for (const line of lines) {
+    const field = line.match(FIELD);
+    if (field?.[1].toLowerCase() === 'bake') {
+      bake = parseBakeSettings(field[2]) ?? bake;
+    } else if (field) {
+      const link = field[2].match(/^\[(.*)\]\((.*)\)$/);
+      source = link ? { name: link[1], url: link[2] } : { name: field[2] };
+    }
+  }
+  return { bake, source };
+}
+
+function readVariant(name: string, lines: string[]): CreateVariantRequest {
+  const { bake } = readFields(lines);
+  const ingredientOverrides: Ingredient[] = [];
+  const noteLines: string[] = [];
+  for (const line of lines) {
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ingredient = readIngredient(item[1]);
+      if (ingredient) ingredientOverrides.push(ingredient);
+    } else if (!FIELD.test(line)) {
+      noteLines.push(line);
+    }
+  }
+  const notes = unescapeText(noteLines);
+  return { name, ingredientOverrides, ...bake, ...(notes ? { notes } : {}) };
+}
+
+function readRecipe(name: string, lines: string[]): PortableRecipe {
+  // The lines under each "## " heading; the ones before the first heading hold the fields
+  const sections: { heading: string; lines: string[] }[] = [{ heading: '', lines: [] }];
+  for (const line of lines) {
+    const heading = line.match(/^##\s+(.*?)(?:\s+#+)?\s*$/);
+    if (heading) {
+      sections.push({ heading: heading[1], lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  const { bake, source } = readFields(sections[0].lines);
+  const ingredients = sections
+    .filter((section) => /^ingredients$/i.test(section.heading))
+    .flatMap((section) => section.lines.map((line) => line.match(LIST_ITEM)?.[1]))
+    .map((item) => (item ? readIngredient(item) : null))
+    .filter((ingredient): ingredient is Ingredient => ingredient !== null);
+  const prepNotes = unescapeText(
+    sections.filter((section) => METHOD_HEADINGS.test(section.heading)).flatMap((section) => section.lines)
+  );
+
+  return {
+    recipe: {
+      name,
+      ingredients,
+      ...(prepNotes ? { prepNotes } : {}),
+      ...bake,
+      ...(source.name ? { customSourceName: source.name } : {}),
+      ...(source.url ? { customSourceUrl: source.url } : {}),
+    },
+    variants: sections.flatMap((section) => {
+      const variant = section.heading.match(VARIANT_HEADING);
+      return variant ? [readVariant(variant[1], section.lines)] : [];
+    }),
+  };
+}
+
+// Each "# " title starts a recipe; sections other than ingredients, method and variants are skipped
+export function parseMarkdown(content: string): PortableRecipe[] {
+  const recipes: { name: string; lines: string[] }[] = [];
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const title = line.match(/^#\s+(.*?)(?:\s+#+)?\s*$/);
+    if (title) {
+      recipes.push({ name: title[1], lines: [] });
+    } else {
+      recipes[recipes.length - 1]?.lines.push(line);
+    }
+  }
+  return recipes.map(({ name, lines }) => readRecipe(name, lines));
+}
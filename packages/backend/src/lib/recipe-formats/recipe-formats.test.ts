@@ -0,0 +1,198 @@
+/**
+ * Tests for writing recipes to interchange formats and reading them back
+ *
+ * Run with: npx jest src/lib/recipe-formats/recipe-formats.test.ts
+ */
+
+import { RECIPE_FORMATS, createRecipeRequestSchema, validate } from '@proofed/shared';
+import type { PortableRecipe } from '@proofed/shared';
+import { serializeRecipe, parseRecipes, recipeFileName } from '.';
+
+function victoriaSponge(): PortableRecipe {
+  return {
+    recipe: {
+      name: 'Victoria sponge',
+      ingredients: [
+        { name: 'self-raising flour', quantity: 225, unit: 'g' },
+        { name: 'vanilla extract', quantity: 1.5, unit: 'tsp' },
+        { name: 'milk', quantity: 2, unit: 'fl oz' },
+        { name: 'large eggs', quantity: 4, unit: '' },
+        { name: 'salt', quantity: 0, unit: 'pinch' },
+        { name: 'icing sugar, to dust', quantity: 0, unit: '' },
+      ],
+      prepNotes: [
+        'Heat the oven to 180°C and grease 2 x 8" tins.',
+        '# not a heading -- and not a comment',
+        '- not an ingredient, @not an ingredient either',
+        '',
+        'Bake: until golden, then [-cool-] on a rack. {Really.}',
+      ].join('\n'),
+      bakeTime: 25,
+      bakeTemp: 180,
+      bakeTempUnit: 'C',
+      customSourceName: 'Cupcake Jemma',
+      customSourceUrl: 'cupcakejemma.com',
+    },
+    variants: [
+      {
+        name: 'Chocolate',
+        ingredientOverrides: [
+          { name: 'cocoa powder', quantity: 30, unit: 'g' },
+          { name: 'self-raising flour', quantity: 195, unit: 'g' },
+        ],
+        bakeTime: 28,
+        bakeTemp: 350,
+        bakeTempUnit: 'F',
+        notes: 'Sift the cocoa with the flour.\n- Keep an eye on it after 25 min',
+      },
+      {
+        name: 'Mini',
+        ingredientOverrides: [],
+        bakeTime: 12,
+      },
+    ],
+  };
+}
+
+describe('round trips', () => {
+  it.each(RECIPE_FORMATS)('%s keeps ingredients, bake settings, notes and variants', (format) => {
+    const original = victoriaSponge();
+
+    const [parsed, ...rest] = parseRecipes(format, serializeRecipe(format, original));
+
+    expect(rest).toHaveLength(0);
+    expect(parsed).toEqual(original);
+    expect(validate(createRecipeRequestSchema, parsed.recipe).valid).toBe(true);
+  });
+
+  it('json-ld also keeps the container and custom scales', () => {
+    const original = victoriaSponge();
+    original.recipe.container = { type: 'round_cake_tin', size: 8, count: 2 };
+    original.recipe.customScales = [0.5, 1.5];
+
+    expect(parseRecipes('json-ld', serializeRecipe('json-ld', original))).toEqual([original]);
+  });
+
+  it.each(RECIPE_FORMATS)('%s reads a recipe without optional fields', (format) => {
+    const original: PortableRecipe = {
+      recipe: { name: 'Shortbread', ingredients: [{ name: 'butter', quantity: 0.25, unit: 'lb' }] },
+      variants: [],
+    };
+
+    expect(parseRecipes(format, serializeRecipe(format, original))).toEqual([original]);
+  });
+});
+
+describe('reading files from other apps', () => {
+  it('reads schema.org recipes from a JSON-LD graph', () => {
+    const content = JSON.stringify({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'WebPage', name: 'Brownies' },
+        {
+          '@type': 'Recipe',
+          name: 'Brownies',
+          recipeIngredient: ['200g dark chocolate', '1 1/2 cups sugar', '3 eggs'],
+          recipeInstructions: [
+            { '@type': 'HowToStep', text: 'Heat the oven to 350°F.' },
+            { '@type': 'HowToStep', text: 'Melt, mix and bake.' },
+          ],
+          cookTime: 'PT30M',
+          isBasedOn: 'https://brownies.example/recipe',
+        },
+      ],
+    });
+
+    expect(parseRecipes('json-ld', content)).toEqual([
+      {
+        recipe: {
+          name: 'Brownies',
+          ingredients: [
+            { name: 'dark chocolate', quantity: 200, unit: 'g' },
+            { name: 'sugar', quantity: 1.5, unit: 'cup' },
+            { name: 'eggs', quantity: 3, unit: '' },
+          ],
+          prepNotes: 'Heat the oven to 350°F.\nMelt, mix and bake.',
+          bakeTime: 30,
+          bakeTemp: 350,
+          bakeTempUnit: 'F',
+          customSourceName: 'https://brownies.example/recipe',
+          customSourceUrl: 'https://brownies.example/recipe',
+        },
+        variants: [],
+      },
+    ]);
+  });
+
+  it('reads Cooklang with ingredients inside the steps', () => {
+    const content = [
+      '>> title: Pancakes',
+      '>> source: https://pancakes.example',
+      '>> cook time: 10 min',
+      '',
+      '-- makes about 8',
+      'Crack @eggs{3} into a bowl and whisk with @milk{250%ml}.',
+      '',
+      'Fold in @plain flour{125%g} and a pinch of @salt, then rest for ~{20%minutes}.',
+      '[- serve warm -]',
+    ].join('\n');
+
+    expect(parseRecipes('cooklang', content)).toEqual([
+      {
+        recipe: {
+          name: 'Pancakes',
+          ingredients: [
+            { name: 'eggs', quantity: 3, unit: '' },
+            { name: 'milk', quantity: 250, unit: 'ml' },
+            { name: 'plain flour', quantity: 125, unit: 'g' },
+            { name: 'salt', quantity: 0, unit: '' },
+          ],
+          prepNotes:
+            'Crack eggs into a bowl and whisk with milk.\n\nFold in plain flour and a pinch of salt, then rest for 20 minutes.',
+          bakeTime: 10,
+          customSourceName: 'https://pancakes.example',
+          customSourceUrl: 'https://pancakes.example',
+        },
+        variants: [],
+      },
+    ]);
+  });
+
+  it('reads each title of a Markdown file as its own recipe', () => {
+    const content = [
+      '# Scones',
+      '',
+      '## Ingredients',
+      '',
+      '* 350g self-raising flour',
+      '* ¼ tsp salt',
+      '',
+      '## Directions',
+      '',
+      'Rub in the butter.',
+      '',
+      '# Jam',
+      '',
+      '## Ingredients',
+      '',
+      '- 1 kg strawberries',
+    ].join('\n');
+
+    const recipes = parseRecipes('markdown', content);
+
+    expect(recipes.map(({ recipe }) => recipe.name)).toEqual(['Scones', 'Jam']);
+    expect(recipes[0].recipe.ingredients).toEqual([
+      { name: 'self-raising flour', quantity: 350, unit: 'g' },
+      { name: 'salt', quantity: 0.25, unit: 'tsp' },
+    ]);
+    expect(recipes[0].recipe.prepNotes).toBe('Rub in the butter.');
+    expect(recipes[1].recipe.ingredients).toEqual([{ name: 'strawberries', quantity: 1, unit: 'kg' }]);
+  });
+});
+
+describe('recipeFileName', () => {
+  it('makes a file name from the recipe name', () => {
+    expect(recipeFileName('cooklang', 'Crème brûlée (for 6)')).toBe('creme-brulee-for-6.cook');
+    expect(recipeFileName('markdown', '!!!')).toBe('recipe.md');
+  });
+});
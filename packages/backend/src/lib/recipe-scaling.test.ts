@@ -0,0 +1,67 @@
+/**
+ * Tests for recipe scaling: variant overrides, rounded amounts and scale labels
+ *
+ * Run with: npx jest src/lib/recipe-scaling.test.ts
+ */
+
+import type { Ingredient, Variant } from '@proofed/shared';
+import { formatScaleFactor, mergeIngredients, scaleIngredients } from './recipe-scaling';
+
+const ingredients: Ingredient[] = [
+  { name: 'Flour', quantity: 225, unit: 'g' },
+  { name: 'Sugar', quantity: 175, unit: 'g' },
+  { name: 'Eggs', quantity: 3, unit: '' },
+];
+
+function variantWith(ingredientOverrides: Ingredient[]): Variant {
+  return {
+    userId: 'user-1',
+    variantId: 'variant-1',
+    recipeId: 'recipe-1',
+    itemId: 'item-1',
+    name: 'Lemon',
+    ingredientOverrides,
+    createdAt: '2026-10-01T10:00:00.000Z',
+    updatedAt: '2026-10-01T10:00:00.000Z',
+  };
+}
+
+describe('mergeIngredients', () => {
+  it('replaces ingredients with the same name in place and appends the rest', () => {
+    const variant = variantWith([
+      { name: 'Lemon zest', quantity: 2, unit: 'tsp' },
+      { name: 'Sugar', quantity: 150, unit: 'g' },
+    ]);
+
+    expect(mergeIngredients(ingredients, variant)).toEqual([
+      { name: 'Flour', quantity: 225, unit: 'g' },
+      { name: 'Sugar', quantity: 150, unit: 'g' },
+      { name: 'Eggs', quantity: 3, unit: '' },
+      { name: 'Lemon zest', quantity: 2, unit: 'tsp' },
+    ]);
+  });
+
+  it('leaves the recipe alone without a variant', () => {
+    expect(mergeIngredients(ingredients, null)).toBe(ingredients);
+  });
+});
+
+describe('scaleIngredients', () => {
+  it('rounds scaled amounts to 2 decimal places', () => {
+    const scaled = scaleIngredients([{ name: 'Baking powder', quantity: 1.5, unit: 'tsp' }, ...ingredients], 1 / 3);
+
+    expect(scaled.map((ingredient) => ingredient.quantity)).toEqual([0.5, 75, 58.33, 1]);
+    expect(scaled[1]).toEqual({ name: 'Flour', quantity: 75, unit: 'g' });
+  });
+});
+
+describe('formatScaleFactor', () => {
+  it('labels scales the way the apps do', () => {
+    expect(formatScaleFactor(1)).toBe('1×');
+    expect(formatScaleFactor(2)).toBe('×2');
+    expect(formatScaleFactor(1.5)).toBe('×1.5');
+    expect(formatScaleFactor(0.5)).toBe('÷2');
+    expect(formatScaleFactor(0.25)).toBe('÷4');
+    expect(formatScaleFactor(0.75)).toBe('×0.75');
+  });
+});
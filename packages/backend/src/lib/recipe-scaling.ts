@@ -0,0 +1,34 @@
+import type { Ingredient, Variant } from '@proofed/shared';
+
+/**
+ * Variant overrides replace the base ingredient with the same name; the rest are
+ * appended. The same rule the apps use when they show a variant.
+ */
+export function mergeIngredients(ingredients: Ingredient[], variant: Variant | null): Ingredient[] {
+  if (!variant) {
+    return ingredients;
+  }
+
+  const overrides = new Map(variant.ingredientOverrides.map((ingredient) => [ingredient.name, ingredient]));
+  const merged = ingredients.map((ingredient) => {
+    const override = overrides.get(ingredient.name);
+    overrides.delete(ingredient.name);
+    return override ?? ingredient;
+  });
+  return [...merged, ...overrides.values()];
+}
+
+// Rounded to 2 decimal places, like the apps, so a printed amount matches the screen
+export function scaleIngredients(ingredients: Ingredient[], scaleFactor: number): Ingredient[] {
+  return ingredients.map((ingredient) => ({
+    ...ingredient,
+    quantity: Math.round(ingredient.quantity * scaleFactor * 100) / 100,
+  }));
+}
+
+// "×2", "÷2" for a half, "1×" when unscaled; the labels the apps show
+export function formatScaleFactor(scaleFactor: number): string {
+  if (scaleFactor === 1) return '1×';
+  if (scaleFactor < 1 && Number.isInteger(1 / scaleFactor)) return `÷${1 / scaleFactor}`;
+  return `×${scaleFactor}`;
+}
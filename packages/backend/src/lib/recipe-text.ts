@@ -0,0 +1,168 @@
+// Recipe details written as plain text: ingredient lines, oven temperatures and bake summaries.
+// Used when reading recipes from other apps and sites, where nothing is structured, and when
+// naming the files recipes are exported to.
+import type { Ingredient } from '@proofed/shared';
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 1 / 4,
+  '¾': 3 / 4,
+  '⅛': 1 / 8,
+  '⅜': 3 / 8,
+  '⅝': 5 / 8,
+  '⅞': 7 / 8,
+};
+
+// Spellings of the units the apps offer, mapped to the form they store
+const UNIT_ALIASES: Record<string, string> = {
+  g: 'g',
+  gram: 'g',
+  grams: 'g',
+  kg: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  oz: 'oz',
+  ounce: 'oz',
+  ounces: 'oz',
+  lb: 'lb',
+  lbs: 'lb',
+  pound: 'lb',
+  pounds: 'lb',
+  ml: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  l: 'L',
+  liter: 'L',
+  liters: 'L',
+  litre: 'L',
+  litres: 'L',
+  tsp: 'tsp',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tbsp: 'tbsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  cup: 'cup',
+  cups: 'cup',
+  'fl oz': 'fl oz',
+  'fluid ounce': 'fl oz',
+  'fluid ounces': 'fl oz',
+  pinch: 'pinch',
+  pinches: 'pinch',
+  large: 'large',
+  medium: 'medium',
+  small: 'small',
+};
+
+// Longest first, so "fl oz" wins over a bare "fl"
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES)
+  .sort((a, b) => b.length - a.length)
+  .map((unit) => unit.replace(' ', '\\s+'))
+  .join('|');
+
+const FRACTION = /^(?:(\d+)\s+)?(\d+)\/(\d+)/;
+const DECIMAL = new RegExp(`^(\\d+(?:[.,]\\d+)?)?\\s*([${Object.keys(UNICODE_FRACTIONS).join('')}])?`);
+const UNIT = new RegExp(`^(${UNIT_PATTERN})\\.?(?=\\s|$)`, 'i');
+
+// "1 1/2", "1/2", "1½", "¾", "0.5", "1,5"; a range such as "2-3" keeps its first number
+function readQuantity(text: string): [number, string] {
+  let quantity = 0;
+  let matched = '';
+
+  const fraction = text.match(FRACTION);
+  const decimal = text.match(DECIMAL);
+  if (fraction && Number(fraction[3]) > 0) {
+    matched = fraction[0];
+    quantity = Number(fraction[1] ?? 0) + Number(fraction[2]) / Number(fraction[3]);
+  } else if (decimal && decimal[0].trim()) {
+    matched = decimal[0];
+    quantity = Number((decimal[1] ?? '0').replace(',', '.')) + (decimal[2] ? UNICODE_FRACTIONS[decimal[2]] : 0);
+  }
+
+  const rest = text.slice(matched.length).replace(/^\s*[-–]\s*\d+(?:[.,]\d+)?/, '');
+  return [Math.round(quantity * 1000) / 1000, rest.trim()];
+}
+
+/**
+ * Read "200g self-raising flour", "1 1/2 cups milk" or "pinch of salt" as an ingredient.
+ * Text that isn't a known unit stays in the name, so "2 eggs" has no unit.
+ */
+export function parseIngredientLine(line: string): Ingredient | null {
+  const text = line.trim().replace(/^[-*•]\s+/, '');
+  if (!text) return null;
+
+  const [quantity, afterQuantity] = readQuantity(text);
+  const unitMatch = afterQuantity.match(UNIT);
+  const unit = unitMatch ? UNIT_ALIASES[unitMatch[1].toLowerCase().replace(/\s+/g, ' ')] : '';
+  const name = (unitMatch ? afterQuantity.slice(unitMatch[0].length) : afterQuantity)
+    .trim()
+    .replace(/^of\s+/i, '');
+
+  // A line that is only an amount has nothing to name
+  if (!name) {
+    return unit ? null : { name: text, quantity: 0, unit: '' };
+  }
+  return { name, quantity, unit };
+}
+
+export function formatIngredientLine({ name, quantity, unit }: Ingredient): string {
+  return [quantity > 0 ? String(quantity) : '', unit, name].filter(Boolean).join(' ');
+}
+
+/**
+ * The oven temperature, which schema.org has no property for, taken from the first step
+ * that states one: "180°C", "350 degrees F", "190C (170C fan)". Bare numbers need a
+ * degree sign or word, or three digits, so "2 C" in an ingredient-like step doesn't match.
+ */
+export function findOvenTemperature(steps: string[]): { bakeTemp: number; bakeTempUnit: 'F' | 'C' } | undefined {
+  for (const step of steps) {
+    const match =
+      step.match(/(\d{2,3})\s*(?:°|º|˚|degrees?\s*)\s*(C|F)(?:elsius|ahrenheit)?(?![a-z])/i) ??
+      step.match(/(\d{3})\s*(C|F)(?![a-z])/i);
+    if (match) {
+      return { bakeTemp: Number(match[1]), bakeTempUnit: match[2].toUpperCase() as 'F' | 'C' };
+    }
+  }
+  return undefined;
+}
+
+export interface BakeSettings {
+  bakeTime?: number;
+  bakeTemp?: number;
+  bakeTempUnit?: 'F' | 'C';
+}
+
+// "25 min at 180°C", or whichever half is set; empty when neither is
+export function formatBakeSettings({ bakeTime, bakeTemp, bakeTempUnit }: BakeSettings): string {
+  const time = bakeTime ? `${bakeTime} min` : '';
+  const temp = bakeTemp ? `${bakeTemp}°${bakeTempUnit ?? 'F'}` : '';
+  return [time, temp].filter(Boolean).join(' at ');
+}
+
+// Reads what formatBakeSettings writes; returns null for anything else
+export function parseBakeSettings(text: string): BakeSettings | null {
+  const match = text
+    .trim()
+    .match(/^(?:(\d+(?:\.\d+)?)\s*min(?:utes?|s)?)?\s*(?:at\s*)?(?:(\d+(?:\.\d+)?)\s*°?\s*([CF]))?$/i);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+  return {
+    ...(match[1] ? { bakeTime: Number(match[1]) } : {}),
+    ...(match[2] ? { bakeTemp: Number(match[2]), bakeTempUnit: match[3].toUpperCase() as 'F' | 'C' } : {}),
+  };
+}
+
+// "Crème brûlée (for 6)" as "creme-brulee-for-6"; empty when nothing usable is left
+export function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
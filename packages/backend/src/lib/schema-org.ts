@@ -0,0 +1,280 @@
+// Reads schema.org structured data out of page HTML, as JSON-LD blocks or microdata.
+// Both come back in the JSON-LD shape, so callers only handle one form.
+
+export type SchemaValue = string | SchemaNode | SchemaValue[];
+
+export interface SchemaNode {
+  '@type'?: string | string[];
+  [property: string]: SchemaValue | undefined;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  deg: '°',
+  frac12: '½',
+  frac14: '¼',
+  frac34: '¾',
+  ndash: '–',
+  mdash: '—',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  hellip: '…',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(point) ? entity : String.fromCodePoint(point);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Visible text of an HTML fragment on one line
+export function htmlToText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// ISO 8601 durations such as PT1H15M or P0DT45M, in whole minutes
+export function parseDurationMinutes(duration: string): number | undefined {
+  const match = duration
+    .trim()
+    .match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match) return undefined;
+  const [, days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const total = Number(days) * 24 * 60 + Number(hours) * 60 + Number(minutes) + Number(seconds) / 60;
+  return Math.round(total) || undefined;
+}
+
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours ? `${hours}H` : ''}${rest || !hours ? `${rest}M` : ''}`;
+}
+
+function typesOf(node: SchemaNode): string[] {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  // "Recipe", "schema:Recipe" and "http://schema.org/Recipe" all name the same type
+  return types
+    .filter((type): type is string => typeof type === 'string')
+    .map((type) => type.slice(Math.max(type.lastIndexOf('/'), type.lastIndexOf(':')) + 1));
+}
+
+// Depth-first search through @graph lists, arrays and nested properties
+function findTyped(value: unknown, type: string): SchemaNode | null {
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const found = findTyped(entry, type);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const node = value as SchemaNode;
+  if (typesOf(node).includes(type)) {
+    return node;
+  }
+  for (const child of Object.values(node)) {
+    const found = findTyped(child, type);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Every node of the given type in parsed JSON-LD; a match's own properties aren't searched further
+export function findSchemaNodes(value: unknown, type: string): SchemaNode[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => findSchemaNodes(entry, type));
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+
+  const node = value as SchemaNode;
+  if (typesOf(node).includes(type)) {
+    return [node];
+  }
+  return Object.values(node).flatMap((child) => findSchemaNodes(child, type));
+}
+
+function jsonLdBlocks(html: string): unknown[] {
+  const blocks: unknown[] = [];
+  const scripts = html.matchAll(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi);
+
+  for (const [, body] of scripts) {
+    try {
+      blocks.push(JSON.parse(body.trim()));
+    } catch {
+      // Sites ship broken JSON-LD often enough that one bad block shouldn't stop the search
+    }
+  }
+  return blocks;
+}
+
+// Microdata
+
+interface Element {
+  tag: string;
+  attrs: Record<string, string>;
+  children: (Element | string)[];
+}
+
+// Elements that never have a closing tag
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted, bare] of source.matchAll(
+    /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+  )) {
+    attrs[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted ?? bare ?? '');
+  }
+  return attrs;
+}
+
+// A forgiving tree builder: enough structure for microdata, not a conforming HTML parser
+function parseHtml(html: string): Element {
+  const root: Element = { tag: '#root', attrs: {}, children: [] };
+  const stack = [root];
+  const tokens = html.matchAll(/<!--[\s\S]*?-->|<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>|<(\/?)([a-zA-Z][\w:-]*)([^>]*)>|[^<]+|</g);
+
+  for (const [token, rawTextTag, closing, tagName, attrSource] of tokens) {
+    const parent = stack[stack.length - 1];
+    if (rawTextTag || token.startsWith('<!--')) {
+      continue;
+    }
+    if (!tagName) {
+      parent.children.push(token);
+      continue;
+    }
+
+    const tag = tagName.toLowerCase();
+    if (closing) {
+      // Close back to the matching element; a stray closing tag is ignored
+      const index = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: Element = { tag, attrs: parseAttributes(attrSource), children: [] };
+    parent.children.push(element);
+    if (!VOID_TAGS.has(tag) && !attrSource.trim().endsWith('/')) {
+      stack.push(element);
+    }
+  }
+  return root;
+}
+
+// Elements that start a new line, so text such as a method written as paragraphs keeps its breaks
+const BLOCK_TAGS = new Set(['br', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'ol', 'p', 'section', 'tr', 'ul']);
+
+function textContent(element: Element): string {
+  return element.children
+    .map((child) => {
+      if (typeof child === 'string') return child.replace(/\s+/g, ' ');
+      const text = textContent(child);
+      return BLOCK_TAGS.has(child.tag) ? `\n${text}\n` : text;
+    })
+    .join('');
+}
+
+function textLines(element: Element): string {
+  return decodeEntities(textContent(element))
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function itemPropValue(element: Element): SchemaValue {
+  if ('itemscope' in element.attrs) {
+    return readItem(element);
+  }
+  const { attrs } = element;
+  const value =
+    attrs.content ??
+    (element.tag === 'time' ? attrs.datetime : undefined) ??
+    (['a', 'link', 'area'].includes(element.tag) ? attrs.href : undefined) ??
+    (['img', 'source', 'audio', 'video'].includes(element.tag) ? attrs.src : undefined);
+  return value !== undefined ? value.replace(/\s+/g, ' ').trim() : textLines(element);
+}
+
+// An itemscope element's properties; nested items are read on their own and not searched here
+function readItem(scope: Element): SchemaNode {
+  const node: SchemaNode = {};
+  if (scope.attrs.itemtype) {
+    node['@type'] = scope.attrs.itemtype.split(/\s+/);
+  }
+
+  const visit = (element: Element) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      if (child.attrs.itemprop) {
+        const value = itemPropValue(child);
+        for (const property of child.attrs.itemprop.split(/\s+/)) {
+          const existing = node[property];
+          node[property] = existing === undefined ? value : ([] as SchemaValue[]).concat(existing, [value]);
+        }
+      }
+      if (!('itemscope' in child.attrs)) {
+        visit(child);
+      }
+    }
+  };
+  visit(scope);
+  return node;
+}
+
+function microdataItems(html: string): SchemaNode[] {
+  const items: SchemaNode[] = [];
+  const visit = (element: Element) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      // Items with an itemprop are a property of the item around them, not items of their own
+      if ('itemscope' in child.attrs && !child.attrs.itemprop) {
+        items.push(readItem(child));
+      }
+      visit(child);
+    }
+  };
+  visit(parseHtml(html));
+  return items;
+}
+
+/**
+ * The first node of the given schema.org type on the page. JSON-LD is preferred because
+ * it is usually the more complete of the two when a page has both.
+ */
+export function findSchemaNode(html: string, type: string): SchemaNode | null {
+  return findTyped(jsonLdBlocks(html), type) ?? findTyped(microdataItems(html), type);
+}
+
+// An attribute of the first <meta> or <link> tag where `key` is `value`, e.g. the href of rel=canonical
+export function findTagAttribute(
+  html: string,
+  tag: 'meta' | 'link',
+  key: string,
+  value: string,
+  attribute: string
+): string | undefined {
+  for (const [source] of html.matchAll(new RegExp(`<${tag}\\b[^>]*>`, 'gi'))) {
+    const attrs = parseAttributes(source.slice(tag.length + 1, -1));
+    if (attrs[key]?.toLowerCase() === value && attrs[attribute]) {
+      return attrs[attribute];
+    }
+  }
+  return undefined;
+}
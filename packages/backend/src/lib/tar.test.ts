@@ -0,0 +1,109 @@
+/**
+ * Tests for the ustar writer and reader used by account exports and imports
+ *
+ * Run with: npx jest src/lib/tar.test.ts
+ */
+
+import { createTar, readTar } from './tar';
+import type { TarEntry } from './tar';
+
+const MODIFIED_AT = new Date('2026-10-01T10:00:00.000Z');
+
+async function archive(entries: Iterable<TarEntry> | AsyncIterable<TarEntry>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of createTar(entries, MODIFIED_AT)) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function field(block: Buffer, offset: number, length: number): string {
+  return block.subarray(offset, offset + length).toString('utf8').replace(/\0.*$/s, '');
+}
+
+describe('createTar', () => {
+  it('writes a header and a padded body for each file', async () => {
+    const tar = await archive([{ path: 'manifest.json', body: Buffer.from('{"items":[]}') }]);
+
+    // One header block, one body block, two end blocks
+    expect(tar.length).toBe(512 * 4);
+    const header = tar.subarray(0, 512);
+    expect(field(header, 0, 100)).toBe('manifest.json');
+    expect(parseInt(field(header, 124, 12), 8)).toBe(12);
+    expect(parseInt(field(header, 136, 12), 8)).toBe(MODIFIED_AT.getTime() / 1000);
+    expect(field(header, 257, 6)).toBe('ustar');
+    expect(tar.subarray(512, 524).toString()).toBe('{"items":[]}');
+    expect(tar.subarray(524).every((byte) => byte === 0)).toBe(true);
+  });
+
+  it('checksums each header the way tar readers verify it', async () => {
+    const header = (await archive([{ path: 'a.txt', body: Buffer.from('a') }])).subarray(0, 512);
+
+    const expected = [...header].reduce((sum, byte, i) => sum + (i >= 148 && i < 156 ? 32 : byte), 0);
+    expect(parseInt(field(header, 148, 8), 8)).toBe(expected);
+  });
+
+  it('moves the directories of a long path into the prefix field', async () => {
+    const path = `photos/attempts/${'a'.repeat(60)}/${'b'.repeat(60)}.jpg`;
+
+    const header = (await archive([{ path, body: Buffer.alloc(0) }])).subarray(0, 512);
+
+    expect(field(header, 345, 155)).toBe(`photos/attempts/${'a'.repeat(60)}`);
+    expect(field(header, 0, 100)).toBe(`${'b'.repeat(60)}.jpg`);
+  });
+
+  it('writes entries as an async source yields them', async () => {
+    async function* entries(): AsyncGenerator<TarEntry> {
+      yield { path: 'one.txt', body: Buffer.alloc(512, 1) };
+      yield { path: 'two.txt', body: Buffer.alloc(513, 2) };
+    }
+
+    const tar = await archive(entries());
+
+    expect(tar.length).toBe(512 * (2 + 3 + 2));
+    expect(field(tar.subarray(1024, 1536), 0, 100)).toBe('two.txt');
+  });
+
+  it('refuses a path that cannot fit in a header', async () => {
+    await expect(archive([{ path: 'x'.repeat(120), body: Buffer.alloc(0) }])).rejects.toThrow('Path is too long');
+  });
+});
+
+describe('readTar', () => {
+  async function read(source: AsyncIterable<Uint8Array>): Promise<TarEntry[]> {
+    const entries: TarEntry[] = [];
+    for await (const entry of readTar(source)) {
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  // Hands the archive over a few bytes at a time, the way a download arrives
+  async function* inChunks(archive: Buffer, size: number): AsyncGenerator<Buffer> {
+    for (let offset = 0; offset < archive.length; offset += size) {
+      yield archive.subarray(offset, offset + size);
+    }
+  }
+
+  it('reads back what createTar wrote, however the bytes are split', async () => {
+    const entries = [
+      { path: 'manifest.json', body: Buffer.from('{"items":[]}') },
+      { path: `photos/attempts/${'a'.repeat(60)}/${'b'.repeat(60)}.jpg`, body: Buffer.alloc(1500, 7) },
+      { path: 'empty.txt', body: Buffer.alloc(0) },
+    ];
+    const tar = await archive(entries);
+
+    expect(await read(inChunks(tar, 100))).toEqual(entries);
+    expect(await read(inChunks(tar, tar.length))).toEqual(entries);
+  });
+
+  it('rejects a file that is not a tar archive', async () => {
+    await expect(read(inChunks(Buffer.alloc(1024, 'x'), 1024))).rejects.toThrow('Not a tar archive');
+  });
+
+  it('rejects an archive that stops part way through', async () => {
+    const tar = await archive([{ path: 'photo.jpg', body: Buffer.alloc(2000) }]);
+
+    await expect(read(inChunks(tar.subarray(0, 1024), 512))).rejects.toThrow('ends part way through');
+  });
+});
@@ -0,0 +1,153 @@
+import { Readable } from 'stream';
+
+// Minimal ustar writer and reader for account export archives. Only regular files are
+// supported, which is all an export needs; every tool that reads tar can open it.
+
+const BLOCK_SIZE = 512;
+
+export interface TarEntry {
+  path: string;
+  body: Buffer;
+}
+
+function writeString(header: Buffer, value: string, offset: number, length: number): void {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+// Numeric header fields are zero-padded octal followed by a NUL
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  writeString(header, value.toString(8).padStart(length - 1, '0'), offset, length - 1);
+}
+
+// ustar names are limited to 100 bytes, with up to 155 more in the prefix field
+function splitPath(path: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(path) <= 100) {
+    return { name: path, prefix: '' };
+  }
+  for (let i = path.indexOf('/'); i !== -1; i = path.indexOf('/', i + 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { name, prefix };
+    }
+  }
+  throw new Error(`Path is too long for a tar archive: ${path}`);
+}
+
+function header(entry: TarEntry, mtime: number): Buffer {
+  const block = Buffer.alloc(BLOCK_SIZE);
+  const { name, prefix } = splitPath(entry.path);
+
+  writeString(block, name, 0, 100);
+  writeOctal(block, 0o644, 100, 8);          // mode
+  writeOctal(block, 0, 108, 8);              // uid
+  writeOctal(block, 0, 116, 8);              // gid
+  writeOctal(block, entry.body.length, 124, 12);
+  writeOctal(block, mtime, 136, 12);
+  block.fill(' ', 148, 156);                 // checksum is computed with this field as spaces
+  writeString(block, '0', 156, 1);           // regular file
+  writeString(block, 'ustar\u000000', 257, 8);
+  writeString(block, prefix, 345, 155);
+
+  let checksum = 0;
+  for (const byte of block) {
+    checksum += byte;
+  }
+  writeString(block, checksum.toString(8).padStart(6, '0') + '\u0000 ', 148, 8);
+
+  return block;
+}
+
+function* entryChunks(entry: TarEntry, mtime: number): Generator<Buffer> {
+  yield header(entry, mtime);
+  yield entry.body;
+  const padding = (BLOCK_SIZE - (entry.body.length % BLOCK_SIZE)) % BLOCK_SIZE;
+  if (padding > 0) {
+    yield Buffer.alloc(padding);
+  }
+}
+
+/**
+ * A tar archive of `entries`, written out as they arrive, so an archive of any size only
+ * ever holds one entry in memory.
+ */
+export function createTar(
+  entries: Iterable<TarEntry> | AsyncIterable<TarEntry>,
+  modifiedAt: Date = new Date()
+): Readable {
+  const mtime = Math.floor(modifiedAt.getTime() / 1000);
+
+  async function* chunks(): AsyncGenerator<Buffer> {
+    for await (const entry of entries) {
+      yield* entryChunks(entry, mtime);
+    }
+    // Two empty blocks mark the end of the archive
+    yield Buffer.alloc(BLOCK_SIZE * 2);
+  }
+
+  return Readable.from(chunks(), { objectMode: false });
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+/**
+ * The regular files in a tar archive, read from `source` as they arrive so only one file is
+ * held in memory at a time. Directories, links and the extended headers other tar tools add
+ * are skipped.
+ */
+export async function* readTar(
+  source: Iterable<Uint8Array> | AsyncIterable<Uint8Array>
+): AsyncGenerator<TarEntry> {
+  let chunks: Buffer[] = [];
+  let length = 0;
+
+  // Removes and returns the next `count` bytes, copying each byte only once
+  const take = (count: number): Buffer => {
+    const all = Buffer.concat(chunks, length);
+    chunks = [all.subarray(count)];
+    length -= count;
+    return all.subarray(0, count);
+  };
+
+  let next: { path: string; size: number; isFile: boolean } | null = null;
+
+  for await (const chunk of source) {
+    chunks.push(Buffer.from(chunk));
+    length += chunk.length;
+
+    for (;;) {
+      if (!next) {
+        if (length < BLOCK_SIZE) break;
+        const block = take(BLOCK_SIZE);
+        if (block.every((byte) => byte === 0)) {
+          return;
+        }
+        if (readString(block, 257, 5) !== 'ustar') {
+          throw new Error('Not a tar archive');
+        }
+        const name = readString(block, 0, 100);
+        const prefix = readString(block, 345, 155);
+        const type = readString(block, 156, 1);
+        next = {
+          path: prefix ? `${prefix}/${name}` : name,
+          size: parseInt(readString(block, 124, 12).trim() || '0', 8),
+          isFile: type === '0' || type === '',
+        };
+      }
+
+      const padded = Math.ceil(next.size / BLOCK_SIZE) * BLOCK_SIZE;
+      if (length < padded) break;
+      const body = take(padded);
+      if (next.isFile) {
+        yield { path: next.path, body: Buffer.from(body.subarray(0, next.size)) };
+      }
+      next = null;
+    }
+  }
+
+  throw new Error('The archive ends part way through');
+}
@@ -0,0 +1,127 @@
+/**
+ * Tests for the shared request schemas and the error bodies the API answers with
+ *
+ * Run with: npx jest src/validation.test.ts
+ */
+
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitedError,
+  UnauthorizedError,
+  UpstreamAiFailureError,
+  ValidationError,
+  createItemRequestSchema,
+  createRecipeRequestSchema,
+  formatFieldErrors,
+  updateRecipeRequestSchema,
+  validate,
+} from '@proofed/shared';
+
+function errorsFor(result: ReturnType<typeof validate>) {
+  return result.valid ? [] : result.errors;
+}
+
+describe('request schemas', () => {
+  it('keeps only the keys the schema knows about', () => {
+    const result = validate(createItemRequestSchema, { name: 'Sponge', type: 'batter', userId: 'someone-else' });
+
+    expect(result).toEqual({ valid: true, value: { name: 'Sponge', type: 'batter' } });
+  });
+
+  it('reports missing, empty and mistyped fields by name', () => {
+    expect(errorsFor(validate(createItemRequestSchema, { name: '  ', type: 'pie', notes: 3 }))).toEqual([
+      { field: 'name', message: 'must not be empty' },
+      { field: 'type', message: 'must be one of: batter, frosting, filling, dough, glaze, other' },
+      { field: 'notes', message: 'must be a string' },
+    ]);
+    expect(errorsFor(validate(createItemRequestSchema, {}))).toEqual([
+      { field: 'name', message: 'is required' },
+      { field: 'type', message: 'is required' },
+    ]);
+  });
+
+  it('points into nested lists and objects', () => {
+    const result = validate(createRecipeRequestSchema, {
+      name: 'Victoria sponge',
+      ingredients: [
+        { name: 'flour', quantity: 200, unit: 'g' },
+        { name: 'eggs', quantity: -1, unit: '' },
+      ],
+      container: { type: 'round_cake_tin', count: 1.5 },
+    });
+
+    expect(errorsFor(result)).toEqual([
+      { field: 'ingredients[1].quantity', message: 'must be at least 0' },
+      { field: 'container.count', message: 'must be a whole number' },
+    ]);
+  });
+
+  it('lets updates clear an attribute with null, but not a create', () => {
+    expect(validate(updateRecipeRequestSchema, { bakeTime: null })).toEqual({ valid: true, value: { bakeTime: null } });
+    expect(errorsFor(validate(createRecipeRequestSchema, { name: 'Sponge', ingredients: [], bakeTime: null }))).toEqual(
+      [{ field: 'bakeTime', message: 'must be a number' }]
+    );
+  });
+
+  it('describes a body that is not an object as the body', () => {
+    expect(errorsFor(validate(createItemRequestSchema, ['Sponge']))).toEqual([
+      { field: 'body', message: 'must be an object' },
+    ]);
+  });
+
+  it('formats one line per problem', () => {
+    expect(
+      formatFieldErrors([
+        { field: 'name', message: 'is required' },
+        { field: 'ingredients[0].unit', message: 'must be a string' },
+      ])
+    ).toBe('name is required\ningredients[0].unit must be a string');
+  });
+});
+
+describe('error responses', () => {
+  it('carries the failing fields of a validation error', () => {
+    const result = validate(createItemRequestSchema, { name: '', type: 'batter' });
+    const error = new ValidationError('Invalid request body', errorsFor(result));
+
+    expect(error.statusCode).toBe(400);
+    expect(error.toResponse()).toEqual({
+      error: 'Invalid request body',
+      code: 'VALIDATION_FAILED',
+      fields: [{ field: 'name', message: 'must not be empty' }],
+    });
+  });
+
+  it('gives each error its status and code', () => {
+    const errors = [
+      new NotFoundError('Recipe'),
+      new UnauthorizedError(),
+      new ForbiddenError(),
+      new UpstreamAiFailureError(),
+    ];
+
+    expect(errors.map((error) => [error.statusCode, error.toResponse()])).toEqual([
+      [404, { error: 'Recipe not found', code: 'NOT_FOUND' }],
+      [401, { error: 'Unauthorized', code: 'UNAUTHORIZED' }],
+      [403, { error: 'Forbidden', code: 'FORBIDDEN' }],
+      [502, { error: 'The AI service failed to respond', code: 'UPSTREAM_AI_FAILURE' }],
+    ]);
+  });
+
+  it('returns the stored copy with a conflict and the wait with a rate limit', () => {
+    const current = { recipeId: 'recipe-1', version: 3 };
+
+    expect(new ConflictError('Recipe has changed', current).toResponse()).toEqual({
+      error: 'Recipe has changed',
+      code: 'CONFLICT',
+      current,
+    });
+    expect(new RateLimitedError('Too many requests', 60).toResponse()).toEqual({
+      error: 'Too many requests',
+      code: 'RATE_LIMITED',
+      retryAfterSeconds: 60,
+    });
+  });
+});
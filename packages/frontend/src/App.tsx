@@ -8,6 +8,7 @@ import NewAttemptPage from './pages/NewAttemptPage';
 import AttemptDetailPage from './pages/AttemptDetailPage';
 import ProofedItemsPage from './pages/ProofedItemsPage';
 import ProofedItemDetailPage from './pages/ProofedItemDetailPage';
+import SharedPage from './pages/SharedPage';
 
 function BottomNav() {
   const location = useLocation();
@@ -55,6 +56,10 @@ function BottomNav() {
 }
 
 export default function App() {
+  const location = useLocation();
+  // People opening a shared link don't have the rest of the app
+  const isSharedView = location.pathname.startsWith('/shared/');
+
   return (
     <div className="min-h-screen bg-bg-light pb-24">
       <Routes>
@@ -66,8 +71,9 @@ export default function App() {
         <Route path="/attempts/:attemptId" element={<AttemptDetailPage />} />
         <Route path="/proofed" element={<ProofedItemsPage />} />
         <Route path="/proofed/:proofedItemId" element={<ProofedItemDetailPage />} />
+        <Route path="/shared/:token" element={<SharedPage />} />
       </Routes>
-      <BottomNav />
+      {!isSharedView && <BottomNav />}
     </div>
   );
 }
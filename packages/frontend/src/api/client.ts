@@ -18,6 +18,9 @@ import type {
   PhotoUploadResponse,
   PhotoDownloadRequest,
   PhotoDownloadResponse,
+  PagedResponse,
+  Share,
+  SharedSnapshot,
 } from '@proofed/shared';
 import {
   mockItemsApi,
@@ -26,6 +29,7 @@ import {
   mockAttemptsApi,
   mockProofedItemsApi,
   mockPhotosApi,
+  mockSharesApi,
 } from './mock';
 
 const API_BASE = import.meta.env.VITE_API_URL;
@@ -52,11 +56,44 @@ async function request<T>(path: string, options?: RequestInit): Promise<T> {
   return response.json();
 }
 
+export interface DownloadedFile {
+  blob: Blob;
+  fileName: string;
+}
+
+// Binary responses such as PDFs, named by the server's Content-Disposition header
+async function requestFile(path: string, fallbackName: string): Promise<DownloadedFile> {
+  const response = await fetch(`${API_BASE}${path}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || 'Request failed');
+  }
+
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+  return { blob: await response.blob(), fileName };
+}
+
+// List routes are paged; follow nextCursor until the whole collection has been fetched
+async function requestAllPages<T>(path: string): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await request<PagedResponse<T>>(
+      cursor ? `${path}?cursor=${encodeURIComponent(cursor)}` : path
+    );
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+}
+
 // Items
 export const itemsApi = USE_MOCK
   ? mockItemsApi
   : {
-      list: () => request<{ items: Item[] }>('/items').then((r) => r.items),
+      list: () => requestAllPages<Item>('/items'),
       get: (itemId: string) => request<Item>(`/items/${itemId}`),
       create: (data: CreateItemRequest) =>
         request<Item>('/items', { method: 'POST', body: JSON.stringify(data) }),
@@ -69,8 +106,7 @@ export const itemsApi = USE_MOCK
 export const recipesApi = USE_MOCK
   ? mockRecipesApi
   : {
-      list: (itemId: string) =>
-        request<{ items: Recipe[] }>(`/items/${itemId}/recipes`).then((r) => r.items),
+      list: (itemId: string) => requestAllPages<Recipe>(`/items/${itemId}/recipes`),
       get: (itemId: string, recipeId: string) =>
         request<Recipe>(`/items/${itemId}/recipes/${recipeId}`),
       create: (itemId: string, data: CreateRecipeRequest) =>
@@ -92,9 +128,7 @@ export const variantsApi = USE_MOCK
   ? mockVariantsApi
   : {
       list: (itemId: string, recipeId: string) =>
-        request<{ items: Variant[] }>(
-          `/items/${itemId}/recipes/${recipeId}/variants`
-        ).then((r) => r.items),
+        requestAllPages<Variant>(`/items/${itemId}/recipes/${recipeId}/variants`),
       get: (itemId: string, recipeId: string, variantId: string) =>
         request<Variant>(`/items/${itemId}/recipes/${recipeId}/variants/${variantId}`),
       create: (itemId: string, recipeId: string, data: CreateVariantRequest) =>
@@ -122,7 +156,7 @@ export const variantsApi = USE_MOCK
 export const attemptsApi = USE_MOCK
   ? mockAttemptsApi
   : {
-      list: () => request<{ items: Attempt[] }>('/attempts').then((r) => r.items),
+      list: () => requestAllPages<Attempt>('/attempts'),
       get: (attemptId: string) => request<Attempt>(`/attempts/${attemptId}`),
       create: (data: CreateAttemptRequest) =>
         request<Attempt>('/attempts', { method: 'POST', body: JSON.stringify(data) }),
@@ -138,14 +172,15 @@ export const attemptsApi = USE_MOCK
           method: 'POST',
           body: JSON.stringify(data),
         }),
+      downloadBakeSheet: (attemptId: string) =>
+        requestFile(`/attempts/${attemptId}/pdf`, 'bake-sheet.pdf'),
     };
 
 // Proofed Items
 export const proofedItemsApi = USE_MOCK
   ? mockProofedItemsApi
   : {
-      list: () =>
-        request<{ items: ProofedItem[] }>('/proofed-items').then((r) => r.items),
+      list: () => requestAllPages<ProofedItem>('/proofed-items'),
       get: (proofedItemId: string) =>
         request<ProofedItem>(`/proofed-items/${proofedItemId}`),
       update: (proofedItemId: string, data: UpdateProofedItemRequest) =>
@@ -171,16 +206,34 @@ export const photosApi = USE_MOCK
           method: 'POST',
           body: JSON.stringify(data),
         }),
-      upload: async (uploadUrl: string, file: File) => {
+      delete: (key: string) =>
+        request<void>(`/photos/${key.split('/').map(encodeURIComponent).join('/')}`, {
+          method: 'DELETE',
+        }),
+      upload: async ({ uploadUrl, fields }: PhotoUploadResponse, file: File) => {
+        // The policy fields have to come before the file in the form
+        const form = new FormData();
+        Object.entries(fields).forEach(([name, value]) => form.append(name, value));
+        form.append('file', file);
         const response = await fetch(uploadUrl, {
-          method: 'PUT',
-          body: file,
-          headers: {
-            'Content-Type': file.type,
-          },
+          method: 'POST',
+          body: form,
         });
         if (!response.ok) {
           throw new Error('Failed to upload photo');
         }
       },
     };
+
+// Share links
+export const sharesApi = USE_MOCK
+  ? mockSharesApi
+  : {
+      list: async () => (await request<{ items: Share[] }>('/shares')).items,
+      shareRecipe: (recipeId: string) =>
+        request<Share>(`/recipes/${recipeId}/share`, { method: 'POST' }),
+      shareProofedItem: (proofedItemId: string) =>
+        request<Share>(`/proofed-items/${proofedItemId}/share`, { method: 'POST' }),
+      revoke: (token: string) => request<void>(`/shares/${token}`, { method: 'DELETE' }),
+      getShared: (token: string) => request<SharedSnapshot>(`/shared/${token}`),
+    };
@@ -18,6 +18,10 @@ import type {
   PhotoUploadResponse,
   PhotoDownloadRequest,
   PhotoDownloadResponse,
+  Ingredient,
+  Share,
+  SharedRecipe,
+  SharedSnapshot,
 } from '@proofed/shared';
 
 const DEFAULT_USER_ID = 'default-user';
@@ -280,6 +284,12 @@ export const mockAttemptsApi = {
     setStore('proofedItems', proofedItems);
     return proofedItem;
   },
+
+  // PDFs are made by the API; there's nothing to render them with offline
+  downloadBakeSheet: async (_attemptId: string): Promise<{ blob: Blob; fileName: string }> => {
+    await delay();
+    throw new Error('Bake sheets can only be downloaded when connected to the API');
+  },
 };
 
 // Proofed Items
@@ -323,7 +333,8 @@ export const mockPhotosApi = {
     await delay();
     const key = `mock/${data.attemptId}/${Date.now()}-${data.fileName}`;
     return {
-      uploadUrl: `https://mock-s3.local/${key}`,
+      uploadUrl: 'https://mock-s3.local/',
+      fields: { key },
       key,
     };
   },
@@ -335,10 +346,126 @@ export const mockPhotosApi = {
     };
   },
 
-  upload: async (_uploadUrl: string, _file: File): Promise<void> => {
+  upload: async (_upload: PhotoUploadResponse, _file: File): Promise<void> => {
     await delay(500);
     // Mock upload - just delay
   },
+
+  delete: async (key: string): Promise<void> => {
+    await delay();
+    const attempts = getStore<Attempt>('attempts').map((attempt) => {
+      if (!attempt.photoKeys?.includes(key)) return attempt;
+      const photoKeys = attempt.photoKeys.filter((photoKey) => photoKey !== key);
+      const mainPhotoKey = attempt.mainPhotoKey === key ? photoKeys[0] : attempt.mainPhotoKey;
+      return { ...attempt, photoKeys, mainPhotoKey };
+    });
+    setStore('attempts', attempts);
+  },
+};
+
+// Shares (mock - snapshots are built from the local stores)
+function mockSharedRecipe(recipe: Recipe, variant?: Variant): SharedRecipe {
+  const item = getStore<Item>('items').find((i) => i.itemId === recipe.itemId);
+  const overrides = new Map((variant?.ingredientOverrides ?? []).map((ing) => [ing.name, ing]));
+  const ingredients: Ingredient[] = recipe.ingredients.map((ing) => {
+    const override = overrides.get(ing.name);
+    overrides.delete(ing.name);
+    return override ?? ing;
+  });
+  return {
+    itemName: item?.name ?? '',
+    recipeName: recipe.name,
+    variantName: variant?.name,
+    ingredients: [...ingredients, ...overrides.values()],
+    prepNotes: recipe.prepNotes,
+    bakeTime: variant?.bakeTime ?? recipe.bakeTime,
+    bakeTemp: variant?.bakeTemp ?? recipe.bakeTemp,
+    bakeTempUnit: variant?.bakeTempUnit ?? recipe.bakeTempUnit,
+    container: recipe.container,
+  };
+}
+
+async function mockShare(type: Share['type'], targetId: string, name: string, itemId?: string): Promise<Share> {
+  await delay();
+  const shares = getStore<Share>('shares');
+  const existing = shares.find((s) => s.type === type && s.targetId === targetId);
+  if (existing) return existing;
+  const share: Share = {
+    userId: DEFAULT_USER_ID,
+    token: ulid() + ulid(),
+    type,
+    targetId,
+    itemId,
+    name,
+    createdAt: new Date().toISOString(),
+  };
+  setStore('shares', [...shares, share]);
+  return share;
+}
+
+export const mockSharesApi = {
+  list: async (): Promise<Share[]> => {
+    await delay();
+    return getStore<Share>('shares');
+  },
+
+  shareRecipe: async (recipeId: string): Promise<Share> => {
+    const recipe = getStore<Recipe>('recipes').find((r) => r.recipeId === recipeId);
+    if (!recipe) throw new Error('Recipe not found');
+    return mockShare('recipe', recipeId, recipe.name, recipe.itemId);
+  },
+
+  shareProofedItem: async (proofedItemId: string): Promise<Share> => {
+    const proofedItem = getStore<ProofedItem>('proofedItems').find((p) => p.proofedItemId === proofedItemId);
+    if (!proofedItem) throw new Error('Proofed item not found');
+    return mockShare('proofedItem', proofedItemId, proofedItem.name);
+  },
+
+  revoke: async (token: string): Promise<void> => {
+    await delay();
+    setStore('shares', getStore<Share>('shares').filter((s) => s.token !== token));
+  },
+
+  getShared: async (token: string): Promise<SharedSnapshot> => {
+    await delay();
+    const share = getStore<Share>('shares').find((s) => s.token === token);
+    if (!share) throw new Error('Shared link not found');
+    const recipes = getStore<Recipe>('recipes');
+    const variants = getStore<Variant>('variants');
+
+    if (share.type === 'recipe') {
+      const recipe = recipes.find((r) => r.recipeId === share.targetId);
+      if (!recipe) throw new Error('Shared link not found');
+      return {
+        type: 'recipe',
+        name: recipe.name,
+        recipes: [
+          mockSharedRecipe(recipe),
+          ...variants
+            .filter((v) => v.recipeId === recipe.recipeId)
+            .map((variant) => mockSharedRecipe(recipe, variant)),
+        ],
+        photoUrls: [],
+        sharedAt: share.createdAt,
+      };
+    }
+
+    const proofedItem = getStore<ProofedItem>('proofedItems').find((p) => p.proofedItemId === share.targetId);
+    if (!proofedItem) throw new Error('Shared link not found');
+    const attempt = getStore<Attempt>('attempts').find((a) => a.attemptId === proofedItem.capturedFromAttemptId);
+    return {
+      type: 'proofedItem',
+      name: proofedItem.name,
+      notes: proofedItem.notes,
+      recipes: proofedItem.itemConfigs.flatMap((config) => {
+        const recipe = recipes.find((r) => r.recipeId === config.recipeId);
+        const variant = variants.find((v) => v.variantId === config.variantId);
+        return recipe ? [{ ...mockSharedRecipe(recipe, variant), scaleFactor: config.scaleFactor }] : [];
+      }),
+      photoUrls: (attempt?.photoKeys ?? []).map((key) => `https://mock-s3.local/${key}`),
+      sharedAt: share.createdAt,
+    };
+  },
 };
 
 function delay(ms = 200): Promise<void> {
@@ -1,4 +1,5 @@
 import { useRef } from 'react';
+import { PHOTO_CONTENT_TYPES } from '@proofed/shared';
 import Icon from '../common/Icon';
 
 interface PhotoUploadProps {
@@ -24,7 +25,7 @@ export default function PhotoUpload({ onUpload, isLoading }: PhotoUploadProps) {
       <input
         ref={inputRef}
         type="file"
-        accept="image/*"
+        accept={PHOTO_CONTENT_TYPES.join(',')}
         onChange={handleChange}
         className="hidden"
         disabled={isLoading}
@@ -3,7 +3,8 @@ import Icon from '../common/Icon';
 import PasteIngredientsModal from './PasteIngredientsModal';
 import { UNIT_PRESETS } from '../../constants/units';
 import { CONTAINER_TYPES, CONTAINER_SIZES } from '../../constants/containers';
-import type { Recipe, Ingredient, CreateRecipeRequest, ContainerType } from '@proofed/shared';
+import { validate, createRecipeRequestSchema, updateRecipeRequestSchema } from '@proofed/shared';
+import type { Recipe, Ingredient, CreateRecipeRequest, ContainerType, FieldError } from '@proofed/shared';
 
 interface RecipeFormProps {
   recipe?: Recipe;
@@ -31,6 +32,7 @@ export default function RecipeForm({
   );
   const [customUnits, setCustomUnits] = useState<Record<number, string>>({});
   const [showPasteModal, setShowPasteModal] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
   const [hasContainer, setHasContainer] = useState(!!recipe?.container);
   const [containerType, setContainerType] = useState<ContainerType>(recipe?.container?.type ?? 'round_cake_tin');
   const [containerSize, setContainerSize] = useState<number>(recipe?.container?.size ?? 8);
@@ -70,7 +72,7 @@ export default function RecipeForm({
       .split(',')
       .map(s => parseFloat(s.trim()))
       .filter(n => !isNaN(n) && n > 0);
-    onSubmit({
+    const data: CreateRecipeRequest = {
       name,
       ingredients: validIngredients,
       prepNotes: prepNotes || undefined,
@@ -83,7 +85,16 @@ export default function RecipeForm({
         size: containerSize,
         count: containerCount,
       } : undefined,
-    });
+    };
+
+    // Same checks the API applies, so problems show before the request is sent
+    const result = validate(recipe ? updateRecipeRequestSchema : createRecipeRequestSchema, data);
+    if (!result.valid) {
+      setFieldErrors(result.errors);
+      return;
+    }
+    setFieldErrors([]);
+    onSubmit(data);
   };
 
   const updateIngredient = (index: number, field: keyof Ingredient, value: string | number) => {
@@ -324,6 +335,16 @@ export default function RecipeForm({
         />
       </div>
 
+      {fieldErrors.length > 0 && (
+        <ul className="space-y-1">
+          {fieldErrors.map((error) => (
+            <li key={error.field} className="text-sm text-red-500">
+              {error.field} {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
       <div className="flex gap-3 pt-2">
         <button
           type="button"
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import Modal from '../common/Modal';
+import Icon from '../common/Icon';
+import { useShares, useCreateShare, useRevokeShare } from '../../hooks/useShares';
+import type { ShareType } from '@proofed/shared';
+
+interface ShareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  type: ShareType;
+  targetId: string;
+}
+
+export default function ShareModal({ isOpen, onClose, type, targetId }: ShareModalProps) {
+  const { data: shares } = useShares();
+  const createShare = useCreateShare();
+  const revokeShare = useRevokeShare();
+  const [copied, setCopied] = useState(false);
+
+  const share = shares?.find((s) => s.type === type && s.targetId === targetId);
+  const link = share ? `${window.location.origin}/shared/${share.token}` : null;
+  const label = type === 'recipe' ? 'recipe' : 'proofed bake';
+
+  const handleCopy = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Share">
+      {share && link ? (
+        <div className="space-y-4">
+          <p className="text-sm text-dusty-mauve">
+            Anyone with this link can view the {label}. They can't edit it or see anything else.
+          </p>
+          <div className="flex items-center gap-2 rounded-xl border border-black/10 bg-bg-light p-3">
+            <span className="flex-1 truncate text-sm text-[#171112]">{link}</span>
+            <button onClick={handleCopy} className="text-primary text-sm font-bold flex items-center gap-1">
+              <Icon name={copied ? 'check' : 'content_copy'} size="sm" />
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          <button
+            onClick={() => revokeShare.mutate(share.token)}
+            disabled={revokeShare.isPending}
+            className="w-full py-3 rounded-xl border border-black/10 font-bold text-primary disabled:opacity-50"
+          >
+            {revokeShare.isPending ? 'Stopping...' : 'Stop sharing'}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-dusty-mauve">
+            Create a link to this {label} that anyone can open without an account. You can stop
+            sharing at any time.
+          </p>
+          <button
+            onClick={() => createShare.mutate({ type, targetId })}
+            disabled={createShare.isPending}
+            className="w-full py-3 rounded-xl bg-primary text-white font-bold disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Icon name="link" size="sm" />
+            {createShare.isPending ? 'Creating...' : 'Create link'}
+          </button>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { attemptsApi } from '../api/client';
+import { saveFile } from '../utils/download';
 import type {
   CreateAttemptRequest,
   UpdateAttemptRequest,
@@ -77,3 +78,10 @@ export function useCaptureAttempt() {
     },
   });
 }
+
+export function useDownloadBakeSheet() {
+  return useMutation({
+    mutationFn: (attemptId: string) => attemptsApi.downloadBakeSheet(attemptId),
+    onSuccess: ({ blob, fileName }) => saveFile(blob, fileName),
+  });
+}
@@ -1,4 +1,6 @@
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { PHOTO_CONTENT_TYPES, MAX_PHOTO_BYTES } from '@proofed/shared';
+import type { PhotoSize } from '@proofed/shared';
 import { photosApi } from '../api/client';
 
 export function usePhotoUpload() {
@@ -10,23 +12,45 @@ export function usePhotoUpload() {
       attemptId: string;
       file: File;
     }) => {
-      const { uploadUrl, key } = await photosApi.getUploadUrl({
+      const contentType = PHOTO_CONTENT_TYPES.find((type) => type === file.type);
+      if (!contentType) {
+        throw new Error('Photos must be JPEG, PNG or WebP');
+      }
+      if (file.size > MAX_PHOTO_BYTES) {
+        throw new Error('Photos must be 10 MB or smaller');
+      }
+
+      const upload = await photosApi.getUploadUrl({
         attemptId,
         fileName: file.name,
-        contentType: file.type,
+        contentType,
       });
-      await photosApi.upload(uploadUrl, file);
-      return key;
+      await photosApi.upload(upload, file);
+      return upload.key;
+    },
+  });
+}
+
+export function useDeletePhoto() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (key: string) => photosApi.delete(key),
+    onSuccess: (_, key) => {
+      // The server also takes the photo off its attempt
+      queryClient.invalidateQueries({ queryKey: ['attempts'] });
+      queryClient.removeQueries({ queryKey: ['photo', key] });
     },
   });
 }
 
-export function usePhotoUrl(key: string | undefined) {
+// Thumbnails and medium copies exist once the upload has been processed; until then the original is served
+export function usePhotoUrl(key: string | undefined, size: PhotoSize = 'full') {
   return useQuery({
-    queryKey: ['photo', key],
+    queryKey: ['photo', key, size],
     queryFn: async () => {
       if (!key) return null;
-      const { downloadUrl } = await photosApi.getDownloadUrl({ key });
+      const { downloadUrl } = await photosApi.getDownloadUrl({ key, size });
       return downloadUrl;
     },
     enabled: !!key,
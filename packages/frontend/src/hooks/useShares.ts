@@ -0,0 +1,43 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { sharesApi } from '../api/client';
+import type { ShareType } from '@proofed/shared';
+
+export function useShares() {
+  return useQuery({
+    queryKey: ['shares'],
+    queryFn: sharesApi.list,
+  });
+}
+
+// Returns the existing link if the recipe or proofed item is already shared
+export function useCreateShare() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ type, targetId }: { type: ShareType; targetId: string }) =>
+      type === 'recipe' ? sharesApi.shareRecipe(targetId) : sharesApi.shareProofedItem(targetId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shares'] });
+    },
+  });
+}
+
+export function useRevokeShare() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (token: string) => sharesApi.revoke(token),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shares'] });
+    },
+  });
+}
+
+export function useSharedSnapshot(token: string) {
+  return useQuery({
+    queryKey: ['shared', token],
+    queryFn: () => sharesApi.getShared(token),
+    enabled: !!token,
+    retry: false,
+  });
+}
@@ -1,10 +1,16 @@
 import { useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { useAttempt, useUpdateAttempt, useDeleteAttempt, useCaptureAttempt } from '../hooks/useAttempts';
+import {
+  useAttempt,
+  useUpdateAttempt,
+  useDeleteAttempt,
+  useCaptureAttempt,
+  useDownloadBakeSheet,
+} from '../hooks/useAttempts';
 import { useItems, useItem } from '../hooks/useItems';
 import { useRecipes, useRecipe } from '../hooks/useRecipes';
 import { useVariants, useVariant } from '../hooks/useVariants';
-import { usePhotoUpload, usePhotoUrl } from '../hooks/usePhotos';
+import { usePhotoUpload, usePhotoUrl, useDeletePhoto } from '../hooks/usePhotos';
 import Modal from '../components/common/Modal';
 import Loading from '../components/common/Loading';
 import Icon from '../components/common/Icon';
@@ -21,7 +27,9 @@ export default function AttemptDetailPage() {
   const updateAttempt = useUpdateAttempt();
   const deleteAttempt = useDeleteAttempt();
   const captureAttempt = useCaptureAttempt();
+  const downloadBakeSheet = useDownloadBakeSheet();
   const photoUpload = usePhotoUpload();
+  const deletePhoto = useDeletePhoto();
 
   const [showActions, setShowActions] = useState(false);
   const [outcomeModal, setOutcomeModal] = useState(false);
@@ -42,6 +50,12 @@ export default function AttemptDetailPage() {
     }
   };
 
+  const handleDownloadBakeSheet = () => {
+    downloadBakeSheet.mutate(attemptId!, {
+      onError: (error) => alert(error instanceof Error ? error.message : 'Could not download the bake sheet'),
+    });
+  };
+
   const handleSaveOutcome = () => {
     updateAttempt.mutate(
       { attemptId: attemptId!, data: { outcomeNotes } },
@@ -73,9 +87,7 @@ export default function AttemptDetailPage() {
 
   const handleRemovePhoto = (keyToRemove: string) => {
     if (confirm('Remove this photo?')) {
-      const photoKeys = (attempt?.photoKeys || []).filter(key => key !== keyToRemove);
-      const mainPhotoKey = attempt?.mainPhotoKey === keyToRemove ? undefined : attempt?.mainPhotoKey;
-      updateAttempt.mutate({ attemptId: attemptId!, data: { photoKeys, mainPhotoKey } });
+      deletePhoto.mutate(keyToRemove);
     }
   };
 
@@ -252,6 +264,17 @@ export default function AttemptDetailPage() {
       {/* Action Sheet */}
       <Modal isOpen={showActions} onClose={() => setShowActions(false)} title="Actions">
         <div className="space-y-2">
+          <button
+            onClick={() => {
+              setShowActions(false);
+              handleDownloadBakeSheet();
+            }}
+            disabled={downloadBakeSheet.isPending}
+            className="w-full p-4 text-left text-[#171112] active:bg-black/5 rounded-xl flex items-center gap-3 disabled:opacity-50"
+          >
+            <Icon name="print" />
+            <span className="font-medium">Download Bake Sheet (PDF)</span>
+          </button>
           <button
             onClick={() => {
               setShowActions(false);
@@ -500,7 +523,7 @@ function PhotoThumbnail({
   onRemove: () => void;
   onSetMain: () => void;
 }) {
-  const { data: url, isLoading } = usePhotoUrl(photoKey);
+  const { data: url, isLoading } = usePhotoUrl(photoKey, 'thumbnail');
 
   if (isLoading || !url) {
     return (
@@ -728,7 +751,7 @@ function EditItemUsageRow({
       <div className="flex items-center gap-2">
         <select
           value={usage.itemId}
-          onChange={(e) => onUpdate({ itemId: e.target.value, recipeId: '', variantId: undefined })}
+          onChange={(e) => onUpdate({ itemId: e.target.value, recipeId: '', variantId: undefined, recipeRevision: undefined })}
           className="flex-1 rounded-lg border border-black/10 bg-white h-10 px-3 text-sm"
         >
           <option value="">Select item...</option>
@@ -743,7 +766,7 @@ function EditItemUsageRow({
       {usage.itemId && (
         <select
           value={usage.recipeId}
-          onChange={(e) => onUpdate({ recipeId: e.target.value, variantId: undefined })}
+          onChange={(e) => onUpdate({ recipeId: e.target.value, variantId: undefined, recipeRevision: undefined })}
           className="w-full rounded-lg border border-black/10 bg-white h-10 px-3 text-sm"
         >
           <option value="">Select recipe...</option>
@@ -89,7 +89,7 @@ export default function HomePage() {
 }
 
 function AttemptThumbnail({ photoKey, relativeDate }: { photoKey?: string; relativeDate?: string }) {
-  const { data: url } = usePhotoUrl(photoKey);
+  const { data: url } = usePhotoUrl(photoKey, 'thumbnail');
 
   return (
     <div className="w-full aspect-[4/3] rounded-lg relative bg-pastel-pink/30 flex items-center justify-center overflow-hidden">
@@ -9,6 +9,7 @@ import VariantForm from '../components/variants/VariantForm';
 import Modal from '../components/common/Modal';
 import Loading from '../components/common/Loading';
 import Icon from '../components/common/Icon';
+import ShareModal from '../components/shares/ShareModal';
 import { scaleIngredients, getScaleOptions, formatScaleFactor } from '../utils/scaleRecipe';
 import { formatContainer } from '../constants/containers';
 import type { Recipe, Variant, Ingredient, CreateItemRequest, CreateRecipeRequest, CreateVariantRequest } from '@proofed/shared';
@@ -69,6 +70,7 @@ export default function ItemDetailPage() {
     recipe: Recipe;
   } | null>(null);
   const [showActions, setShowActions] = useState(false);
+  const [shareRecipeId, setShareRecipeId] = useState<string | null>(null);
 
   const handleUpdateItem = (data: CreateItemRequest) => {
     updateItem.mutate({ itemId: itemId!, data }, { onSuccess: () => setEditItemModal(false) });
@@ -315,6 +317,12 @@ export default function ItemDetailPage() {
               >
                 <Icon name="edit" size="sm" /> Edit Recipe
               </button>
+              <button
+                onClick={() => setShareRecipeId(selectedRecipe.recipeId)}
+                className="flex-1 py-2 text-xs font-bold text-dusty-mauve uppercase tracking-wider flex items-center justify-center gap-1"
+              >
+                <Icon name="share" size="sm" /> Share
+              </button>
               <button
                 onClick={() => handleDeleteRecipe(selectedRecipe.recipeId)}
                 className="flex-1 py-2 text-xs font-bold text-dusty-mauve uppercase tracking-wider flex items-center justify-center gap-1"
@@ -362,6 +370,13 @@ export default function ItemDetailPage() {
         </div>
       </Modal>
 
+      <ShareModal
+        isOpen={!!shareRecipeId}
+        onClose={() => setShareRecipeId(null)}
+        type="recipe"
+        targetId={shareRecipeId || ''}
+      />
+
       <Modal isOpen={editItemModal} onClose={() => setEditItemModal(false)} title="Edit Item">
         <ItemForm
           item={item}
@@ -7,6 +7,7 @@ import { useVariant } from '../hooks/useVariants';
 import Modal from '../components/common/Modal';
 import Loading from '../components/common/Loading';
 import Icon from '../components/common/Icon';
+import ShareModal from '../components/shares/ShareModal';
 import type { ItemUsage } from '@proofed/shared';
 
 export default function ProofedItemDetailPage() {
@@ -19,6 +20,7 @@ export default function ProofedItemDetailPage() {
 
   const [showActions, setShowActions] = useState(false);
   const [editModal, setEditModal] = useState(false);
+  const [shareModal, setShareModal] = useState(false);
   const [editName, setEditName] = useState('');
   const [editNotes, setEditNotes] = useState('');
 
@@ -129,6 +131,16 @@ export default function ProofedItemDetailPage() {
             <Icon name="edit" className="text-dusty-mauve" />
             <span className="font-medium">Edit</span>
           </button>
+          <button
+            onClick={() => {
+              setShowActions(false);
+              setShareModal(true);
+            }}
+            className="w-full p-4 text-left active:bg-gray-50 rounded-xl flex items-center gap-3"
+          >
+            <Icon name="share" className="text-dusty-mauve" />
+            <span className="font-medium">Share</span>
+          </button>
           <button
             onClick={() => {
               setShowActions(false);
@@ -142,6 +154,13 @@ export default function ProofedItemDetailPage() {
         </div>
       </Modal>
 
+      <ShareModal
+        isOpen={shareModal}
+        onClose={() => setShareModal(false)}
+        type="proofedItem"
+        targetId={proofedItemId!}
+      />
+
       {/* Edit Modal */}
       <Modal isOpen={editModal} onClose={() => setEditModal(false)} title="Edit Proofed Item">
         <div className="space-y-4">
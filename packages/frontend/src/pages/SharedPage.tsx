@@ -0,0 +1,131 @@
+import { useParams } from 'react-router-dom';
+import { useSharedSnapshot } from '../hooks/useShares';
+import Loading from '../components/common/Loading';
+import Icon from '../components/common/Icon';
+import { scaleIngredients, formatScaleFactor } from '../utils/scaleRecipe';
+import { formatContainer } from '../constants/containers';
+import type { SharedRecipe } from '@proofed/shared';
+
+// Read-only view of a shared recipe or proofed bake; opened from a link, without signing in
+export default function SharedPage() {
+  const { token } = useParams<{ token: string }>();
+  const { data: snapshot, isLoading, isError } = useSharedSnapshot(token!);
+
+  if (isLoading) return <Loading />;
+  if (isError || !snapshot) {
+    return (
+      <div className="p-8 text-center">
+        <Icon name="link_off" size="xl" className="text-dusty-mauve" />
+        <p className="font-bold text-[#171112] mt-3">This link isn't available</p>
+        <p className="text-sm text-dusty-mauve mt-1">It may have been turned off by the person who shared it.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pb-4">
+      {/* Header Banner */}
+      <div className="w-full bg-gradient-to-br from-primary/10 to-pastel-pink/30 flex flex-col items-center justify-center py-8">
+        <div className="text-primary flex items-center justify-center rounded-full bg-white size-16 shadow-sm mb-3">
+          <Icon name={snapshot.type === 'proofedItem' ? 'verified' : 'restaurant_menu'} size="xl" />
+        </div>
+        <span className="text-xs text-primary font-bold uppercase tracking-wider bg-white/80 px-3 py-1 rounded-full">
+          {snapshot.type === 'proofedItem' ? 'Proven Recipe' : 'Shared Recipe'}
+        </span>
+      </div>
+
+      {/* Title */}
+      <div className="px-4 pt-5">
+        <h1 className="text-[28px] font-bold text-[#171112] leading-tight">{snapshot.name}</h1>
+        {snapshot.notes && <p className="text-dusty-mauve text-sm mt-2">{snapshot.notes}</p>}
+        <p className="text-xs text-dusty-mauve mt-2 flex items-center gap-1">
+          <Icon name="link" size="sm" />
+          Shared {new Date(snapshot.sharedAt).toLocaleDateString()}
+        </p>
+      </div>
+
+      {/* Photos */}
+      {snapshot.photoUrls.length > 0 && (
+        <div className="flex gap-3 px-4 mt-5 overflow-x-auto no-scrollbar">
+          {snapshot.photoUrls.map((url) => (
+            <img
+              key={url}
+              src={url}
+              alt="Bake"
+              className="h-48 w-64 flex-none rounded-xl object-cover"
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="mt-6 px-4 space-y-4">
+        {snapshot.recipes.map((recipe, index) => (
+          <SharedRecipeCard key={index} recipe={recipe} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SharedRecipeCard({ recipe }: { recipe: SharedRecipe }) {
+  const scale = recipe.scaleFactor ?? 1;
+
+  return (
+    <div className="p-5 bg-white rounded-xl border border-pastel-pink shadow-sm">
+      <p className="text-xs text-dusty-mauve">{recipe.itemName}</p>
+      <h4 className="font-bold text-lg text-[#171112]">
+        {recipe.recipeName}
+        {recipe.variantName && <span className="text-primary"> • {recipe.variantName}</span>}
+      </h4>
+
+      {(recipe.bakeTime || recipe.bakeTemp || recipe.container || scale !== 1) && (
+        <div className="flex flex-wrap gap-4 mt-2 mb-4 pb-4 border-b border-bg-light">
+          {recipe.bakeTime && (
+            <div className="flex items-center gap-1.5 text-sm">
+              <Icon name="timer" size="sm" className="text-dusty-mauve" />
+              <span className="font-medium">{recipe.bakeTime} min</span>
+            </div>
+          )}
+          {recipe.bakeTemp && (
+            <div className="flex items-center gap-1.5 text-sm">
+              <Icon name="thermostat" size="sm" className="text-dusty-mauve" />
+              <span className="font-medium">{recipe.bakeTemp}°{recipe.bakeTempUnit || 'F'}</span>
+            </div>
+          )}
+          {recipe.container?.size !== undefined && (
+            <div className="flex items-center gap-1.5 text-sm">
+              <Icon name="cake" size="sm" className="text-dusty-mauve" />
+              <span className="font-medium">
+                {formatContainer(recipe.container.type, recipe.container.size, recipe.container.count, scale)}
+              </span>
+            </div>
+          )}
+          {scale !== 1 && (
+            <div className="flex items-center gap-1.5 text-sm">
+              <Icon name="straighten" size="sm" className="text-dusty-mauve" />
+              <span className="font-medium">Scaled {formatScaleFactor(scale)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {scaleIngredients(recipe.ingredients, scale).map((ing, i) => (
+          <div key={i} className="flex justify-between items-center border-b border-bg-light pb-2">
+            <span className="text-sm font-medium">{ing.name}</span>
+            <span className="text-sm font-bold">
+              {ing.quantity} {ing.unit}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {recipe.prepNotes && (
+        <div className="mt-4 pt-4 border-t border-bg-light">
+          <p className="text-xs font-bold text-dusty-mauve uppercase tracking-wider mb-2">Prep Notes</p>
+          <p className="text-sm text-[#171112]/80 whitespace-pre-wrap">{recipe.prepNotes}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+// Hands a fetched file to the browser as a download
+export function saveFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick, once the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -8,6 +8,8 @@ import type {
   UpdateItemRequest,
   CreateRecipeRequest,
   UpdateRecipeRequest,
+  RecipeRevision,
+  RestoreRecipeRevisionRequest,
   CreateVariantRequest,
   UpdateVariantRequest,
   CreateAttemptRequest,
@@ -18,21 +20,83 @@ import type {
   PhotoUploadResponse,
   PhotoDownloadRequest,
   PhotoDownloadResponse,
+  PhotoDownloadUrlsRequest,
+  PhotoDownloadUrlsResponse,
   AiAdviceRequest,
+  SetCurrentAiAdviceRequest,
   AiAdviceResponse,
   AiContainerScaleRequest,
   AiContainerScaleResponse,
+  RecipeHtmlImportRequest,
+  RecipeHtmlImportResponse,
   CrumbChatRequest,
   CrumbChatResponse,
+  CrumbChatThread,
   IngredientsData,
+  IngredientsDelta,
   IngredientSubmission,
   SubmitIngredientRequest,
   CalorieEstimateRequest,
   CalorieEstimateResponse,
   AiParseIngredientsRequest,
   AiParseIngredientsResponse,
+  AiUsageResponse,
+  ListResponse,
+  PagedResponse,
+  DeleteResponse,
+  AccountExportResponse,
+  TrashEntry,
+  ErrorCode,
+  ErrorResponse,
+  FieldError,
 } from '@proofed/shared';
-import { API_BASE, USE_MOCK } from './config';
+import * as FileSystem from 'expo-file-system';
+import { fetch as streamingFetch } from 'expo/fetch';
+import { API_BASE, CHAT_STREAM_URL, USE_MOCK } from './config';
+
+// Responses that never reached the Lambda (e.g. API Gateway's own 401s) carry no code
+function codeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case 401:
+      return 'UNAUTHORIZED';
+    case 403:
+      return 'FORBIDDEN';
+    case 404:
+      return 'NOT_FOUND';
+    case 409:
+      return 'CONFLICT';
+    case 429:
+      return 'RATE_LIMITED';
+    default:
+      return status >= 500 ? 'INTERNAL_ERROR' : 'VALIDATION_FAILED';
+  }
+}
+
+/**
+ * A non-2xx response from the API. `code` is stable across releases, so screens
+ * should branch on it rather than on `message` or `status`.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode;
+  readonly fields?: FieldError[];
+  readonly retryAfterSeconds?: number;
+  readonly current?: unknown;  // CONFLICT: the server's copy of the record
+
+  constructor(status: number, body: Partial<ErrorResponse>) {
+    super(body.error || 'Request failed');
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = body.code || codeForStatus(status);
+    this.fields = body.fields;
+    this.retryAfterSeconds = body.retryAfterSeconds;
+    this.current = body.current;
+  }
+}
+
+export function isApiError(error: unknown, code?: ErrorCode): error is ApiError {
+  return error instanceof ApiError && (code === undefined || error.code === code);
+}
 
 // Auth token getter - will be set by AuthContext
 let getAuthToken: (() => Promise<string | null>) | null = null;
@@ -66,8 +130,8 @@ async function request<T>(path: string, options?: RequestInit): Promise<T> {
   console.log('[API] Response status:', response.status, 'for path:', path);
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(error.error || 'Request failed');
+    const body: Partial<ErrorResponse> = await response.json().catch(() => ({}));
+    throw new ApiError(response.status, body);
   }
 
   if (response.status === 204) {
@@ -79,21 +143,133 @@ async function request<T>(path: string, options?: RequestInit): Promise<T> {
   return data;
 }
 
+// A GET with If-None-Match; resolves to null when the server answers 304 Not Modified
+async function requestIfChanged<T>(path: string, etag: string): Promise<T | null> {
+  const headers: Record<string, string> = { 'If-None-Match': etag };
+  const token = getAuthToken ? await getAuthToken() : null;
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  const response = await fetch(`${API_BASE}${path}`, { headers });
+  if (response.status === 304) {
+    return null;
+  }
+  if (!response.ok) {
+    const body: Partial<ErrorResponse> = await response.json().catch(() => ({}));
+    throw new ApiError(response.status, body);
+  }
+  return response.json();
+}
+
+/**
+ * A POST answered with server-sent events: `delta` events carry pieces of text for `onText`,
+ * and the request resolves with the body of the closing `done` event. React Native's own
+ * fetch can't read a body as it arrives, so this uses Expo's.
+ */
+async function requestStream<T>(url: string, body: unknown, onText: (text: string) => void): Promise<T> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = getAuthToken ? await getAuthToken() : null;
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  const response = await streamingFetch(url, { method: 'POST', headers, body: JSON.stringify(body) });
+  if (!response.ok || !response.body) {
+    const errorBody: Partial<ErrorResponse> = await response.json().catch(() => ({}));
+    throw new ApiError(response.status, errorBody);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) >= 0) {
+      const event = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const name = /^event: (.*)$/m.exec(event)?.[1];
+      const data = JSON.parse(/^data: (.*)$/m.exec(event)?.[1] ?? 'null');
+      if (name === 'delta') {
+        onText(data.text);
+      } else if (name === 'done') {
+        reader.cancel();
+        return data as T;
+      } else if (name === 'error') {
+        throw new ApiError(502, data);
+      }
+    }
+  }
+  throw new ApiError(502, { error: 'The response ended early' });
+}
+
+// Saves a binary response such as a PDF to the cache directory and returns its local URI
+async function downloadFile(path: string, fileName: string): Promise<string> {
+  const headers: Record<string, string> = {};
+  const token = getAuthToken ? await getAuthToken() : null;
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  const result = await FileSystem.downloadAsync(`${API_BASE}${path}`, `${FileSystem.cacheDirectory}${fileName}`, {
+    headers,
+  });
+
+  if (result.status < 200 || result.status >= 300) {
+    // An error body is JSON, and it has been written to the file instead of a PDF
+    const body: Partial<ErrorResponse> = await FileSystem.readAsStringAsync(result.uri)
+      .then((text) => JSON.parse(text))
+      .catch(() => ({}));
+    await FileSystem.deleteAsync(result.uri, { idempotent: true });
+    throw new ApiError(result.status, body);
+  }
+  return result.uri;
+}
+
+export interface PageParams {
+  cursor?: string;
+  limit?: number;
+}
+
+function withPageParams(path: string, page?: PageParams): string {
+  const params: string[] = [];
+  if (page?.limit) params.push(`limit=${page.limit}`);
+  if (page?.cursor) params.push(`cursor=${encodeURIComponent(page.cursor)}`);
+  return params.length > 0 ? `${path}?${params.join('&')}` : path;
+}
+
+// Follows nextCursor until the whole collection has been fetched
+async function requestAllPages<T>(path: string): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await request<PagedResponse<T>>(withPageParams(path, { cursor }));
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+}
+
 // Items
 export const itemsApi = {
-  list: () => request<{ items: Item[] }>('/items').then((r) => r.items),
+  list: () => requestAllPages<Item>('/items'),
+  listPage: (page?: PageParams) => request<PagedResponse<Item>>(withPageParams('/items', page)),
   get: (itemId: string) => request<Item>(`/items/${itemId}`),
   create: (data: CreateItemRequest) =>
     request<Item>('/items', { method: 'POST', body: JSON.stringify(data) }),
   update: (itemId: string, data: UpdateItemRequest) =>
     request<Item>(`/items/${itemId}`, { method: 'PUT', body: JSON.stringify(data) }),
-  delete: (itemId: string) => request<void>(`/items/${itemId}`, { method: 'DELETE' }),
+  delete: (itemId: string) => request<DeleteResponse>(`/items/${itemId}`, { method: 'DELETE' }),
 };
 
 // Recipes
 export const recipesApi = {
-  list: (itemId: string) =>
-    request<{ items: Recipe[] }>(`/items/${itemId}/recipes`).then((r) => r.items),
+  list: (itemId: string) => requestAllPages<Recipe>(`/items/${itemId}/recipes`),
   get: (itemId: string, recipeId: string) =>
     request<Recipe>(`/items/${itemId}/recipes/${recipeId}`),
   create: (itemId: string, data: CreateRecipeRequest) =>
@@ -107,20 +283,37 @@ export const recipesApi = {
       body: JSON.stringify(data),
     }),
   delete: (itemId: string, recipeId: string) =>
-    request<void>(`/items/${itemId}/recipes/${recipeId}`, { method: 'DELETE' }),
+    request<DeleteResponse>(`/items/${itemId}/recipes/${recipeId}`, { method: 'DELETE' }),
+  listRevisions: (itemId: string, recipeId: string) =>
+    requestAllPages<RecipeRevision>(`/items/${itemId}/recipes/${recipeId}/revisions`),
+  getRevision: (itemId: string, recipeId: string, revision: number) =>
+    request<RecipeRevision>(`/items/${itemId}/recipes/${recipeId}/revisions/${revision}`),
+  restoreRevision: (
+    itemId: string,
+    recipeId: string,
+    revision: number,
+    data: RestoreRecipeRevisionRequest
+  ) =>
+    request<Recipe>(`/items/${itemId}/recipes/${recipeId}/revisions/${revision}/restore`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
   getAiContainerScale: (recipeId: string, data: AiContainerScaleRequest) =>
     request<AiContainerScaleResponse>(`/recipes/${recipeId}/ai-container-scale`, {
       method: 'POST',
       body: JSON.stringify(data),
     }),
+  importHtml: (data: RecipeHtmlImportRequest) =>
+    request<RecipeHtmlImportResponse>('/recipes/import-html', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
 };
 
 // Variants
 export const variantsApi = {
   list: (itemId: string, recipeId: string) =>
-    request<{ items: Variant[] }>(
-      `/items/${itemId}/recipes/${recipeId}/variants`
-    ).then((r) => r.items),
+    requestAllPages<Variant>(`/items/${itemId}/recipes/${recipeId}/variants`),
   get: (itemId: string, recipeId: string, variantId: string) =>
     request<Variant>(`/items/${itemId}/recipes/${recipeId}/variants/${variantId}`),
   create: (itemId: string, recipeId: string, data: CreateVariantRequest) =>
@@ -139,14 +332,16 @@ export const variantsApi = {
       { method: 'PUT', body: JSON.stringify(data) }
     ),
   delete: (itemId: string, recipeId: string, variantId: string) =>
-    request<void>(`/items/${itemId}/recipes/${recipeId}/variants/${variantId}`, {
+    request<DeleteResponse>(`/items/${itemId}/recipes/${recipeId}/variants/${variantId}`, {
       method: 'DELETE',
     }),
 };
 
 // Attempts
 export const attemptsApi = {
-  list: () => request<{ items: Attempt[] }>('/attempts').then((r) => r.items),
+  list: () => requestAllPages<Attempt>('/attempts'),
+  listPage: (page?: PageParams) =>
+    request<PagedResponse<Attempt>>(withPageParams('/attempts', page)),
   get: (attemptId: string) => request<Attempt>(`/attempts/${attemptId}`),
   create: (data: CreateAttemptRequest) =>
     request<Attempt>('/attempts', { method: 'POST', body: JSON.stringify(data) }),
@@ -167,17 +362,43 @@ export const attemptsApi = {
       method: 'POST',
       body: JSON.stringify(data),
     }),
+  regenerateAiAdvice: (attemptId: string, data: AiAdviceRequest) =>
+    request<AiAdviceResponse>(`/attempts/${attemptId}/ai-advice/regenerate`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+  setCurrentAiAdvice: (attemptId: string, data: SetCurrentAiAdviceRequest) =>
+    request<Attempt>(`/attempts/${attemptId}/ai-advice/current`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+  crumbChatThreads: (attemptId: string) =>
+    request<ListResponse<CrumbChatThread>>(`/attempts/${attemptId}/crumb-chat/threads`),
   crumbChat: (attemptId: string, data: CrumbChatRequest) =>
-    request<CrumbChatResponse>(`/attempts/${attemptId}/crumb-chat`, {
+    request<CrumbChatResponse>(`/attempts/${attemptId}/crumb-chat/threads`, {
       method: 'POST',
       body: JSON.stringify(data),
     }),
+  // Crumb's reply a piece at a time; without a streaming URL it arrives in one go
+  streamCrumbChat: async (attemptId: string, data: CrumbChatRequest, onText: (text: string) => void) => {
+    if (!CHAT_STREAM_URL) {
+      const chatResponse = await attemptsApi.crumbChat(attemptId, data);
+      onText(chatResponse.reply);
+      return chatResponse;
+    }
+    return requestStream<CrumbChatResponse>(
+      `${CHAT_STREAM_URL.replace(/\/$/, '')}/attempts/${attemptId}/crumb-chat/threads`,
+      data,
+      onText
+    );
+  },
+  downloadBakeSheet: (attemptId: string, fileName: string) =>
+    downloadFile(`/attempts/${attemptId}/pdf`, fileName),
 };
 
 // Proofed Items
 export const proofedItemsApi = {
-  list: () =>
-    request<{ items: ProofedItem[] }>('/proofed-items').then((r) => r.items),
+  list: () => requestAllPages<ProofedItem>('/proofed-items'),
   get: (proofedItemId: string) =>
     request<ProofedItem>(`/proofed-items/${proofedItemId}`),
   update: (proofedItemId: string, data: UpdateProofedItemRequest) =>
@@ -207,17 +428,30 @@ export const photosApi = {
       method: 'POST',
       body: JSON.stringify(data),
     }),
-  upload: async (uploadUrl: string, image: ImageAsset) => {
-    // For React Native, we need to upload the image from its URI
-    const response = await fetch(image.uri);
-    const blob = await response.blob();
+  // Signs every photo on the attempt in one call
+  getDownloadUrls: (data: PhotoDownloadUrlsRequest) =>
+    request<PhotoDownloadUrlsResponse>('/photos/download-urls', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+  delete: (key: string) =>
+    request<void>(`/photos/${key.split('/').map(encodeURIComponent).join('/')}`, {
+      method: 'DELETE',
+    }),
+  upload: async ({ uploadUrl, fields }: PhotoUploadResponse, image: ImageAsset) => {
+    // The policy fields have to come before the file in the form
+    const form = new FormData();
+    Object.entries(fields).forEach(([name, value]) => form.append(name, value));
+    // React Native's FormData reads the file from its URI
+    form.append('file', {
+      uri: image.uri,
+      type: image.type || 'image/jpeg',
+      name: image.fileName || 'photo.jpg',
+    } as unknown as Blob);
 
     const uploadResponse = await fetch(uploadUrl, {
-      method: 'PUT',
-      body: blob,
-      headers: {
-        'Content-Type': image.type || 'image/jpeg',
-      },
+      method: 'POST',
+      body: form,
     });
 
     if (!uploadResponse.ok) {
@@ -229,11 +463,16 @@ export const photosApi = {
 // Ingredients
 export const ingredientsApi = {
   list: () => request<IngredientsData>('/ingredients'),
+  // null when the list is still at `version`
+  changesSince: (version: number) =>
+    requestIfChanged<IngredientsDelta>(`/ingredients?sinceVersion=${version}`, `"${version}"`),
   submit: (data: SubmitIngredientRequest) =>
     request<IngredientSubmission>('/ingredients/submit', {
       method: 'POST',
       body: JSON.stringify(data),
     }),
+  // The caller's own suggestions, newest first
+  listSubmissions: () => request<PagedResponse<IngredientSubmission>>('/ingredients/submissions'),
   parse: (data: AiParseIngredientsRequest) =>
     request<AiParseIngredientsResponse>('/ingredients/parse', {
       method: 'POST',
@@ -255,3 +494,23 @@ export const nutritionApi = {
       body: JSON.stringify(data),
     }),
 };
+
+// AI usage
+export const aiUsageApi = {
+  get: () => request<AiUsageResponse>('/ai/usage'),
+};
+
+// Account
+export const accountApi = {
+  // Starts a new export; small ones come back ready, larger ones pending until polled
+  startExport: (includePhotos: boolean) =>
+    request<AccountExportResponse>(`/account/export${includePhotos ? '?photos=true' : ''}`),
+  getExport: (exportId: string) =>
+    request<AccountExportResponse>(`/account/export/${exportId}`),
+};
+
+// Trash
+export const trashApi = {
+  list: () => requestAllPages<TrashEntry>('/trash'),
+  restore: (id: string) => request<TrashEntry>(`/trash/${id}/restore`, { method: 'POST' }),
+};
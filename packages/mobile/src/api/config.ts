@@ -1,6 +1,11 @@
 // API Configuration
-// In production, this would come from environment variables or a config file
-export const API_BASE = 'https://74fj9iabce.execute-api.eu-west-2.amazonaws.com';
+// Deploying the stack (npm run deploy in infra) writes its outputs to this app's .env,
+// which Expo reads at build time
+export const API_BASE =
+  process.env.EXPO_PUBLIC_API_URL || 'https://74fj9iabce.execute-api.eu-west-2.amazonaws.com';
 
 // Set to true to use mock data instead of the real API
 export const USE_MOCK = false;
+
+// Streaming Crumb chat (the ChatStreamUrl stack output); empty uses the API's non-streaming route
+export const CHAT_STREAM_URL: string = process.env.EXPO_PUBLIC_CHAT_STREAM_URL || '';
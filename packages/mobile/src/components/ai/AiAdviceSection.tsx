@@ -1,9 +1,10 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { Icon } from '../common';
 import { AiAdviceCard } from './AiAdviceCard';
 import { colors, fontFamily, fontSize, spacing, borderRadius } from '../../theme';
+import { isApiError } from '../../api/client';
 import type { AiAdviceResponse, AiAdviceTip } from '@proofed/shared';
 
 interface ItemUsageDetail {
@@ -23,6 +24,17 @@ interface AiAdviceSectionProps {
   hasPhoto?: boolean;
   itemUsageDetails?: ItemUsageDetail[];
   alreadyRequested?: boolean;  // True if advice was already requested for this bake
+  history?: AiAdviceResponse[];  // Every advice for this bake, oldest first
+  onRegenerate?: () => void;
+  canRegenerate?: boolean;
+  onSelectAdvice?: (adviceId: string) => void;
+  isSelecting?: boolean;
+}
+
+function errorMessageFor(error: Error): string {
+  if (isApiError(error, 'CONFLICT')) return error.message || 'Advice was already requested for this bake';
+  if (isApiError(error, 'RATE_LIMITED')) return 'Crumb needs a rest. Try again later.';
+  return 'Failed to get advice';
 }
 
 export function AiAdviceSection({
@@ -35,7 +47,18 @@ export function AiAdviceSection({
   hasPhoto,
   itemUsageDetails,
   alreadyRequested,
+  history = [],
+  onRegenerate,
+  canRegenerate,
+  onSelectAdvice,
+  isSelecting,
 }: AiAdviceSectionProps) {
+  // Which version the baker is reading; defaults to the current one
+  const [viewedAdviceId, setViewedAdviceId] = useState<string | undefined>(advice?.adviceId);
+  useEffect(() => {
+    setViewedAdviceId(advice?.adviceId);
+  }, [advice?.adviceId]);
+
   // Loading state
   if (isLoading) {
     return (
@@ -48,16 +71,21 @@ export function AiAdviceSection({
     );
   }
 
-  // Error state
-  if (error) {
+  // Error state; a failed regeneration is shown under the advice instead
+  if (error && !advice) {
+    // Retrying won't help if advice already exists or the user is rate limited
+    const canRetry = !isApiError(error, 'CONFLICT') && !isApiError(error, 'RATE_LIMITED');
+    const errorMessage = errorMessageFor(error);
     return (
       <View style={styles.container}>
         <View style={styles.errorCard}>
           <Icon name="error" size="md" color={colors.primary} />
-          <Text style={styles.errorText}>Failed to get advice</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={onRequestAdvice}>
-            <Text style={styles.retryButtonText}>Try Again</Text>
-          </TouchableOpacity>
+          <Text style={styles.errorText}>{errorMessage}</Text>
+          {canRetry && (
+            <TouchableOpacity style={styles.retryButton} onPress={onRequestAdvice}>
+              <Text style={styles.retryButtonText}>Try Again</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
     );
@@ -65,6 +93,15 @@ export function AiAdviceSection({
 
   // Advice received - show overview only
   if (advice && advice.overview) {
+    const viewedIndex = history.findIndex((a) => a.adviceId === viewedAdviceId);
+    const viewed = viewedIndex >= 0 ? history[viewedIndex] : advice;
+    const isCurrent = viewed === advice || viewed.adviceId === advice.adviceId;
+
+    const handleRegenerate = () => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      onRegenerate?.();
+    };
+
     return (
       <View style={styles.container}>
         <View style={styles.header}>
@@ -72,16 +109,64 @@ export function AiAdviceSection({
             <Icon name="auto_awesome" size="md" color={colors.primary} />
             <Text style={styles.headerTitle}>Crumb</Text>
           </View>
+          {history.length > 1 && viewedIndex >= 0 && (
+            <View style={styles.versionPicker}>
+              <TouchableOpacity
+                onPress={() => setViewedAdviceId(history[viewedIndex - 1].adviceId)}
+                disabled={viewedIndex === 0}
+                hitSlop={8}
+              >
+                <Icon name="chevron_left" size="sm" color={viewedIndex === 0 ? colors.pastelPink : colors.primary} />
+              </TouchableOpacity>
+              <Text style={styles.versionText}>
+                Take {viewedIndex + 1} of {history.length}
+              </Text>
+              <TouchableOpacity
+                onPress={() => setViewedAdviceId(history[viewedIndex + 1].adviceId)}
+                disabled={viewedIndex === history.length - 1}
+                hitSlop={8}
+              >
+                <Icon
+                  name="chevron_right"
+                  size="sm"
+                  color={viewedIndex === history.length - 1 ? colors.pastelPink : colors.primary}
+                />
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
         <View style={styles.overviewCard}>
-          <Text style={styles.overviewText}>{advice.overview}</Text>
-          {advice.nibsAwarded != null && advice.nibsAwarded > 0 && (
+          <Text style={styles.overviewText}>{viewed.overview}</Text>
+          {viewed.nibsAwarded != null && viewed.nibsAwarded > 0 && (
             <View style={styles.nibsAwardRow}>
               <Icon name="auto_awesome" size="sm" color={colors.primary} />
-              <Text style={styles.nibsAwardText}>+{advice.nibsAwarded} nibs</Text>
+              <Text style={styles.nibsAwardText}>+{viewed.nibsAwarded} nibs</Text>
             </View>
           )}
+          {!isCurrent && viewed.adviceId && (
+            <TouchableOpacity
+              style={styles.useAdviceButton}
+              onPress={() => onSelectAdvice?.(viewed.adviceId!)}
+              disabled={isSelecting}
+            >
+              {isSelecting ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <>
+                  <Icon name="check_circle" size="sm" color={colors.primary} />
+                  <Text style={styles.reaskButtonText}>Keep this one</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
         </View>
+        {error && <Text style={styles.inlineErrorText}>{errorMessageFor(error)}</Text>}
+        {onRegenerate && canRegenerate && (
+          <TouchableOpacity style={styles.reaskButton} onPress={handleRegenerate}>
+            <Icon name="refresh" size="sm" color={colors.primary} />
+            <Text style={styles.reaskButtonText}>Ask Crumb again</Text>
+          </TouchableOpacity>
+        )}
       </View>
     );
   }
@@ -155,6 +240,29 @@ const styles = StyleSheet.create({
     color: colors.text,
     lineHeight: 22,
   },
+  versionPicker: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  versionText: {
+    fontFamily: fontFamily.medium,
+    fontSize: fontSize.xs,
+    color: colors.dustyMauve,
+  },
+  useAdviceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: spacing[2],
+    marginTop: spacing[3],
+  },
+  inlineErrorText: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.xs,
+    color: colors.dustyMauve,
+    textAlign: 'center',
+  },
   nibsAwardRow: {
     flexDirection: 'row',
     alignItems: 'center',
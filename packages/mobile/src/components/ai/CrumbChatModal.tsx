@@ -13,8 +13,9 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Icon } from '../common';
-import { useCrumbChat } from '../../hooks/useCrumbChat';
+import { useCrumbChat, useCrumbChatThreads } from '../../hooks/useCrumbChat';
 import { colors, spacing, borderRadius, fontFamily, fontSize } from '../../theme';
+import { isApiError } from '../../api/client';
 import type { ChatMessage, CrumbChatRequest } from '@proofed/shared';
 import type { ItemUsageDetail } from '../../hooks/useItemUsageDetails';
 
@@ -85,8 +86,6 @@ interface CrumbChatModalProps {
   itemUsageKey: string;
   itemDetail: ItemUsageDetail;
   otherItemNames: string[];
-  chatHistory: ChatMessage[];
-  onChatHistoryChange: (messages: ChatMessage[]) => void;
 }
 
 export default function CrumbChatModal({
@@ -94,15 +93,22 @@ export default function CrumbChatModal({
   onClose,
   attemptId,
   attemptName,
+  itemUsageKey,
   itemDetail,
   otherItemNames,
-  chatHistory,
-  onChatHistoryChange,
 }: CrumbChatModalProps) {
   const insets = useSafeAreaInsets();
   const [inputText, setInputText] = useState('');
+  // Messages not yet in the saved thread: the one being sent, or a failed exchange
+  const [pendingMessages, setPendingMessages] = useState<ChatMessage[]>([]);
+  // Crumb's reply so far, while it's still arriving
+  const [streamingReply, setStreamingReply] = useState('');
   const scrollViewRef = useRef<ScrollView>(null);
   const crumbChat = useCrumbChat();
+  const { data: threads } = useCrumbChatThreads(attemptId);
+
+  const thread = threads?.find((t) => t.itemUsageKey === itemUsageKey);
+  const chatHistory = [...(thread?.messages ?? []), ...pendingMessages];
 
   const welcomeMessage = useMemo(() => {
     const template = WELCOME_MESSAGES[Math.floor(Math.random() * WELCOME_MESSAGES.length)];
@@ -116,7 +122,7 @@ export default function CrumbChatModal({
         scrollViewRef.current?.scrollToEnd({ animated: true });
       }, 100);
     }
-  }, [chatHistory.length]);
+  }, [chatHistory.length, streamingReply]);
 
   const handleSend = () => {
     if (!inputText.trim() || crumbChat.isPending) return;
@@ -124,17 +130,15 @@ export default function CrumbChatModal({
     const userMessage = inputText.trim();
     setInputText('');
 
-    // Add user message to history
-    const updatedHistory: ChatMessage[] = [
-      ...chatHistory,
-      { role: 'user', content: userMessage },
-    ];
-    onChatHistoryChange(updatedHistory);
+    // Show the message straight away; the saved thread replaces it once Crumb replies
+    const sentMessage: ChatMessage = { role: 'user', content: userMessage };
+    setPendingMessages([sentMessage]);
+    setStreamingReply('');
 
-    // Build context for the API request
+    // Build context for the API request; the server keeps the history
     const request: CrumbChatRequest = {
+      itemUsageKey,
       message: userMessage,
-      chatHistory: chatHistory,
       context: {
         attemptName,
         focusedItem: {
@@ -154,19 +158,23 @@ export default function CrumbChatModal({
     };
 
     crumbChat.mutate(
-      { attemptId, request },
+      { attemptId, request, onText: (text) => setStreamingReply((reply) => reply + text) },
       {
-        onSuccess: (response) => {
-          onChatHistoryChange([
-            ...updatedHistory,
-            { role: 'assistant', content: response.reply },
-          ]);
+        onSuccess: () => {
+          setPendingMessages([]);
+          setStreamingReply('');
         },
         onError: (error) => {
           console.error('Crumb Chat Error:', error);
-          onChatHistoryChange([
-            ...updatedHistory,
-            { role: 'assistant', content: 'Oh dear, something went wrong. Do try again, won\'t you?' },
+          setStreamingReply('');
+          setPendingMessages([
+            sentMessage,
+            {
+              role: 'assistant',
+              content: isApiError(error, 'RATE_LIMITED')
+                ? 'I\'ve been chatting rather a lot. Let\'s pick this up a little later, shall we?'
+                : 'Oh dear, something went wrong. Do try again, won\'t you?',
+            },
           ]);
         },
       }
@@ -272,7 +280,18 @@ export default function CrumbChatModal({
               </View>
             ))}
 
-            {crumbChat.isPending && (
+            {crumbChat.isPending && streamingReply !== '' && (
+              <View style={[styles.messageBubble, styles.assistantBubble]}>
+                <View style={styles.assistantAvatar}>
+                  <Icon name="auto_awesome" size="sm" color={colors.primary} />
+                </View>
+                <View style={[styles.messageContent, styles.assistantContent]}>
+                  <Text style={[styles.messageText, styles.assistantText]}>{streamingReply}</Text>
+                </View>
+              </View>
+            )}
+
+            {crumbChat.isPending && streamingReply === '' && (
               <View style={styles.typingIndicator}>
                 <View style={styles.assistantAvatar}>
                   <Icon name="auto_awesome" size="sm" color={colors.primary} />
@@ -0,0 +1,123 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { colors, fontFamily, fontSize, spacing, borderRadius } from '../../theme';
+import { useAiUsage } from '../../hooks/useAiUsage';
+import type { AiFeature, AiFeatureUsage } from '@proofed/shared';
+
+const FEATURE_LABELS: Record<AiFeature, string> = {
+  advice: 'Bake advice',
+  chat: 'Crumb chat',
+  'container-scale': 'Container tips',
+  'parse-ingredients': 'Ingredient parsing',
+  'calorie-estimate': 'Calorie estimates',
+};
+
+// Whichever of the day or month is closer to running out
+function tightestPeriod({ daily, monthly }: AiFeatureUsage) {
+  return monthly.limit - monthly.used < daily.limit - daily.used
+    ? { ...monthly, label: 'this month' }
+    : { ...daily, label: 'today' };
+}
+
+function UsageRow({ usage }: { usage: AiFeatureUsage }) {
+  const period = tightestPeriod(usage);
+  const fraction = period.limit > 0 ? Math.min(period.used / period.limit, 1) : 1;
+  const barColor = fraction >= 1 ? colors.primary : fraction >= 0.8 ? colors.warning : colors.success;
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.label}>{FEATURE_LABELS[usage.feature]}</Text>
+        <Text style={styles.count}>
+          {period.used} of {period.limit} {period.label}
+        </Text>
+      </View>
+      <View style={styles.track}>
+        <View style={[styles.bar, { width: `${fraction * 100}%`, backgroundColor: barColor }]} />
+      </View>
+    </View>
+  );
+}
+
+// How much of each AI quota the user has left; daily limits reset at midnight UTC
+export function CrumbUsageCard() {
+  const { data, isLoading, error } = useAiUsage();
+
+  if (isLoading) {
+    return (
+      <View style={styles.card}>
+        <ActivityIndicator size="small" color={colors.dustyMauve} style={styles.loading} />
+      </View>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.message}>Couldn't load your Crumb usage</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.card}>
+      {data.features.map((usage, index) => (
+        <React.Fragment key={usage.feature}>
+          {index > 0 && <View style={styles.divider} />}
+          <UsageRow usage={usage} />
+        </React.Fragment>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.xl,
+    overflow: 'hidden',
+  },
+  loading: {
+    padding: spacing[4],
+  },
+  message: {
+    padding: spacing[4],
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.dustyMauve,
+  },
+  row: {
+    padding: spacing[4],
+    gap: spacing[2],
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.base,
+    color: colors.text,
+  },
+  count: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.dustyMauve,
+  },
+  track: {
+    height: 4,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.skeleton,
+    overflow: 'hidden',
+  },
+  bar: {
+    height: 4,
+    borderRadius: borderRadius.full,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: colors.cardBorder,
+    marginLeft: spacing[4],
+  },
+});
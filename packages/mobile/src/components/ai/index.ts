@@ -1,2 +1,3 @@
 export { AiAdviceCard } from './AiAdviceCard';
 export { AiAdviceSection } from './AiAdviceSection';
+export { CrumbUsageCard } from './CrumbUsageCard';
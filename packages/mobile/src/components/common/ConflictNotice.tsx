@@ -0,0 +1,167 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import Icon from './Icon';
+import { colors, spacing, borderRadius, fontFamily, fontSize } from '../../theme';
+
+export interface ConflictRow {
+  label: string;
+  mine: string;
+  theirs: string;
+}
+
+interface ConflictNoticeProps {
+  title: string;
+  rows: ConflictRow[];
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+  isLoading?: boolean;
+}
+
+// Shown when a save was rejected because the same record changed on another device
+export default function ConflictNotice({
+  title,
+  rows,
+  onKeepMine,
+  onUseTheirs,
+  isLoading,
+}: ConflictNoticeProps) {
+  const changedRows = rows.filter((row) => row.mine !== row.theirs);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icon name="warning" size="md" color={colors.warning} />
+        <Text style={styles.title}>{title}</Text>
+      </View>
+      <Text style={styles.description}>
+        Choose which version to keep. The other one will be replaced.
+      </Text>
+
+      {changedRows.map((row) => (
+        <View key={row.label} style={styles.row}>
+          <Text style={styles.rowLabel}>{row.label}</Text>
+          <View style={styles.columns}>
+            <View style={styles.column}>
+              <Text style={styles.columnLabel}>Yours</Text>
+              <Text style={styles.value}>{row.mine || '—'}</Text>
+            </View>
+            <View style={styles.column}>
+              <Text style={styles.columnLabel}>Saved</Text>
+              <Text style={styles.value}>{row.theirs || '—'}</Text>
+            </View>
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.button, styles.secondaryButton]}
+          onPress={onUseTheirs}
+          disabled={isLoading}
+        >
+          <Text style={styles.secondaryButtonText}>Use saved</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.primaryButton, isLoading && styles.buttonDisabled]}
+          onPress={onKeepMine}
+          disabled={isLoading}
+        >
+          <Text style={styles.primaryButtonText}>Keep mine</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(245, 158, 11, 0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(245, 158, 11, 0.3)',
+    borderRadius: borderRadius.xl,
+    padding: spacing[4],
+    marginBottom: spacing[4],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  title: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.base,
+    color: colors.text,
+    flex: 1,
+  },
+  description: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.textMuted,
+    marginTop: spacing[1],
+    marginBottom: spacing[3],
+  },
+  row: {
+    marginBottom: spacing[3],
+  },
+  rowLabel: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.xs,
+    color: colors.dustyMauve,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: spacing[1],
+  },
+  columns: {
+    flexDirection: 'row',
+    gap: spacing[2],
+  },
+  column: {
+    flex: 1,
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.lg,
+    padding: spacing[2],
+  },
+  columnLabel: {
+    fontFamily: fontFamily.medium,
+    fontSize: fontSize.xs,
+    color: colors.dustyMauve,
+    marginBottom: 2,
+  },
+  value: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.text,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing[2],
+    marginTop: spacing[1],
+  },
+  button: {
+    flex: 1,
+    paddingVertical: spacing[3],
+    borderRadius: borderRadius.lg,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+  },
+  secondaryButton: {
+    backgroundColor: colors.white,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.sm,
+    color: colors.white,
+  },
+  secondaryButtonText: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.sm,
+    color: colors.text,
+  },
+});
@@ -1,6 +1,7 @@
 export { default as Badge } from './Badge';
 export { default as Button } from './Button';
 export { default as Card } from './Card';
+export { default as ConflictNotice } from './ConflictNotice';
 export { default as EmptyState } from './EmptyState';
 export { default as FavoriteButton } from './FavoriteButton';
 export { default as Icon } from './Icon';
@@ -19,6 +19,7 @@ import * as Sharing from 'expo-sharing';
 import * as FileSystem from 'expo-file-system';
 import { Icon } from '../common';
 import { usePhotoUrl } from '../../hooks/usePhotos';
+import { photosApi } from '../../api/client';
 import { colors, fontFamily, fontSize, spacing, borderRadius } from '../../theme';
 
 interface BakeParam {
@@ -229,15 +230,14 @@ export default function LuxuryPhotoGallery({
     }
   };
 
-  // Helper to get photo URL - we'll store URLs as they're loaded
-  const photoUrlsRef = useRef<Map<string, string>>(new Map());
-
+  // The slider shows medium copies; sharing gets the full-size photo
   const getPhotoUrl = async (key: string): Promise<string | null> => {
-    return photoUrlsRef.current.get(key) || null;
-  };
-
-  const onPhotoUrlLoaded = (key: string, url: string) => {
-    photoUrlsRef.current.set(key, url);
+    try {
+      const { downloadUrl } = await photosApi.getDownloadUrl({ key });
+      return downloadUrl;
+    } catch {
+      return null;
+    }
   };
 
   return (
@@ -265,7 +265,6 @@ export default function LuxuryPhotoGallery({
                 photoKey={item}
                 width={SCREEN_WIDTH}
                 height={IMAGE_HEIGHT}
-                onUrlLoaded={(url) => onPhotoUrlLoaded(item, url)}
               />
             )}
           />
@@ -337,20 +336,12 @@ function GalleryImage({
   photoKey,
   width,
   height,
-  onUrlLoaded,
 }: {
   photoKey: string;
   width: number;
   height: number;
-  onUrlLoaded?: (url: string) => void;
 }) {
-  const { data: url, isLoading } = usePhotoUrl(photoKey);
-
-  React.useEffect(() => {
-    if (url && onUrlLoaded) {
-      onUrlLoaded(url);
-    }
-  }, [url, onUrlLoaded]);
+  const { data: url, isLoading } = usePhotoUrl(photoKey, 'medium');
 
   if (isLoading || !url) {
     return (
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Modal } from '../common';
+import { useImportRecipe } from '../../hooks/useImportRecipe';
+import { usePreferences } from '../../contexts/PreferencesContext';
+import { colors, spacing, borderRadius, fontFamily, fontSize } from '../../theme';
+import type { RecipeHtmlImportResponse } from '@proofed/shared';
+
+interface ImportRecipeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (result: RecipeHtmlImportResponse) => void;
+}
+
+export default function ImportRecipeModal({ isOpen, onClose, onImport }: ImportRecipeModalProps) {
+  const [url, setUrl] = useState('');
+  const { measurementSystem } = usePreferences();
+  const importRecipe = useImportRecipe();
+
+  const trimmedUrl = url.trim();
+  const isValidUrl = /^https?:\/\/\S+$/i.test(trimmedUrl);
+  const isImporting = importRecipe.isPending;
+
+  const handleClose = () => {
+    setUrl('');
+    importRecipe.reset();
+    onClose();
+  };
+
+  const handleImport = async () => {
+    try {
+      const result = await importRecipe.mutateAsync({ url: trimmedUrl, measurementSystem });
+      onImport(result);
+      handleClose();
+    } catch {
+      // Shown below the input from the mutation's error
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Recipe">
+      <View style={styles.content}>
+        <Text style={styles.helpText}>
+          Paste a link to a recipe page. The name, ingredients, method and bake settings are filled
+          in for you to check before saving.
+        </Text>
+        <TextInput
+          style={styles.input}
+          value={url}
+          onChangeText={setUrl}
+          placeholder="https://"
+          placeholderTextColor={colors.dustyMauve}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          autoFocus
+          editable={!isImporting}
+        />
+        {isImporting && (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="small" color={colors.primary} />
+            <Text style={styles.loadingText}>Reading recipe...</Text>
+          </View>
+        )}
+        {importRecipe.error && !isImporting && (
+          <Text style={styles.errorText}>{importRecipe.error.message}</Text>
+        )}
+      </View>
+
+      <View style={styles.buttons}>
+        <TouchableOpacity
+          style={styles.cancelButton}
+          onPress={handleClose}
+          activeOpacity={0.7}
+          disabled={isImporting}
+        >
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.submitButton, (!isValidUrl || isImporting) && styles.buttonDisabled]}
+          onPress={handleImport}
+          disabled={!isValidUrl || isImporting}
+          activeOpacity={0.7}
+        >
+          {isImporting ? (
+            <ActivityIndicator size="small" color={colors.white} />
+          ) : (
+            <Text style={styles.submitButtonText}>Import</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    marginBottom: spacing[4],
+  },
+  helpText: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.dustyMauve,
+    marginBottom: spacing[3],
+  },
+  input: {
+    backgroundColor: colors.bgLight,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+    borderRadius: borderRadius.xl,
+    height: 48,
+    paddingHorizontal: spacing[4],
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.text,
+  },
+  loadingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: spacing[3],
+    gap: spacing[2],
+  },
+  loadingText: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.dustyMauve,
+  },
+  errorText: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.error,
+    marginTop: spacing[3],
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: spacing[3],
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: spacing[3],
+    borderRadius: borderRadius.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.base,
+    color: colors.text,
+  },
+  submitButton: {
+    flex: 1,
+    paddingVertical: spacing[3],
+    borderRadius: borderRadius.xl,
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.base,
+    color: colors.white,
+  },
+});
@@ -6,9 +6,12 @@ import {
   TouchableOpacity,
   StyleSheet,
   Switch,
+  Alert,
 } from 'react-native';
-import { Icon } from '../common';
+import { Icon, ConflictNotice } from '../common';
+import type { ConflictRow } from '../common/ConflictNotice';
 import PasteIngredientsModal from './PasteIngredientsModal';
+import ImportRecipeModal from './ImportRecipeModal';
 import SupplierPicker from './SupplierPicker';
 import IngredientAutocomplete from './IngredientAutocomplete';
 import ProductAutocomplete from './ProductAutocomplete';
@@ -17,16 +20,55 @@ import { CONTAINER_TYPES, CONTAINER_SIZES } from '../../constants/containers';
 import { colors, spacing, borderRadius, fontFamily, fontSize } from '../../theme';
 import { useTemperatureUnit } from '../../hooks/usePreferences';
 import { useCustomSources } from '../../hooks/useSources';
-import type { Recipe, Ingredient, CreateRecipeRequest, ContainerType } from '@proofed/shared';
+import {
+  validate,
+  formatFieldErrors,
+  createRecipeRequestSchema,
+  updateRecipeRequestSchema,
+} from '@proofed/shared';
+import type {
+  Recipe,
+  Ingredient,
+  CreateRecipeRequest,
+  UpdateRecipeRequest,
+  ContainerType,
+  RecipeHtmlImportResponse,
+} from '@proofed/shared';
 
 type RecipeMode = 'homemade' | 'store-bought';
 
+// Side-by-side summary of the fields most likely to have been edited elsewhere
+function conflictRows(mine: CreateRecipeRequest | UpdateRecipeRequest, saved: Recipe): ConflictRow[] {
+  const summarize = (recipe: CreateRecipeRequest | UpdateRecipeRequest | Recipe) => ({
+    name: recipe.name || '',
+    ingredients: (recipe.ingredients || [])
+      .map((ingredient) => `${ingredient.quantity} ${ingredient.unit} ${ingredient.name}`.trim())
+      .join('\n'),
+    bake: recipe.bakeTime || recipe.bakeTemp
+      ? [recipe.bakeTime && `${recipe.bakeTime} min`, recipe.bakeTemp && `${recipe.bakeTemp}°${recipe.bakeTempUnit || ''}`]
+          .filter(Boolean)
+          .join(' at ')
+      : '',
+    prepNotes: recipe.prepNotes || '',
+  });
+  const ours = summarize(mine);
+  const theirs = summarize(saved);
+  return [
+    { label: 'Name', mine: ours.name, theirs: theirs.name },
+    { label: 'Ingredients', mine: ours.ingredients, theirs: theirs.ingredients },
+    { label: 'Bake', mine: ours.bake, theirs: theirs.bake },
+    { label: 'Notes', mine: ours.prepNotes, theirs: theirs.prepNotes },
+  ];
+}
+
 interface RecipeFormProps {
   recipe?: Recipe;
   onSubmit: (data: CreateRecipeRequest) => void;
   onCancel: () => void;
   isLoading?: boolean;
   itemName?: string;
+  conflict?: Recipe | null;  // Saved copy that rejected the last update
+  onUseSaved?: (saved: Recipe) => void;
 }
 
 export default function RecipeForm({
@@ -35,6 +77,8 @@ export default function RecipeForm({
   onCancel,
   isLoading,
   itemName,
+  conflict,
+  onUseSaved,
 }: RecipeFormProps) {
   const preferredTempUnit = useTemperatureUnit();
   const { data: customSources } = useCustomSources();
@@ -55,6 +99,7 @@ export default function RecipeForm({
     recipe?.customScales?.[0]?.toString() || ''
   );
   const [showPasteModal, setShowPasteModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [supplierId, setSupplierId] = useState<string | null>(recipe?.supplierId ?? null);
   const [customSourceName, setCustomSourceName] = useState<string | null>(recipe?.customSourceName ?? null);
   const [customSourceUrl, setCustomSourceUrl] = useState<string | null>(recipe?.customSourceUrl ?? null);
@@ -78,14 +123,32 @@ export default function RecipeForm({
   const [sugars100g, setSugars100g] = useState<number | undefined>(recipe?.sugars100g);
   const [showUnitPicker, setShowUnitPicker] = useState(false);
 
-  const handleSubmit = () => {
+  // Run the same checks the API applies so problems show up before the request is sent
+  const submitIfValid = (data: CreateRecipeRequest) => {
+    const result = validate(recipe ? updateRecipeRequestSchema : createRecipeRequestSchema, data);
+    if (!result.valid) {
+      Alert.alert('Check your recipe', formatFieldErrors(result.errors));
+      return;
+    }
+    onSubmit(data);
+  };
+
+  // Updates carry the version they were edited from so the API can reject stale writes
+  const submitVersion = (version: number) => {
+    const data = buildRequest();
+    submitIfValid(recipe ? ({ ...data, version } as CreateRecipeRequest) : data);
+  };
+
+  const handleSubmit = () => submitVersion(recipe?.version ?? 0);
+
+  const buildRequest = (): CreateRecipeRequest => {
     const isStoreBought = mode === 'store-bought';
 
     if (isStoreBought) {
       // Store-bought recipe - use brand as name if no name set
       const recipeName = name.trim() || (brand && productName ? `${brand} ${productName}` : brand || productName);
 
-      onSubmit({
+      return {
         name: recipeName,
         ingredients: [], // Store-bought items have no ingredients
         isStoreBought: true,
@@ -96,7 +159,7 @@ export default function RecipeForm({
         energyKcal100g: energyKcal100g,
         sugars100g: sugars100g,
         prepNotes: prepNotes || (recipe ? null : undefined),
-      } as any);
+      } as any;
     } else {
       // Homemade recipe - original logic
       const validIngredients = ingredients.filter((i) => i.name.trim());
@@ -118,7 +181,7 @@ export default function RecipeForm({
         customScalesValue = undefined;
       }
 
-      onSubmit({
+      return {
         name,
         ingredients: validIngredients,
         prepNotes: prepNotes || (recipe ? null : undefined),
@@ -142,7 +205,7 @@ export default function RecipeForm({
         productName: recipe?.isStoreBought ? null : undefined,
         purchaseQuantity: recipe?.isStoreBought ? null : undefined,
         purchaseUnit: recipe?.isStoreBought ? null : undefined,
-      } as any);
+      } as any;
     }
   };
 
@@ -195,6 +258,24 @@ export default function RecipeForm({
     setIngredients([...existingNonEmpty, ...newIngredients]);
   };
 
+  // An imported recipe replaces what's in the form; it is saved only when the user taps Create
+  const handleImportedRecipe = ({ recipe: imported, warnings }: RecipeHtmlImportResponse) => {
+    setName(imported.name);
+    setIngredients(imported.ingredients.length > 0 ? imported.ingredients : [{ name: '', quantity: 0, unit: '' }]);
+    setPrepNotes(imported.prepNotes || '');
+    setBakeTime(imported.bakeTime?.toString() ?? '');
+    setBakeTemp(imported.bakeTemp?.toString() ?? '');
+    if (imported.bakeTempUnit) {
+      setBakeTempUnit(imported.bakeTempUnit);
+    }
+    setSupplierId(null);
+    setCustomSourceName(imported.customSourceName ?? null);
+    setCustomSourceUrl(imported.customSourceUrl ?? null);
+    if (warnings?.length) {
+      Alert.alert('Check the imported recipe', warnings.join('\n'));
+    }
+  };
+
   const selectedContainerType = CONTAINER_TYPES.find((t) => t.value === containerType);
 
   // Package size unit options for store-bought
@@ -202,6 +283,16 @@ export default function RecipeForm({
 
   return (
     <View style={styles.container}>
+      {conflict && (
+        <ConflictNotice
+          title="This recipe was changed on another device"
+          rows={conflictRows(buildRequest(), conflict)}
+          onKeepMine={() => submitVersion(conflict.version ?? 0)}
+          onUseTheirs={() => onUseSaved?.(conflict)}
+          isLoading={isLoading}
+        />
+      )}
+
       {/* Mode Toggle */}
       <View style={styles.field}>
         <Text style={styles.label}>Recipe Type</Text>
@@ -322,6 +413,17 @@ export default function RecipeForm({
       ) : (
         <>
           {/* Homemade form - original fields */}
+          {!recipe && (
+            <TouchableOpacity
+              style={styles.importButton}
+              onPress={() => setShowImportModal(true)}
+              activeOpacity={0.7}
+            >
+              <Icon name="link" size="sm" color={colors.primary} />
+              <Text style={styles.addButtonText}>Import from a web page</Text>
+            </TouchableOpacity>
+          )}
+
           <View style={styles.field}>
             <Text style={styles.label}>Recipe Name</Text>
             <TextInput
@@ -637,6 +739,12 @@ export default function RecipeForm({
         onClose={() => setShowPasteModal(false)}
         onAdd={handlePastedIngredients}
       />
+
+      <ImportRecipeModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImport={handleImportedRecipe}
+      />
     </View>
   );
 }
@@ -759,6 +867,18 @@ const styles = StyleSheet.create({
     borderStyle: 'dashed',
     borderColor: colors.pastelPink,
   },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing[2],
+    paddingVertical: spacing[3],
+    marginBottom: spacing[4],
+    borderRadius: borderRadius.xl,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: colors.pastelPink,
+  },
   addButtonText: {
     fontFamily: fontFamily.bold,
     fontSize: fontSize.sm,
@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { Modal, Icon, Loading } from '../common';
+import { useRecipeRevisions, useRestoreRecipeRevision } from '../../hooks/useRecipes';
+import { diffRecipes } from '../../utils/recipeDiff';
+import { formatRelativeDate } from '../../utils/formatDate';
+import { isApiError } from '../../api/client';
+import { colors, spacing, borderRadius, fontFamily, fontSize } from '../../theme';
+import type { Recipe, RecipeRevision } from '@proofed/shared';
+
+interface RecipeHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  itemId: string;
+  recipe: Recipe;
+}
+
+export default function RecipeHistoryModal({ isOpen, onClose, itemId, recipe }: RecipeHistoryModalProps) {
+  const { data: revisions, isLoading } = useRecipeRevisions(itemId, recipe.recipeId);
+  const restoreRevision = useRestoreRecipeRevision();
+  const [selected, setSelected] = useState<RecipeRevision | null>(null);
+
+  const currentRevision = recipe.version ?? 0;
+
+  const handleRestore = (revision: RecipeRevision) => {
+    restoreRevision.mutate(
+      { itemId, recipeId: recipe.recipeId, revision: revision.revision, version: recipe.version },
+      {
+        onSuccess: () => {
+          setSelected(null);
+          onClose();
+        },
+        onError: (error) => {
+          Alert.alert(
+            'Could not restore',
+            isApiError(error, 'CONFLICT')
+              ? 'This recipe was changed on another device. Reopen its history and try again.'
+              : 'Something went wrong. Please try again.'
+          );
+        },
+      }
+    );
+  };
+
+  const renderRevision = (revision: RecipeRevision) => {
+    const changes = diffRecipes(revision.recipe, recipe);
+    const isCurrent = revision.revision === currentRevision;
+
+    return (
+      <View>
+        <TouchableOpacity style={styles.backLink} onPress={() => setSelected(null)}>
+          <Icon name="chevron_left" size="sm" color={colors.dustyMauve} />
+          <Text style={styles.backLinkText}>All revisions</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.subtitle}>
+          Revision {revision.revision} · {formatRelativeDate(revision.createdAt)}
+        </Text>
+
+        {changes.length === 0 ? (
+          <Text style={styles.emptyText}>Same as the current recipe.</Text>
+        ) : (
+          <View style={styles.table}>
+            <View style={styles.tableHeader}>
+              <Text style={[styles.headerText, { flex: 1 }]}>Changed</Text>
+              <Text style={[styles.headerText, styles.cell]}>Then</Text>
+              <Text style={[styles.headerText, styles.cell]}>Now</Text>
+            </View>
+            {changes.map((change) => (
+              <View key={change.label} style={styles.tableRow}>
+                <Text style={styles.changeLabel} numberOfLines={1}>
+                  {change.label}
+                </Text>
+                <Text style={styles.cellText} numberOfLines={3}>
+                  {change.before || '—'}
+                </Text>
+                <Text style={[styles.cellText, styles.highlight]} numberOfLines={3}>
+                  {change.after || '—'}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {!isCurrent && (
+          <TouchableOpacity
+            style={[styles.restoreButton, restoreRevision.isPending && styles.buttonDisabled]}
+            onPress={() => handleRestore(revision)}
+            disabled={restoreRevision.isPending}
+          >
+            <Icon name="history" size="sm" color={colors.white} />
+            <Text style={styles.restoreButtonText}>
+              {restoreRevision.isPending ? 'Restoring...' : 'Restore this revision'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`${recipe.name} History`}>
+      {isLoading ? (
+        <Loading />
+      ) : selected ? (
+        renderRevision(selected)
+      ) : !revisions || revisions.length === 0 ? (
+        <Text style={styles.emptyText}>
+          No earlier versions yet. Each time you edit this recipe, the old version is kept here.
+        </Text>
+      ) : (
+        revisions.map((revision) => (
+          <TouchableOpacity
+            key={revision.revisionId}
+            style={styles.revisionRow}
+            onPress={() => setSelected(revision)}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={styles.revisionTitle}>
+                Revision {revision.revision}
+                {revision.revision === currentRevision && (
+                  <Text style={styles.currentBadge}>  CURRENT</Text>
+                )}
+              </Text>
+              <Text style={styles.revisionMeta}>
+                {formatRelativeDate(revision.createdAt)} · {revision.recipe.ingredients.length} ingredients
+              </Text>
+            </View>
+            <Icon name="chevron_right" size="sm" color={colors.dustyMauve} />
+          </TouchableOpacity>
+        ))
+      )}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  revisionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.bgLight,
+  },
+  revisionTitle: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.base,
+    color: colors.text,
+  },
+  currentBadge: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.xs,
+    color: colors.primary,
+    letterSpacing: 1,
+  },
+  revisionMeta: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.dustyMauve,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.textMuted,
+    textAlign: 'center',
+    paddingVertical: spacing[6],
+  },
+  backLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[1],
+    marginBottom: spacing[2],
+  },
+  backLinkText: {
+    fontFamily: fontFamily.medium,
+    fontSize: fontSize.sm,
+    color: colors.dustyMauve,
+  },
+  subtitle: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.base,
+    color: colors.text,
+    marginBottom: spacing[3],
+  },
+  table: {
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    overflow: 'hidden',
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    backgroundColor: colors.bgLight,
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+  },
+  headerText: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.xs,
+    color: colors.dustyMauve,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    borderTopWidth: 1,
+    borderTopColor: colors.bgLight,
+  },
+  changeLabel: {
+    flex: 1,
+    fontFamily: fontFamily.medium,
+    fontSize: fontSize.sm,
+    color: colors.text,
+  },
+  cell: {
+    width: 90,
+    textAlign: 'right',
+  },
+  cellText: {
+    width: 90,
+    textAlign: 'right',
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.textMuted,
+  },
+  highlight: {
+    color: colors.primary,
+    fontFamily: fontFamily.medium,
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing[2],
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing[3],
+    marginTop: spacing[4],
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  restoreButtonText: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.sm,
+    color: colors.white,
+  },
+});
@@ -1,2 +1,3 @@
 export { default as RecipeForm } from './RecipeForm';
 export { default as PasteIngredientsModal } from './PasteIngredientsModal';
+export { default as RecipeHistoryModal } from './RecipeHistoryModal';
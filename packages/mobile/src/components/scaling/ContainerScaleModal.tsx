@@ -10,13 +10,14 @@ import {
 import { Modal, Icon } from '../common';
 import { useAiContainerScale } from '../../hooks/useAiContainerScale';
 import { colors, fontFamily, fontSize, spacing, borderRadius } from '../../theme';
+import { scaleForContainer } from '@proofed/shared';
 import type {
   ContainerInfo,
   ContainerType,
+  ContainerScale,
   MuffinCupSize,
   ItemType,
   Ingredient,
-  AiContainerScaleResponse,
 } from '@proofed/shared';
 
 const CONTAINER_TYPES: { value: ContainerType; label: string }[] = [
@@ -177,7 +178,7 @@ export default function ContainerScaleModal({
   const [showSizePicker, setShowSizePicker] = useState(false);
   const [showCountPicker, setShowCountPicker] = useState(false);
   const [showCupsPerTrayPicker, setShowCupsPerTrayPicker] = useState(false);
-  const [result, setResult] = useState<AiContainerScaleResponse | null>(null);
+  const [result, setResult] = useState<ContainerScale | null>(null);
 
   const aiContainerScale = useAiContainerScale();
 
@@ -195,25 +196,27 @@ export default function ContainerScaleModal({
     setShowTypePicker(false);
   };
 
+  // The scale is worked out on the device, so it shows straight away and works offline;
+  // Crumb's tips follow when there's a connection
   const handleCalculate = () => {
-    setResult(null);
-    aiContainerScale.mutate(
-      {
-        recipeId,
-        request: {
-          sourceContainer,
-          targetContainer,
-          context,
-        },
+    setResult(scaleForContainer(sourceContainer, targetContainer, context.bakeTime));
+    aiContainerScale.mutate({
+      recipeId,
+      request: {
+        sourceContainer,
+        targetContainer,
+        context,
       },
-      {
-        onSuccess: (data) => {
-          setResult(data);
-        },
-      }
-    );
+    });
+  };
+
+  const handleRecalculate = () => {
+    setResult(null);
+    aiContainerScale.reset();
   };
 
+  const tips = aiContainerScale.data;
+
   const handleApply = () => {
     if (result) {
       onApply(result.scaleFactor);
@@ -613,34 +616,15 @@ export default function ContainerScaleModal({
       {/* Calculate Button */}
       {!result && (
         <TouchableOpacity
-          style={[styles.calculateButton, (!canCalculate || aiContainerScale.isPending) && styles.buttonDisabled]}
+          style={[styles.calculateButton, !canCalculate && styles.buttonDisabled]}
           onPress={handleCalculate}
-          disabled={!canCalculate || aiContainerScale.isPending}
+          disabled={!canCalculate}
         >
-          {aiContainerScale.isPending ? (
-            <View style={styles.loadingRow}>
-              <ActivityIndicator color={colors.white} size="small" />
-              <Text style={styles.calculateButtonText}>Crumb is calculating...</Text>
-            </View>
-          ) : (
-            <>
-              <Icon name="auto_awesome" size="md" color={colors.white} />
-              <Text style={styles.calculateButtonText}>Calculate Scale</Text>
-            </>
-          )}
+          <Icon name="auto_awesome" size="md" color={colors.white} />
+          <Text style={styles.calculateButtonText}>Calculate Scale</Text>
         </TouchableOpacity>
       )}
 
-      {/* Error */}
-      {aiContainerScale.isError && (
-        <View style={styles.errorContainer}>
-          <Icon name="error" size="md" color={colors.error} />
-          <Text style={styles.errorText}>
-            {aiContainerScale.error?.message || 'Failed to calculate scale. Please try again.'}
-          </Text>
-        </View>
-      )}
-
       {/* Results */}
       {result && (
         <View style={styles.resultSection}>
@@ -650,22 +634,51 @@ export default function ContainerScaleModal({
             <Text style={styles.scaleFactorValue}>{result.scaleFactorDisplay}</Text>
           </View>
 
-          {/* Explanation */}
-          <Text style={styles.explanation}>{result.explanation}</Text>
+          {/* Adjusted Bake Settings */}
+          {result.adjustedBakeTime && (
+            <View style={styles.adjustedSettings}>
+              <Text style={styles.adjustedTitle}>Adjusted Baking</Text>
+              <View style={styles.adjustedRow}>
+                <View style={styles.adjustedItem}>
+                  <Icon name="timer" size="sm" color={colors.primary} />
+                  <Text style={styles.adjustedValue}>{result.adjustedBakeTime} min</Text>
+                </View>
+              </View>
+            </View>
+          )}
+
+          {/* Crumb's tips */}
+          {aiContainerScale.isPending && (
+            <View style={[styles.loadingRow, styles.tipsLoading]}>
+              <ActivityIndicator color={colors.primary} size="small" />
+              <Text style={styles.tipsLoadingText}>Crumb is thinking up some tips...</Text>
+            </View>
+          )}
+
+          {aiContainerScale.isError && (
+            <View style={[styles.errorContainer, styles.tipsError]}>
+              <Icon name="error" size="md" color={colors.error} />
+              <Text style={styles.errorText}>
+                Crumb's tips aren't available right now, but the scale above still works.
+              </Text>
+            </View>
+          )}
+
+          {tips && <Text style={styles.explanation}>{tips.explanation}</Text>}
 
           {/* Warning */}
-          {result.warning && (
+          {tips?.warning && (
             <View style={styles.warningCard}>
               <Icon name="warning" size="md" color={colors.warning} />
-              <Text style={styles.warningText}>{result.warning}</Text>
+              <Text style={styles.warningText}>{tips.warning}</Text>
             </View>
           )}
 
           {/* Tips */}
-          {result.tips.length > 0 && (
+          {tips && tips.tips.length > 0 && (
             <View style={styles.tipsSection}>
               <Text style={styles.tipsTitle}>Tips</Text>
-              {result.tips.map((tip, index) => (
+              {tips.tips.map((tip, index) => (
                 <View key={index} style={styles.tipCard}>
                   <Text style={styles.tipTitle}>{tip.title}</Text>
                   <Text style={styles.tipSuggestion}>{tip.suggestion}</Text>
@@ -674,32 +687,9 @@ export default function ContainerScaleModal({
             </View>
           )}
 
-          {/* Adjusted Bake Settings */}
-          {(result.adjustedBakeTime || result.adjustedBakeTemp) && (
-            <View style={styles.adjustedSettings}>
-              <Text style={styles.adjustedTitle}>Adjusted Baking</Text>
-              <View style={styles.adjustedRow}>
-                {result.adjustedBakeTime && (
-                  <View style={styles.adjustedItem}>
-                    <Icon name="timer" size="sm" color={colors.primary} />
-                    <Text style={styles.adjustedValue}>{result.adjustedBakeTime} min</Text>
-                  </View>
-                )}
-                {result.adjustedBakeTemp && (
-                  <View style={styles.adjustedItem}>
-                    <Icon name="thermostat" size="sm" color={colors.primary} />
-                    <Text style={styles.adjustedValue}>
-                      {result.adjustedBakeTemp}°{result.adjustedBakeTempUnit || 'F'}
-                    </Text>
-                  </View>
-                )}
-              </View>
-            </View>
-          )}
-
           {/* Action Buttons */}
           <View style={styles.actionButtons}>
-            <TouchableOpacity style={styles.recalculateButton} onPress={() => setResult(null)}>
+            <TouchableOpacity style={styles.recalculateButton} onPress={handleRecalculate}>
               <Icon name="refresh" size="sm" color={colors.primary} />
               <Text style={styles.recalculateText}>Recalculate</Text>
             </TouchableOpacity>
@@ -917,6 +907,18 @@ const styles = StyleSheet.create({
     fontSize: fontSize.sm,
     color: colors.error,
   },
+  tipsLoading: {
+    marginBottom: spacing[3],
+  },
+  tipsLoadingText: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.dustyMauve,
+  },
+  tipsError: {
+    marginTop: 0,
+    marginBottom: spacing[3],
+  },
   resultSection: {
     marginTop: spacing[4],
   },
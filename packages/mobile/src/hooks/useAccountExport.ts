@@ -0,0 +1,26 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { accountApi } from '../api/client';
+
+const EXPORT_POLL_INTERVAL_MS = 3000;
+
+export function useStartAccountExport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (includePhotos: boolean) => accountApi.startExport(includePhotos),
+    onSuccess: (result) => {
+      queryClient.setQueryData(['account-export', result.exportId], result);
+    },
+  });
+}
+
+// Polls until the export is ready or has failed
+export function useAccountExport(exportId: string | null) {
+  return useQuery({
+    queryKey: ['account-export', exportId],
+    queryFn: () => accountApi.getExport(exportId!),
+    enabled: !!exportId,
+    refetchInterval: (query) =>
+      query.state.data?.status === 'pending' ? EXPORT_POLL_INTERVAL_MS : false,
+  });
+}
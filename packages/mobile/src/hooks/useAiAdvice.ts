@@ -1,6 +1,6 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { attemptsApi } from '../api/client';
-import type { AiAdviceRequest, AiAdviceResponse } from '@proofed/shared';
+import type { AiAdviceRequest, AiAdviceResponse, Attempt } from '@proofed/shared';
 
 export function useAiAdvice() {
   const queryClient = useQueryClient();
@@ -13,3 +13,26 @@ export function useAiAdvice() {
     },
   });
 }
+
+export function useRegenerateAiAdvice() {
+  const queryClient = useQueryClient();
+
+  return useMutation<AiAdviceResponse, Error, { attemptId: string; request: AiAdviceRequest }>({
+    mutationFn: ({ attemptId, request }) => attemptsApi.regenerateAiAdvice(attemptId, request),
+    onSuccess: (_, { attemptId }) => {
+      // The new advice is now current and appended to aiAdviceHistory
+      queryClient.invalidateQueries({ queryKey: ['attempts', attemptId] });
+    },
+  });
+}
+
+export function useSetCurrentAiAdvice() {
+  const queryClient = useQueryClient();
+
+  return useMutation<Attempt, Error, { attemptId: string; adviceId: string }>({
+    mutationFn: ({ attemptId, adviceId }) => attemptsApi.setCurrentAiAdvice(attemptId, { adviceId }),
+    onSuccess: (attempt) => {
+      queryClient.setQueryData(['attempts', attempt.attemptId], attempt);
+    },
+  });
+}
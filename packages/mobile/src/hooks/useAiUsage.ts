@@ -0,0 +1,10 @@
+import { useQuery } from '@tanstack/react-query';
+import { aiUsageApi } from '../api/client';
+
+export function useAiUsage() {
+  return useQuery({
+    queryKey: ['ai-usage'],
+    queryFn: aiUsageApi.get,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
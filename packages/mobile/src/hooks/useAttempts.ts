@@ -1,4 +1,5 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as Sharing from 'expo-sharing';
 import { attemptsApi } from '../api/client';
 import type {
   CreateAttemptRequest,
@@ -13,6 +14,19 @@ export function useAttempts() {
   });
 }
 
+const ATTEMPTS_PAGE_SIZE = 20;
+
+// Paged attempts (latest bake date first) for infinite-scroll lists
+export function useInfiniteAttempts() {
+  return useInfiniteQuery({
+    queryKey: ['attempts', 'infinite'],
+    queryFn: ({ pageParam }) =>
+      attemptsApi.listPage({ cursor: pageParam, limit: ATTEMPTS_PAGE_SIZE }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+}
+
 export function useStarredAttempts() {
   return useQuery({
     queryKey: ['attempts', 'starred'],
@@ -71,6 +85,7 @@ export function useDeleteAttempt() {
     mutationFn: (attemptId: string) => attemptsApi.delete(attemptId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['attempts'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
     },
   });
 }
@@ -91,3 +106,21 @@ export function useCaptureAttempt() {
     },
   });
 }
+
+// Downloads the printable bake sheet and opens the share sheet with it
+export function useShareBakeSheet() {
+  return useMutation({
+    mutationFn: async ({ attemptId, name }: { attemptId: string; name: string }) => {
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+      }
+      const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+      const uri = await attemptsApi.downloadBakeSheet(attemptId, `${slug || 'bake'}-bake-sheet.pdf`);
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/pdf',
+        UTI: 'com.adobe.pdf',
+        dialogTitle: 'Share Bake Sheet',
+      });
+    },
+  });
+}
@@ -1,9 +1,40 @@
-import { useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { attemptsApi } from '../api/client';
-import type { CrumbChatRequest, CrumbChatResponse } from '@proofed/shared';
+import type {
+  CrumbChatRequest,
+  CrumbChatResponse,
+  CrumbChatThread,
+  ItemUsage,
+} from '@proofed/shared';
+
+// The thread an item usage's chat is kept under: the same item, recipe and variant share one
+export function crumbChatKey(usage: Pick<ItemUsage, 'itemId' | 'recipeId' | 'variantId'>): string {
+  return [usage.itemId, usage.recipeId, usage.variantId ?? ''].join(':');
+}
+
+export function useCrumbChatThreads(attemptId: string) {
+  return useQuery({
+    queryKey: ['attempts', attemptId, 'crumb-chat-threads'],
+    queryFn: async () => (await attemptsApi.crumbChatThreads(attemptId)).items,
+    enabled: !!attemptId,
+  });
+}
 
 export function useCrumbChat() {
-  return useMutation<CrumbChatResponse, Error, { attemptId: string; request: CrumbChatRequest }>({
-    mutationFn: ({ attemptId, request }) => attemptsApi.crumbChat(attemptId, request),
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    CrumbChatResponse,
+    Error,
+    { attemptId: string; request: CrumbChatRequest; onText: (text: string) => void }
+  >({
+    mutationFn: ({ attemptId, request, onText }) => attemptsApi.streamCrumbChat(attemptId, request, onText),
+    onSuccess: ({ thread }, { attemptId }) => {
+      // Put the updated thread first, as the server lists them
+      queryClient.setQueryData<CrumbChatThread[]>(
+        ['attempts', attemptId, 'crumb-chat-threads'],
+        (threads = []) => [thread, ...threads.filter((t) => t.itemUsageKey !== thread.itemUsageKey)]
+      );
+    },
   });
 }
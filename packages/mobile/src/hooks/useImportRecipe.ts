@@ -0,0 +1,18 @@
+import { useMutation } from '@tanstack/react-query';
+import { recipesApi } from '../api/client';
+import type { MeasurementSystem, RecipeHtmlImportResponse } from '@proofed/shared';
+
+// The app downloads the page itself; the API only reads the HTML it is given
+async function importFromUrl(url: string, measurementSystem: MeasurementSystem): Promise<RecipeHtmlImportResponse> {
+  const page = await fetch(url, { headers: { Accept: 'text/html' } });
+  if (!page.ok) {
+    throw new Error(`Couldn't open that page (${page.status})`);
+  }
+  return recipesApi.importHtml({ html: await page.text(), url: page.url || url, measurementSystem });
+}
+
+export function useImportRecipe() {
+  return useMutation<RecipeHtmlImportResponse, Error, { url: string; measurementSystem: MeasurementSystem }>({
+    mutationFn: ({ url, measurementSystem }) => importFromUrl(url, measurementSystem),
+  });
+}
@@ -1,19 +1,83 @@
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ingredientsApi } from '../api/client';
-import type { IngredientSuggestion, SubmitIngredientRequest } from '@proofed/shared';
+import type {
+  IngredientsData,
+  IngredientsDelta,
+  IngredientSuggestion,
+  SubmitIngredientRequest,
+} from '@proofed/shared';
+
+const STORAGE_KEY = '@proofed/ingredients';
+
+async function loadCached(): Promise<IngredientsData | null> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function applyDelta(cached: IngredientsData, delta: IngredientsDelta): IngredientsData {
+  if (delta.full) {
+    return { version: delta.version, ingredients: delta.ingredients };
+  }
+  const changed = new Set([...delta.removed, ...delta.ingredients.map((ingredient) => ingredient.name)]);
+  return {
+    version: delta.version,
+    ingredients: [...cached.ingredients.filter((ingredient) => !changed.has(ingredient.name)), ...delta.ingredients],
+  };
+}
+
+// The list is kept on the device and brought up to date with just the changes since its version
+async function syncIngredients(): Promise<IngredientsData> {
+  const cached = await loadCached();
+  if (!cached) {
+    const data = await ingredientsApi.list();
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    return data;
+  }
+
+  try {
+    const delta = await ingredientsApi.changesSince(cached.version);
+    if (!delta) {
+      return cached;
+    }
+    const data = applyDelta(cached, delta);
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    return data;
+  } catch {
+    // Offline: suggestions from the last sync are better than none
+    return cached;
+  }
+}
 
 export function useIngredientSuggestions() {
   return useQuery({
     queryKey: ['ingredients'],
-    queryFn: ingredientsApi.list,
-    staleTime: 24 * 60 * 60 * 1000, // 24 hours
+    queryFn: syncIngredients,
+    staleTime: 60 * 60 * 1000, // 1 hour; a check that finds nothing new is a bodiless 304
     gcTime: 7 * 24 * 60 * 60 * 1000, // 7 days (cache time)
   });
 }
 
 export function useSubmitIngredient() {
+  const queryClient = useQueryClient();
   return useMutation({
     mutationFn: (data: SubmitIngredientRequest) => ingredientsApi.submit(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ingredient-submissions'] });
+    },
+  });
+}
+
+export function useMySubmissions(enabled = true) {
+  return useQuery({
+    queryKey: ['ingredient-submissions'],
+    queryFn: ingredientsApi.listSubmissions,
+    select: (page) => page.items,
+    enabled,
   });
 }
 
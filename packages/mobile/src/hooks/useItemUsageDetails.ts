@@ -1,8 +1,8 @@
 import { useQueries } from '@tanstack/react-query';
-import { itemsApi, recipesApi, variantsApi } from '../api/client';
+import { itemsApi, recipesApi, variantsApi, isApiError } from '../api/client';
 import { scaleIngredients } from '../utils/scaleRecipe';
 import { mergeIngredients } from '../utils/mergeIngredients';
-import type { ItemUsage, Ingredient, ItemType, ContainerInfo } from '@proofed/shared';
+import type { ItemUsage, Ingredient, ItemType, ContainerInfo, RecipeContent } from '@proofed/shared';
 
 export interface ItemUsageDetail {
   itemName: string;
@@ -29,6 +29,17 @@ export interface ItemUsageDetail {
   // Store-bought usage fields (from ItemUsage)
   usageQuantity?: number;
   usageUnit?: string;
+  // Set when the recipe has been edited since this bake; the fields above are as baked
+  recipeRevision?: number;
+  // Set when the referenced pantry data has since been deleted
+  itemDeleted?: boolean;
+  recipeDeleted?: boolean;
+  variantDeleted?: boolean;
+}
+
+// A 404 means the data was deleted, so there's nothing to gain from retrying
+function retryUnlessNotFound(failureCount: number, error: Error): boolean {
+  return !isApiError(error, 'NOT_FOUND') && failureCount < 3;
 }
 
 export function useItemUsageDetails(itemUsages: ItemUsage[]) {
@@ -38,6 +49,7 @@ export function useItemUsageDetails(itemUsages: ItemUsage[]) {
       queryKey: ['items', usage.itemId],
       queryFn: () => itemsApi.get(usage.itemId),
       enabled: !!usage.itemId,
+      retry: retryUnlessNotFound,
     })),
   });
 
@@ -46,26 +58,52 @@ export function useItemUsageDetails(itemUsages: ItemUsage[]) {
       queryKey: ['recipes', usage.itemId, usage.recipeId],
       queryFn: () => recipesApi.get(usage.itemId, usage.recipeId),
       enabled: !!usage.itemId && !!usage.recipeId,
+      retry: retryUnlessNotFound,
     })),
   });
 
+  // Bakes pinned to an older revision show the recipe as it was when they were made
+  const revisionQueries = useQueries({
+    queries: itemUsages.map((usage, index) => {
+      const recipe = recipeQueries[index]?.data;
+      return {
+        queryKey: ['recipeRevisions', usage.itemId, usage.recipeId, usage.recipeRevision],
+        queryFn: () => recipesApi.getRevision(usage.itemId, usage.recipeId, usage.recipeRevision!),
+        enabled:
+          usage.recipeRevision !== undefined &&
+          !!recipe &&
+          (recipe.version ?? 0) !== usage.recipeRevision,
+        retry: retryUnlessNotFound,
+        staleTime: Infinity,  // revisions never change
+      };
+    }),
+  });
+
   const variantQueries = useQueries({
     queries: itemUsages.map((usage) => ({
       queryKey: ['variants', usage.itemId, usage.recipeId, usage.variantId],
       queryFn: () => variantsApi.get(usage.itemId, usage.recipeId, usage.variantId!),
       enabled: !!usage.itemId && !!usage.recipeId && !!usage.variantId,
+      retry: retryUnlessNotFound,
     })),
   });
 
   const isLoading =
     itemQueries.some((q) => q.isLoading) ||
     recipeQueries.some((q) => q.isLoading) ||
+    revisionQueries.some((q) => q.isLoading) ||
     variantQueries.some((q) => q.isLoading && itemUsages[variantQueries.indexOf(q)]?.variantId);
 
   const details: ItemUsageDetail[] = itemUsages.map((usage, index) => {
     const item = itemQueries[index]?.data;
-    const recipe = recipeQueries[index]?.data;
+    const revision = revisionQueries[index]?.data;
+    // Falls back to the current recipe if the pinned revision can't be found
+    const recipe: RecipeContent | undefined = revision?.recipe ?? recipeQueries[index]?.data;
     const variant = variantQueries[index]?.data;
+    // A 404 means the item/recipe/variant was deleted after this bake was planned
+    const itemDeleted = isApiError(itemQueries[index]?.error, 'NOT_FOUND');
+    const recipeDeleted = isApiError(recipeQueries[index]?.error, 'NOT_FOUND');
+    const variantDeleted = !!usage.variantId && isApiError(variantQueries[index]?.error, 'NOT_FOUND');
     const scaleFactor = usage.scaleFactor ?? 1;
 
     // Get merged ingredients from recipe and variant
@@ -80,10 +118,10 @@ export function useItemUsageDetails(itemUsages: ItemUsage[]) {
     const bakeTempUnit = variant?.bakeTempUnit ?? recipe?.bakeTempUnit;
 
     return {
-      itemName: item?.name || 'Unknown Item',
+      itemName: item?.name || (itemDeleted ? 'Deleted item' : 'Unknown Item'),
       itemType: item?.type || 'other',
-      recipeName: recipe?.name || 'Unknown Recipe',
-      variantName: variant?.name,
+      recipeName: recipe?.name || (recipeDeleted ? 'Recipe deleted' : 'Unknown Recipe'),
+      variantName: variant?.name || (variantDeleted ? 'Variant deleted' : undefined),
       scaleFactor,
       ingredients: scaledIngredients,
       baseIngredients,
@@ -104,6 +142,10 @@ export function useItemUsageDetails(itemUsages: ItemUsage[]) {
       // Store-bought usage fields (from ItemUsage)
       usageQuantity: usage.usageQuantity,
       usageUnit: usage.usageUnit || recipe?.purchaseUnit,
+      recipeRevision: revision?.revision,
+      itemDeleted,
+      recipeDeleted,
+      variantDeleted,
     };
   });
 
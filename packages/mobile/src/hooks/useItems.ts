@@ -1,4 +1,4 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { itemsApi } from '../api/client';
 import type { CreateItemRequest, UpdateItemRequest } from '@proofed/shared';
 
@@ -9,6 +9,18 @@ export function useItems() {
   });
 }
 
+const ITEMS_PAGE_SIZE = 30;
+
+// Paged items for infinite-scroll lists
+export function useInfiniteItems() {
+  return useInfiniteQuery({
+    queryKey: ['items', 'infinite'],
+    queryFn: ({ pageParam }) => itemsApi.listPage({ cursor: pageParam, limit: ITEMS_PAGE_SIZE }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+}
+
 export function useItem(itemId: string) {
   return useQuery({
     queryKey: ['items', itemId],
@@ -46,8 +58,12 @@ export function useDeleteItem() {
 
   return useMutation({
     mutationFn: (itemId: string) => itemsApi.delete(itemId),
-    onSuccess: () => {
+    onSuccess: (_, itemId) => {
       queryClient.invalidateQueries({ queryKey: ['items'] });
+      // Recipes and variants are deleted along with the item
+      queryClient.invalidateQueries({ queryKey: ['recipes', itemId] });
+      queryClient.invalidateQueries({ queryKey: ['variants', itemId] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
     },
   });
 }
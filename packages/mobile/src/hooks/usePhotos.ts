@@ -1,6 +1,7 @@
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import * as ImageManipulator from 'expo-image-manipulator';
 import { photosApi, ImageAsset } from '../api/client';
+import type { PhotoSize } from '@proofed/shared';
 
 const MAX_DIMENSION = 1440;
 const COMPRESSION_QUALITY = 0.7;
@@ -26,32 +27,71 @@ export function usePhotoUpload() {
       const compressedUri = await compressImage(image.uri);
 
       const fileName = image.fileName || `photo_${Date.now()}.jpg`;
-      const contentType = 'image/jpeg';
+      const contentType = 'image/jpeg' as const;
 
-      const { uploadUrl, key } = await photosApi.getUploadUrl({
+      const upload = await photosApi.getUploadUrl({
         attemptId,
         fileName,
         contentType,
       });
-      await photosApi.upload(uploadUrl, {
+      await photosApi.upload(upload, {
         uri: compressedUri,
         type: 'image/jpeg',
         fileName,
       });
-      return key;
+      return upload.key;
     },
   });
 }
 
-export function usePhotoUrl(key: string | undefined) {
+export function useDeletePhoto() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (key: string) => photosApi.delete(key),
+    onSuccess: (_, key) => {
+      // The server also takes the photo off its attempt
+      queryClient.invalidateQueries({ queryKey: ['attempts'] });
+      queryClient.removeQueries({ queryKey: ['photo', key] });
+    },
+  });
+}
+
+// Thumbnails and medium copies exist once the upload has been processed; until then the original is served
+export function usePhotoUrl(key: string | undefined, size: PhotoSize = 'full') {
   return useQuery({
-    queryKey: ['photo', key],
+    queryKey: ['photo', key, size],
     queryFn: async () => {
       if (!key) return null;
-      const { downloadUrl } = await photosApi.getDownloadUrl({ key });
+      const { downloadUrl } = await photosApi.getDownloadUrl({ key, size });
       return downloadUrl;
     },
     enabled: !!key,
     staleTime: 1000 * 60 * 30, // URLs valid for 30 min (actual is 1 hour, buffer for safety)
   });
 }
+
+/**
+ * Sign all of an attempt's photos in one request and seed the per-photo cache, so the
+ * usePhotoUrl calls in a gallery don't each make their own round trip.
+ */
+export function useAttemptPhotoUrls(
+  attemptId: string | undefined,
+  photoKeys: string[] = [],
+  size: PhotoSize = 'full'
+) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ['attemptPhotos', attemptId, photoKeys, size],
+    queryFn: async () => {
+      const { photos } = await photosApi.getDownloadUrls({ attemptId: attemptId!, size });
+      for (const photo of photos) {
+        queryClient.setQueryData(['photo', photo.key, size], photo.downloadUrl);
+      }
+      return photos;
+    },
+    enabled: !!attemptId && photoKeys.length > 0,
+    staleTime: 1000 * 60 * 30,
+  });
+}
@@ -56,8 +56,41 @@ export function useDeleteRecipe() {
   return useMutation({
     mutationFn: ({ itemId, recipeId }: { itemId: string; recipeId: string }) =>
       recipesApi.delete(itemId, recipeId),
-    onSuccess: (_, { itemId }) => {
+    onSuccess: (_, { itemId, recipeId }) => {
+      queryClient.invalidateQueries({ queryKey: ['recipes', itemId] });
+      // Variants are deleted along with the recipe
+      queryClient.invalidateQueries({ queryKey: ['variants', itemId, recipeId] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+  });
+}
+
+export function useRecipeRevisions(itemId: string, recipeId: string) {
+  return useQuery({
+    queryKey: ['recipeRevisions', itemId, recipeId],
+    queryFn: () => recipesApi.listRevisions(itemId, recipeId),
+    enabled: !!itemId && !!recipeId,
+  });
+}
+
+export function useRestoreRecipeRevision() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      itemId,
+      recipeId,
+      revision,
+      version,
+    }: {
+      itemId: string;
+      recipeId: string;
+      revision: number;
+      version?: number;
+    }) => recipesApi.restoreRevision(itemId, recipeId, revision, { version }),
+    onSuccess: (_, { itemId, recipeId }) => {
       queryClient.invalidateQueries({ queryKey: ['recipes', itemId] });
+      queryClient.invalidateQueries({ queryKey: ['recipeRevisions', itemId, recipeId] });
     },
   });
 }
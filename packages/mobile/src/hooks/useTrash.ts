@@ -0,0 +1,28 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { trashApi } from '../api/client';
+
+export function useTrash() {
+  return useQuery({
+    queryKey: ['trash'],
+    queryFn: () => trashApi.list(),
+  });
+}
+
+export function useRestoreFromTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => trashApi.restore(id),
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      // Restoring an item brings back its recipes and variants too
+      if (entry.type === 'attempt') {
+        queryClient.invalidateQueries({ queryKey: ['attempts'] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['items'] });
+        queryClient.invalidateQueries({ queryKey: ['recipes'] });
+        queryClient.invalidateQueries({ queryKey: ['variants'] });
+      }
+    },
+  });
+}
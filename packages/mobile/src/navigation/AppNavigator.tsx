@@ -27,6 +27,7 @@ import TimerScreen from '../screens/TimerScreen';
 import AnalyticsScreen from '../screens/AnalyticsScreen';
 import MilestonesScreen from '../screens/MilestonesScreen';
 import NotificationsScreen from '../screens/NotificationsScreen';
+import TrashScreen from '../screens/TrashScreen';
 
 // Auth Screens
 import {
@@ -147,6 +148,7 @@ function MainNavigator() {
       <Stack.Screen name="Notifications" component={NotificationsScreen} />
       <Stack.Screen name="Analytics" component={AnalyticsScreen} />
       <Stack.Screen name="Milestones" component={MilestonesScreen} />
+      <Stack.Screen name="Trash" component={TrashScreen} />
       <Stack.Screen name="TimerScreen" component={TimerScreen} />
     </Stack.Navigator>
   );
@@ -34,6 +34,7 @@ export type RootStackParamList = {
   Notifications: undefined;
   Analytics: undefined;
   Milestones: undefined;
+  Trash: undefined;
   TimerScreen: {
     itemName: string;
     bakeTimeMinutes: number;
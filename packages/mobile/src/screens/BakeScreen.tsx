@@ -18,11 +18,12 @@ import { useItem } from '../hooks/useItems';
 import { useRecipe } from '../hooks/useRecipes';
 import { useVariant } from '../hooks/useVariants';
 import { useItemUsageDetails } from '../hooks/useItemUsageDetails';
+import { crumbChatKey } from '../hooks/useCrumbChat';
 import { mergeIngredients } from '../utils/mergeIngredients';
 import CrumbChatModal from '../components/ai/CrumbChatModal';
 import { colors, fontFamily, fontSize, spacing, borderRadius } from '../theme';
 import type { RootStackParamList } from '../navigation/types';
-import type { ItemUsage, ChatMessage } from '@proofed/shared';
+import type { ItemUsage } from '@proofed/shared';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
 type BakeScreenRouteProp = RouteProp<RootStackParamList, 'BakeScreen'>;
@@ -51,7 +52,6 @@ export default function BakeScreen() {
   // Crumb Chat State
   const [showCrumbChat, setShowCrumbChat] = useState(false);
   const [activeChatIndex, setActiveChatIndex] = useState(0);
-  const [chatHistories, setChatHistories] = useState<Record<number, ChatMessage[]>>({});
 
   // Get details for all items (ingredients, prepNotes, etc.)
   const { details: usageDetails } = useItemUsageDetails(editedUsages);
@@ -138,10 +138,6 @@ export default function BakeScreen() {
     setShowCrumbChat(false);
   };
 
-  const handleChatHistoryChange = (index: number, messages: ChatMessage[]) => {
-    setChatHistories((prev) => ({ ...prev, [index]: messages }));
-  };
-
   if (isLoading) return <Loading />;
   if (!attempt) {
     return (
@@ -265,19 +261,17 @@ export default function BakeScreen() {
       </Modal>
 
       {/* Crumb Chat Modal */}
-      {usageDetails[activeChatIndex] && (
+      {usageDetails[activeChatIndex] && editedUsages[activeChatIndex] && (
         <CrumbChatModal
           isOpen={showCrumbChat}
           onClose={handleCloseCrumbChat}
           attemptId={attemptId}
           attemptName={attempt.name}
-          itemUsageKey={`bake-${activeChatIndex}`}
+          itemUsageKey={crumbChatKey(editedUsages[activeChatIndex])}
           itemDetail={usageDetails[activeChatIndex]}
           otherItemNames={usageDetails
             .filter((_, i) => i !== activeChatIndex)
             .map((d) => d.itemName)}
-          chatHistory={chatHistories[activeChatIndex] || []}
-          onChatHistoryChange={(messages) => handleChatHistoryChange(activeChatIndex, messages)}
         />
       )}
     </View>
@@ -1,4 +1,4 @@
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -7,11 +7,14 @@ import {
   StyleSheet,
   Alert,
   Animated,
+  ActivityIndicator,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
 } from 'react-native';
 import { Swipeable } from 'react-native-gesture-handler';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
-import { useAttempts, useDeleteAttempt } from '../hooks/useAttempts';
+import { useAttempts, useInfiniteAttempts, useDeleteAttempt } from '../hooks/useAttempts';
 import { Icon, SkeletonCard } from '../components/common';
 import { colors, spacing, borderRadius, fontFamily, fontSize } from '../theme';
 import type { Attempt, AttemptStatus } from '@proofed/shared';
@@ -43,8 +46,37 @@ const getStatusLabel = (status?: AttemptStatus) => {
 export default function BakesScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation();
-  const { data: attempts, isLoading, error } = useAttempts();
+  const {
+    data,
+    isLoading,
+    error,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useInfiniteAttempts();
+  // Milestones count from the very first bake, so they come from the full list the badges use
+  const { data: allAttempts } = useAttempts();
   const deleteAttempt = useDeleteAttempt();
+  const attempts = React.useMemo(() => data?.pages.flatMap((page) => page.items), [data]);
+
+  // Load the next page once the user scrolls near the bottom of the log
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    const nearBottom = layoutMeasurement.height + contentOffset.y >= contentSize.height - 400;
+    if (nearBottom && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  // A log that doesn't fill the screen can't be scrolled, so keep loading until it does
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [contentHeight, setContentHeight] = useState(0);
+  React.useEffect(() => {
+    const fillsScreen = contentHeight >= viewportHeight + 400;
+    if (viewportHeight > 0 && !fillsScreen && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [viewportHeight, contentHeight, hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   const handleDelete = (attemptId: string, attemptName: string) => {
     Alert.alert(
@@ -89,17 +121,17 @@ export default function BakesScreen() {
     { n: 100, label: '100th bake', icon: 'military_tech',        color: '#C62828' },
   ];
   const milestoneMap = React.useMemo(() => {
-    const completed = [...(attempts || [])]
+    const map = new Map<string, { label: string; icon: string; color: string }>();
+    const completed = [...(allAttempts || [])]
       .filter((a) => a.status === 'done' || !a.status)
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    const map = new Map<string, { label: string; icon: string; color: string }>();
     MILESTONES.forEach(({ n, label, icon, color }) => {
       if (completed[n - 1]) {
         map.set(completed[n - 1].attemptId, { label, icon, color });
       }
     });
     return map;
-  }, [attempts]);
+  }, [allAttempts]);
 
   const hasAttempts = upcomingAttempts.length > 0 || pastAttempts.length > 0;
 
@@ -123,6 +155,10 @@ export default function BakesScreen() {
         style={styles.content}
         showsVerticalScrollIndicator={false}
         contentContainerStyle={styles.scrollContent}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
+        onLayout={({ nativeEvent }) => setViewportHeight(nativeEvent.layout.height)}
+        onContentSizeChange={(_, height) => setContentHeight(height)}
       >
         {isLoading ? (
           <>
@@ -212,6 +248,10 @@ export default function BakesScreen() {
                 </View>
               </>
             )}
+
+            {isFetchingNextPage && (
+              <ActivityIndicator style={styles.pageLoader} size="small" color={colors.primary} />
+            )}
           </>
         )}
       </ScrollView>
@@ -531,6 +571,9 @@ const styles = StyleSheet.create({
     fontFamily: fontFamily.medium,
     fontSize: fontSize.xs,
   },
+  pageLoader: {
+    marginTop: spacing[6],
+  },
   attemptName: {
     fontFamily: fontFamily.bold,
     fontSize: fontSize.base,
@@ -15,22 +15,32 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { Icon, Modal, Loading, FavoriteButton, Skeleton, SkeletonThumbnail } from '../components/common';
 import { PhotoUpload, ImageAsset, LuxuryPhotoGallery } from '../components/photos';
 import { AiAdviceSection } from '../components/ai';
+import CrumbChatModal from '../components/ai/CrumbChatModal';
 import { NutritionSection } from '../components/nutrition';
 import { useAttempt, useUpdateAttempt, useDeleteAttempt, useCreateAttempt } from '../hooks/useAttempts';
-import { useAiAdvice } from '../hooks/useAiAdvice';
+import { useAiAdvice, useRegenerateAiAdvice, useSetCurrentAiAdvice } from '../hooks/useAiAdvice';
 import { useItem } from '../hooks/useItems';
 import { useRecipe } from '../hooks/useRecipes';
 import { useVariant, useCreateVariant } from '../hooks/useVariants';
 import VariantForm from '../components/variants/VariantForm';
-import { usePhotoUpload, usePhotoUrl } from '../hooks/usePhotos';
+import { usePhotoUpload, usePhotoUrl, useAttemptPhotoUrls, useDeletePhoto } from '../hooks/usePhotos';
 import { useItemUsageDetails } from '../hooks/useItemUsageDetails';
+import { useCrumbChatThreads, crumbChatKey } from '../hooks/useCrumbChat';
 import { useMilestones } from '../hooks/useMilestones';
 import { usePreferences } from '../contexts/PreferencesContext';
 import { NibsSummary } from '../components/milestones';
 import { formatScaleFactor } from '../utils/scaleRecipe';
 import { colors, fontFamily, fontSize, spacing, borderRadius } from '../theme';
 import type { RootStackParamList } from '../navigation/types';
-import type { ItemUsage, AiAdviceResponse, AiAdviceRequest, AiAdviceTip, NutritionInfo } from '@proofed/shared';
+import { MAX_AI_ADVICE_VERSIONS } from '@proofed/shared';
+import type {
+  ItemUsage,
+  AiAdviceResponse,
+  AiAdviceRequest,
+  AiAdviceTip,
+  NutritionInfo,
+  CrumbChatThread,
+} from '@proofed/shared';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
 type EvaluateScreenRouteProp = RouteProp<RootStackParamList, 'EvaluateScreen'>;
@@ -56,10 +66,21 @@ export default function EvaluateScreen() {
   const deleteAttempt = useDeleteAttempt();
   const createAttempt = useCreateAttempt();
   const photoUpload = usePhotoUpload();
+  const deletePhoto = useDeletePhoto();
   const aiAdviceMutation = useAiAdvice();
+  const regenerateAdviceMutation = useRegenerateAiAdvice();
+  const setCurrentAdviceMutation = useSetCurrentAiAdvice();
   const createVariantMutation = useCreateVariant();
   const { data: mainPhotoUrl } = usePhotoUrl(attempt?.mainPhotoKey);
+  // The photo grid and gallery both show medium copies
+  useAttemptPhotoUrls(attemptId, attempt?.photoKeys, 'medium');
   const { details: itemUsageDetails, isLoading: detailsLoading } = useItemUsageDetails(attempt?.itemUsages || []);
+  const { data: chatThreads } = useCrumbChatThreads(attemptId);
+  const [activeChatKey, setActiveChatKey] = useState<string | null>(null);
+  // Threads can only be reopened for items still in the bake, since Crumb needs their details
+  const chatUsageKeys = (attempt?.itemUsages ?? []).map(crumbChatKey);
+  const visibleChatThreads = (chatThreads ?? []).filter((t) => chatUsageKeys.includes(t.itemUsageKey));
+  const activeChatUsageIndex = activeChatKey ? chatUsageKeys.indexOf(activeChatKey) : -1;
   const { earnedBadges, totalNibs, nextLevel, nibsToNextLevel } = useMilestones();
   const { preferences } = usePreferences();
 
@@ -89,13 +110,13 @@ export default function EvaluateScreen() {
     }
   }, [openGallery, attempt, hasAutoOpenedGallery]);
 
-  // Initialize aiAdvice from persisted attempt data
+  // Initialize aiAdvice from persisted attempt data, following it when another version becomes current
   const [aiAdvice, setAiAdvice] = useState<AiAdviceResponse | null>(null);
   React.useEffect(() => {
-    if (attempt?.aiAdvice && !aiAdvice) {
+    if (attempt?.aiAdvice) {
       setAiAdvice(attempt.aiAdvice);
     }
-  }, [attempt?.aiAdvice, aiAdvice]);
+  }, [attempt?.aiAdvice]);
   const [variantCreation, setVariantCreation] = useState<{
     isOpen: boolean;
     tip: AiAdviceTip | null;
@@ -196,17 +217,10 @@ export default function EvaluateScreen() {
         text: 'Delete',
         style: 'destructive',
         onPress: () => {
-          const currentPhotoKeys = attempt?.photoKeys || [];
-          const newPhotoKeys = currentPhotoKeys.filter((k) => k !== photoKey);
+          // The server picks the next main photo if this one was it
+          deletePhoto.mutate(photoKey);
 
-          const updates: { photoKeys: string[]; mainPhotoKey?: string } = { photoKeys: newPhotoKeys };
-          if (attempt?.mainPhotoKey === photoKey) {
-            updates.mainPhotoKey = newPhotoKeys[0] || '';
-          }
-
-          updateAttempt.mutate({ attemptId, data: updates });
-
-          if (newPhotoKeys.length === 0) {
+          if ((attempt?.photoKeys || []).every((k) => k === photoKey)) {
             setPhotoGallery({ isOpen: false, initialIndex: 0 });
           }
         },
@@ -239,8 +253,8 @@ export default function EvaluateScreen() {
     );
   };
 
-  const handleRequestAdvice = () => {
-    if (!attempt || !attempt.outcomeNotes?.trim()) return;
+  const buildAdviceRequest = (): AiAdviceRequest | null => {
+    if (!attempt || !attempt.outcomeNotes?.trim()) return null;
 
     // Build the request with full context from item usage details
     // Use baseIngredients (unscaled) so AI suggestions can be saved as variants correctly
@@ -266,6 +280,12 @@ export default function EvaluateScreen() {
         nibsToNextLevel: nibsToNextLevel ?? 0,
       },
     };
+    return request;
+  };
+
+  const handleRequestAdvice = () => {
+    const request = buildAdviceRequest();
+    if (!request) return;
 
     aiAdviceMutation.mutate(
       { attemptId, request },
@@ -277,6 +297,24 @@ export default function EvaluateScreen() {
     );
   };
 
+  const handleRegenerateAdvice = () => {
+    const request = buildAdviceRequest();
+    if (!request) return;
+
+    regenerateAdviceMutation.mutate(
+      { attemptId, request },
+      {
+        onSuccess: (response) => {
+          setAiAdvice(response);
+        },
+      }
+    );
+  };
+
+  const handleSelectAdvice = (adviceId: string) => {
+    setCurrentAdviceMutation.mutate({ attemptId, adviceId });
+  };
+
   const handleCreateVariantFromTip = (tip: AiAdviceTip) => {
     if (!attempt) return;
 
@@ -516,14 +554,23 @@ export default function EvaluateScreen() {
           {/* AI Advice Section */}
           <AiAdviceSection
             advice={aiAdvice}
-            isLoading={aiAdviceMutation.isPending}
-            error={aiAdviceMutation.error}
+            isLoading={aiAdviceMutation.isPending || regenerateAdviceMutation.isPending}
+            error={aiAdviceMutation.error ?? regenerateAdviceMutation.error}
             onRequestAdvice={handleRequestAdvice}
             onCreateVariantFromTip={handleCreateVariantFromTip}
             canRequest={!!attempt.outcomeNotes?.trim() && !attempt.aiAdvice && !!attempt.mainPhotoKey}
             hasPhoto={!!attempt.mainPhotoKey}
             itemUsageDetails={itemUsageDetails}
             alreadyRequested={!!attempt.aiAdvice}
+            history={attempt.aiAdviceHistory}
+            onRegenerate={handleRegenerateAdvice}
+            canRegenerate={
+              !!attempt.outcomeNotes?.trim() &&
+              !!attempt.mainPhotoKey &&
+              (attempt.aiAdviceHistory?.length ?? 1) < MAX_AI_ADVICE_VERSIONS
+            }
+            onSelectAdvice={handleSelectAdvice}
+            isSelecting={setCurrentAdviceMutation.isPending}
           />
 
           {/* Nibs Earned Summary - only for completed bakes */}
@@ -538,6 +585,22 @@ export default function EvaluateScreen() {
           )}
         </View>
 
+            {/* Past Crumb chats, reopened where they left off */}
+            {visibleChatThreads.length > 0 && (
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>Crumb Chats</Text>
+                </View>
+                {visibleChatThreads.map((thread) => (
+                  <CrumbChatThreadRow
+                    key={thread.itemUsageKey}
+                    thread={thread}
+                    onPress={() => setActiveChatKey(thread.itemUsageKey)}
+                  />
+                ))}
+              </View>
+            )}
+
             <View style={{ height: 160 }} />
           </>
         ) : null}
@@ -684,10 +747,45 @@ export default function EvaluateScreen() {
             />
           )}
       </Modal>
+
+      {/* Crumb Chat Modal */}
+      {attempt && activeChatUsageIndex >= 0 && itemUsageDetails[activeChatUsageIndex] && (
+        <CrumbChatModal
+          isOpen={!!activeChatKey}
+          onClose={() => setActiveChatKey(null)}
+          attemptId={attemptId}
+          attemptName={attempt.name}
+          itemUsageKey={activeChatKey!}
+          itemDetail={itemUsageDetails[activeChatUsageIndex]}
+          otherItemNames={itemUsageDetails
+            .filter((_, i) => i !== activeChatUsageIndex)
+            .map((d) => d.itemName)}
+        />
+      )}
     </View>
   );
 }
 
+function CrumbChatThreadRow({ thread, onPress }: { thread: CrumbChatThread; onPress: () => void }) {
+  const lastMessage = thread.messages[thread.messages.length - 1];
+
+  return (
+    <TouchableOpacity style={styles.usageCard} onPress={onPress}>
+      <View style={styles.usageIcon}>
+        <Icon name="forum" size="sm" color={colors.primary} />
+      </View>
+      <View style={styles.usageInfo}>
+        <Text style={styles.usageName}>{thread.itemName}</Text>
+        <Text style={styles.usageDetails} numberOfLines={1}>
+          {thread.messages.length} message{thread.messages.length !== 1 ? 's' : ''}
+          {lastMessage && <Text> • {lastMessage.content}</Text>}
+        </Text>
+      </View>
+      <Icon name="chevron_right" size="sm" color={colors.dustyMauve} />
+    </TouchableOpacity>
+  );
+}
+
 function EvaluateScreenSkeleton() {
   return (
     <>
@@ -904,7 +1002,7 @@ function FeaturedPhoto({
   onPress?: () => void;
   style?: any;
 }) {
-  const { data: url, isLoading, isError } = usePhotoUrl(photoKey);
+  const { data: url, isLoading, isError } = usePhotoUrl(photoKey, 'medium');
   const [imageError, setImageError] = React.useState(false);
 
   if (isLoading) {
@@ -951,7 +1049,7 @@ function PhotoThumbnail({
   isMain?: boolean;
   onPress?: () => void;
 }) {
-  const { data: url, isLoading, isError } = usePhotoUrl(photoKey);
+  const { data: url, isLoading, isError } = usePhotoUrl(photoKey, 'thumbnail');
   const [imageError, setImageError] = React.useState(false);
 
   if (isLoading) {
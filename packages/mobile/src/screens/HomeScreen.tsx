@@ -328,7 +328,7 @@ function AttemptThumbnail({
   photoKey?: string;
   relativeDate?: string;
 }) {
-  const { data: url, isLoading } = usePhotoUrl(photoKey);
+  const { data: url, isLoading } = usePhotoUrl(photoKey, 'thumbnail');
 
   return (
     <View style={styles.thumbnail}>
@@ -12,7 +12,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { Icon, Modal, Loading, Badge, SupplierFavicon } from '../components/common';
 import { ItemForm } from '../components/items';
-import { RecipeForm } from '../components/recipes';
+import { RecipeForm, RecipeHistoryModal } from '../components/recipes';
 import { VariantForm } from '../components/variants';
 import ContainerScaleModal from '../components/scaling/ContainerScaleModal';
 import { useItem, useUpdateItem, useDeleteItem } from '../hooks/useItems';
@@ -21,9 +21,10 @@ import { useVariants, useCreateVariant, useUpdateVariant, useDeleteVariant } fro
 import { scaleIngredients, getScaleOptions, formatScaleFactor, calculateScaleFromIngredient } from '../utils/scaleRecipe';
 import { formatContainer } from '../constants/containers';
 import { getSupplierById } from '../constants/suppliers';
+import { isApiError } from '../api/client';
 import { colors, fontFamily, fontSize, spacing, borderRadius } from '../theme';
 import type { RootStackParamList } from '../navigation/types';
-import type { Recipe, Variant, Ingredient, CreateItemRequest, CreateRecipeRequest, CreateVariantRequest, ItemType } from '@proofed/shared';
+import type { Recipe, Variant, Ingredient, CreateItemRequest, CreateRecipeRequest, CreateVariantRequest, ItemType, DeleteResponse } from '@proofed/shared';
 
 type ItemDetailRouteProp = RouteProp<RootStackParamList, 'ItemDetail'>;
 
@@ -56,7 +57,11 @@ export default function ItemDetailScreen() {
   const [selectedRecipeId, setSelectedRecipeId] = useState<string | null>(route.params.recipeId ?? null);
   const [viewScale, setViewScale] = useState(route.params.scale ?? 1);
   const [editItemModal, setEditItemModal] = useState(false);
-  const [recipeModal, setRecipeModal] = useState<{ isOpen: boolean; recipe?: Recipe }>({ isOpen: false });
+  const [recipeModal, setRecipeModal] = useState<{
+    isOpen: boolean;
+    recipe?: Recipe;
+    conflict?: Recipe;  // Saved copy returned by a rejected update
+  }>({ isOpen: false });
   const [variantModal, setVariantModal] = useState<{
     isOpen: boolean;
     recipeId?: string;
@@ -68,6 +73,7 @@ export default function ItemDetailScreen() {
   } | null>(null);
   const [showActions, setShowActions] = useState(false);
   const [showPrepNotesModal, setShowPrepNotesModal] = useState(false);
+  const [showRecipeHistory, setShowRecipeHistory] = useState(false);
 
   // Scale by ingredient/container state
   const [showScaleByIngredient, setShowScaleByIngredient] = useState(false);
@@ -184,17 +190,32 @@ export default function ItemDetailScreen() {
     updateItem.mutate({ itemId, data }, { onSuccess: () => setEditItemModal(false) });
   };
 
+  // Bakes keep pointing at deleted data, so let the baker know which ones are affected
+  const notifyReferences = (result: DeleteResponse, label: string) => {
+    const bakeCount = result.references.attemptIds.length + result.references.proofedItemIds.length;
+    if (bakeCount === 0) return;
+    Alert.alert(
+      `${label} deleted`,
+      `${bakeCount} ${bakeCount === 1 ? 'bake still uses' : 'bakes still use'} it and will show it as deleted.`
+    );
+  };
+
   const handleDeleteItem = () => {
     Alert.alert(
       'Delete Item',
-      'Delete this item? All recipes and variants will be deleted.',
+      'Delete this item and all its recipes and variants? You can restore it from Recently deleted in Settings.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
           onPress: () => {
-            deleteItem.mutate(itemId, { onSuccess: () => navigation.goBack() });
+            deleteItem.mutate(itemId, {
+              onSuccess: (result) => {
+                navigation.goBack();
+                notifyReferences(result, 'Item');
+              },
+            });
           },
         },
       ]
@@ -207,20 +228,32 @@ export default function ItemDetailScreen() {
 
   const handleUpdateRecipe = (data: CreateRecipeRequest) => {
     if (recipeModal.recipe) {
+      const recipe = recipeModal.recipe;
       updateRecipe.mutate(
-        { itemId, recipeId: recipeModal.recipe.recipeId, data },
-        { onSuccess: () => setRecipeModal({ isOpen: false }) }
+        { itemId, recipeId: recipe.recipeId, data },
+        {
+          onSuccess: () => setRecipeModal({ isOpen: false }),
+          onError: (error) => {
+            if (isApiError(error, 'CONFLICT')) {
+              setRecipeModal({ isOpen: true, recipe, conflict: error.current as Recipe });
+            }
+          },
+        }
       );
     }
   };
 
   const handleDeleteRecipe = (recipeId: string) => {
-    Alert.alert('Delete Recipe', 'Delete this recipe and all its variants?', [
+    Alert.alert('Delete Recipe', 'Delete this recipe and all its variants? You can restore it from Recently deleted in Settings.', [
       { text: 'Cancel', style: 'cancel' },
       {
         text: 'Delete',
         style: 'destructive',
-        onPress: () => deleteRecipe.mutate({ itemId, recipeId }),
+        onPress: () =>
+          deleteRecipe.mutate(
+            { itemId, recipeId },
+            { onSuccess: (result) => notifyReferences(result, 'Recipe') }
+          ),
       },
     ]);
   };
@@ -254,7 +287,11 @@ export default function ItemDetailScreen() {
       {
         text: 'Delete',
         style: 'destructive',
-        onPress: () => deleteVariant.mutate({ itemId, recipeId, variantId }),
+        onPress: () =>
+          deleteVariant.mutate(
+            { itemId, recipeId, variantId },
+            { onSuccess: (result) => notifyReferences(result, 'Variant') }
+          ),
       },
     ]);
   };
@@ -652,6 +689,13 @@ export default function ItemDetailScreen() {
                   <Icon name="edit" size="sm" color={colors.primary} />
                   <Text style={styles.recipeActionText}>Edit Recipe</Text>
                 </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.recipeAction}
+                  onPress={() => setShowRecipeHistory(true)}
+                >
+                  <Icon name="history" size="sm" color={colors.primary} />
+                  <Text style={styles.recipeActionText}>History</Text>
+                </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.recipeAction}
                   onPress={() => handleDeleteRecipe(selectedRecipe.recipeId)}
@@ -717,8 +761,10 @@ export default function ItemDetailScreen() {
         title={recipeModal.recipe ? 'Edit Recipe' : 'New Recipe'}
       >
         <RecipeForm
-          key={recipeModal.recipe?.recipeId || 'new'}
+          key={recipeModal.recipe ? `${recipeModal.recipe.recipeId}-${recipeModal.recipe.version ?? 0}` : 'new'}
           recipe={recipeModal.recipe}
+          conflict={recipeModal.conflict}
+          onUseSaved={(saved) => setRecipeModal({ isOpen: true, recipe: saved })}
           onSubmit={recipeModal.recipe ? handleUpdateRecipe : handleCreateRecipe}
           onCancel={() => setRecipeModal({ isOpen: false })}
           isLoading={createRecipe.isPending || updateRecipe.isPending}
@@ -726,6 +772,16 @@ export default function ItemDetailScreen() {
         />
       </Modal>
 
+      {/* Recipe History Modal - mounted only while open so revisions load on demand */}
+      {showRecipeHistory && selectedRecipe && (
+        <RecipeHistoryModal
+          isOpen={showRecipeHistory}
+          onClose={() => setShowRecipeHistory(false)}
+          itemId={itemId}
+          recipe={selectedRecipe}
+        />
+      )}
+
       {/* Variant Modal */}
       <Modal
         isOpen={variantModal.isOpen}
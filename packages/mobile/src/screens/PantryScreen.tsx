@@ -12,7 +12,7 @@ import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import { runOnJS } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
-import { useItems, useCreateItem } from '../hooks/useItems';
+import { useInfiniteItems, useCreateItem } from '../hooks/useItems';
 import { Icon, Modal, Skeleton } from '../components/common';
 import ItemForm from '../components/items/ItemForm';
 import { colors, spacing, borderRadius, fontFamily, fontSize } from '../theme';
@@ -123,7 +123,8 @@ export default function PantryScreen() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<'all' | ItemType>('all');
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
-  const { data: items, isLoading } = useItems();
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteItems();
+  const items = useMemo(() => data?.pages.flatMap((page) => page.items), [data]);
   const createItem = useCreateItem();
 
   // Auto-scroll pills when category changes
@@ -294,6 +295,10 @@ export default function PantryScreen() {
               columnWrapperStyle={styles.gridRow}
               contentContainerStyle={styles.gridContent}
               showsVerticalScrollIndicator={false}
+              onEndReached={() => {
+                if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+              }}
+              onEndReachedThreshold={0.5}
             />
           )}
         </View>
@@ -16,19 +16,30 @@ import * as Haptics from 'expo-haptics';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
-import { Icon, Modal, Loading, SupplierFavicon } from '../components/common';
+import { Icon, Modal, Loading, SupplierFavicon, ConflictNotice } from '../components/common';
 import { getSupplierById } from '../constants/suppliers';
-import { useAttempt, useUpdateAttempt, useDeleteAttempt } from '../hooks/useAttempts';
+import { useAttempt, useUpdateAttempt, useDeleteAttempt, useShareBakeSheet } from '../hooks/useAttempts';
 import { useItems } from '../hooks/useItems';
 import { useRecipes } from '../hooks/useRecipes';
 import { useVariants } from '../hooks/useVariants';
 import { useItemUsageDetails, ItemUsageDetail } from '../hooks/useItemUsageDetails';
+import { crumbChatKey } from '../hooks/useCrumbChat';
+import { isApiError } from '../api/client';
 import { formatScaleFactor, getScaleOptions, calculateScaleFromIngredient } from '../utils/scaleRecipe';
 import { colors, fontFamily, fontSize, spacing, borderRadius } from '../theme';
 import ContainerScaleModal from '../components/scaling/ContainerScaleModal';
 import CrumbChatModal from '../components/ai/CrumbChatModal';
 import type { RootStackParamList } from '../navigation/types';
-import type { ItemUsage, Item, Recipe, Variant, Ingredient, ItemType, ChatMessage } from '@proofed/shared';
+import type {
+  Attempt,
+  ItemUsage,
+  Item,
+  Recipe,
+  Variant,
+  Ingredient,
+  ItemType,
+  UpdateAttemptRequest,
+} from '@proofed/shared';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
 type PlanScreenRouteProp = RouteProp<RootStackParamList, 'PlanScreen'>;
@@ -39,6 +50,7 @@ interface ItemUsageInput {
   itemId: string;
   recipeId: string;
   variantId?: string;
+  recipeRevision?: number;
   scaleFactor?: number;
   notes?: string;
   shoppingListEnabled?: boolean;
@@ -70,6 +82,7 @@ export default function PlanScreen() {
   const { data: items, isLoading: itemsLoading } = useItems();
   const updateAttempt = useUpdateAttempt();
   const deleteAttempt = useDeleteAttempt();
+  const shareBakeSheet = useShareBakeSheet();
 
   const [showActions, setShowActions] = useState(false);
   const [editedUsages, setEditedUsages] = useState<ItemUsageInput[]>([]);
@@ -84,8 +97,12 @@ export default function PlanScreen() {
   const [showAddItemModal, setShowAddItemModal] = useState(false);
   const [editingUsageKey, setEditingUsageKey] = useState<string | null>(null);
 
+  // Version of the attempt these edits are based on, sent with every save
+  const versionRef = useRef(0);
+  // Saved copy returned when a save was rejected because the plan changed elsewhere
+  const [conflict, setConflict] = useState<Attempt | null>(null);
+
   // Crumb Chat State
-  const [chatHistories, setChatHistories] = useState<Record<string, ChatMessage[]>>({});
   const [activeChatKey, setActiveChatKey] = useState<string | null>(null);
 
   // Get details for all item usages (for displaying ingredients)
@@ -96,35 +113,80 @@ export default function PlanScreen() {
   // Track if we've initialized from the attempt
   const hasInitialized = useRef(false);
 
+  const loadAttempt = (source: Attempt) => {
+    setEditedUsages(
+      source.itemUsages.map((u, i) => ({ ...u, _key: `existing-${i}` }))
+    );
+    setName(source.name);
+    setDate(new Date(source.date));
+    versionRef.current = source.version ?? 0;
+  };
+
   // Initialize editable fields from attempt
   useEffect(() => {
     if (attempt && !hasInitialized.current) {
-      setEditedUsages(
-        attempt.itemUsages.map((u, i) => ({ ...u, _key: `existing-${i}` }))
-      );
-      setName(attempt.name);
-      setDate(new Date(attempt.date));
+      loadAttempt(attempt);
       hasInitialized.current = true;
     }
   }, [attempt]);
 
-  // Auto-save changes to DB (debounced)
-  useEffect(() => {
-    if (!hasInitialized.current || !hasChanges) return;
-
-    const validUsages = editedUsages
+  const planData = (): UpdateAttemptRequest => ({
+    itemUsages: editedUsages
       .filter((u) => u.itemId && u.recipeId)
-      .map(({ _key, ...usage }) => usage);
+      .map(({ _key, ...usage }) => usage),
+    name,
+    date: date.toISOString(),
+  });
 
-    const timer = setTimeout(() => {
-      updateAttempt.mutate(
-        { attemptId, data: { itemUsages: validUsages, name, date: date.toISOString() } },
-        { onSuccess: () => setHasChanges(false) }
-      );
-    }, 1000);
+  const savePlan = (data: UpdateAttemptRequest, onSaved?: () => void) => {
+    updateAttempt.mutate(
+      { attemptId, data: { ...data, version: versionRef.current } },
+      {
+        onSuccess: (saved) => {
+          versionRef.current = saved?.version ?? versionRef.current + 1;
+          setHasChanges(false);
+          onSaved?.();
+        },
+        onError: (error) => {
+          if (isApiError(error, 'CONFLICT')) {
+            setConflict(error.current as Attempt);
+          }
+        },
+      }
+    );
+  };
+
+  // Auto-save changes to DB (debounced); paused while a conflict is unresolved
+  useEffect(() => {
+    if (!hasInitialized.current || !hasChanges || conflict) return;
+
+    const timer = setTimeout(() => savePlan(planData()), 1000);
 
     return () => clearTimeout(timer);
-  }, [editedUsages, name, date, hasChanges, attemptId]);
+  }, [editedUsages, name, date, hasChanges, attemptId, conflict]);
+
+  const handleKeepMine = () => {
+    if (!conflict) return;
+    versionRef.current = conflict.version ?? 0;
+    setConflict(null);
+    savePlan(planData());
+  };
+
+  const handleUseSaved = () => {
+    if (!conflict) return;
+    loadAttempt(conflict);
+    setHasChanges(false);
+    setConflict(null);
+  };
+
+  const describeUsages = (usages: ItemUsage[]) =>
+    usages
+      .filter((u) => u.itemId && u.recipeId)
+      .map((u) => {
+        const itemName = items?.find((i) => i.itemId === u.itemId)?.name ?? 'Unknown item';
+        return u.scaleFactor && u.scaleFactor !== 1 ? `${itemName} (${formatScaleFactor(u.scaleFactor)})` : itemName;
+      })
+      .join('\n');
 
   const addItemUsage = (usage: ItemUsageInput) => {
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -176,56 +238,34 @@ export default function PlanScreen() {
     ]);
   };
 
-  const handleSaveForLater = () => {
-    const validUsages = editedUsages
-      .filter((u) => u.itemId && u.recipeId)
-      .map(({ _key, ...usage }) => usage);
+  // The sheet is made from the saved plan, so unsaved edits are saved first
+  const handleShareBakeSheet = () => {
+    const share = () =>
+      shareBakeSheet.mutate(
+        { attemptId, name },
+        { onError: (error) => Alert.alert('Could not share bake sheet', error.message) }
+      );
+    if (hasChanges) {
+      savePlan(planData(), share);
+    } else {
+      share();
+    }
+  };
 
-    updateAttempt.mutate(
-      {
-        attemptId,
-        data: {
-          itemUsages: validUsages,
-          name,
-          date: date.toISOString(),
-        },
-      },
-      {
-        onSuccess: () => {
-          setHasChanges(false);
-          navigation.navigate('Tabs', { screen: 'Bakes' });
-        },
-      }
-    );
+  const handleSaveForLater = () => {
+    savePlan(planData(), () => navigation.navigate('Tabs', { screen: 'Bakes' }));
   };
 
   const handleStartBaking = () => {
-    const validUsages = editedUsages
-      .filter((u) => u.itemId && u.recipeId)
-      .map(({ _key, ...usage }) => usage);
-
     const isPastBake = attempt?.flowType === 'direct';
 
-    updateAttempt.mutate(
-      {
-        attemptId,
-        data: {
-          itemUsages: validUsages,
-          name,
-          date: date.toISOString(),
-          status: isPastBake ? 'done' : 'baking',
-        },
-      },
-      {
-        onSuccess: () => {
-          if (isPastBake) {
-            navigation.replace('EvaluateScreen', { attemptId });
-          } else {
-            navigation.replace('BakeScreen', { attemptId });
-          }
-        },
+    savePlan({ ...planData(), status: isPastBake ? 'done' : 'baking' }, () => {
+      if (isPastBake) {
+        navigation.replace('EvaluateScreen', { attemptId });
+      } else {
+        navigation.replace('BakeScreen', { attemptId });
       }
-    );
+    });
   };
 
   const handleOpenAddModal = () => {
@@ -283,10 +323,6 @@ export default function PlanScreen() {
     setActiveChatKey(null);
   };
 
-  const handleChatHistoryChange = (key: string, messages: ChatMessage[]) => {
-    setChatHistories((prev) => ({ ...prev, [key]: messages }));
-  };
-
   const editingUsage = editingUsageKey
     ? editedUsages.find((u) => u._key === editingUsageKey)
     : undefined;
@@ -308,6 +344,7 @@ export default function PlanScreen() {
       usageDetailMap[usage._key] = usageDetails[index];
     }
   });
+  const activeChatUsage = validUsages.find((u) => u._key === activeChatKey);
 
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
@@ -323,6 +360,28 @@ export default function PlanScreen() {
       </View>
 
       <ScrollView style={styles.mainContent} contentContainerStyle={styles.mainContentContainer} showsVerticalScrollIndicator={false}>
+        {conflict && (
+          <ConflictNotice
+            title="This plan was changed on another device"
+            rows={[
+              { label: 'Name', mine: name, theirs: conflict.name },
+              {
+                label: 'Date',
+                mine: date.toLocaleDateString(),
+                theirs: new Date(conflict.date).toLocaleDateString(),
+              },
+              {
+                label: 'Items',
+                mine: describeUsages(planData().itemUsages ?? []),
+                theirs: describeUsages(conflict.itemUsages),
+              },
+            ]}
+            onKeepMine={handleKeepMine}
+            onUseTheirs={handleUseSaved}
+            isLoading={updateAttempt.isPending}
+          />
+        )}
+
         {/* Status Badge */}
         <View style={styles.statusBadgeRow}>
           <View style={[styles.statusBadge, { backgroundColor: colors.pastelPink }]}>
@@ -416,6 +475,17 @@ export default function PlanScreen() {
 
       {/* Action Sheet */}
       <Modal isOpen={showActions} onClose={() => setShowActions(false)} title="Actions">
+        <TouchableOpacity
+          style={styles.actionOption}
+          disabled={shareBakeSheet.isPending}
+          onPress={() => {
+            setShowActions(false);
+            handleShareBakeSheet();
+          }}
+        >
+          <Icon name="print" color={colors.text} size="md" />
+          <Text style={styles.actionOptionText}>Share Bake Sheet (PDF)</Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.actionOption}
           onPress={() => {
@@ -493,20 +563,18 @@ export default function PlanScreen() {
       />
 
       {/* Crumb Chat Modal */}
-      {activeChatKey && usageDetailMap[activeChatKey] && (
+      {activeChatKey && activeChatUsage && usageDetailMap[activeChatKey] && (
         <CrumbChatModal
           isOpen={!!activeChatKey}
           onClose={handleCloseChat}
           attemptId={attemptId}
           attemptName={name}
-          itemUsageKey={activeChatKey}
+          itemUsageKey={crumbChatKey(activeChatUsage)}
           itemDetail={usageDetailMap[activeChatKey]}
           otherItemNames={validUsages
             .filter((u) => u._key !== activeChatKey)
             .map((u) => usageDetailMap[u._key]?.itemName || '')
             .filter(Boolean)}
-          chatHistory={chatHistories[activeChatKey] || []}
-          onChatHistoryChange={(messages) => handleChatHistoryChange(activeChatKey, messages)}
         />
       )}
     </View>
@@ -857,6 +925,8 @@ function AddItemModal({
       itemId,
       recipeId,
       variantId,
+      // A pin only means something for the recipe it was made against
+      recipeRevision: recipeId === editingUsage?.recipeId ? editingUsage.recipeRevision : undefined,
       scaleFactor,
       notes: notes || undefined,
       shoppingListEnabled,
@@ -8,18 +8,34 @@ import {
   Alert,
   Linking,
   TextInput,
+  ActivityIndicator,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Icon, Button, Modal } from '../components/common';
+import { CrumbUsageCard } from '../components/ai';
 import { colors, spacing, fontFamily, fontSize, borderRadius } from '../theme';
 import { useAuth } from '../contexts/AuthContext';
 import { usePreferences } from '../contexts/PreferencesContext';
+import { useStartAccountExport, useAccountExport } from '../hooks/useAccountExport';
+import { useMySubmissions } from '../hooks/useIngredients';
 import type { RootStackParamList } from '../navigation/types';
+import type { IngredientSubmission } from '@proofed/shared';
 
 type SettingsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Settings'>;
 
+function submissionStatusText(submission: IngredientSubmission): string {
+  switch (submission.status) {
+    case 'approved':
+      return 'Approved - now in the ingredient list';
+    case 'rejected':
+      return submission.rejectionReason ? `Not added: ${submission.rejectionReason}` : 'Not added';
+    default:
+      return 'Waiting for review';
+  }
+}
+
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<SettingsNavigationProp>();
@@ -30,6 +46,12 @@ export default function SettingsScreen() {
   const [deleting, setDeleting] = useState(false);
   const [showNameModal, setShowNameModal] = useState(false);
   const [editingName, setEditingName] = useState('');
+  const [exportId, setExportId] = useState<string | null>(null);
+  const [showSubmissionsModal, setShowSubmissionsModal] = useState(false);
+
+  const startExport = useStartAccountExport();
+  const { data: accountExport } = useAccountExport(exportId);
+  const { data: submissions, isLoading: loadingSubmissions } = useMySubmissions(showSubmissionsModal);
 
   const handleSignOut = () => {
     Alert.alert('Sign Out', 'Are you sure you want to sign out?', [
@@ -58,6 +80,38 @@ export default function SettingsScreen() {
     }
   };
 
+  const runExport = (includePhotos: boolean) => {
+    startExport.mutate(includePhotos, {
+      onSuccess: (result) => setExportId(result.exportId),
+      onError: (err) => Alert.alert('Error', err.message || 'Failed to start export'),
+    });
+  };
+
+  const handleExportData = () => {
+    if (accountExport?.status === 'ready' && accountExport.downloadUrl) {
+      Linking.openURL(accountExport.downloadUrl);
+      return;
+    }
+    Alert.alert(
+      'Export Your Data',
+      'Download a copy of your pantry, recipes and bakes. Including photos makes the export larger and slower to prepare.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Without Photos', onPress: () => runExport(false) },
+        { text: 'Include Photos', onPress: () => runExport(true) },
+      ]
+    );
+  };
+
+  const isExporting = startExport.isPending || accountExport?.status === 'pending';
+  const exportLabel = isExporting
+    ? 'Preparing export...'
+    : accountExport?.status === 'ready'
+      ? 'Download export'
+      : accountExport?.status === 'failed'
+        ? 'Export failed - tap to retry'
+        : 'Export my data';
+
   const openPrivacyPolicy = () => {
     Linking.openURL('https://proofed.app/privacy');
   };
@@ -120,6 +174,28 @@ export default function SettingsScreen() {
               <Icon name="email" size="sm" color={colors.dustyMauve} />
               <Text style={styles.rowText}>{user?.email || 'Not signed in'}</Text>
             </View>
+            <View style={styles.divider} />
+            <TouchableOpacity style={styles.row} onPress={handleExportData} disabled={isExporting}>
+              <Icon name="download" size="sm" color={colors.dustyMauve} />
+              <Text style={styles.rowText}>{exportLabel}</Text>
+              {isExporting ? (
+                <ActivityIndicator size="small" color={colors.dustyMauve} />
+              ) : (
+                <Icon name="chevron_right" size="sm" color={colors.dustyMauve} />
+              )}
+            </TouchableOpacity>
+            <View style={styles.divider} />
+            <TouchableOpacity style={styles.row} onPress={() => navigation.navigate('Trash')}>
+              <Icon name="delete" size="sm" color={colors.dustyMauve} />
+              <Text style={styles.rowText}>Recently deleted</Text>
+              <Icon name="chevron_right" size="sm" color={colors.dustyMauve} />
+            </TouchableOpacity>
+            <View style={styles.divider} />
+            <TouchableOpacity style={styles.row} onPress={() => setShowSubmissionsModal(true)}>
+              <Icon name="lightbulb" size="sm" color={colors.dustyMauve} />
+              <Text style={styles.rowText}>Ingredient suggestions</Text>
+              <Icon name="chevron_right" size="sm" color={colors.dustyMauve} />
+            </TouchableOpacity>
           </View>
         </View>
 
@@ -147,6 +223,12 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Crumb Usage Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>CRUMB USAGE</Text>
+          <CrumbUsageCard />
+        </View>
+
         {/* App Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>APP</Text>
@@ -264,6 +346,39 @@ export default function SettingsScreen() {
         </View>
       </Modal>
 
+      {/* Ingredient Suggestions Modal */}
+      <Modal
+        isOpen={showSubmissionsModal}
+        onClose={() => setShowSubmissionsModal(false)}
+        title="Ingredient Suggestions"
+      >
+        <View style={styles.modalContent}>
+          {loadingSubmissions ? (
+            <ActivityIndicator size="small" color={colors.dustyMauve} />
+          ) : submissions && submissions.length > 0 ? (
+            <View style={styles.modalList}>
+              {submissions.map((submission) => (
+                <View key={submission.submissionId}>
+                  <Text style={styles.submissionName}>{submission.name}</Text>
+                  <Text
+                    style={[
+                      styles.submissionStatus,
+                      submission.status === 'approved' && styles.submissionApproved,
+                    ]}
+                  >
+                    {submissionStatusText(submission)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          ) : (
+            <Text style={styles.modalText}>
+              Ingredients you suggest while writing a recipe show up here once you've sent them.
+            </Text>
+          )}
+        </View>
+      </Modal>
+
       {/* Delete Account Modal */}
       <Modal
         isOpen={showDeleteModal}
@@ -403,6 +518,19 @@ const styles = StyleSheet.create({
     marginBottom: spacing[4],
     gap: spacing[2],
   },
+  submissionName: {
+    fontFamily: fontFamily.medium,
+    fontSize: fontSize.base,
+    color: colors.text,
+  },
+  submissionStatus: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.dustyMauve,
+  },
+  submissionApproved: {
+    color: colors.success,
+  },
   modalListItem: {
     fontFamily: fontFamily.regular,
     fontSize: fontSize.sm,
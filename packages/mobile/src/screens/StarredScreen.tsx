@@ -160,7 +160,7 @@ function AttemptCard({
 }
 
 function AttemptThumbnail({ photoKey }: { photoKey: string }) {
-  const { data: url, isLoading } = usePhotoUrl(photoKey);
+  const { data: url, isLoading } = usePhotoUrl(photoKey, 'thumbnail');
 
   if (isLoading) {
     return <SkeletonThumbnail size="sm" />;
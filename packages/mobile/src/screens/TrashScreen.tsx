@@ -0,0 +1,187 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Icon, Loading, EmptyState } from '../components/common';
+import { useTrash, useRestoreFromTrash } from '../hooks/useTrash';
+import { isApiError } from '../api/client';
+import { formatRelativeDate } from '../utils/formatDate';
+import { colors, spacing, fontFamily, fontSize, borderRadius } from '../theme';
+import { TRASH_RETENTION_DAYS } from '@proofed/shared';
+import type { TrashEntry, TrashEntryType } from '@proofed/shared';
+
+const TYPE_DETAILS: Record<TrashEntryType, { label: string; icon: string }> = {
+  item: { label: 'Pantry item', icon: 'category' },
+  recipe: { label: 'Recipe', icon: 'restaurant_menu' },
+  attempt: { label: 'Bake', icon: 'bakery_dining' },
+};
+
+function daysLeft(entry: TrashEntry): number {
+  const msLeft = new Date(entry.purgeAt).getTime() - Date.now();
+  return Math.max(0, Math.ceil(msLeft / (1000 * 60 * 60 * 24)));
+}
+
+export default function TrashScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation();
+  const { data: entries, isLoading } = useTrash();
+  const restore = useRestoreFromTrash();
+
+  const handleRestore = (entry: TrashEntry) => {
+    restore.mutate(entry.id, {
+      onError: (error) => {
+        Alert.alert(
+          'Could not restore',
+          isApiError(error, 'CONFLICT')
+            ? 'This recipe belongs to a pantry item that is also deleted. Restore the item first.'
+            : 'Something went wrong. Please try again.'
+        );
+      },
+    });
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow_back" size="md" color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Recently Deleted</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {isLoading ? (
+        <Loading message="Loading..." />
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={{ paddingBottom: insets.bottom + spacing[6] }}
+        >
+          <Text style={styles.hint}>
+            Deleted pantry items, recipes and bakes are kept here for {TRASH_RETENTION_DAYS} days
+            before they are removed for good.
+          </Text>
+
+          {!entries || entries.length === 0 ? (
+            <EmptyState title="Nothing here" description="Things you delete will show up here." />
+          ) : (
+            <View style={styles.card}>
+              {entries.map((entry, index) => {
+                const details = TYPE_DETAILS[entry.type];
+                const isRestoring = restore.isPending && restore.variables === entry.id;
+
+                return (
+                  <View key={entry.id}>
+                    {index > 0 && <View style={styles.divider} />}
+                    <View style={styles.row}>
+                      <Icon name={details.icon} size="sm" color={colors.dustyMauve} />
+                      <View style={styles.rowBody}>
+                        <Text style={styles.rowTitle} numberOfLines={1}>
+                          {entry.name}
+                        </Text>
+                        <Text style={styles.rowMeta}>
+                          {details.label} · deleted {formatRelativeDate(entry.deletedAt).toLowerCase()} ·{' '}
+                          {daysLeft(entry)} days left
+                        </Text>
+                      </View>
+                      <TouchableOpacity
+                        style={[styles.restoreButton, restore.isPending && styles.buttonDisabled]}
+                        onPress={() => handleRestore(entry)}
+                        disabled={restore.isPending}
+                      >
+                        <Text style={styles.restoreButtonText}>
+                          {isRestoring ? 'Restoring...' : 'Restore'}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bgLight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing[4],
+    paddingVertical: spacing[3],
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.cardBorder,
+  },
+  backButton: {
+    padding: spacing[2],
+  },
+  title: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.lg,
+    color: colors.text,
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: spacing[4],
+  },
+  hint: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.sm,
+    color: colors.dustyMauve,
+    paddingVertical: spacing[4],
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.xl,
+    paddingHorizontal: spacing[4],
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[3],
+    paddingVertical: spacing[3],
+  },
+  rowBody: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontFamily: fontFamily.medium,
+    fontSize: fontSize.base,
+    color: colors.text,
+  },
+  rowMeta: {
+    fontFamily: fontFamily.regular,
+    fontSize: fontSize.xs,
+    color: colors.dustyMauve,
+    marginTop: 2,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: colors.bgLight,
+  },
+  restoreButton: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.bgLight,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  restoreButtonText: {
+    fontFamily: fontFamily.bold,
+    fontSize: fontSize.sm,
+    color: colors.primary,
+  },
+});
@@ -5,7 +5,7 @@ import type { Ingredient, Recipe, Variant } from '@proofed/shared';
  * Variant overrides replace base recipe ingredients with the same name,
  * and any new ingredients from the variant are appended.
  */
-export function mergeIngredients(recipe: Recipe, variant?: Variant | null): Ingredient[] {
+export function mergeIngredients(recipe: Pick<Recipe, 'ingredients'>, variant?: Variant | null): Ingredient[] {
   if (!variant) {
     return recipe.ingredients;
   }
@@ -0,0 +1,65 @@
+import { formatContainer } from '../constants/containers';
+import type { Ingredient, RecipeContent } from '@proofed/shared';
+
+export interface RecipeChange {
+  label: string;
+  before: string;  // '' when the field or ingredient wasn't there
+  after: string;
+}
+
+function formatIngredient(ingredient?: Ingredient): string {
+  return ingredient ? `${ingredient.quantity} ${ingredient.unit}`.trim() : '';
+}
+
+function formatTemp(recipe: RecipeContent): string {
+  return recipe.bakeTemp ? `${recipe.bakeTemp}°${recipe.bakeTempUnit || 'F'}` : '';
+}
+
+const FIELDS: Array<{ label: string; format: (recipe: RecipeContent) => string }> = [
+  { label: 'Name', format: (recipe) => recipe.name },
+  { label: 'Bake time', format: (recipe) => (recipe.bakeTime ? `${recipe.bakeTime} min` : '') },
+  { label: 'Bake temp', format: formatTemp },
+  {
+    label: 'Container',
+    format: ({ container }) =>
+      container ? formatContainer(container.type, container.size ?? 8, container.count) : '',
+  },
+  { label: 'Brand', format: (recipe) => recipe.brand ?? '' },
+  { label: 'Product', format: (recipe) => recipe.productName ?? '' },
+  {
+    label: 'Pack size',
+    format: (recipe) => `${recipe.purchaseQuantity ?? ''} ${recipe.purchaseUnit ?? ''}`.trim(),
+  },
+  { label: 'Prep notes', format: (recipe) => recipe.prepNotes ?? '' },
+];
+
+/**
+ * What changed going from one version of a recipe to another. Ingredients are matched
+ * by name, in the order they appear in `after`, with removed ones at the end.
+ */
+export function diffRecipes(before: RecipeContent, after: RecipeContent): RecipeChange[] {
+  const changes: RecipeChange[] = [];
+
+  for (const field of FIELDS) {
+    const was = field.format(before);
+    const now = field.format(after);
+    if (was !== now) {
+      changes.push({ label: field.label, before: was, after: now });
+    }
+  }
+
+  const previous = new Map(before.ingredients.map((ingredient) => [ingredient.name, ingredient]));
+  for (const ingredient of after.ingredients) {
+    const was = formatIngredient(previous.get(ingredient.name));
+    const now = formatIngredient(ingredient);
+    if (was !== now) {
+      changes.push({ label: ingredient.name, before: was, after: now });
+    }
+    previous.delete(ingredient.name);
+  }
+  for (const ingredient of previous.values()) {
+    changes.push({ label: ingredient.name, before: formatIngredient(ingredient), after: '' });
+  }
+
+  return changes;
+}
@@ -0,0 +1,155 @@
+import type { ContainerInfo, MuffinCupSize } from './types.js';
+
+// How much to scale a recipe when baking it in a different container, and how that changes
+// the bake time. Pure arithmetic, so the API and the apps (offline too) always agree.
+
+const CUBIC_INCHES_PER_CUP = 14.4375;
+
+// Depth a tin is filled to, in inches. Half-sheet pans are shallower than 9×13 cake pans.
+const TIN_DEPTH = 2;
+const LOAF_DEPTH = 3;
+const SHEET_PAN_DEPTH = 2;
+const HALF_SHEET_DEPTH = 1.25;
+const HALF_SHEET_MIN_AREA = 150;  // square inches; 13×18 is 234, 9×13 is 117
+
+// Capacity of one muffin cup, in cups
+const MUFFIN_CUP_VOLUMES: Record<MuffinCupSize, number> = {
+  mini: 0.125,
+  standard: 0.5,
+  jumbo: 0.625,
+};
+
+// How deep the batter in one muffin cup is, in inches
+const MUFFIN_CUP_DEPTHS: Record<MuffinCupSize, number> = {
+  mini: 1.1,
+  standard: 1.5,
+  jumbo: 2,
+};
+
+const BUNDT_DEPTH = 3;  // the thickness of the ring, which is what heat has to get through
+
+// Sizes used when a container doesn't say, matching the apps' defaults
+const DEFAULT_SIZE = 8;
+const DEFAULT_LOAF = { length: 9, width: 5 };
+const DEFAULT_SHEET = { length: 13, width: 9 };
+const DEFAULT_BUNDT_CAPACITY = 10;
+const DEFAULT_CUPS_PER_TRAY = 12;
+
+/**
+ * Heat reaches the middle of a bake at a rate that falls off with its depth; an exponent of
+ * 1.5 matches the usual times (8" round 30 min, standard cupcakes about 20, a loaf about 55).
+ */
+const BAKE_TIME_DEPTH_EXPONENT = 1.5;
+
+// Bake times within this many minutes of the original aren't worth changing
+const MIN_BAKE_TIME_CHANGE = 2;
+
+export interface ContainerScale {
+  scaleFactor: number;          // multiply every ingredient by this, to 2 decimal places
+  scaleFactorDisplay: string;   // "2× (2.03×)"
+  adjustedBakeTime?: number;    // minutes; set when a bake time was given and it changes
+}
+
+function sheetDepth(length: number, width: number): number {
+  return length * width >= HALF_SHEET_MIN_AREA ? HALF_SHEET_DEPTH : SHEET_PAN_DEPTH;
+}
+
+/**
+ * The batter one set of containers holds, in cubic inches. Unknown types ('other') are
+ * treated as round tins of their `size`, as the container form describes them.
+ */
+export function containerVolume(container: ContainerInfo): number {
+  const count = container.count || 1;
+
+  switch (container.type) {
+    case 'square_cake_tin': {
+      const side = container.size || DEFAULT_SIZE;
+      return side * side * TIN_DEPTH * count;
+    }
+    case 'loaf_tin': {
+      const length = container.length || DEFAULT_LOAF.length;
+      const width = container.width || DEFAULT_LOAF.width;
+      return length * width * LOAF_DEPTH * count;
+    }
+    case 'sheet_pan': {
+      const length = container.length || DEFAULT_SHEET.length;
+      const width = container.width || DEFAULT_SHEET.width;
+      return length * width * sheetDepth(length, width) * count;
+    }
+    case 'bundt_tin':
+      return (container.capacity || DEFAULT_BUNDT_CAPACITY) * CUBIC_INCHES_PER_CUP * count;
+    case 'muffin_tin': {
+      const cups = (container.cupsPerTray || DEFAULT_CUPS_PER_TRAY) * count;
+      return MUFFIN_CUP_VOLUMES[container.cupSize || 'standard'] * CUBIC_INCHES_PER_CUP * cups;
+    }
+    case 'round_cake_tin':
+    case 'other':
+    default: {
+      const radius = (container.size || DEFAULT_SIZE) / 2;
+      return Math.PI * radius * radius * TIN_DEPTH * count;
+    }
+  }
+}
+
+// How deep the batter sits, in inches; the number of containers doesn't change it
+export function batterDepth(container: ContainerInfo): number {
+  switch (container.type) {
+    case 'loaf_tin':
+      return LOAF_DEPTH;
+    case 'sheet_pan':
+      return sheetDepth(container.length || DEFAULT_SHEET.length, container.width || DEFAULT_SHEET.width);
+    case 'bundt_tin':
+      return BUNDT_DEPTH;
+    case 'muffin_tin':
+      return MUFFIN_CUP_DEPTHS[container.cupSize || 'standard'];
+    default:
+      return TIN_DEPTH;
+  }
+}
+
+// "2×", "½×", "same"; common fractions where the factor is close to one
+export function formatMultiplier(multiplier: number): string {
+  if (multiplier === 1) return 'same';
+  if (multiplier < 1) {
+    // Common fractions for scaling down
+    if (Math.abs(multiplier - 0.5) < 0.05) return '½×';
+    if (Math.abs(multiplier - 0.25) < 0.05) return '¼×';
+    if (Math.abs(multiplier - 0.33) < 0.05) return '⅓×';
+    if (Math.abs(multiplier - 0.67) < 0.05) return '⅔×';
+    if (Math.abs(multiplier - 0.75) < 0.05) return '¾×';
+  } else {
+    // Common fractions for scaling up
+    if (Math.abs(multiplier - 1.5) < 0.05) return '1½×';
+    if (Math.abs(multiplier - 2) < 0.05) return '2×';
+    if (Math.abs(multiplier - 2.25) < 0.05) return '2¼×';
+    if (Math.abs(multiplier - 2.5) < 0.05) return '2½×';
+    if (Math.abs(multiplier - 3) < 0.05) return '3×';
+    if (Math.abs(multiplier - 4) < 0.05) return '4×';
+  }
+  return `${multiplier}×`;
+}
+
+/**
+ * The scale for moving a recipe from `source` to `target`, and the new bake time when the
+ * recipe's `bakeTime` (minutes) is known.
+ */
+export function scaleForContainer(
+  source: ContainerInfo,
+  target: ContainerInfo,
+  bakeTime?: number
+): ContainerScale {
+  const scaleFactor = Math.round((containerVolume(target) / containerVolume(source)) * 100) / 100;
+  const result: ContainerScale = {
+    scaleFactor,
+    scaleFactorDisplay: `${formatMultiplier(scaleFactor)} (${scaleFactor}×)`,
+  };
+
+  if (bakeTime) {
+    const depthRatio = batterDepth(target) / batterDepth(source);
+    const adjusted = Math.round(bakeTime * Math.pow(depthRatio, BAKE_TIME_DEPTH_EXPONENT));
+    if (Math.abs(adjusted - bakeTime) >= MIN_BAKE_TIME_CHANGE) {
+      result.adjustedBakeTime = adjusted;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,115 @@
+import type { FieldError } from './validation.js';
+
+// Error hierarchy shared by the API and its clients. Handlers throw these, the
+// Lambda maps them to HTTP responses in one place, and clients branch on `code`.
+
+export type ErrorCode =
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_AI_FAILURE'
+  | 'INTERNAL_ERROR';
+
+// Body of every non-2xx API response
+export interface ErrorResponse {
+  error: string;                // human-readable message
+  code: ErrorCode;              // stable, safe to branch on
+  fields?: FieldError[];        // VALIDATION_FAILED only
+  retryAfterSeconds?: number;   // RATE_LIMITED only
+  current?: unknown;            // CONFLICT only: the stored copy that won
+}
+
+export abstract class ProofedError extends Error {
+  abstract readonly code: ErrorCode;
+  abstract readonly statusCode: number;
+
+  toResponse(): ErrorResponse {
+    return { error: this.message, code: this.code };
+  }
+}
+
+export class NotFoundError extends ProofedError {
+  readonly code = 'NOT_FOUND';
+  readonly statusCode = 404;
+
+  constructor(resource: string) {
+    super(`${resource} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ProofedError {
+  readonly code = 'CONFLICT';
+  readonly statusCode = 409;
+
+  constructor(message: string, readonly current?: unknown) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+
+  toResponse(): ErrorResponse {
+    return { ...super.toResponse(), current: this.current };
+  }
+}
+
+export class ValidationError extends ProofedError {
+  readonly code = 'VALIDATION_FAILED';
+  readonly statusCode = 400;
+
+  constructor(message: string, readonly fields?: FieldError[]) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+
+  toResponse(): ErrorResponse {
+    return { ...super.toResponse(), fields: this.fields };
+  }
+}
+
+export class UnauthorizedError extends ProofedError {
+  readonly code = 'UNAUTHORIZED';
+  readonly statusCode = 401;
+
+  constructor(message = 'Unauthorized') {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// Signed in, but not allowed to do this (e.g. admin routes)
+export class ForbiddenError extends ProofedError {
+  readonly code = 'FORBIDDEN';
+  readonly statusCode = 403;
+
+  constructor(message = 'Forbidden') {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class RateLimitedError extends ProofedError {
+  readonly code = 'RATE_LIMITED';
+  readonly statusCode = 429;
+
+  constructor(message: string, readonly retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'RateLimitedError';
+  }
+
+  toResponse(): ErrorResponse {
+    return { ...super.toResponse(), retryAfterSeconds: this.retryAfterSeconds };
+  }
+}
+
+export class UpstreamAiFailureError extends ProofedError {
+  readonly code = 'UPSTREAM_AI_FAILURE';
+  readonly statusCode = 502;
+
+  constructor(message = 'The AI service failed to respond', options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'UpstreamAiFailureError';
+  }
+}
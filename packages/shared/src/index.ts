@@ -1 +1,4 @@
 export * from './types.js';
+export * from './validation.js';
+export * from './errors.js';
+export * from './container-scaling.js';
@@ -34,6 +34,8 @@ export interface Item {
   name: string;
   type: ItemType;
   notes?: string;
+  version?: number;  // bumped on every write; absent on rows saved before versioning
+  deletedAt?: string;  // set while the item is in the trash
   createdAt: string;
   updatedAt: string;
 }
@@ -58,7 +60,7 @@ export interface Recipe {
   container?: ContainerInfo; // container type, size, and count
   supplierId?: string;      // key from SUPPLIERS map (e.g., 'cupcake-jemma')
   customSourceName?: string;  // custom source name if not in predefined list
-  customSourceUrl?: string;   // custom source URL for favicon (e.g., 'example.com')
+  customSourceUrl?: string;   // custom source URL, e.g. the recipe page; its domain gives the favicon
   // Store-bought recipe fields
   isStoreBought?: boolean;      // true if this is a purchased product, not homemade
   brand?: string;               // e.g., "Bonne Maman"
@@ -67,6 +69,9 @@ export interface Recipe {
   purchaseUnit?: string;        // e.g., "g"
   energyKcal100g?: number;      // calories per 100g from product data
   sugars100g?: number;          // sugar grams per 100g from product data
+  version?: number;
+  deletedAt?: string;
+  deletedWith?: string;  // itemId whose delete moved this recipe to the trash along with it
   createdAt: string;
   updatedAt: string;
 }
@@ -82,14 +87,36 @@ export interface Variant {
   bakeTemp?: number;        // override recipe temperature
   bakeTempUnit?: 'F' | 'C'; // override temperature unit
   notes?: string;
+  version?: number;
+  deletedAt?: string;
+  deletedWith?: string;  // itemId or recipeId whose delete moved this variant to the trash
   createdAt: string;
   updatedAt: string;
 }
 
+// Recipe revision types
+// The parts of a recipe a revision records; ids and bookkeeping stay on the recipe itself
+export type RecipeContent = Omit<
+  Recipe,
+  'recipeId' | 'userId' | 'itemId' | 'version' | 'deletedAt' | 'deletedWith' | 'createdAt' | 'updatedAt'
+>;
+
+// Immutable snapshot of a recipe, written when it's created and on every update
+export interface RecipeRevision {
+  userId: string;
+  revisionId: string;  // `${recipeId}#${revision}`, zero-padded so a recipe's revisions sort together
+  recipeId: string;
+  itemId: string;
+  revision: number;    // the recipe's version once this was saved; 0 for recipes older than revisions
+  recipe: RecipeContent;
+  createdAt: string;
+}
+
 export interface ItemUsage {
   itemId: string;
   recipeId: string;
   variantId?: string;
+  recipeRevision?: number;  // recipe version this bake used; pinned by the API once baking starts
   scaleFactor?: number;  // e.g., 0.5 for half, 2 for double
   notes?: string;
   shoppingListEnabled?: boolean;   // Whether shopping list mode is active
@@ -111,11 +138,15 @@ export interface Attempt {
   outcomeNotes?: string;
   photoKeys?: string[];
   mainPhotoKey?: string;  // Key of the photo to display on home screen
+  photoRenditions?: PhotoRenditions[];  // Resized copies, added by the photo processor after upload
   status?: AttemptStatus;  // 'planning' | 'baking' | 'done'
   flowType?: 'guided' | 'direct';  // 'direct' = past bake (skip BakeScreen)
   starred?: boolean;       // Whether this attempt is starred/favorited
-  aiAdvice?: AiAdviceResponse;  // Saved Crumb advice (persisted, one request per bake)
+  aiAdvice?: AiAdviceResponse;  // The Crumb advice currently shown for this bake
+  aiAdviceHistory?: AiAdviceResponse[];  // Every advice Crumb has given for this bake, oldest first
   nutrition?: NutritionInfo;    // Saved nutrition info (calories, sugar per slice)
+  version?: number;
+  deletedAt?: string;
   createdAt: string;
 }
 
@@ -126,9 +157,78 @@ export interface ProofedItem {
   capturedFromAttemptId: string;
   itemConfigs: ItemUsage[];
   notes?: string;
+  version?: number;
   createdAt: string;
 }
 
+// Result of deleting pantry data. Bakes are never rewritten, so attempts and proofed
+// items listed in references still point at the deleted item/recipe/variant.
+export interface DeletedReferences {
+  attemptIds: string[];
+  proofedItemIds: string[];
+}
+
+export interface DeleteResponse {
+  deletedRecipeIds: string[];
+  deletedVariantIds: string[];
+  references: DeletedReferences;
+}
+
+// Trash types
+// Deleted items, recipes and bakes can be restored until the scheduled purge removes them
+export const TRASH_RETENTION_DAYS = 30;
+
+export type TrashEntryType = 'item' | 'recipe' | 'attempt';
+
+// Rows that went to the trash with their parent (a deleted item's recipes) aren't listed
+// separately; restoring the parent brings them back.
+export interface TrashEntry {
+  id: string;
+  type: TrashEntryType;
+  name: string;
+  itemId?: string;     // recipes only: the item the recipe belongs to
+  deletedAt: string;
+  purgeAt: string;     // when the entry is removed for good
+}
+
+// Share link types
+// A share token is the only credential the public shared view needs; revoking deletes it
+export type ShareType = 'recipe' | 'proofedItem';
+
+export interface Share {
+  userId: string;
+  token: string;
+  type: ShareType;
+  targetId: string;    // recipeId or proofedItemId
+  itemId?: string;     // recipes only: the item the recipe belongs to
+  name: string;        // name of the shared recipe or proofed item when the link was made
+  createdAt: string;
+}
+
+// One recipe as a shared view shows it, with any variant's ingredient changes merged in
+export interface SharedRecipe {
+  itemName: string;
+  recipeName: string;
+  variantName?: string;
+  ingredients: Ingredient[];
+  prepNotes?: string;
+  bakeTime?: number;
+  bakeTemp?: number;
+  bakeTempUnit?: 'F' | 'C';
+  container?: ContainerInfo;
+  scaleFactor?: number;  // proofed items only: how the bake scaled this recipe
+}
+
+// Read-only, owner-free view returned by GET /shared/{token}
+export interface SharedSnapshot {
+  type: ShareType;
+  name: string;
+  notes?: string;
+  recipes: SharedRecipe[];   // a recipe share lists the base recipe, then each variant
+  photoUrls: string[];       // proofed items only: photos of the bake, signed for an hour
+  sharedAt: string;
+}
+
 // API Request/Response types
 export interface CreateItemRequest {
   name: string;
@@ -140,6 +240,7 @@ export interface UpdateItemRequest {
   name?: string;
   type?: ItemType;
   notes?: string;
+  version?: number;  // version the client last read; the write fails with 409 if it has moved on
 }
 
 export interface CreateRecipeRequest {
@@ -167,12 +268,12 @@ export interface CreateRecipeRequest {
 export interface UpdateRecipeRequest {
   name?: string;
   ingredients?: Ingredient[];
-  prepNotes?: string;
-  bakeTime?: number;
-  bakeTemp?: number;
+  prepNotes?: string | null;  // null clears the field
+  bakeTime?: number | null;
+  bakeTemp?: number | null;
   bakeTempUnit?: 'F' | 'C';
-  customScales?: number[];
-  container?: ContainerInfo;
+  customScales?: number[] | null;
+  container?: ContainerInfo | null;
   supplierId?: string | null;
   customSourceName?: string | null;
   customSourceUrl?: string | null;
@@ -184,6 +285,12 @@ export interface UpdateRecipeRequest {
   purchaseUnit?: string | null;
   energyKcal100g?: number | null;
   sugars100g?: number | null;
+  version?: number;
+}
+
+// Restoring writes the old content as a new revision, so history is never rewritten
+export interface RestoreRecipeRevisionRequest {
+  version?: number;  // recipe version the client last read, as for UpdateRecipeRequest
 }
 
 export interface CreateVariantRequest {
@@ -202,6 +309,7 @@ export interface UpdateVariantRequest {
   bakeTemp?: number;
   bakeTempUnit?: 'F' | 'C';
   notes?: string;
+  version?: number;
 }
 
 export interface CreateAttemptRequest {
@@ -224,6 +332,7 @@ export interface UpdateAttemptRequest {
   status?: AttemptStatus;
   starred?: boolean;
   nutrition?: NutritionInfo;
+  version?: number;
 }
 
 export interface CaptureAttemptRequest {
@@ -234,27 +343,59 @@ export interface CaptureAttemptRequest {
 export interface UpdateProofedItemRequest {
   name?: string;
   notes?: string;
+  version?: number;
+}
+
+// Photo types
+// Enforced by the upload policy, so S3 itself rejects anything else. HEIC is left out because
+// the photo processor's sharp build can't decode it; iOS converts to JPEG when asked for these.
+export const PHOTO_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+export const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+
+export type PhotoContentType = (typeof PHOTO_CONTENT_TYPES)[number];
+
+export const PHOTO_SIZES = ['thumbnail', 'medium', 'full'] as const;
+
+export type PhotoSize = (typeof PHOTO_SIZES)[number];
+
+// The stored copies of one uploaded photo. `full` is the original key, rewritten in place
+// without its EXIF data (camera details, GPS position).
+export interface PhotoRenditions extends Record<PhotoSize, string> {
+  key: string;  // the photo's key in Attempt.photoKeys
 }
 
 export interface PhotoUploadRequest {
   attemptId: string;
   fileName: string;
-  contentType: string;
+  contentType: PhotoContentType;
 }
 
+// A presigned POST: send a multipart form with every entry in `fields`, then the file as `file`
 export interface PhotoUploadResponse {
   uploadUrl: string;
+  fields: Record<string, string>;
   key: string;
 }
 
+// Sizes fall back to the original until the photo has been processed
 export interface PhotoDownloadRequest {
   key: string;
+  size?: PhotoSize;  // defaults to 'full'
 }
 
 export interface PhotoDownloadResponse {
   downloadUrl: string;
 }
 
+export interface PhotoDownloadUrlsRequest {
+  attemptId: string;
+  size?: PhotoSize;
+}
+
+export interface PhotoDownloadUrlsResponse {
+  photos: Array<{ key: string; downloadUrl: string }>;
+}
+
 // AI Advice types
 export interface AiAdviceTip {
   title: string;
@@ -290,12 +431,20 @@ export interface AiAdviceRequest {
 }
 
 export interface AiAdviceResponse {
+  adviceId?: string;  // Identifies the version in aiAdviceHistory; missing on advice given before regeneration
   overview: string;  // Friendly, informal reaction to the bake
-  nibsAwarded: number;  // 5-50 nibs awarded by Crumb based on bake quality
+  nibsAwarded: number;  // 5-50 nibs awarded by Crumb on the first advice, carried over when regenerated
   tips: AiAdviceTip[];
   generatedAt: string;
 }
 
+// How many times Crumb will look at the same bake, counting the first advice
+export const MAX_AI_ADVICE_VERSIONS = 5;
+
+export interface SetCurrentAiAdviceRequest {
+  adviceId: string;
+}
+
 // AI Container Scale types
 export interface AiContainerScaleRequest {
   sourceContainer: ContainerInfo;
@@ -321,9 +470,7 @@ export interface AiContainerScaleResponse {
   scaleFactorDisplay: string;    // "x1.78" or "almost double"
   explanation: string;           // Crumb's friendly explanation
   tips: AiContainerScaleTip[];
-  adjustedBakeTime?: number;
-  adjustedBakeTemp?: number;
-  adjustedBakeTempUnit?: 'F' | 'C';
+  adjustedBakeTime?: number;     // minutes, from the scaling engine rather than the AI
   warning?: string;              // For extreme scaling
   generatedAt: string;
 }
@@ -334,9 +481,19 @@ export interface ChatMessage {
   content: string;
 }
 
+// A conversation with Crumb about one item in an attempt, kept so it can be reopened later
+export interface CrumbChatThread {
+  attemptId: string;
+  itemUsageKey: string;   // which item usage the chat is about, chosen by the client
+  itemName: string;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface CrumbChatRequest {
+  itemUsageKey: string;   // the thread to add to; created on the first message
   message: string;
-  chatHistory: ChatMessage[];
   context: {
     attemptName: string;
     focusedItem: {
@@ -357,6 +514,19 @@ export interface CrumbChatRequest {
 
 export interface CrumbChatResponse {
   reply: string;
+  thread: CrumbChatThread;
+}
+
+// POST /attempts/{attemptId}/crumb-chat, from app builds released before threads were kept:
+// the app sends the conversation so far and nothing is saved
+export interface LegacyCrumbChatRequest {
+  message: string;
+  chatHistory: ChatMessage[];
+  context: CrumbChatRequest['context'];
+}
+
+export interface LegacyCrumbChatResponse {
+  reply: string;
 }
 
 // API Response wrappers
@@ -369,6 +539,12 @@ export interface ListResponse<T> {
   items: T[];
 }
 
+// Returned by list routes; pass nextCursor back as ?cursor= to fetch the following page
+export interface PagedResponse<T> {
+  items: T[];
+  nextCursor?: string;  // absent on the last page
+}
+
 // User Preferences types (extensible)
 export interface UserPreferences {
   userId: string;
@@ -416,11 +592,34 @@ export interface IngredientsData {
   ingredients: IngredientSuggestion[];
 }
 
+/**
+ * GET /ingredients?sinceVersion=N: what changed between version N and the current list.
+ * A renamed ingredient is removed under its old name and listed under the new one. When
+ * the server no longer has version N, `full` is true and `ingredients` is the whole list.
+ * The response's ETag is the current version in quotes, so a client that already has it
+ * can send If-None-Match and get a 304 back.
+ */
+export interface IngredientsDelta {
+  version: number;
+  sinceVersion: number;
+  full: boolean;
+  ingredients: IngredientSuggestion[];   // added, or moved to another category
+  removed: string[];                     // names no longer in the list
+}
+
+export const INGREDIENT_SUBMISSION_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export type IngredientSubmissionStatus = (typeof INGREDIENT_SUBMISSION_STATUSES)[number];
+
 export interface IngredientSubmission {
   submissionId: string;
   name: string;
   userId: string;
-  status: 'pending' | 'approved' | 'rejected';
+  status: IngredientSubmissionStatus;
+  category?: IngredientCategory;  // chosen by the admin who approved it
+  rejectionReason?: string;
+  reviewedAt?: string;
+  publishedVersion?: number;      // IngredientsData.version that first listed it
   createdAt: string;
 }
 
@@ -428,6 +627,16 @@ export interface SubmitIngredientRequest {
   name: string;
 }
 
+// Admin moderation of submissions. `name` corrects the spelling before it's published.
+export interface ApproveIngredientSubmissionRequest {
+  category: IngredientCategory;
+  name?: string;
+}
+
+export interface RejectIngredientSubmissionRequest {
+  reason?: string;
+}
+
 // Nutrition types
 export interface NutritionInfo {
   caloriesPerServing: number;
@@ -468,3 +677,181 @@ export interface AiParseIngredientsResponse {
   ingredients: ParsedIngredientResult[];
   warnings?: string[];
 }
+
+// AI usage types
+// Each AI endpoint is metered separately, per user, per UTC day and calendar month
+export const AI_FEATURES = ['advice', 'chat', 'container-scale', 'parse-ingredients', 'calorie-estimate'] as const;
+export type AiFeature = typeof AI_FEATURES[number];
+
+export interface AiQuotaPeriod {
+  used: number;
+  limit: number;
+  resetsAt: string;  // ISO timestamp, midnight UTC
+}
+
+export interface AiFeatureUsage {
+  feature: AiFeature;
+  daily: AiQuotaPeriod;
+  monthly: AiQuotaPeriod;
+}
+
+// GET /ai/usage
+export interface AiUsageResponse {
+  features: AiFeatureUsage[];
+}
+
+// AI cost accounting
+// Every call to a model is recorded with its token counts, so spend can be reported per feature
+export type AiCallOutcome = 'ok' | 'error';
+
+export interface AiCallRecord {
+  userId: string;
+  callId: string;      // "<ISO timestamp>#<ulid>", so a user's calls sort by time
+  day: string;         // UTC date, YYYY-MM-DD
+  feature: AiFeature;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  outcome: AiCallOutcome;
+  costUsd: number;     // from the model's list price at the time of the call
+  expiresAt: number;   // epoch seconds, for the table's TTL
+}
+
+export interface AiCostReportRow {
+  day: string;
+  feature: AiFeature;
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+// GET /admin/ai-costs?from=YYYY-MM-DD&to=YYYY-MM-DD
+export interface AiCostReportResponse {
+  from: string;
+  to: string;
+  rows: AiCostReportRow[];  // by day, then feature; days and features without calls are left out
+  totalCostUsd: number;
+}
+
+// Recipe import types
+// The page is fetched by the client (or pasted), so the API never makes outbound requests
+export interface RecipeHtmlImportRequest {
+  html: string;
+  url?: string;  // address of the page, used for the source name and favicon
+  measurementSystem: MeasurementSystem;
+}
+
+export interface RecipeHtmlImportResponse {
+  recipe: CreateRecipeRequest;
+  warnings?: string[];
+}
+
+// Recipe interchange types
+// Formats shared with other recipe managers; a recipe's variants travel inside its file
+export const RECIPE_FORMATS = ['json-ld', 'cooklang', 'markdown'] as const;
+export type RecipeFormat = (typeof RECIPE_FORMATS)[number];
+
+// A recipe and its variants as they are written to, or read from, an interchange file
+export interface PortableRecipe {
+  recipe: CreateRecipeRequest;
+  variants: CreateVariantRequest[];
+}
+
+export interface RecipeExportResponse {
+  format: RecipeFormat;
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+// Every recipe in the files is created under the item, with its variants. A JSON-LD or
+// Markdown file can hold several recipes; a Cooklang file holds one.
+export interface RecipeImportRequest {
+  format: RecipeFormat;
+  files: string[];  // file contents
+}
+
+export interface RecipeImportResponse {
+  recipes: Recipe[];
+  variants: Variant[];
+}
+
+// Account export types
+// Bump when the manifest shape changes so importers can tell old archives apart
+export const ACCOUNT_EXPORT_FORMAT_VERSION = 1;
+
+export interface ExportedPhoto {
+  key: string;   // original key in the photos bucket
+  path: string;  // path of the image inside the archive
+}
+
+// manifest.json at the root of an export archive
+export interface AccountExportManifest {
+  formatVersion: number;
+  exportedAt: string;
+  userId: string;
+  items: Item[];
+  recipes: Recipe[];
+  variants: Variant[];
+  attempts: Attempt[];
+  proofedItems: ProofedItem[];
+  preferences: UserPreferences | null;
+  photos: ExportedPhoto[];  // empty unless photos were requested
+}
+
+export type AccountExportStatus = 'pending' | 'ready' | 'failed';
+
+export interface AccountExportResponse {
+  exportId: string;
+  status: AccountExportStatus;
+  includePhotos: boolean;
+  createdAt: string;
+  downloadUrl?: string;  // set once ready; expires after an hour
+  error?: string;        // set when failed
+}
+
+// Account import types
+// A photo file sent with an import; `path` is its ExportedPhoto path in the archive
+export interface ImportedPhoto {
+  path: string;
+  contentType: string;
+  data: string;  // base64
+}
+
+// Body of POST /account/import: manifest.json from an export archive, plus the photo
+// files it lists. Request bodies are capped at 6 MB, so archives with photos are better
+// restored by uploading the whole archive (POST /account/import/archive).
+export interface AccountImportRequest {
+  manifest: AccountExportManifest;
+  photos?: ImportedPhoto[];
+}
+
+// How many of each entity were recreated
+export interface AccountImportResponse {
+  items: number;
+  recipes: number;
+  variants: number;
+  attempts: number;
+  proofedItems: number;
+  photos: number;
+  skippedPhotos: string[];  // archive paths of bake photos whose files weren't in the import
+}
+
+export type AccountImportStatus = 'pending' | 'ready' | 'failed';
+
+// An import of an uploaded export archive, run in the background once the upload lands
+export interface AccountArchiveImportResponse {
+  importId: string;
+  status: AccountImportStatus;
+  createdAt: string;
+  upload?: {                // only when the import is started: a presigned POST for the archive
+    url: string;
+    fields: Record<string, string>;
+  };
+  result?: AccountImportResponse;  // set when ready
+  error?: string;                  // set when failed
+}
@@ -0,0 +1,721 @@
+import { ACCOUNT_EXPORT_FORMAT_VERSION, PHOTO_CONTENT_TYPES, PHOTO_SIZES, RECIPE_FORMATS } from './types.js';
+import type {
+  AccountExportManifest,
+  AccountImportRequest,
+  AiAdviceRequest,
+  AiAdviceResponse,
+  AiAdviceTip,
+  AiContainerScaleRequest,
+  AiParseIngredientsRequest,
+  ApproveIngredientSubmissionRequest,
+  Attempt,
+  AttemptStatus,
+  CalorieEstimateRequest,
+  CaptureAttemptRequest,
+  ChatMessage,
+  ContainerInfo,
+  ContainerType,
+  CreateAttemptRequest,
+  CreateItemRequest,
+  CreateRecipeRequest,
+  CreateVariantRequest,
+  CrumbChatRequest,
+  ExportedPhoto,
+  ImportedPhoto,
+  Ingredient,
+  IngredientCategory,
+  Item,
+  ItemType,
+  ItemUsage,
+  LegacyCrumbChatRequest,
+  MeasurementSystem,
+  MuffinCupSize,
+  NutritionInfo,
+  PhotoDownloadRequest,
+  PhotoDownloadUrlsRequest,
+  PhotoRenditions,
+  PhotoUploadRequest,
+  ProofedItem,
+  Recipe,
+  RecipeHtmlImportRequest,
+  RecipeImportRequest,
+  RejectIngredientSubmissionRequest,
+  RestoreRecipeRevisionRequest,
+  SetCurrentAiAdviceRequest,
+  SubmitIngredientRequest,
+  UpdateAttemptRequest,
+  UpdateItemRequest,
+  UpdatePreferencesRequest,
+  UpdateProofedItemRequest,
+  UpdateRecipeRequest,
+  UpdateVariantRequest,
+  UserPreferences,
+  Variant,
+} from './types.js';
+
+// Runtime validators for the API request types. The backend runs them on every
+// request body, and the mobile and web forms run the same schemas before submitting.
+
+export interface FieldError {
+  field: string;    // path into the body, e.g. "ingredients[2].quantity"
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: FieldError[] };
+
+/**
+ * A runtime check for values of type T. `parse` returns the sanitised value
+ * (objects keep only their known keys) and appends any problems to `errors`.
+ */
+export interface Schema<T> {
+  parse(value: unknown, path: string, errors: FieldError[]): T;
+  readonly isOptional?: boolean;
+  readonly __type?: T;  // phantom, ties object shapes to the shared types
+}
+
+// Every key of T, including optional ones, must be given a schema
+type ObjectShape<T> = { [K in keyof Required<T>]: Schema<T[K]> };
+
+function describe(path: string): string {
+  return path || 'body';
+}
+
+function fail(errors: FieldError[], path: string, message: string): void {
+  errors.push({ field: describe(path), message });
+}
+
+export function string(options: { min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> {
+  const { min = 0, max, pattern } = options;
+  return {
+    parse(value, path, errors) {
+      if (typeof value !== 'string') {
+        fail(errors, path, 'must be a string');
+        return value as string;
+      }
+      const length = value.trim().length;
+      if (length < min) {
+        fail(errors, path, min === 1 ? 'must not be empty' : `must be at least ${min} characters`);
+      } else if (max !== undefined && value.length > max) {
+        fail(errors, path, `must be at most ${max} characters`);
+      } else if (pattern && !pattern.test(value)) {
+        fail(errors, path, 'has an invalid format');
+      }
+      return value;
+    },
+  };
+}
+
+export function number(
+  options: { min?: number; max?: number; positive?: boolean; integer?: boolean } = {}
+): Schema<number> {
+  const { min, max, positive, integer } = options;
+  return {
+    parse(value, path, errors) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(errors, path, 'must be a number');
+      } else if (integer && !Number.isInteger(value)) {
+        fail(errors, path, 'must be a whole number');
+      } else if (positive && value <= 0) {
+        fail(errors, path, 'must be greater than 0');
+      } else if (min !== undefined && value < min) {
+        fail(errors, path, `must be at least ${min}`);
+      } else if (max !== undefined && value > max) {
+        fail(errors, path, `must be at most ${max}`);
+      }
+      return value as number;
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    parse(value, path, errors) {
+      if (typeof value !== 'boolean') {
+        fail(errors, path, 'must be true or false');
+      }
+      return value as boolean;
+    },
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    parse(value, path, errors) {
+      if (!values.includes(value as T)) {
+        fail(errors, path, `must be one of: ${values.join(', ')}`);
+      }
+      return value as T;
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  const { min = 0, max } = options;
+  return {
+    parse(value, path, errors) {
+      if (!Array.isArray(value)) {
+        fail(errors, path, 'must be a list');
+        return [];
+      }
+      if (value.length < min) {
+        fail(errors, path, `must contain at least ${min} ${min === 1 ? 'entry' : 'entries'}`);
+      } else if (max !== undefined && value.length > max) {
+        fail(errors, path, `must contain at most ${max} entries`);
+      }
+      return value.map((entry, index) => item.parse(entry, `${path}[${index}]`, errors));
+    },
+  };
+}
+
+export function object<T>(shape: ObjectShape<T>): Schema<T> {
+  return {
+    parse(value, path, errors) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        fail(errors, path, 'must be an object');
+        return {} as T;
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const schema = shape[key] as Schema<unknown>;
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (input[key] === undefined) {
+          if (!schema.isOptional) {
+            fail(errors, fieldPath, 'is required');
+          }
+          continue;
+        }
+        output[key] = schema.parse(input[key], fieldPath, errors);
+      }
+      return output as T;
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    isOptional: true,
+    parse: (value, path, errors) => (value === undefined ? undefined : schema.parse(value, path, errors)),
+  };
+}
+
+// null is how update requests ask for an attribute to be removed
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    isOptional: schema.isOptional,
+    parse: (value, path, errors) => (value === null ? null : schema.parse(value, path, errors)),
+  };
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const errors: FieldError[] = [];
+  const parsed = schema.parse(value, '', errors);
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: parsed };
+}
+
+// One line per problem, for showing validation failures in a form
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map((error) => `${error.field} ${error.message}`).join('\n');
+}
+
+// Shared building blocks
+
+const ITEM_TYPES: readonly ItemType[] = ['batter', 'frosting', 'filling', 'dough', 'glaze', 'other'];
+const CONTAINER_TYPES: readonly ContainerType[] = [
+  'round_cake_tin',
+  'square_cake_tin',
+  'loaf_tin',
+  'bundt_tin',
+  'sheet_pan',
+  'muffin_tin',
+  'other',
+];
+const MUFFIN_CUP_SIZES: readonly MuffinCupSize[] = ['mini', 'standard', 'jumbo'];
+const ATTEMPT_STATUSES: readonly AttemptStatus[] = ['planning', 'baking', 'done'];
+const MEASUREMENT_SYSTEMS: readonly MeasurementSystem[] = ['metric', 'imperial'];
+const TEMP_UNITS: readonly ('F' | 'C')[] = ['F', 'C'];
+const INGREDIENT_CATEGORIES: readonly IngredientCategory[] = [
+  'flour',
+  'sugar',
+  'dairy',
+  'eggs',
+  'leavening',
+  'flavoring',
+  'chocolate',
+  'nuts',
+  'fruit',
+  'spices',
+  'fats',
+  'other',
+];
+
+const MAX_NAME_LENGTH = 200;
+const MAX_TEXT_LENGTH = 20000;
+
+const name = () => string({ min: 1, max: MAX_NAME_LENGTH });
+const text = () => string({ max: MAX_TEXT_LENGTH });
+const bakeTime = () => number({ positive: true, max: 24 * 60 });
+const bakeTemp = () => number({ positive: true, max: 1000 });
+const isoDate = () => string({ min: 1, pattern: /^\d{4}-\d{2}-\d{2}/ });
+const version = () => number({ integer: true, min: 0 });
+
+export const ingredientSchema = object<Ingredient>({
+  name: name(),
+  quantity: number({ min: 0 }),
+  unit: string({ max: 50 }),
+});
+
+export const containerInfoSchema = object<ContainerInfo>({
+  type: oneOf(CONTAINER_TYPES),
+  count: number({ positive: true, integer: true, max: 100 }),
+  size: optional(number({ positive: true })),
+  length: optional(number({ positive: true })),
+  width: optional(number({ positive: true })),
+  capacity: optional(number({ positive: true })),
+  cupSize: optional(oneOf(MUFFIN_CUP_SIZES)),
+  cupsPerTray: optional(number({ positive: true, integer: true })),
+});
+
+export const itemUsageSchema = object<ItemUsage>({
+  itemId: string({ min: 1 }),
+  recipeId: string({ min: 1 }),
+  variantId: optional(string({ min: 1 })),
+  recipeRevision: optional(version()),
+  scaleFactor: optional(number({ positive: true, max: 100 })),
+  notes: optional(text()),
+  shoppingListEnabled: optional(boolean()),
+  stockedIngredients: optional(array(string())),
+  measurementEnabled: optional(boolean()),
+  measuredIngredients: optional(array(string())),
+  usageQuantity: optional(number({ min: 0 })),
+  usageUnit: optional(string({ max: 50 })),
+});
+
+const nutritionInfoSchema = object<NutritionInfo>({
+  caloriesPerServing: number({ min: 0 }),
+  sugarPerServing: number({ min: 0 }),
+  totalServings: number({ positive: true }),
+  totalCalories: number({ min: 0 }),
+  totalSugar: number({ min: 0 }),
+});
+
+// Request bodies
+
+export const createItemRequestSchema = object<CreateItemRequest>({
+  name: name(),
+  type: oneOf(ITEM_TYPES),
+  notes: optional(text()),
+});
+
+export const updateItemRequestSchema = object<UpdateItemRequest>({
+  name: optional(name()),
+  type: optional(oneOf(ITEM_TYPES)),
+  notes: optional(text()),
+  version: optional(version()),
+});
+
+export const createRecipeRequestSchema = object<CreateRecipeRequest>({
+  name: name(),
+  ingredients: array(ingredientSchema),
+  prepNotes: optional(text()),
+  bakeTime: optional(bakeTime()),
+  bakeTemp: optional(bakeTemp()),
+  bakeTempUnit: optional(oneOf(TEMP_UNITS)),
+  customScales: optional(array(number({ positive: true, max: 100 }))),
+  container: optional(containerInfoSchema),
+  supplierId: optional(nullable(string())),
+  customSourceName: optional(nullable(string({ max: MAX_NAME_LENGTH }))),
+  customSourceUrl: optional(nullable(string({ max: 2000 }))),
+  isStoreBought: optional(boolean()),
+  brand: optional(string({ max: MAX_NAME_LENGTH })),
+  productName: optional(string({ max: MAX_NAME_LENGTH })),
+  purchaseQuantity: optional(string({ max: 50 })),
+  purchaseUnit: optional(string({ max: 50 })),
+  energyKcal100g: optional(number({ min: 0 })),
+  sugars100g: optional(number({ min: 0 })),
+});
+
+export const updateRecipeRequestSchema = object<UpdateRecipeRequest>({
+  name: optional(name()),
+  ingredients: optional(array(ingredientSchema)),
+  prepNotes: optional(nullable(text())),
+  bakeTime: optional(nullable(bakeTime())),
+  bakeTemp: optional(nullable(bakeTemp())),
+  bakeTempUnit: optional(oneOf(TEMP_UNITS)),
+  customScales: optional(nullable(array(number({ positive: true, max: 100 })))),
+  container: optional(nullable(containerInfoSchema)),
+  supplierId: optional(nullable(string())),
+  customSourceName: optional(nullable(string({ max: MAX_NAME_LENGTH }))),
+  customSourceUrl: optional(nullable(string({ max: 2000 }))),
+  isStoreBought: optional(boolean()),
+  brand: optional(nullable(string({ max: MAX_NAME_LENGTH }))),
+  productName: optional(nullable(string({ max: MAX_NAME_LENGTH }))),
+  purchaseQuantity: optional(nullable(string({ max: 50 }))),
+  purchaseUnit: optional(nullable(string({ max: 50 }))),
+  energyKcal100g: optional(nullable(number({ min: 0 }))),
+  sugars100g: optional(nullable(number({ min: 0 }))),
+  version: optional(version()),
+});
+
+export const restoreRecipeRevisionRequestSchema = object<RestoreRecipeRevisionRequest>({
+  version: optional(version()),
+});
+
+export const createVariantRequestSchema = object<CreateVariantRequest>({
+  name: name(),
+  ingredientOverrides: array(ingredientSchema),
+  bakeTime: optional(bakeTime()),
+  bakeTemp: optional(bakeTemp()),
+  bakeTempUnit: optional(oneOf(TEMP_UNITS)),
+  notes: optional(text()),
+});
+
+export const updateVariantRequestSchema = object<UpdateVariantRequest>({
+  name: optional(name()),
+  ingredientOverrides: optional(array(ingredientSchema)),
+  bakeTime: optional(bakeTime()),
+  bakeTemp: optional(bakeTemp()),
+  bakeTempUnit: optional(oneOf(TEMP_UNITS)),
+  notes: optional(text()),
+  version: optional(version()),
+});
+
+export const createAttemptRequestSchema = object<CreateAttemptRequest>({
+  name: name(),
+  date: isoDate(),
+  itemUsages: array(itemUsageSchema),
+  notes: optional(text()),
+  status: optional(oneOf(ATTEMPT_STATUSES)),
+  flowType: optional(oneOf(['guided', 'direct'] as const)),
+});
+
+export const updateAttemptRequestSchema = object<UpdateAttemptRequest>({
+  name: optional(name()),
+  date: optional(isoDate()),
+  itemUsages: optional(array(itemUsageSchema)),
+  notes: optional(text()),
+  outcomeNotes: optional(text()),
+  photoKeys: optional(array(string({ min: 1 }))),
+  mainPhotoKey: optional(string({ min: 1 })),
+  status: optional(oneOf(ATTEMPT_STATUSES)),
+  starred: optional(boolean()),
+  nutrition: optional(nutritionInfoSchema),
+  version: optional(version()),
+});
+
+export const captureAttemptRequestSchema = object<CaptureAttemptRequest>({
+  name: name(),
+  notes: optional(text()),
+});
+
+export const updateProofedItemRequestSchema = object<UpdateProofedItemRequest>({
+  name: optional(name()),
+  notes: optional(text()),
+  version: optional(version()),
+});
+
+export const photoUploadRequestSchema = object<PhotoUploadRequest>({
+  attemptId: string({ min: 1 }),
+  fileName: string({ min: 1, max: 200, pattern: /^[^/\\]+$/ }),
+  contentType: oneOf(PHOTO_CONTENT_TYPES),
+});
+
+export const photoDownloadRequestSchema = object<PhotoDownloadRequest>({
+  key: string({ min: 1, max: 1024 }),
+  size: optional(oneOf(PHOTO_SIZES)),
+});
+
+export const photoDownloadUrlsRequestSchema = object<PhotoDownloadUrlsRequest>({
+  attemptId: string({ min: 1 }),
+  size: optional(oneOf(PHOTO_SIZES)),
+});
+
+export const updatePreferencesRequestSchema = object<UpdatePreferencesRequest>({
+  name: optional(string({ max: MAX_NAME_LENGTH })),
+  temperatureUnit: optional(oneOf(TEMP_UNITS)),
+  measurementSystem: optional(oneOf(MEASUREMENT_SYSTEMS)),
+  seenBadgeIds: optional(array(string())),
+  shoppingReminderEnabled: optional(boolean()),
+  shoppingReminderDaysBefore: optional(number({ min: 0, max: 30, integer: true })),
+});
+
+export const submitIngredientRequestSchema = object<SubmitIngredientRequest>({
+  name: name(),
+});
+
+export const approveIngredientSubmissionRequestSchema = object<ApproveIngredientSubmissionRequest>({
+  category: oneOf(INGREDIENT_CATEGORIES),
+  name: optional(name()),
+});
+
+export const rejectIngredientSubmissionRequestSchema = object<RejectIngredientSubmissionRequest>({
+  reason: optional(string({ max: MAX_NAME_LENGTH })),
+});
+
+export const calorieEstimateRequestSchema = object<CalorieEstimateRequest>({
+  ingredients: array(ingredientSchema),
+});
+
+export const aiParseIngredientsRequestSchema = object<AiParseIngredientsRequest>({
+  rawText: text(),
+  measurementSystem: oneOf(MEASUREMENT_SYSTEMS),
+});
+
+// Recipe pages are mostly markup; only the structured data inside is kept
+export const recipeHtmlImportRequestSchema = object<RecipeHtmlImportRequest>({
+  html: string({ min: 1, max: 2_000_000 }),
+  url: optional(string({ max: 2000 })),
+  measurementSystem: oneOf(MEASUREMENT_SYSTEMS),
+});
+
+// The file is parsed into recipes first; each one is then checked against createRecipeRequestSchema
+export const recipeImportRequestSchema = object<RecipeImportRequest>({
+  format: oneOf(RECIPE_FORMATS),
+  files: array(string({ min: 1, max: 1_000_000 }), { min: 1, max: 100 }),
+});
+
+export const aiAdviceRequestSchema = object<AiAdviceRequest>({
+  outcomeNotes: text(),
+  photoUrl: optional(string({ max: 4000 })),
+  context: object<AiAdviceRequest['context']>({
+    attemptName: name(),
+    itemUsages: array(
+      object<AiAdviceRequest['context']['itemUsages'][number]>({
+        itemName: name(),
+        recipeName: name(),
+        variantName: optional(name()),
+        scaleFactor: optional(number({ positive: true, max: 100 })),
+        ingredients: array(ingredientSchema),
+        bakeTime: optional(bakeTime()),
+        bakeTemp: optional(bakeTemp()),
+        bakeTempUnit: optional(oneOf(TEMP_UNITS)),
+      })
+    ),
+  }),
+  milestoneContext: optional(
+    object<NonNullable<AiAdviceRequest['milestoneContext']>>({
+      currentTotalNibs: number({ min: 0 }),
+      nextLevelTitle: string({ max: MAX_NAME_LENGTH }),
+      nibsToNextLevel: number({ min: 0 }),
+    })
+  ),
+});
+
+export const setCurrentAiAdviceRequestSchema = object<SetCurrentAiAdviceRequest>({
+  adviceId: string({ min: 1, max: 100 }),
+});
+
+export const aiContainerScaleRequestSchema = object<AiContainerScaleRequest>({
+  sourceContainer: containerInfoSchema,
+  targetContainer: containerInfoSchema,
+  context: object<AiContainerScaleRequest['context']>({
+    itemName: name(),
+    itemType: oneOf(ITEM_TYPES),
+    recipeName: name(),
+    ingredients: array(ingredientSchema),
+    bakeTime: optional(bakeTime()),
+    bakeTemp: optional(bakeTemp()),
+    bakeTempUnit: optional(oneOf(TEMP_UNITS)),
+  }),
+});
+
+const crumbChatContextSchema = object<CrumbChatRequest['context']>({
+  attemptName: name(),
+  focusedItem: object<CrumbChatRequest['context']['focusedItem']>({
+    itemName: name(),
+    recipeName: name(),
+    variantName: optional(name()),
+    scaleFactor: optional(number({ positive: true, max: 100 })),
+    ingredients: array(ingredientSchema),
+    prepNotes: optional(text()),
+    variantNotes: optional(text()),
+    bakeTime: optional(bakeTime()),
+    bakeTemp: optional(bakeTemp()),
+    bakeTempUnit: optional(oneOf(TEMP_UNITS)),
+  }),
+  otherItems: array(string({ max: MAX_NAME_LENGTH })),
+});
+
+export const crumbChatRequestSchema = object<CrumbChatRequest>({
+  itemUsageKey: string({ min: 1, max: 300 }),
+  message: string({ min: 1, max: 4000 }),
+  context: crumbChatContextSchema,
+});
+
+const chatMessageSchema = object<ChatMessage>({
+  role: oneOf(['user', 'assistant'] as const),
+  content: text(),
+});
+
+export const legacyCrumbChatRequestSchema = object<LegacyCrumbChatRequest>({
+  message: string({ min: 1, max: 4000 }),
+  chatHistory: array(chatMessageSchema, { max: 100 }),
+  context: crumbChatContextSchema,
+});
+
+// Account import: entities are checked in the shape the export writes them
+
+const id = () => string({ min: 1, max: 100 });
+const timestamp = () => string({ min: 1, max: 40 });
+
+const aiAdviceTipSchema = object<AiAdviceTip>({
+  title: string({ max: MAX_NAME_LENGTH }),
+  suggestion: text(),
+  itemUsageIndex: number({ integer: true, min: 0 }),
+  ingredientOverrides: optional(array(ingredientSchema)),
+  bakeTime: optional(bakeTime()),
+  bakeTemp: optional(bakeTemp()),
+  bakeTempUnit: optional(oneOf(TEMP_UNITS)),
+});
+
+const aiAdviceResponseSchema = object<AiAdviceResponse>({
+  adviceId: optional(id()),
+  overview: text(),
+  nibsAwarded: number({ min: 0 }),
+  tips: array(aiAdviceTipSchema),
+  generatedAt: timestamp(),
+});
+
+const itemSchema = object<Item>({
+  itemId: id(),
+  userId: id(),
+  name: name(),
+  type: oneOf(ITEM_TYPES),
+  notes: optional(text()),
+  version: optional(version()),
+  deletedAt: optional(timestamp()),
+  createdAt: timestamp(),
+  updatedAt: timestamp(),
+});
+
+const recipeSchema = object<Recipe>({
+  recipeId: id(),
+  userId: id(),
+  itemId: id(),
+  name: name(),
+  ingredients: array(ingredientSchema),
+  prepNotes: optional(text()),
+  bakeTime: optional(bakeTime()),
+  bakeTemp: optional(bakeTemp()),
+  bakeTempUnit: optional(oneOf(TEMP_UNITS)),
+  customScales: optional(array(number({ positive: true, max: 100 }))),
+  container: optional(containerInfoSchema),
+  supplierId: optional(string()),
+  customSourceName: optional(string({ max: MAX_NAME_LENGTH })),
+  customSourceUrl: optional(string({ max: 2000 })),
+  isStoreBought: optional(boolean()),
+  brand: optional(string({ max: MAX_NAME_LENGTH })),
+  productName: optional(string({ max: MAX_NAME_LENGTH })),
+  purchaseQuantity: optional(string({ max: 50 })),
+  purchaseUnit: optional(string({ max: 50 })),
+  energyKcal100g: optional(number({ min: 0 })),
+  sugars100g: optional(number({ min: 0 })),
+  version: optional(version()),
+  deletedAt: optional(timestamp()),
+  deletedWith: optional(id()),
+  createdAt: timestamp(),
+  updatedAt: timestamp(),
+});
+
+const variantSchema = object<Variant>({
+  variantId: id(),
+  userId: id(),
+  recipeId: id(),
+  itemId: id(),
+  name: name(),
+  ingredientOverrides: array(ingredientSchema),
+  bakeTime: optional(bakeTime()),
+  bakeTemp: optional(bakeTemp()),
+  bakeTempUnit: optional(oneOf(TEMP_UNITS)),
+  notes: optional(text()),
+  version: optional(version()),
+  deletedAt: optional(timestamp()),
+  deletedWith: optional(id()),
+  createdAt: timestamp(),
+  updatedAt: timestamp(),
+});
+
+const photoRenditionsSchema = object<PhotoRenditions>({
+  key: string({ min: 1 }),
+  thumbnail: string({ min: 1 }),
+  medium: string({ min: 1 }),
+  full: string({ min: 1 }),
+});
+
+const attemptSchema = object<Attempt>({
+  attemptId: id(),
+  userId: id(),
+  name: name(),
+  date: isoDate(),
+  itemUsages: array(itemUsageSchema),
+  notes: optional(text()),
+  outcomeNotes: optional(text()),
+  photoKeys: optional(array(string({ min: 1 }))),
+  mainPhotoKey: optional(string({ min: 1 })),
+  photoRenditions: optional(array(photoRenditionsSchema)),
+  status: optional(oneOf(ATTEMPT_STATUSES)),
+  flowType: optional(oneOf(['guided', 'direct'] as const)),
+  starred: optional(boolean()),
+  aiAdvice: optional(aiAdviceResponseSchema),
+  aiAdviceHistory: optional(array(aiAdviceResponseSchema)),
+  nutrition: optional(nutritionInfoSchema),
+  version: optional(version()),
+  deletedAt: optional(timestamp()),
+  createdAt: timestamp(),
+});
+
+const proofedItemSchema = object<ProofedItem>({
+  proofedItemId: id(),
+  userId: id(),
+  name: name(),
+  capturedFromAttemptId: id(),
+  itemConfigs: array(itemUsageSchema),
+  notes: optional(text()),
+  version: optional(version()),
+  createdAt: timestamp(),
+});
+
+const userPreferencesSchema = object<UserPreferences>({
+  userId: id(),
+  name: optional(string({ max: MAX_NAME_LENGTH })),
+  temperatureUnit: oneOf(TEMP_UNITS),
+  measurementSystem: optional(oneOf(MEASUREMENT_SYSTEMS)),
+  seenBadgeIds: optional(array(string())),
+  shoppingReminderEnabled: optional(boolean()),
+  shoppingReminderDaysBefore: optional(number({ min: 0, max: 30, integer: true })),
+  createdAt: timestamp(),
+  updatedAt: timestamp(),
+});
+
+const exportedPhotoSchema = object<ExportedPhoto>({
+  key: string({ min: 1, max: 1024 }),
+  path: string({ min: 1, max: 1024 }),
+});
+
+export const accountExportManifestSchema = object<AccountExportManifest>({
+  formatVersion: number({ integer: true, min: 1, max: ACCOUNT_EXPORT_FORMAT_VERSION }),
+  exportedAt: timestamp(),
+  userId: id(),
+  items: array(itemSchema),
+  recipes: array(recipeSchema),
+  variants: array(variantSchema),
+  attempts: array(attemptSchema),
+  proofedItems: array(proofedItemSchema),
+  preferences: nullable(userPreferencesSchema),
+  photos: array(exportedPhotoSchema),
+});
+
+export const accountImportRequestSchema = object<AccountImportRequest>({
+  manifest: accountExportManifestSchema,
+  photos: optional(
+    array(
+      object<ImportedPhoto>({
+        path: string({ min: 1, max: 1024 }),
+        contentType: string({ pattern: /^image\/[\w.+-]+$/ }),
+        data: string({ min: 1 }),
+      })
+    )
+  ),
+});